@@ -1,5 +1,6 @@
 import "./globals.css";
 import { Inter } from "next/font/google";
+import I18nProvider from "../components/i18n-provider";
 import ServiceWorkerRegister from "../components/service-worker-register";
 import type { Metadata, Viewport } from "next";
 
@@ -12,11 +13,10 @@ export const metadata: Metadata = {
   title: "LocalPlate - Offline-first Calorie Tracker",
   description:
     "A privacy-first calorie tracker tuned for South Asian meals with offline logging and zero paywalls.",
-  manifest: "/manifest.json",
   icons: {
     icon: "/icons/icon.svg",
     shortcut: "/icons/icon.svg",
-    apple: "/icons/icon.svg"
+    apple: "/icons/icon-192.png"
   }
 };
 
@@ -34,9 +34,11 @@ export default function RootLayout({
 }) {
   return (
     <html lang="en" className={inter.variable}>
-      <body className="min-h-screen bg-gradient-to-br from-slate-950 to-slate-900">
-        <ServiceWorkerRegister />
-        {children}
+      <body className="min-h-screen bg-gradient-to-br from-slate-950 to-slate-900 print:bg-white print:bg-none">
+        <I18nProvider>
+          <ServiceWorkerRegister />
+          {children}
+        </I18nProvider>
       </body>
     </html>
   );
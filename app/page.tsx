@@ -1,9 +1,77 @@
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
-import { FOODS, type FoodItem } from '../data/foods';
-import { deleteLog, listLogsByDate, putLog, type LogEntry } from '../lib/db';
-import { formatDateKey, sumMacros, uid } from '../lib/utils';
+import Link from 'next/link';
+import { useCallback, useDeferredValue, useEffect, useMemo, useState } from 'react';
+import BackupPanel from '../components/backup-panel';
+import BarcodePanel from '../components/barcode-panel';
+import BodyTracker from '../components/body-tracker';
+import CopyEntriesPanel from '../components/copy-entries-panel';
+import CustomFoodEditor from '../components/custom-food-editor';
+import DayHistory from '../components/day-history';
+import FastingPanel from '../components/fasting-panel';
+import FastingTimer from '../components/fasting-timer';
+import GoalProfileCard from '../components/goal-profile-card';
+import HistoryDashboard from '../components/history-dashboard';
+import HouseholdSwitcher from '../components/household-switcher';
+import { useI18n, type I18n } from '../components/i18n-provider';
+import LanguagePicker from '../components/language-picker';
+import LogEntryEditor from '../components/log-entry-editor';
+import MicronutrientFields, { toMicroDraft, type MicroDraft } from '../components/micronutrient-fields';
+import NutrientPanel from '../components/nutrient-panel';
+import QuickLogBar, { type QuickLogItem } from '../components/quick-log-bar';
+import RecipeBuilder from '../components/recipe-builder';
+import ReminderPanel from '../components/reminder-panel';
+import SharedDishPanel, { type SharedPortion } from '../components/shared-dish-panel';
+import SyncPanel from '../components/sync-panel';
+import TrashPanel from '../components/trash-panel';
+import { CATALOGUE_VERSION, FOODS, type FoodItem } from '../data/foods';
+import {
+  countLogsByFood,
+  deleteCustomFood,
+  deleteLog,
+  deleteProfile,
+  deleteRecipe,
+  getActiveProfileId,
+  getBodyLog,
+  getGoalProfileForDate,
+  getLatestWeight,
+  listCustomFoods,
+  listFastingSchedules,
+  listFavouriteKeys,
+  listLatestEntries,
+  listLogsByDate,
+  listProfiles,
+  listRecipes,
+  purgeExpiredTrash,
+  putCustomFood,
+  putFastingSchedules,
+  putGoalProfile,
+  putLog,
+  putProfile,
+  putRecipe,
+  replayJournal,
+  restoreLog,
+  setActiveProfileId,
+  toggleFavourite,
+  updateBodyLog,
+  type JournalRecord,
+  type LogEntry
+} from '../lib/db';
+import type { BodyLog } from '../lib/body';
+import { dayKeyFor, formatLoggedTime, logTimestamp, utcOffsetAt } from '../lib/day';
+import { fastingPeriodAt, vratScheduleFor, type FastingSchedule } from '../lib/fasting';
+import { localeInfo, type MessageKey } from '../lib/i18n';
+import { MEAL_SLOTS, groupByMealSlot, mealSlotForDate, type MealSlot } from '../lib/meals';
+import { parseMicros, scaleMicros } from '../lib/nutrients';
+import { GRAM_UNIT, SERVING_UNIT, defaultQuantityFor, portionOptions, resolveServing } from '../lib/portions';
+import { DEFAULT_PROFILE_ID, createProfile, defaultProfile, updateProfile, type Profile } from '../lib/profiles';
+import { copyEntriesToDate, quickKey, relogEntry } from '../lib/quick-log';
+import { recipeToFood, type Recipe } from '../lib/recipes';
+import { buildSearchIndex, searchFoods } from '../lib/search';
+import type { SyncStatus } from '../lib/sync';
+import { DEFAULT_TARGETS, computeTargets, macroProgress, type GoalProfile, type MacroKey } from '../lib/targets';
+import { EMPTY_HISTORY, recordChanges, redoStep, undoStep, type UndoHistory } from '../lib/undo';
+import { formatDateKey, parseTags, scaleMacros, sumMacros, uid } from '../lib/utils';
 
 interface CustomEntryState {
   name: string;
@@ -11,9 +79,13 @@ interface CustomEntryState {
   protein: string;
   carbs: string;
   fats: string;
+  micros: MicroDraft;
   quantity: string;
   unit: string;
+  mealSlot: MealSlot | 'auto';
   notes: string;
+  saveFood: boolean;
+  tags: string;
 }
 
 const initialCustom: CustomEntryState = {
@@ -22,16 +94,86 @@ const initialCustom: CustomEntryState = {
   protein: '',
   carbs: '',
   fats: '',
+  micros: toMicroDraft(),
   quantity: '1',
-  unit: 'serving',
-  notes: ''
+  unit: SERVING_UNIT,
+  mealSlot: 'auto',
+  notes: '',
+  saveFood: false,
+  tags: ''
 };
 
+const summaryTiles: { key: MacroKey; label: MessageKey; unit: string }[] = [
+  { key: 'calories', label: 'macro.calories', unit: 'kcal' },
+  { key: 'protein', label: 'macro.protein', unit: 'g' },
+  { key: 'carbs', label: 'macro.carbs', unit: 'g' },
+  { key: 'fats', label: 'macro.fats', unit: 'g' }
+];
+
+/**
+ * Recipe entries rescale from their own logged macros rather than the current recipe,
+ * so editing a recipe never rewrites past days.
+ */
+const foodFromEntry = (entry: LogEntry): FoodItem => ({
+  id: entry.recipeId ?? entry.id,
+  name: entry.name,
+  description: entry.notes ?? '',
+  calories: entry.calories,
+  protein: entry.protein,
+  carbs: entry.carbs,
+  fats: entry.fats,
+  micros: entry.micros,
+  defaultQuantity: entry.quantity,
+  unit: entry.unit,
+  tags: [],
+  locale: []
+});
+
+const connectionLabel = (isOnline: boolean, sync: SyncStatus | null, { t, time }: I18n) => {
+  if (!isOnline) {
+    return t(sync ? 'connection.offlineSync' : 'connection.offline');
+  }
+  if (!sync) return t('connection.online');
+  if (sync.lastError) return t('connection.syncPaused');
+  if (!sync.lastSyncedAt) return t('connection.syncWaiting');
+  return t('connection.synced', { time: time(new Date(sync.lastSyncedAt)) });
+};
+
+const RECENT_LIMIT = 8;
+
+/** How long the "Deleted … Undo" toast stays up; undo itself stays available for the session. */
+const UNDO_TOAST_MS = 6000;
+
+/** Catalogue tag for foods eaten on religious fast days (vrat, upvas). */
+const VRAT_TAG = 'vrat';
+
+const quickDetail = (entry: Pick<LogEntry, 'quantity' | 'unit' | 'calories'>, { number, unit }: I18n) =>
+  `${number(entry.quantity, 2)} ${unit(entry.unit)} • ${number(entry.calories, 0)} kcal`;
+
+/** Where a food comes from, for the catalogue card: regions for catalogue foods, otherwise who added it. */
+const foodOrigin = (food: FoodItem, { t }: I18n): string[] => {
+  if (food.recipe) return [t('catalogue.myRecipes')];
+  if (food.tags.includes('packaged')) return food.locale.length > 0 ? food.locale : [t('catalogue.packaged')];
+  return food.custom ? [t('catalogue.myFoods')] : food.locale;
+};
+
+const formatAmount = (key: MacroKey, value: number, number: I18n['number']) =>
+  number(value, key === 'calories' ? 0 : 1);
+
 export default function Home() {
+  const i18n = useI18n();
+  const { t, number, mealLabel, foodName } = i18n;
   const [selectedDateKey, setSelectedDateKey] = useState(() => formatDateKey(new Date()));
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  // `null` until the stored choice is read, so nothing loads for the wrong person first.
+  const [activeProfileId, setActiveProfile] = useState<string | null>(null);
   const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [goalProfile, setGoalProfile] = useState<GoalProfile | null>(null);
+  const [bodyLog, setBodyLog] = useState<BodyLog | null>(null);
+  const [latestWeightKg, setLatestWeightKg] = useState<number | null>(null);
   const [query, setQuery] = useState('');
   const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [catalogueSlot, setCatalogueSlot] = useState<MealSlot | 'auto'>('auto');
   const [loading, setLoading] = useState(true);
   const [isOnline, setIsOnline] = useState<boolean>(() => {
     if (typeof navigator === 'undefined') {
@@ -39,6 +181,23 @@ export default function Home() {
     }
     return navigator.onLine;
   });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [units, setUnits] = useState<Record<string, string>>({});
+  const [customFoods, setCustomFoods] = useState<FoodItem[]>([]);
+  const [editingFoodId, setEditingFoodId] = useState<string | null>(null);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [frequencies, setFrequencies] = useState<Record<string, number>>({});
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  const [favouriteKeys, setFavouriteKeys] = useState<string[]>([]);
+  const [latestEntries, setLatestEntries] = useState<LogEntry[]>([]);
+  const [logPanel, setLogPanel] = useState<'copy' | 'trash' | 'history' | null>(null);
+  const [history, setHistory] = useState<UndoHistory>(EMPTY_HISTORY);
+  // The toast undoes its own delete, even after other changes have been made on top of it.
+  const [deletedToast, setDeletedToast] = useState<{ name: string; changes: JournalRecord[] } | null>(null);
+  const [sharingFoodId, setSharingFoodId] = useState<string | null>(null);
+  const [fastingSchedules, setFastingSchedules] = useState<FastingSchedule[]>([]);
+  const [vratOnly, setVratOnly] = useState(true);
+  const [restoreCount, setRestoreCount] = useState(0);
   const [custom, setCustom] = useState<CustomEntryState>(initialCustom);
   const [quantities, setQuantities] = useState<Record<string, number>>(() =>
     FOODS.reduce<Record<string, number>>((acc, food) => {
@@ -47,12 +206,37 @@ export default function Home() {
     }, {})
   );
 
+  const profileId = activeProfileId ?? DEFAULT_PROFILE_ID;
+  const activeProfile = profiles.find((profile) => profile.id === profileId) ?? defaultProfile();
+  const { dayStartHour } = activeProfile;
+
   useEffect(() => {
+    Promise.all([listProfiles(), getActiveProfileId()])
+      .then(([stored, storedId]) => {
+        const active = stored.find((profile) => profile.id === storedId) ?? stored[0] ?? defaultProfile();
+        setProfiles(stored);
+        setActiveProfile(active.id);
+        setSelectedDateKey(dayKeyFor(new Date(), active.dayStartHour));
+      })
+      .catch((error) => {
+        console.error('Failed to load profiles', error);
+        setActiveProfile(DEFAULT_PROFILE_ID);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!activeProfileId) return;
     const load = async () => {
       try {
         setLoading(true);
-        const next = await listLogsByDate(selectedDateKey);
+        const [next, profile, body] = await Promise.all([
+          listLogsByDate(activeProfileId, selectedDateKey),
+          getGoalProfileForDate(activeProfileId, selectedDateKey),
+          getBodyLog(activeProfileId, selectedDateKey)
+        ]);
         setLogs(next);
+        setGoalProfile(profile);
+        setBodyLog(body);
       } catch (error) {
         console.error('Failed to load logs', error);
       } finally {
@@ -61,7 +245,38 @@ export default function Home() {
     };
 
     load();
-  }, [selectedDateKey]);
+  }, [activeProfileId, selectedDateKey]);
+
+  useEffect(() => {
+    Promise.all([listCustomFoods(), listRecipes()])
+      .then(([foods, savedRecipes]) => {
+        setCustomFoods(foods);
+        setRecipes(savedRecipes);
+      })
+      .catch((error) => console.error('Failed to load saved foods', error));
+    purgeExpiredTrash().catch((error) => console.error('Failed to purge trash', error));
+  }, []);
+
+  useEffect(() => {
+    if (!deletedToast) return;
+    const timer = window.setTimeout(() => setDeletedToast(null), UNDO_TOAST_MS);
+    return () => window.clearTimeout(timer);
+  }, [deletedToast]);
+
+  useEffect(() => {
+    if (!activeProfileId) return;
+    Promise.all([
+      countLogsByFood(activeProfileId),
+      listFavouriteKeys(activeProfileId),
+      listFastingSchedules(activeProfileId)
+    ])
+      .then(([counts, favourites, schedules]) => {
+        setFrequencies(counts);
+        setFavouriteKeys(favourites);
+        setFastingSchedules(schedules);
+      })
+      .catch((error) => console.error('Failed to load favourites', error));
+  }, [activeProfileId]);
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
@@ -78,26 +293,98 @@ export default function Home() {
     };
   }, []);
 
-  const filteredFoods = useMemo(() => {
-    const normalizedQuery = query.trim().toLowerCase();
-    return FOODS.filter((food) => {
-      const matchesQuery =
-        normalizedQuery.length === 0 ||
-        food.name.toLowerCase().includes(normalizedQuery) ||
-        food.description.toLowerCase().includes(normalizedQuery) ||
-        food.tags.some((tag) => tag.includes(normalizedQuery));
-      const matchesTag = !tagFilter || food.tags.includes(tagFilter);
-      return matchesQuery && matchesTag;
+  useEffect(() => {
+    if (!activeProfileId) return;
+    getLatestWeight(activeProfileId, selectedDateKey)
+      .then((latest) => setLatestWeightKg(latest?.weightKg ?? null))
+      .catch((error) => console.error('Failed to load latest weight', error));
+  }, [activeProfileId, selectedDateKey, bodyLog]);
+
+  // Any change to the day's log can change what was eaten last, so recents follow `logs`.
+  useEffect(() => {
+    if (!activeProfileId) return;
+    listLatestEntries(activeProfileId, RECENT_LIMIT, favouriteKeys)
+      .then(setLatestEntries)
+      .catch((error) => console.error('Failed to load recent foods', error));
+  }, [activeProfileId, logs, favouriteKeys]);
+
+  const historyKey = useMemo(() => ({ logs, bodyLog }), [logs, bodyLog]);
+
+  const ingredientFoods = useMemo(() => [...customFoods, ...FOODS], [customFoods]);
+  const allFoods = useMemo(() => [...recipes.map(recipeToFood), ...ingredientFoods], [recipes, ingredientFoods]);
+  // Former catalogue ids keep resolving, so entries logged before a rename still rescale.
+  const foodsById = useMemo(
+    () =>
+      new Map(
+        allFoods.flatMap((food) => [food.id, ...(food.formerIds ?? [])].map((id) => [id, food] as const))
+      ),
+    [allFoods]
+  );
+
+  const searchIndex = useMemo(() => buildSearchIndex(allFoods), [allFoods]);
+
+  /** Entries keep the name they were logged under; unchanged catalogue names follow the chosen language. */
+  const entryName = useCallback(
+    (entry: Pick<LogEntry, 'name' | 'foodId'>) => {
+      const food = entry.foodId ? foodsById.get(entry.foodId) : undefined;
+      return food && food.name === entry.name ? foodName(food) : entry.name;
+    },
+    [foodsById, foodName]
+  );
+
+  const vratSchedule = useMemo(
+    () => vratScheduleFor(fastingSchedules, selectedDateKey),
+    [fastingSchedules, selectedDateKey]
+  );
+  const vratFilter = Boolean(vratSchedule) && vratOnly;
+
+  // The input updates on every key press; the results catch up when the phone has time.
+  const deferredQuery = useDeferredValue(query);
+  const filteredFoods = useMemo(
+    () =>
+      searchFoods(searchIndex, deferredQuery, { frequencies }).filter(
+        (food) => (!tagFilter || food.tags.includes(tagFilter)) && (!vratFilter || food.tags.includes(VRAT_TAG))
+      ),
+    [searchIndex, deferredQuery, frequencies, tagFilter, vratFilter]
+  );
+
+  const latestByKey = useMemo(
+    () => new Map(latestEntries.map((entry) => [quickKey(entry), entry])),
+    [latestEntries]
+  );
+
+  const quickItems = useMemo(() => {
+    const favourites = favouriteKeys.flatMap((key): QuickLogItem[] => {
+      const entry = latestByKey.get(key);
+      const food = foodsById.get(key);
+      if (entry) return [{ key, name: entryName(entry), detail: quickDetail(entry, i18n), favourite: true }];
+      if (food) {
+        const detail = quickDetail({ ...food, quantity: food.defaultQuantity }, i18n);
+        return [{ key, name: foodName(food), detail, favourite: true }];
+      }
+      return [];
     });
-  }, [query, tagFilter]);
+    const recents = latestEntries
+      .filter((entry) => !favouriteKeys.includes(quickKey(entry)))
+      .slice(0, RECENT_LIMIT)
+      .map((entry) => ({
+        key: quickKey(entry),
+        name: entryName(entry),
+        detail: quickDetail(entry, i18n),
+        favourite: false
+      }));
+    return { favourites, recents };
+  }, [favouriteKeys, latestByKey, latestEntries, foodsById, entryName, i18n]);
 
   const totals = useMemo(() => sumMacros(logs), [logs]);
+  const logsBySlot = useMemo(() => groupByMealSlot(logs), [logs]);
+  const targets = useMemo(() => (goalProfile ? computeTargets(goalProfile) : DEFAULT_TARGETS), [goalProfile]);
 
   const tags = useMemo(() => {
     const unique = new Set<string>();
-    FOODS.forEach((food) => food.tags.forEach((tag) => unique.add(tag)));
+    allFoods.forEach((food) => food.tags.forEach((tag) => unique.add(tag)));
     return Array.from(unique).sort();
-  }, []);
+  }, [allFoods]);
 
   const handleQuantityChange = (foodId: string, nextValue: number) => {
     setQuantities((prev) => ({
@@ -106,59 +393,326 @@ export default function Home() {
     }));
   };
 
-  const handleAddFood = async (food: FoodItem) => {
-    const quantity = quantities[food.id] ?? food.defaultQuantity;
-    const factor = quantity / food.defaultQuantity;
+  const handleUnitChange = (food: FoodItem, unit: string) => {
+    setUnits((prev) => ({ ...prev, [food.id]: unit }));
+    setQuantities((prev) => ({ ...prev, [food.id]: defaultQuantityFor(food, unit) }));
+  };
+
+  const catalogueSlotFor = (now: Date) => (catalogueSlot === 'auto' ? mealSlotForDate(now) : catalogueSlot);
+
+  const logTimeFor = (now: Date) => logTimestamp(selectedDateKey, dayStartHour, now);
+
+  /** Logging during a fast is allowed (the fast may have been broken), but only after a prompt. */
+  const confirmOutsideFast = (at: Date) => {
+    const fast = fastingPeriodAt(fastingSchedules, at);
+    if (!fast) return true;
+    return window.confirm(t('fast.confirm', { name: fast.name, time: i18n.time(fast.end) }));
+  };
+
+  const remember = (records: (JournalRecord | null)[]): JournalRecord[] | null => {
+    const changes = records.filter((record): record is JournalRecord => record !== null);
+    if (changes.length === 0) return null;
+    setHistory((prev) => recordChanges(prev, changes));
+    return changes;
+  };
+
+  const logFood = async (
+    food: FoodItem,
+    quantity: number,
+    unit: string,
+    forProfileId = profileId
+  ): Promise<JournalRecord | null> => {
+    const { factor, grams } = resolveServing(food, quantity, unit);
     const now = new Date();
-    const createdAt = new Date(`${selectedDateKey}T${now.toTimeString().slice(0, 8)}`);
+    const createdAt = logTimeFor(now);
+    if (forProfileId === profileId && !confirmOutsideFast(createdAt)) return null;
 
     const entry: LogEntry = {
       id: uid('food'),
+      profileId: forProfileId,
       name: food.name,
       foodId: food.id,
-      calories: Math.round(food.calories * factor),
-      protein: Number((food.protein * factor).toFixed(1)),
-      carbs: Number((food.carbs * factor).toFixed(1)),
-      fats: Number((food.fats * factor).toFixed(1)),
+      recipeId: food.recipe ? food.id : undefined,
+      ...scaleMacros(food, factor),
+      micros: scaleMicros(food.micros, factor),
       quantity,
-      unit: food.unit,
+      unit,
+      grams,
       createdAt: createdAt.toISOString(),
+      dateKey: selectedDateKey,
+      utcOffset: utcOffsetAt(createdAt),
+      mealSlot: catalogueSlotFor(now),
       notes: food.description
     };
 
-    await putLog(entry);
-    const next = await listLogsByDate(selectedDateKey);
+    const record = await putLog(entry);
+    if (forProfileId !== profileId) return record;
+    setFrequencies((prev) => ({ ...prev, [food.id]: (prev[food.id] ?? 0) + 1 }));
+    const next = await listLogsByDate(profileId, selectedDateKey);
     setLogs(next);
+    return record;
+  };
+
+  const handleAddFood = async (food: FoodItem) =>
+    remember([await logFood(food, quantities[food.id] ?? food.defaultQuantity, units[food.id] ?? food.unit)]);
+
+  /** Scanned products join the saved foods, so later they turn up in search and quick log without a scan. */
+  const handleLogProduct = async (food: FoodItem, quantity: number, unit: string) => {
+    await putCustomFood(food);
+    setCustomFoods(await listCustomFoods());
+    remember([await logFood(food, quantity, unit)]);
+  };
+
+  const handleLogShared = async (food: FoodItem, portions: SharedPortion[]) => {
+    const unit = units[food.id] ?? food.unit;
+    const records: (JournalRecord | null)[] = [];
+    for (const portion of portions) {
+      records.push(await logFood(food, portion.quantity, unit, portion.profileId));
+    }
+    remember(records);
+  };
+
+  /**
+   * Foods still in the catalogue are re-logged from their current macros at the last-used
+   * quantity; one-off custom entries are copied as they were.
+   */
+  const handleQuickLog = async (key: string) => {
+    const entry = latestByKey.get(key);
+    const food = foodsById.get(entry?.foodId ?? key);
+    if (food) {
+      remember([await logFood(food, entry?.quantity ?? food.defaultQuantity, entry?.unit ?? food.unit)]);
+      return;
+    }
+    if (!entry || !confirmOutsideFast(logTimeFor(new Date()))) return;
+
+    remember([await putLog(relogEntry(entry, selectedDateKey, catalogueSlotFor(new Date()), dayStartHour))]);
+    setLogs(await listLogsByDate(profileId, selectedDateKey));
+  };
+
+  const handleToggleFavourite = async (key: string) => {
+    setFavouriteKeys(await toggleFavourite(profileId, key));
+  };
+
+  const handleCopyEntries = async (entries: LogEntry[]) => {
+    const copies = copyEntriesToDate(entries, selectedDateKey, dayStartHour);
+    const records: JournalRecord[] = [];
+    for (const copy of copies) {
+      records.push(await putLog(copy));
+    }
+    remember(records);
+    setFrequencies(await countLogsByFood(profileId));
+    setLogs(await listLogsByDate(profileId, selectedDateKey));
   };
 
   const handleCustomSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     const quantity = Number(custom.quantity) || 1;
     const now = new Date();
-    const createdAt = new Date(`${selectedDateKey}T${now.toTimeString().slice(0, 8)}`);
+    const createdAt = logTimeFor(now);
+    if (!confirmOutsideFast(createdAt)) return;
+    const name = custom.name || t('custom.untitled');
+    const micros = parseMicros(custom.micros);
+    let foodId: string | undefined;
+
+    if (custom.saveFood) {
+      const food: FoodItem = {
+        id: uid('myfood'),
+        name,
+        description: custom.notes,
+        calories: Number(custom.calories) || 0,
+        protein: Number(custom.protein) || 0,
+        carbs: Number(custom.carbs) || 0,
+        fats: Number(custom.fats) || 0,
+        micros,
+        defaultQuantity: quantity,
+        unit: custom.unit || SERVING_UNIT,
+        tags: parseTags(custom.tags),
+        locale: [],
+        custom: true
+      };
+      await putCustomFood(food);
+      setCustomFoods(await listCustomFoods());
+      foodId = food.id;
+    }
 
     const entry: LogEntry = {
       id: uid('custom'),
-      name: custom.name || 'Untitled Meal',
+      profileId,
+      name,
+      foodId,
       calories: Number(custom.calories) || 0,
       protein: Number(custom.protein) || 0,
       carbs: Number(custom.carbs) || 0,
       fats: Number(custom.fats) || 0,
+      micros,
       quantity,
-      unit: custom.unit || 'serving',
+      unit: custom.unit || SERVING_UNIT,
+      grams: custom.unit.trim().toLowerCase() === GRAM_UNIT ? quantity : undefined,
       createdAt: createdAt.toISOString(),
+      dateKey: selectedDateKey,
+      utcOffset: utcOffsetAt(createdAt),
+      mealSlot: custom.mealSlot === 'auto' ? mealSlotForDate(now) : custom.mealSlot,
       notes: custom.notes || undefined
     };
 
-    await putLog(entry);
-    const next = await listLogsByDate(selectedDateKey);
+    remember([await putLog(entry)]);
+    const next = await listLogsByDate(profileId, selectedDateKey);
     setLogs(next);
     setCustom(initialCustom);
   };
 
   const handleDelete = async (id: string) => {
-    await deleteLog(id);
+    const record = await deleteLog(id);
     setLogs((prev) => prev.filter((item) => item.id !== id));
+    const changes = remember([record]);
+    if (changes && record?.before) {
+      setDeletedToast({ name: entryName(record.before), changes });
+    }
+  };
+
+  const handleRestore = async (id: string) => {
+    remember([await restoreLog(id)]);
+    setLogs(await listLogsByDate(profileId, selectedDateKey));
+    setFrequencies(await countLogsByFood(profileId));
+  };
+
+  const reloadAfterReplay = async () => {
+    setEditingId(null);
+    setLogs(await listLogsByDate(profileId, selectedDateKey));
+    setFrequencies(await countLogsByFood(profileId));
+  };
+
+  /** Undoes `changes`, the latest batch unless given; the toast passes the delete it announced. */
+  const handleUndo = async (changes?: JournalRecord[]) => {
+    const step = undoStep(history, changes);
+    if (!step) return;
+    setDeletedToast(null);
+    setHistory(step.history);
+    await replayJournal(step.changes, 'before');
+    await reloadAfterReplay();
+  };
+
+  const handleRedo = async () => {
+    const step = redoStep(history);
+    if (!step) return;
+    setHistory(step.history);
+    await replayJournal(step.changes, 'after');
+    await reloadAfterReplay();
+  };
+
+  /** Switching person or reloading replaces the data undo would replay against, so history starts afresh. */
+  const forgetHistory = () => {
+    setHistory(EMPTY_HISTORY);
+    setDeletedToast(null);
+  };
+
+  const handleUpdate = async (entry: LogEntry) => {
+    remember([await putLog(entry)]);
+    setEditingId(null);
+    const next = await listLogsByDate(profileId, selectedDateKey);
+    setLogs(next);
+  };
+
+  const handleSaveCustomFood = async (food: FoodItem) => {
+    await putCustomFood(food);
+    setEditingFoodId(null);
+    setCustomFoods(await listCustomFoods());
+  };
+
+  const handleDeleteCustomFood = async (id: string) => {
+    await deleteCustomFood(id);
+    setCustomFoods((prev) => prev.filter((food) => food.id !== id));
+  };
+
+  const handleSaveRecipe = async (recipe: Recipe) => {
+    await putRecipe(recipe);
+    setRecipes(await listRecipes());
+  };
+
+  const handleDeleteRecipe = async (id: string) => {
+    await deleteRecipe(id);
+    setRecipes((prev) => prev.filter((recipe) => recipe.id !== id));
+  };
+
+  /** After an import or sync; a replaced backup may no longer contain the active profile. */
+  const reloadAll = async () => {
+    const stored = await listProfiles();
+    const nextProfileId = stored.some((profile) => profile.id === profileId) ? profileId : DEFAULT_PROFILE_ID;
+    const [next, profile, body, foods, savedRecipes, counts, favourites, schedules] = await Promise.all([
+      listLogsByDate(nextProfileId, selectedDateKey),
+      getGoalProfileForDate(nextProfileId, selectedDateKey),
+      getBodyLog(nextProfileId, selectedDateKey),
+      listCustomFoods(),
+      listRecipes(),
+      countLogsByFood(nextProfileId),
+      listFavouriteKeys(nextProfileId),
+      listFastingSchedules(nextProfileId)
+    ]);
+    setProfiles(stored);
+    setActiveProfile(nextProfileId);
+    setLogs(next);
+    setGoalProfile(profile);
+    setBodyLog(body);
+    setCustomFoods(foods);
+    setRecipes(savedRecipes);
+    setFrequencies(counts);
+    setFavouriteKeys(favourites);
+    setFastingSchedules(schedules);
+    forgetHistory();
+  };
+
+  // A restored backup can bring reminder settings, which the reminder panel only reads when it mounts.
+  const handleImported = async () => {
+    await reloadAll();
+    setRestoreCount((count) => count + 1);
+  };
+
+  const handleSelectProfile = async (nextProfileId: string) => {
+    if (nextProfileId === activeProfileId) return;
+    await setActiveProfileId(nextProfileId);
+    // Someone looking at "today" stays on today, even if the two people's days start at different hours.
+    const nextProfile = profiles.find((profile) => profile.id === nextProfileId);
+    const now = new Date();
+    if (nextProfile && selectedDateKey === dayKeyFor(now, dayStartHour)) {
+      setSelectedDateKey(dayKeyFor(now, nextProfile.dayStartHour));
+    }
+    setEditingId(null);
+    setLogPanel(null);
+    setSharingFoodId(null);
+    forgetHistory();
+    setActiveProfile(nextProfileId);
+  };
+
+  const handleCreateProfile = async (name: string) => {
+    const profile = createProfile(name, profiles);
+    await putProfile(profile);
+    setProfiles(await listProfiles());
+    await handleSelectProfile(profile.id);
+  };
+
+  const handleUpdateProfile = async (profile: Profile, changes: Pick<Profile, 'name' | 'dayStartHour'>) => {
+    await putProfile(updateProfile(profile, changes, profiles));
+    setProfiles(await listProfiles());
+  };
+
+  const handleDeleteProfile = async (profile: Profile) => {
+    await deleteProfile(profile.id);
+    setProfiles(await listProfiles());
+    await handleSelectProfile(DEFAULT_PROFILE_ID);
+  };
+
+  const handleUpdateBodyLog = async (change: (log: BodyLog) => BodyLog) => {
+    setBodyLog(await updateBodyLog(profileId, selectedDateKey, change));
+  };
+
+  const handleSaveFastingSchedules = async (schedules: FastingSchedule[]) => {
+    await putFastingSchedules(profileId, schedules);
+    setFastingSchedules(schedules);
+  };
+
+  const handleSaveGoalProfile = async (profile: GoalProfile) => {
+    await putGoalProfile(profile);
+    setGoalProfile(await getGoalProfileForDate(profile.profileId, selectedDateKey));
   };
 
   return (
@@ -167,19 +721,17 @@ export default function Home() {
         <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
           <div>
             <h1 className="text-3xl font-semibold text-white sm:text-4xl">LocalPlate</h1>
-            <p className="mt-2 max-w-xl text-sm text-slate-200 sm:text-base">
-              A lean, offline-friendly tracker built for local plates and privacy-first nutrition.
-              Log anything in seconds, even with zero signal.
-            </p>
+            <p className="mt-2 max-w-xl text-sm text-slate-200 sm:text-base">{t('app.tagline')}</p>
           </div>
-          <div className="space-y-2 text-right text-sm text-slate-300">
-            <p>{isOnline ? 'Synced. Working offline ready.' : 'Offline mode. All changes stored locally.'}</p>
-            <p>Daily nutrition stays on your device. No ads, no paywalls.</p>
+          <div className="space-y-2 text-end text-sm text-slate-300">
+            <LanguagePicker />
+            <p>{connectionLabel(isOnline, syncStatus, i18n)}</p>
+            <p>{t('app.privacy')}</p>
           </div>
         </div>
         <div className="mt-6 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
           <label className="text-sm text-slate-300">
-            Tracking date
+            {t('header.trackingDate')}
             <input
               type="date"
               className="mt-1 w-full rounded-xl border border-slate-700 bg-slate-900 px-3 py-2 text-slate-100 shadow-sm"
@@ -188,32 +740,81 @@ export default function Home() {
             />
           </label>
           <dl className="grid w-full grid-cols-2 gap-3 sm:w-auto sm:grid-cols-4">
-            {[
-              { label: 'Calories', value: `${totals.calories} kcal` },
-              { label: 'Protein', value: `${totals.protein.toFixed(1)} g` },
-              { label: 'Carbs', value: `${totals.carbs.toFixed(1)} g` },
-              { label: 'Fats', value: `${totals.fats.toFixed(1)} g` }
-            ].map((item) => (
-              <div key={item.label} className="rounded-xl border border-slate-800 bg-slate-900/60 px-4 py-3">
-                <dt className="text-xs uppercase text-slate-400">{item.label}</dt>
-                <dd className="text-lg font-semibold text-slate-100">{item.value}</dd>
-              </div>
-            ))}
+            {summaryTiles.map((item) => {
+              const consumed = totals[item.key];
+              const target = targets[item.key];
+              const progress = macroProgress(consumed, target);
+              return (
+                <div key={item.key} className="rounded-xl border border-slate-800 bg-slate-900/60 px-4 py-3">
+                  <dt className="text-xs uppercase text-slate-400">{t(item.label)}</dt>
+                  <dd className="text-lg font-semibold text-slate-100">
+                    {formatAmount(item.key, consumed, number)} {item.unit}
+                  </dd>
+                  <div
+                    className="mt-2 h-1.5 overflow-hidden rounded-full bg-slate-800"
+                    role="progressbar"
+                    aria-label={t('macro.progress', { label: t(item.label) })}
+                    aria-valuemin={0}
+                    aria-valuemax={target}
+                    aria-valuenow={consumed}
+                  >
+                    <div
+                      className={`h-full rounded-full ${progress.over ? 'bg-red-400' : 'bg-brand-light'}`}
+                      style={{ width: `${progress.ratio * 100}%` }}
+                    />
+                  </div>
+                  <p className={`mt-1 text-[11px] ${progress.over ? 'text-red-300' : 'text-slate-400'}`}>
+                    {progress.over
+                      ? t('macro.over', { amount: formatAmount(item.key, -progress.remaining, number), unit: item.unit })
+                      : t('macro.left', {
+                          amount: formatAmount(item.key, progress.remaining, number),
+                          unit: item.unit,
+                          target: formatAmount(item.key, target, number)
+                        })}
+                  </p>
+                </div>
+              );
+            })}
           </dl>
         </div>
+        {activeProfileId && (
+          <HouseholdSwitcher
+            profiles={profiles}
+            activeId={profileId}
+            onSelect={handleSelectProfile}
+            onCreate={handleCreateProfile}
+            onUpdate={handleUpdateProfile}
+            onDelete={handleDeleteProfile}
+          />
+        )}
+        <FastingTimer schedules={fastingSchedules} />
+        <NutrientPanel entries={logs} />
       </header>
 
       <section className="grid grid-cols-1 gap-6 lg:grid-cols-3">
         <article className="glass rounded-3xl border border-slate-800 px-6 py-6 lg:col-span-2">
           <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
             <div>
-              <h2 className="text-xl font-semibold text-white">Local food catalogue</h2>
-              <p className="text-sm text-slate-300">South Asian staples curated and ready to log offline.</p>
+              <h2 className="text-xl font-semibold text-white">{t('catalogue.title')}</h2>
+              <p className="text-sm text-slate-300">{t('catalogue.intro', { version: CATALOGUE_VERSION })}</p>
             </div>
             <div className="flex w-full gap-2 sm:w-auto">
+              <select
+                aria-label={t('catalogue.mealSlot')}
+                className="rounded-2xl border border-slate-800 bg-slate-900 px-3 py-2 text-sm text-slate-100"
+                value={catalogueSlot}
+                onChange={(event) => setCatalogueSlot(event.target.value as MealSlot | 'auto')}
+              >
+                <option value="auto">{t('catalogue.autoMeal')}</option>
+                {MEAL_SLOTS.map((slot) => (
+                  <option key={slot} value={slot}>
+                    {mealLabel(slot)}
+                  </option>
+                ))}
+              </select>
               <input
                 className="w-full rounded-2xl border border-slate-800 bg-slate-900 px-4 py-2 text-sm text-slate-100"
-                placeholder="Search masala dosa, dal, biryani..."
+                placeholder={t('catalogue.search')}
                 value={query}
                 onChange={(event) => setQuery(event.target.value)}
               />
@@ -225,11 +826,23 @@ export default function Home() {
                   setTagFilter(null);
                 }}
               >
-                Reset
+                {t('catalogue.reset')}
               </button>
             </div>
           </div>
           <div className="mt-4 flex flex-wrap gap-2">
+            {vratSchedule && (
+              <button
+                type="button"
+                onClick={() => setVratOnly((current) => !current)}
+                aria-pressed={vratOnly}
+                className={`rounded-full px-3 py-1 text-xs font-medium transition ${
+                  vratOnly ? 'bg-amber-500 text-slate-950' : 'bg-slate-800 text-amber-200 hover:bg-slate-700'
+                }`}
+              >
+                {t('catalogue.vratOnly', { name: vratSchedule.name })}
+              </button>
+            )}
             {tags.map((tag) => {
               const selected = tagFilter === tag;
               return (
@@ -246,64 +859,158 @@ export default function Home() {
               );
             })}
           </div>
+          <QuickLogBar
+            favourites={quickItems.favourites}
+            recents={quickItems.recents}
+            onLog={handleQuickLog}
+            onToggleFavourite={handleToggleFavourite}
+          />
           <div className="mt-6 grid gap-4 md:grid-cols-2">
             {filteredFoods.map((food) => (
               <div key={food.id} className="rounded-2xl border border-slate-800 bg-slate-900/60 p-5">
-                <div className="flex items-start justify-between gap-3">
-                  <div>
-                    <h3 className="text-lg font-semibold text-white">{food.name}</h3>
-                    <p className="text-xs uppercase tracking-wide text-brand-light">
-                      {food.locale.join(' • ')}
-                    </p>
-                  </div>
-                  <span className="rounded-full bg-slate-800 px-3 py-1 text-xs font-medium text-slate-300">
-                    {food.calories} kcal / {food.defaultQuantity} {food.unit}
-                  </span>
-                </div>
-                <p className="mt-3 text-sm text-slate-300">{food.description}</p>
-                <dl className="mt-4 grid grid-cols-4 gap-2 text-center text-xs text-slate-200">
-                  <div className="rounded-xl bg-slate-800/80 px-2 py-2">
-                    <dt className="text-[10px] uppercase text-slate-400">Protein</dt>
-                    <dd className="font-semibold">{food.protein} g</dd>
-                  </div>
-                  <div className="rounded-xl bg-slate-800/80 px-2 py-2">
-                    <dt className="text-[10px] uppercase text-slate-400">Carbs</dt>
-                    <dd className="font-semibold">{food.carbs} g</dd>
-                  </div>
-                  <div className="rounded-xl bg-slate-800/80 px-2 py-2">
-                    <dt className="text-[10px] uppercase text-slate-400">Fats</dt>
-                    <dd className="font-semibold">{food.fats} g</dd>
-                  </div>
-                  <div className="rounded-xl bg-slate-800/80 px-2 py-2">
-                    <dt className="text-[10px] uppercase text-slate-400">Tags</dt>
-                    <dd className="font-semibold">{food.tags.slice(0, 2).join(', ')}</dd>
-                  </div>
-                </dl>
-                <div className="mt-4 flex items-center gap-3">
-                  <label className="text-xs text-slate-300">
-                    Qty ({food.unit})
-                    <input
-                      type="number"
-                      step="0.25"
-                      min="0.25"
-                      className="mt-1 w-28 rounded-xl border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100"
-                      value={quantities[food.id]}
-                      onChange={(event) => handleQuantityChange(food.id, Number(event.target.value))}
-                    />
-                  </label>
-                  <button
-                    type="button"
-                    onClick={() => handleAddFood(food)}
-                    className="ml-auto inline-flex items-center gap-2 rounded-2xl bg-brand px-4 py-2 text-sm font-medium text-white transition hover:bg-brand-dark"
-                  >
-                    Add
-                  </button>
-                </div>
+                {editingFoodId === food.id ? (
+                  <CustomFoodEditor
+                    food={food}
+                    onSave={handleSaveCustomFood}
+                    onCancel={() => setEditingFoodId(null)}
+                  />
+                ) : (
+                  <>
+                    <div className="flex items-start justify-between gap-3">
+                      <div>
+                        <h3 className="text-lg font-semibold text-white">{foodName(food)}</h3>
+                        <p className="text-xs uppercase tracking-wide text-brand-light">
+                          {foodOrigin(food, i18n).join(' • ')}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <span className="rounded-full bg-slate-800 px-3 py-1 text-xs font-medium text-slate-300">
+                          {t('catalogue.perServing', {
+                            calories: number(food.calories, 0),
+                            quantity: number(food.defaultQuantity, 2),
+                            unit: i18n.unit(food.unit)
+                          })}
+                        </span>
+                        <button
+                          type="button"
+                          className={`px-1 text-lg transition ${
+                            favouriteKeys.includes(food.id)
+                              ? 'text-amber-300 hover:text-amber-200'
+                              : 'text-slate-500 hover:text-slate-300'
+                          }`}
+                          onClick={() => handleToggleFavourite(food.id)}
+                          aria-pressed={favouriteKeys.includes(food.id)}
+                          aria-label={t(favouriteKeys.includes(food.id) ? 'catalogue.unstar' : 'catalogue.star', {
+                            name: foodName(food)
+                          })}
+                        >
+                          {favouriteKeys.includes(food.id) ? '★' : '☆'}
+                        </button>
+                      </div>
+                    </div>
+                    <p className="mt-3 text-sm text-slate-300">{food.description}</p>
+                    <dl className="mt-4 grid grid-cols-4 gap-2 text-center text-xs text-slate-200">
+                      <div className="rounded-xl bg-slate-800/80 px-2 py-2">
+                        <dt className="text-[10px] uppercase text-slate-400">{t('macro.protein')}</dt>
+                        <dd className="font-semibold">{number(food.protein)} g</dd>
+                      </div>
+                      <div className="rounded-xl bg-slate-800/80 px-2 py-2">
+                        <dt className="text-[10px] uppercase text-slate-400">{t('macro.carbs')}</dt>
+                        <dd className="font-semibold">{number(food.carbs)} g</dd>
+                      </div>
+                      <div className="rounded-xl bg-slate-800/80 px-2 py-2">
+                        <dt className="text-[10px] uppercase text-slate-400">{t('macro.fats')}</dt>
+                        <dd className="font-semibold">{number(food.fats)} g</dd>
+                      </div>
+                      <div className="rounded-xl bg-slate-800/80 px-2 py-2">
+                        <dt className="text-[10px] uppercase text-slate-400">{t('catalogue.tags')}</dt>
+                        <dd className="font-semibold">{food.tags.slice(0, 2).join(', ')}</dd>
+                      </div>
+                    </dl>
+                    <div className="mt-4 flex items-center gap-3">
+                      <label className="text-xs text-slate-300">
+                        {t('catalogue.quantity')}
+                        <input
+                          type="number"
+                          step={(units[food.id] ?? food.unit) === GRAM_UNIT ? '5' : '0.25'}
+                          min="0.25"
+                          className="mt-1 w-24 rounded-xl border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100"
+                          value={quantities[food.id] ?? food.defaultQuantity}
+                          onChange={(event) => handleQuantityChange(food.id, Number(event.target.value))}
+                        />
+                      </label>
+                      <label className="text-xs text-slate-300">
+                        {t('common.unit')}
+                        <select
+                          className="mt-1 block rounded-xl border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100"
+                          value={units[food.id] ?? food.unit}
+                          onChange={(event) => handleUnitChange(food, event.target.value)}
+                          disabled={!food.grams}
+                        >
+                          {portionOptions(food).map((portion) => (
+                            <option key={portion.unit} value={portion.unit}>
+                              {i18n.unit(portion.unit)}
+                              {portion.unit !== GRAM_UNIT && portion.grams ? ` (${Math.round(portion.grams)} g)` : ''}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      {food.custom && (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => setEditingFoodId(food.id)}
+                            className="rounded-2xl border border-slate-700 px-3 py-2 text-xs font-medium text-slate-200 transition hover:bg-slate-800"
+                          >
+                            {t('common.edit')}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleDeleteCustomFood(food.id)}
+                            className="rounded-2xl border border-red-500/40 px-3 py-2 text-xs font-medium text-red-300 transition hover:bg-red-500/10"
+                          >
+                            {t('common.delete')}
+                          </button>
+                        </>
+                      )}
+                      <div className="ms-auto flex gap-2">
+                        {profiles.length > 1 && (
+                          <button
+                            type="button"
+                            onClick={() => setSharingFoodId((current) => (current === food.id ? null : food.id))}
+                            className="rounded-2xl border border-slate-700 px-3 py-2 text-xs font-medium text-slate-200 transition hover:bg-slate-800"
+                            aria-expanded={sharingFoodId === food.id}
+                          >
+                            {t('catalogue.shared')}
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => handleAddFood(food)}
+                          className="inline-flex items-center gap-2 rounded-2xl bg-brand px-4 py-2 text-sm font-medium text-white transition hover:bg-brand-dark"
+                        >
+                          {t('catalogue.add')}
+                        </button>
+                      </div>
+                    </div>
+                    {sharingFoodId === food.id && (
+                      <SharedDishPanel
+                        food={food}
+                        unit={units[food.id] ?? food.unit}
+                        quantity={quantities[food.id] ?? food.defaultQuantity}
+                        profiles={profiles}
+                        activeId={profileId}
+                        onLog={(portions) => handleLogShared(food, portions)}
+                        onClose={() => setSharingFoodId(null)}
+                      />
+                    )}
+                  </>
+                )}
               </div>
             ))}
             {filteredFoods.length === 0 && (
               <p className="col-span-full rounded-2xl border border-dashed border-slate-700 bg-slate-900/40 px-4 py-8 text-center text-sm text-slate-300">
-                Nothing found. Try a different keyword or clear the filters.
+                {t('catalogue.empty')}
               </p>
             )}
           </div>
@@ -311,24 +1018,22 @@ export default function Home() {
 
         <aside className="flex flex-col gap-6">
           <section className="glass rounded-3xl border border-slate-800 px-5 py-5">
-            <h2 className="text-lg font-semibold text-white">Custom quick add</h2>
-            <p className="mt-1 text-xs text-slate-300">
-              Homemade recipe? Street food without labels? Log it manually once and you are set.
-            </p>
+            <h2 className="text-lg font-semibold text-white">{t('custom.title')}</h2>
+            <p className="mt-1 text-xs text-slate-300">{t('custom.intro')}</p>
             <form className="mt-4 space-y-3 text-sm text-slate-200" onSubmit={handleCustomSubmit}>
               <label className="flex flex-col gap-1">
-                Name
+                {t('custom.name')}
                 <input
                   required
                   className="rounded-xl border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100"
-                  placeholder="Grandma&apos;s khichdi"
+                  placeholder={t('custom.namePlaceholder')}
                   value={custom.name}
                   onChange={(event) => setCustom((prev) => ({ ...prev, name: event.target.value }))}
                 />
               </label>
               <div className="grid grid-cols-2 gap-3">
                 <label className="flex flex-col gap-1">
-                  Quantity
+                  {t('custom.quantity')}
                   <input
                     type="number"
                     min="0.1"
@@ -339,17 +1044,35 @@ export default function Home() {
                   />
                 </label>
                 <label className="flex flex-col gap-1">
-                  Unit
+                  {t('common.unit')}
                   <input
                     className="rounded-xl border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100"
-                    value={custom.unit}
+                    placeholder={i18n.unit(SERVING_UNIT)}
+                    value={custom.unit === SERVING_UNIT ? '' : custom.unit}
                     onChange={(event) => setCustom((prev) => ({ ...prev, unit: event.target.value }))}
                   />
                 </label>
               </div>
+              <label className="flex flex-col gap-1">
+                {t('custom.meal')}
+                <select
+                  className="rounded-xl border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100"
+                  value={custom.mealSlot}
+                  onChange={(event) =>
+                    setCustom((prev) => ({ ...prev, mealSlot: event.target.value as MealSlot | 'auto' }))
+                  }
+                >
+                  <option value="auto">{t('custom.autoMeal')}</option>
+                  {MEAL_SLOTS.map((slot) => (
+                    <option key={slot} value={slot}>
+                      {mealLabel(slot)}
+                    </option>
+                  ))}
+                </select>
+              </label>
               <div className="grid grid-cols-2 gap-3">
                 <label className="flex flex-col gap-1">
-                  Calories (kcal)
+                  {t('custom.calories')}
                   <input
                     type="number"
                     min="0"
@@ -359,7 +1082,7 @@ export default function Home() {
                   />
                 </label>
                 <label className="flex flex-col gap-1">
-                  Protein (g)
+                  {t('custom.protein')}
                   <input
                     type="number"
                     min="0"
@@ -370,7 +1093,7 @@ export default function Home() {
                   />
                 </label>
                 <label className="flex flex-col gap-1">
-                  Carbs (g)
+                  {t('custom.carbs')}
                   <input
                     type="number"
                     min="0"
@@ -381,7 +1104,7 @@ export default function Home() {
                   />
                 </label>
                 <label className="flex flex-col gap-1">
-                  Fats (g)
+                  {t('custom.fats')}
                   <input
                     type="number"
                     min="0"
@@ -392,103 +1115,276 @@ export default function Home() {
                   />
                 </label>
               </div>
+              <MicronutrientFields
+                value={custom.micros}
+                onChange={(micros) => setCustom((prev) => ({ ...prev, micros }))}
+              />
               <label className="flex flex-col gap-1">
-                Notes
+                {t('custom.notes')}
                 <textarea
                   rows={2}
                   className="rounded-xl border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100"
-                  placeholder="Add spices, prep methods, or cooking oils."
+                  placeholder={t('custom.notesPlaceholder')}
                   value={custom.notes}
                   onChange={(event) => setCustom((prev) => ({ ...prev, notes: event.target.value }))}
                 />
               </label>
+              <label className="flex items-center gap-2 text-xs text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={custom.saveFood}
+                  onChange={(event) => setCustom((prev) => ({ ...prev, saveFood: event.target.checked }))}
+                />
+                {t('custom.saveFood')}
+              </label>
+              {custom.saveFood && (
+                <label className="flex flex-col gap-1">
+                  {t('catalogue.tags')}
+                  <input
+                    className="rounded-xl border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100"
+                    placeholder={t('custom.tagsPlaceholder')}
+                    value={custom.tags}
+                    onChange={(event) => setCustom((prev) => ({ ...prev, tags: event.target.value }))}
+                  />
+                </label>
+              )}
               <button
                 type="submit"
                 className="w-full rounded-2xl bg-brand py-2 text-sm font-semibold text-white transition hover:bg-brand-dark"
               >
-                Save entry
+                {t('custom.submit')}
               </button>
             </form>
           </section>
 
-          <section className="glass rounded-3xl border border-slate-800 px-5 py-5">
-            <h2 className="text-lg font-semibold text-white">Day plan targets</h2>
-            <p className="mt-1 text-xs text-slate-300">
-              Hit your macros with a balanced plate: 25% protein, 35% fats, 40% carbs.
-            </p>
-            <div className="mt-4 space-y-3 text-sm text-slate-200">
-              <div className="flex items-center justify-between rounded-2xl bg-slate-900/70 px-4 py-3">
-                <span>Calories goal</span>
-                <span className="font-semibold">2000 kcal</span>
-              </div>
-              <div className="flex items-center justify-between rounded-2xl bg-slate-900/70 px-4 py-3">
-                <span>Protein target</span>
-                <span className="font-semibold">125 g</span>
-              </div>
-              <div className="flex items-center justify-between rounded-2xl bg-slate-900/70 px-4 py-3">
-                <span>Carbs lane</span>
-                <span className="font-semibold">200 g</span>
-              </div>
-              <div className="flex items-center justify-between rounded-2xl bg-slate-900/70 px-4 py-3">
-                <span>Fats ceiling</span>
-                <span className="font-semibold">78 g</span>
-              </div>
-            </div>
-          </section>
+          <BarcodePanel onLog={handleLogProduct} />
+          <GoalProfileCard
+            profileId={profileId}
+            dateKey={selectedDateKey}
+            profile={goalProfile}
+            targets={targets}
+            latestWeightKg={latestWeightKg}
+            onSave={handleSaveGoalProfile}
+          />
+          <FastingPanel dateKey={selectedDateKey} schedules={fastingSchedules} onSave={handleSaveFastingSchedules} />
+          <ReminderPanel key={restoreCount} profileId={profileId} dayStartHour={dayStartHour} />
+          <RecipeBuilder
+            foods={ingredientFoods}
+            recipes={recipes}
+            onSave={handleSaveRecipe}
+            onDelete={handleDeleteRecipe}
+          />
+          <SyncPanel onSynced={reloadAll} onStatusChange={setSyncStatus} />
+          <BackupPanel profile={activeProfile} onImported={handleImported} />
         </aside>
       </section>
 
       <section className="glass rounded-3xl border border-slate-800 px-6 py-6">
         <div className="flex flex-col items-start justify-between gap-3 sm:flex-row sm:items-center">
           <div>
-            <h2 className="text-xl font-semibold text-white">Daily log</h2>
-            <p className="text-sm text-slate-300">
-              Every meal is stored locally. Delete with a swipe and edit in a tap (coming soon).
-            </p>
+            <h2 className="text-xl font-semibold text-white">{t('log.title')}</h2>
+            <p className="text-sm text-slate-300">{t('log.intro')}</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              type="button"
+              className="rounded-full border border-slate-700 px-3 py-1 text-xs font-medium text-slate-200 transition hover:bg-slate-800 disabled:opacity-40"
+              onClick={() => handleUndo()}
+              disabled={history.undo.length === 0}
+            >
+              ↶ {t('log.undo')}
+            </button>
+            <button
+              type="button"
+              className="rounded-full border border-slate-700 px-3 py-1 text-xs font-medium text-slate-200 transition hover:bg-slate-800 disabled:opacity-40"
+              onClick={handleRedo}
+              disabled={history.redo.length === 0}
+            >
+              ↷ {t('log.redo')}
+            </button>
+            <button
+              type="button"
+              className="rounded-full border border-brand-light px-4 py-1 text-xs font-medium text-brand-light transition hover:bg-brand-light/10"
+              onClick={() => setLogPanel((current) => (current === 'copy' ? null : 'copy'))}
+            >
+              {t('log.copy')}
+            </button>
+            <button
+              type="button"
+              className="rounded-full border border-slate-700 px-4 py-1 text-xs font-medium text-slate-200 transition hover:bg-slate-800"
+              onClick={() => setLogPanel((current) => (current === 'history' ? null : 'history'))}
+              aria-pressed={logPanel === 'history'}
+            >
+              {t('log.history')}
+            </button>
+            <button
+              type="button"
+              className="rounded-full border border-slate-700 px-4 py-1 text-xs font-medium text-slate-200 transition hover:bg-slate-800"
+              onClick={() => setLogPanel((current) => (current === 'trash' ? null : 'trash'))}
+              aria-pressed={logPanel === 'trash'}
+            >
+              {t('log.trash')}
+            </button>
+            <Link
+              href="/report"
+              className="rounded-full border border-slate-700 px-4 py-1 text-xs font-medium text-slate-200 transition hover:bg-slate-800"
+            >
+              {t('log.report')}
+            </Link>
+            <span className="rounded-full border border-slate-700 px-4 py-1 text-xs font-medium uppercase tracking-wide text-slate-300">
+              {i18n.date(selectedDateKey)}
+            </span>
           </div>
-          <span className="rounded-full border border-slate-700 px-4 py-1 text-xs font-medium uppercase tracking-wide text-slate-300">
-            {selectedDateKey}
-          </span>
+        </div>
+
+        {logPanel === 'copy' && (
+          <CopyEntriesPanel
+            key={selectedDateKey}
+            profileId={profileId}
+            targetDateKey={selectedDateKey}
+            onCopy={handleCopyEntries}
+            onClose={() => setLogPanel(null)}
+          />
+        )}
+        {logPanel === 'trash' && (
+          <TrashPanel profileId={profileId} entries={logs} onRestore={handleRestore} onClose={() => setLogPanel(null)} />
+        )}
+        {logPanel === 'history' && (
+          <DayHistory
+            profileId={profileId}
+            dateKey={selectedDateKey}
+            entries={logs}
+            onClose={() => setLogPanel(null)}
+          />
+        )}
+
+        <div className="mt-6">
+          <BodyTracker profileId={profileId} dateKey={selectedDateKey} log={bodyLog} onUpdate={handleUpdateBodyLog} />
         </div>
 
         {loading ? (
-          <p className="mt-8 animate-pulse text-sm text-slate-300">Loading logs…</p>
+          <p className="mt-8 animate-pulse text-sm text-slate-300">{t('log.loading')}</p>
         ) : logs.length === 0 ? (
-          <p className="mt-8 text-sm text-slate-300">
-            Nothing logged yet. Start with a dosa, biryani, or add a custom recipe.
-          </p>
+          <p className="mt-8 text-sm text-slate-300">{t('log.empty')}</p>
         ) : (
-          <ul className="mt-6 space-y-3">
-            {logs.map((entry) => (
-              <li
-                key={entry.id}
-                className="flex flex-col gap-2 rounded-2xl border border-slate-800 bg-slate-900/60 p-4 text-sm text-slate-200 sm:flex-row sm:items-center sm:gap-4"
-              >
-                <div className="flex-1">
-                  <p className="text-base font-semibold text-white">{entry.name}</p>
-                  <p className="text-xs uppercase tracking-wide text-slate-400">
-                    {entry.quantity} {entry.unit} • {new Date(entry.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                  </p>
-                  {entry.notes && <p className="mt-2 text-xs text-slate-300">{entry.notes}</p>}
-                </div>
-                <div className="flex flex-wrap items-center gap-3 text-center text-xs font-semibold text-slate-100">
-                  <span className="rounded-xl bg-slate-800/70 px-3 py-2">{entry.calories} kcal</span>
-                  <span className="rounded-xl bg-slate-800/70 px-3 py-2">{entry.protein} g P</span>
-                  <span className="rounded-xl bg-slate-800/70 px-3 py-2">{entry.carbs} g C</span>
-                  <span className="rounded-xl bg-slate-800/70 px-3 py-2">{entry.fats} g F</span>
+          <div className="mt-6 space-y-6">
+            {MEAL_SLOTS.filter((slot) => logsBySlot[slot].length > 0).map((slot) => {
+              const slotLogs = logsBySlot[slot];
+              const subtotal = sumMacros(slotLogs);
+              return (
+                <div key={slot}>
+                  <div className="mb-3 flex flex-wrap items-baseline justify-between gap-2">
+                    <h3 className="text-sm font-semibold uppercase tracking-wide text-brand-light">
+                      {mealLabel(slot)}
+                    </h3>
+                    <p className="text-xs text-slate-400">
+                      {t('macro.summary', {
+                        calories: number(subtotal.calories, 0),
+                        protein: number(subtotal.protein),
+                        carbs: number(subtotal.carbs),
+                        fats: number(subtotal.fats)
+                      })}
+                    </p>
+                  </div>
+                  <ul className="space-y-3">
+                    {slotLogs.map((entry) => (
+                      <li
+                        key={entry.id}
+                        className="flex flex-col gap-2 rounded-2xl border border-slate-800 bg-slate-900/60 p-4 text-sm text-slate-200 sm:flex-row sm:items-center sm:gap-4"
+                      >
+                        {editingId === entry.id ? (
+                          <LogEntryEditor
+                            entry={entry}
+                            food={
+                              entry.recipeId
+                                ? foodFromEntry(entry)
+                                : entry.foodId
+                                  ? foodsById.get(entry.foodId)
+                                  : undefined
+                            }
+                            dayStartHour={dayStartHour}
+                            onSave={handleUpdate}
+                            onCancel={() => setEditingId(null)}
+                          />
+                        ) : (
+                          <>
+                            <div className="flex-1">
+                              <p className="text-base font-semibold text-white">{entryName(entry)}</p>
+                              <p className="text-xs uppercase tracking-wide text-slate-400">
+                                {number(entry.quantity, 2)} {i18n.unit(entry.unit)}
+                                {entry.grams !== undefined &&
+                                  entry.unit !== GRAM_UNIT &&
+                                  ` (${number(entry.grams, 0)} g)`}{' '}
+                                • {formatLoggedTime(entry, localeInfo(i18n.locale).intl)}
+                              </p>
+                              {entry.notes && <p className="mt-2 text-xs text-slate-300">{entry.notes}</p>}
+                            </div>
+                            <div className="flex flex-wrap items-center gap-3 text-center text-xs font-semibold text-slate-100">
+                              <span className="rounded-xl bg-slate-800/70 px-3 py-2">
+                                {number(entry.calories, 0)} kcal
+                              </span>
+                              <span className="rounded-xl bg-slate-800/70 px-3 py-2">
+                                {t('macro.proteinShort', { amount: number(entry.protein) })}
+                              </span>
+                              <span className="rounded-xl bg-slate-800/70 px-3 py-2">
+                                {t('macro.carbsShort', { amount: number(entry.carbs) })}
+                              </span>
+                              <span className="rounded-xl bg-slate-800/70 px-3 py-2">
+                                {t('macro.fatsShort', { amount: number(entry.fats) })}
+                              </span>
+                            </div>
+                            <div className="flex gap-2">
+                              <button
+                                type="button"
+                                className="rounded-xl border border-slate-700 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-200 transition hover:bg-slate-800"
+                                onClick={() => setEditingId(entry.id)}
+                              >
+                                {t('common.edit')}
+                              </button>
+                              <button
+                                type="button"
+                                className="rounded-xl border border-red-500/40 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-red-300 transition hover:bg-red-500/10"
+                                onClick={() => handleDelete(entry.id)}
+                              >
+                                {t('common.delete')}
+                              </button>
+                            </div>
+                          </>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
                 </div>
-                <button
-                  type="button"
-                  className="rounded-xl border border-red-500/40 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-red-300 transition hover:bg-red-500/10"
-                  onClick={() => handleDelete(entry.id)}
-                >
-                  Delete
-                </button>
-              </li>
-            ))}
-          </ul>
+              );
+            })}
+          </div>
         )}
       </section>
+
+      {activeProfileId && (
+        <HistoryDashboard
+          profileId={activeProfileId}
+          endDateKey={selectedDateKey}
+          todayKey={dayKeyFor(new Date(), dayStartHour)}
+          refreshKey={historyKey}
+        />
+      )}
+
+      {deletedToast && (
+        <div
+          role="status"
+          className="fixed inset-x-4 bottom-4 z-40 mx-auto flex max-w-md items-center gap-3 rounded-2xl border border-slate-700 bg-slate-900/95 px-4 py-3 text-sm text-slate-100 shadow-lg print:hidden"
+        >
+          <span className="flex-1">{t('log.deleted', { name: deletedToast.name })}</span>
+          <button
+            type="button"
+            className="rounded-xl bg-brand px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-brand-dark"
+            onClick={() => handleUndo(deletedToast.changes)}
+          >
+            {t('log.undo')}
+          </button>
+        </div>
+      )}
     </main>
   );
 }
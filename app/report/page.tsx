@@ -0,0 +1,391 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useMemo, useState } from 'react';
+import { useI18n } from '../../components/i18n-provider';
+import { FOODS } from '../../data/foods';
+import {
+  getActiveProfileId,
+  listCustomFoods,
+  listGoalProfiles,
+  listLogsInRange,
+  listProfiles,
+  listRecipes,
+  type LogEntry
+} from '../../lib/db';
+import { dayKeyFor } from '../../lib/day';
+import { ADHERENCE_TOLERANCE } from '../../lib/history';
+import { formatDate, mealSlotLabel, profileLabel } from '../../lib/i18n';
+import { MEAL_SLOTS, type MealSlot } from '../../lib/meals';
+import { DEFAULT_PROFILE_ID, defaultProfile, type Profile } from '../../lib/profiles';
+import { recipeToFood } from '../../lib/recipes';
+import { buildReport } from '../../lib/report';
+import { targetsForDate, type GoalProfile, type MacroKey } from '../../lib/targets';
+import { addDays, formatDateKey } from '../../lib/utils';
+
+/**
+ * A printable summary for a dietitian, built from the entries on this device. The report itself
+ * is always in English with plain digits, whatever language the app is set to, since it is read
+ * by someone else; only the controls above it follow the app's language. The print stylesheet
+ * in `globals.css` turns it into clean A4 pages.
+ */
+
+const DEFAULT_RANGE_DAYS = 14;
+
+const MACRO_COLUMNS: { key: MacroKey; label: string; unit: string }[] = [
+  { key: 'calories', label: 'Calories', unit: 'kcal' },
+  { key: 'protein', label: 'Protein', unit: 'g' },
+  { key: 'carbs', label: 'Carbs', unit: 'g' },
+  { key: 'fats', label: 'Fats', unit: 'g' }
+];
+
+const inputClass = 'rounded-xl border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100';
+
+const thClass = 'border-b border-slate-300 px-2 py-1.5 text-left text-xs font-semibold uppercase text-slate-500';
+const numThClass = `${thClass} text-right`;
+const tdClass = 'border-b border-slate-200 px-2 py-1.5';
+const numTdClass = `${tdClass} text-right tabular-nums`;
+
+const formatDay = (dateKey: string) => formatDate('en', dateKey);
+const mealName = (slot: MealSlot) => mealSlotLabel('en', slot);
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+export default function ReportPage() {
+  const { t } = useI18n();
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [startKey, setStartKey] = useState('');
+  const [endKey, setEndKey] = useState('');
+  const [entries, setEntries] = useState<LogEntry[]>([]);
+  const [goals, setGoals] = useState<GoalProfile[]>([]);
+  const [descriptions, setDescriptions] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+
+  const profile = profiles.find((item) => item.id === profileId) ?? defaultProfile();
+  const todayKey = dayKeyFor(new Date(), profile.dayStartHour);
+
+  useEffect(() => {
+    Promise.all([listProfiles(), getActiveProfileId(), listRecipes(), listCustomFoods()])
+      .then(([stored, storedId, recipes, customFoods]) => {
+        const active = stored.find((item) => item.id === storedId) ?? stored[0] ?? defaultProfile();
+        const today = dayKeyFor(new Date(), active.dayStartHour);
+        setProfiles(stored);
+        setProfileId(active.id);
+        setEndKey(today);
+        setStartKey(addDays(today, -(DEFAULT_RANGE_DAYS - 1)));
+        // Logging copies these onto every entry; only notes written on the entry belong in the report.
+        // Saved foods include every barcode product that has been logged.
+        const foods = [...customFoods, ...recipes.map(recipeToFood), ...FOODS];
+        setDescriptions(
+          new Map(
+            foods.flatMap((food) => [food.id, ...(food.formerIds ?? [])].map((id) => [id, food.description] as const))
+          )
+        );
+      })
+      .catch((error) => {
+        console.error('Failed to load profiles', error);
+        setProfileId(DEFAULT_PROFILE_ID);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!profileId || !startKey || !endKey || startKey > endKey) return;
+    let cancelled = false;
+    setLoading(true);
+    // Through today as well, so the current streak is counted from the actual current day.
+    const loadUntilKey = todayKey > endKey ? todayKey : endKey;
+    Promise.all([listLogsInRange(profileId, startKey, loadUntilKey), listGoalProfiles(profileId)])
+      .then(([nextEntries, nextGoals]) => {
+        if (cancelled) return;
+        setEntries(nextEntries);
+        setGoals(nextGoals);
+      })
+      .catch((error) => console.error('Failed to load report', error))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId, startKey, endKey, todayKey]);
+
+  const personName = profileLabel('en', profile);
+
+  // Browsers use the page title as the file name for "Save as PDF".
+  useEffect(() => {
+    if (!startKey || !endKey) return;
+    const previous = document.title;
+    document.title = `LocalPlate report - ${personName} - ${startKey} to ${endKey}`;
+    return () => {
+      document.title = previous;
+    };
+  }, [personName, startKey, endKey]);
+
+  const report = useMemo(
+    () =>
+      startKey && endKey && startKey <= endKey
+        ? buildReport(
+            entries,
+            startKey,
+            endKey,
+            (dateKey) => targetsForDate(goals, dateKey),
+            todayKey,
+            (entry) => Boolean(entry.foodId) && descriptions.get(entry.foodId ?? '') === entry.notes
+          )
+        : null,
+    [entries, goals, descriptions, startKey, endKey, todayKey]
+  );
+
+  const { history } = report ?? {};
+
+  return (
+    <main className="mx-auto flex min-h-screen max-w-5xl flex-col gap-4 px-4 py-8 print:max-w-none print:p-0">
+      <div className="flex flex-wrap items-end gap-3 text-sm text-slate-300 print:hidden">
+        <Link
+          href="/"
+          className="rounded-2xl border border-slate-700 px-3 py-2 text-xs font-medium text-slate-200 transition hover:bg-slate-800"
+        >
+          {t('report.back')}
+        </Link>
+        {profiles.length > 1 && (
+          <label className="flex flex-col gap-1">
+            {t('report.person')}
+            <select className={inputClass} value={profile.id} onChange={(event) => setProfileId(event.target.value)}>
+              {profiles.map((item) => (
+                <option key={item.id} value={item.id}>
+                  {item.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="flex flex-col gap-1">
+          {t('report.from')}
+          <input
+            type="date"
+            className={inputClass}
+            value={startKey}
+            max={endKey}
+            onChange={(event) => setStartKey(event.target.value)}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          {t('report.to')}
+          <input
+            type="date"
+            className={inputClass}
+            value={endKey}
+            min={startKey}
+            onChange={(event) => setEndKey(event.target.value)}
+          />
+        </label>
+        <button
+          type="button"
+          className="ml-auto rounded-2xl bg-brand px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-dark"
+          onClick={() => window.print()}
+          disabled={!report}
+        >
+          {t('report.print')}
+        </button>
+      </div>
+
+      <article
+        className="report rounded-3xl bg-white px-8 py-8 text-sm text-slate-900 print:rounded-none print:px-0 print:py-0"
+        lang="en"
+        dir="ltr"
+      >
+        <header className="border-b-2 border-slate-900 pb-3">
+          <h1 className="text-2xl font-semibold">Nutrition report: {personName}</h1>
+          <p className="mt-1 text-slate-600">
+            {startKey && endKey ? `${formatDay(startKey)} to ${formatDay(endKey)}` : '…'} · generated{' '}
+            {formatDay(formatDateKey(new Date()))} by LocalPlate from the food log kept on this device.
+          </p>
+        </header>
+
+        {!report || !history ? (
+          <p className="mt-6 text-slate-600">Choose a start date on or before the end date.</p>
+        ) : loading ? (
+          <p className="mt-6 animate-pulse text-slate-600">Loading entries…</p>
+        ) : (
+          <>
+            <section className="mt-6">
+              <h2 className="text-base font-semibold">Summary</h2>
+              <p className="mt-1 text-slate-600">
+                {history.loggedDays} of {history.days.length} days logged. Averages count logged days only. A day is on
+                target when calories land within {percent(ADHERENCE_TOLERANCE)} of that day&apos;s goal:{' '}
+                {history.adherentDays} of {history.loggedDays} logged days (longest run {history.longestStreak}{' '}
+                {history.longestStreak === 1 ? 'day' : 'days'}).
+              </p>
+              <table className="mt-3 w-full border-collapse">
+                <thead>
+                  <tr>
+                    <th className={thClass}>Per day</th>
+                    {MACRO_COLUMNS.map((column) => (
+                      <th key={column.key} className={numThClass}>
+                        {column.label} ({column.unit})
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr>
+                    <td className={tdClass}>Average intake</td>
+                    {MACRO_COLUMNS.map((column) => (
+                      <td key={column.key} className={numTdClass}>
+                        {history.averages[column.key]}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <td className={tdClass}>Average target</td>
+                    {MACRO_COLUMNS.map((column) => (
+                      <td key={column.key} className={numTdClass}>
+                        {report.averageTarget[column.key]}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <td className={tdClass}>Intake as share of target</td>
+                    {MACRO_COLUMNS.map((column) => (
+                      <td key={column.key} className={numTdClass}>
+                        {history.loggedDays ? percent(report.targetShare[column.key]) : '—'}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </section>
+
+            <section className="mt-6">
+              <h2 className="text-base font-semibold">By meal</h2>
+              <table className="mt-2 w-full border-collapse">
+                <thead>
+                  <tr>
+                    <th className={thClass}>Meal</th>
+                    <th className={numThClass}>Entries</th>
+                    {MACRO_COLUMNS.map((column) => (
+                      <th key={column.key} className={numThClass}>
+                        Avg {column.label.toLowerCase()} ({column.unit})
+                      </th>
+                    ))}
+                    <th className={numThClass}>Share of calories</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.meals.map((meal) => (
+                    <tr key={meal.slot}>
+                      <td className={tdClass}>{mealName(meal.slot)}</td>
+                      <td className={numTdClass}>{meal.entryCount}</td>
+                      {MACRO_COLUMNS.map((column) => (
+                        <td key={column.key} className={numTdClass}>
+                          {meal.average[column.key]}
+                        </td>
+                      ))}
+                      <td className={numTdClass}>{percent(meal.calorieShare)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+
+            <section className="mt-6">
+              <h2 className="text-base font-semibold">Daily totals</h2>
+              <table className="mt-2 w-full border-collapse">
+                <thead>
+                  <tr>
+                    <th className={thClass}>Date</th>
+                    <th className={numThClass}>kcal</th>
+                    <th className={numThClass}>Target</th>
+                    <th className={numThClass}>Protein</th>
+                    <th className={numThClass}>Carbs</th>
+                    <th className={numThClass}>Fats</th>
+                    {MEAL_SLOTS.map((slot) => (
+                      <th key={slot} className={numThClass}>
+                        {mealName(slot)}
+                      </th>
+                    ))}
+                    <th className={numThClass}>On target</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.days.map((day) =>
+                    day.entryCount === 0 ? (
+                      <tr key={day.dateKey} className="text-slate-400">
+                        <td className={tdClass}>{formatDay(day.dateKey)}</td>
+                        <td className={tdClass} colSpan={6 + MEAL_SLOTS.length}>
+                          Nothing logged
+                        </td>
+                      </tr>
+                    ) : (
+                      <tr key={day.dateKey}>
+                        <td className={tdClass}>{formatDay(day.dateKey)}</td>
+                        <td className={numTdClass}>{day.totals.calories}</td>
+                        <td className={numTdClass}>{day.target.calories}</td>
+                        <td className={numTdClass}>{day.totals.protein} g</td>
+                        <td className={numTdClass}>{day.totals.carbs} g</td>
+                        <td className={numTdClass}>{day.totals.fats} g</td>
+                        {MEAL_SLOTS.map((slot) => (
+                          <td key={slot} className={numTdClass}>
+                            {day.meals[slot].calories || '—'}
+                          </td>
+                        ))}
+                        <td className={numTdClass}>{day.adherent ? 'Yes' : 'No'}</td>
+                      </tr>
+                    )
+                  )}
+                </tbody>
+              </table>
+              <p className="mt-1 text-xs text-slate-500">Meal columns are calories (kcal).</p>
+            </section>
+
+            <section className="mt-6">
+              <h2 className="text-base font-semibold">Most logged foods</h2>
+              {report.topFoods.length === 0 ? (
+                <p className="mt-1 text-slate-600">No entries in this range.</p>
+              ) : (
+                <table className="mt-2 w-full border-collapse">
+                  <thead>
+                    <tr>
+                      <th className={thClass}>Food</th>
+                      <th className={numThClass}>Times logged</th>
+                      <th className={numThClass}>Total kcal</th>
+                      <th className={numThClass}>Share of calories</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.topFoods.map((food) => (
+                      <tr key={food.key}>
+                        <td className={tdClass}>{food.name}</td>
+                        <td className={numTdClass}>{food.count}</td>
+                        <td className={numTdClass}>{Math.round(food.calories)}</td>
+                        <td className={numTdClass}>
+                          {percent(food.calories / Math.max(1, history.averages.calories * history.loggedDays))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+
+            <section className="mt-6">
+              <h2 className="text-base font-semibold">Notes</h2>
+              {report.notes.length === 0 ? (
+                <p className="mt-1 text-slate-600">No notes in this range.</p>
+              ) : (
+                <ul className="mt-2 space-y-1">
+                  {report.notes.map((note, index) => (
+                    <li key={`${note.dateKey}-${index}`}>
+                      <span className="text-slate-500">
+                        {formatDay(note.dateKey)} · {mealName(note.mealSlot)} · {note.name}:
+                      </span>{' '}
+                      {note.notes}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </>
+        )}
+      </article>
+    </main>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { useState } from "react";
+import {
+  BackupParseError,
+  createBackup,
+  dailyTotalsToCsv,
+  downloadFile,
+  entriesToCsv,
+  importBackup,
+  parseBackup,
+  previewImport,
+  type BackupFile,
+  type ImportMode,
+  type ImportPreview
+} from "../lib/backup";
+import type { Profile } from "../lib/profiles";
+import { formatDateKey } from "../lib/utils";
+import { useI18n } from "./i18n-provider";
+
+interface BackupPanelProps {
+  profile: Profile;
+  onImported: () => Promise<void>;
+}
+
+const buttonClass =
+  "rounded-2xl border border-slate-700 px-3 py-2 text-xs font-medium text-slate-200 transition hover:bg-slate-800";
+
+const fileSlug = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "profile";
+
+export default function BackupPanel({ profile, onImported }: BackupPanelProps) {
+  const [pending, setPending] = useState<{ backup: BackupFile; preview: ImportPreview } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const { t, setLocale, number, date, profileName } = useI18n();
+
+  const stamp = () => formatDateKey(new Date());
+
+  const handleExportJson = async () => {
+    const backup = await createBackup();
+    downloadFile(`localplate-backup-${stamp()}.json`, JSON.stringify(backup, null, 2), "application/json");
+  };
+
+  // Spreadsheets are per person; the JSON backup keeps the whole household.
+  const handleExportCsv = async (kind: "entries" | "daily") => {
+    const logs = (await createBackup()).logs.filter((entry) => entry.profileId === profile.id);
+    const content = kind === "entries" ? entriesToCsv(logs) : dailyTotalsToCsv(logs);
+    downloadFile(`localplate-${fileSlug(profileName(profile))}-${kind}-${stamp()}.csv`, content, "text/csv");
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const backup = parseBackup(await file.text());
+      setPending({ backup, preview: await previewImport(backup) });
+      setMessage(null);
+    } catch (error) {
+      setPending(null);
+      setMessage(error instanceof BackupParseError ? t(`backup.${error.problem}`) : t("backup.unreadable"));
+    }
+  };
+
+  const handleImport = async (mode: ImportMode) => {
+    if (!pending) return;
+    try {
+      await importBackup(pending.backup, mode);
+      const { locale } = pending.backup.settings;
+      if (mode === "replace" && locale) {
+        setLocale(locale);
+      }
+      setMessage(
+        mode === "replace"
+          ? t("backup.restored", { count: number(pending.preview.logCount) })
+          : t("backup.merged", { count: number(pending.preview.logCount - pending.preview.duplicateIds.length) })
+      );
+      setPending(null);
+      await onImported();
+    } catch (error) {
+      console.error("Failed to import backup", error);
+      setMessage(t("backup.failed"));
+    }
+  };
+
+  return (
+    <section className="glass rounded-3xl border border-slate-800 px-5 py-5">
+      <h2 className="text-lg font-semibold text-white">{t("backup.title")}</h2>
+      <p className="mt-1 text-xs text-slate-300">
+        {t("backup.intro")}
+      </p>
+      <div className="mt-4 flex flex-wrap gap-2">
+        <button type="button" className={buttonClass} onClick={handleExportJson}>
+          {t("backup.json")}
+        </button>
+        <button type="button" className={buttonClass} onClick={() => handleExportCsv("entries")}>
+          {t("backup.entriesCsv", { name: profileName(profile) })}
+        </button>
+        <button type="button" className={buttonClass} onClick={() => handleExportCsv("daily")}>
+          {t("backup.dailyCsv", { name: profileName(profile) })}
+        </button>
+        <label className={`${buttonClass} cursor-pointer`}>
+          {t("backup.restore")}
+          <input type="file" accept="application/json,.json" className="sr-only" onChange={handleFile} />
+        </label>
+      </div>
+
+      {pending && (
+        <div className="mt-4 space-y-3 rounded-2xl bg-slate-900/70 px-4 py-3 text-xs text-slate-200">
+          <p>
+            {t("backup.contents", {
+              profiles: number(pending.preview.profileCount),
+              entries: number(pending.preview.logCount),
+              foods: number(pending.preview.foodCount),
+              recipes: number(pending.preview.recipeCount),
+              body: number(pending.preview.bodyCount),
+              goals: number(pending.preview.goalCount),
+              favourites: number(pending.preview.favouriteCount),
+              fasting: number(pending.preview.fastingCount)
+            })}
+            {pending.backup.exportedAt &&
+              ` ${t("backup.exportedOn", { date: date(pending.backup.exportedAt.slice(0, 10)) })}`}
+            {pending.preview.duplicateIds.length > 0 &&
+              ` ${t("backup.duplicates", { count: number(pending.preview.duplicateIds.length) })}`}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              className="rounded-2xl bg-brand px-3 py-2 font-semibold text-white transition hover:bg-brand-dark"
+              onClick={() => handleImport("merge")}
+            >
+              {t("backup.merge")}
+            </button>
+            <button
+              type="button"
+              className="rounded-2xl border border-red-500/40 px-3 py-2 font-semibold text-red-300 transition hover:bg-red-500/10"
+              onClick={() => handleImport("replace")}
+            >
+              {t("backup.replace")}
+            </button>
+            <button type="button" className={buttonClass} onClick={() => setPending(null)}>
+              {t("common.cancel")}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && <p className="mt-3 text-xs text-slate-300">{message}</p>}
+    </section>
+  );
+}
@@ -0,0 +1,407 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { FoodItem } from "../data/foods";
+import { countProducts, getProduct, importProducts, putProduct } from "../lib/db";
+import { portionOptions } from "../lib/portions";
+import {
+  ProductFileError,
+  canDecodeBarcodes,
+  decodeBarcodeImage,
+  normalizeBarcode,
+  parseProductFile,
+  productToFood,
+  type Product
+} from "../lib/products";
+import { scaleMacros } from "../lib/utils";
+import { useI18n } from "./i18n-provider";
+
+interface BarcodePanelProps {
+  onLog: (food: FoodItem, quantity: number, unit: string) => Promise<void>;
+}
+
+type Lookup = { kind: "found"; product: Product } | { kind: "missing"; barcode: string };
+
+const emptyDraft = {
+  name: "",
+  brand: "",
+  calories: "",
+  protein: "",
+  carbs: "",
+  fats: "",
+  servingLabel: "",
+  servingGrams: ""
+};
+
+const inputClass =
+  "rounded-xl border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100";
+
+const buttonClass =
+  "rounded-2xl border border-slate-700 px-3 py-2 text-xs font-medium text-slate-200 transition hover:bg-slate-800";
+
+const MACRO_FIELDS = [
+  { key: "calories", label: "barcode.calories" },
+  { key: "protein", label: "barcode.protein" },
+  { key: "carbs", label: "barcode.carbs" },
+  { key: "fats", label: "barcode.fats" }
+] as const;
+
+export default function BarcodePanel({ onLog }: BarcodePanelProps) {
+  const { t, number, unit: unitName } = useI18n();
+  const [code, setCode] = useState("");
+  const [lookup, setLookup] = useState<Lookup | null>(null);
+  const [quantity, setQuantity] = useState("");
+  const [unit, setUnit] = useState("");
+  const [draft, setDraft] = useState(emptyDraft);
+  const [productCount, setProductCount] = useState<number | null>(null);
+  const [photoSupported, setPhotoSupported] = useState<boolean | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPhotoSupported(canDecodeBarcodes());
+    countProducts()
+      .then(setProductCount)
+      .catch((error) => console.error("Failed to count products", error));
+  }, []);
+
+  const showProduct = (product: Product) => {
+    const food = productToFood(product);
+    setLookup({ kind: "found", product });
+    setQuantity(String(food.defaultQuantity));
+    setUnit(food.unit);
+  };
+
+  const findBarcode = async (input: string) => {
+    const barcode = normalizeBarcode(input);
+    if (!barcode) {
+      setLookup(null);
+      setMessage(t("barcode.invalid"));
+      return;
+    }
+    setMessage(null);
+    const product = await getProduct(barcode);
+    if (product) {
+      showProduct(product);
+    } else {
+      setLookup({ kind: "missing", barcode });
+      setDraft(emptyDraft);
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    try {
+      await findBarcode(code);
+    } catch (error) {
+      console.error("Failed to look up barcode", error);
+      setMessage(t("barcode.lookupFailed"));
+    }
+  };
+
+  const handlePhoto = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setBusy(true);
+    try {
+      const barcode = await decodeBarcodeImage(file);
+      if (!barcode) {
+        setLookup(null);
+        setMessage(t("barcode.notInPhoto"));
+        return;
+      }
+      setCode(barcode);
+      await findBarcode(barcode);
+    } catch (error) {
+      console.error("Failed to read barcode photo", error);
+      setMessage(t("barcode.photoFailed"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setBusy(true);
+    try {
+      const { products, skipped } = parseProductFile(await file.text());
+      const written = await importProducts(products);
+      const kept = products.length - written;
+      setProductCount(await countProducts());
+      setMessage(
+        [
+          t("barcode.imported", { count: number(written) }),
+          kept > 0 ? t("barcode.kept", { count: number(kept) }) : "",
+          skipped > 0 ? t("barcode.skipped", { count: number(skipped) }) : ""
+        ]
+          .filter(Boolean)
+          .join(" ")
+      );
+    } catch (error) {
+      console.error("Failed to import products", error);
+      setMessage(error instanceof ProductFileError ? t(`barcode.${error.problem}`) : t("backup.failed"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLog = async (product: Product) => {
+    const food = productToFood(product);
+    await onLog(food, Number(quantity) || food.defaultQuantity, unit || food.unit);
+    setMessage(t("barcode.logged", { name: product.name }));
+    setLookup(null);
+    setCode("");
+  };
+
+  // Typed in once, then found by the barcode like any imported product.
+  const handleSaveProduct = async (event: React.FormEvent<HTMLFormElement>, barcode: string) => {
+    event.preventDefault();
+    const servingGrams = Number(draft.servingGrams);
+    const product: Product = {
+      barcode,
+      name: draft.name.trim(),
+      brand: draft.brand.trim() || undefined,
+      per100g: {
+        calories: Math.round(Number(draft.calories) || 0),
+        protein: Number(draft.protein) || 0,
+        carbs: Number(draft.carbs) || 0,
+        fats: Number(draft.fats) || 0
+      },
+      serving:
+        servingGrams > 0 ? { label: draft.servingLabel.trim() || `${servingGrams} g`, grams: servingGrams } : undefined,
+      source: "local",
+      updatedAt: new Date().toISOString()
+    };
+    try {
+      await putProduct(product);
+      setProductCount((count) => (count ?? 0) + 1);
+      showProduct(product);
+      setMessage(t("barcode.saved"));
+    } catch (error) {
+      console.error("Failed to save product", error);
+      setMessage(t("barcode.saveFailed"));
+    }
+  };
+
+  const found = lookup?.kind === "found" ? lookup.product : null;
+  const foundFood = found ? productToFood(found) : null;
+
+  return (
+    <section className="glass rounded-3xl border border-slate-800 px-5 py-5">
+      <h2 className="text-lg font-semibold text-white">{t("barcode.title")}</h2>
+      <p className="mt-1 text-xs text-slate-300">
+        {photoSupported ? t("barcode.introPhoto") : t("barcode.intro")}{" "}
+        {productCount !== null
+          ? t("barcode.datasetCount", { count: number(productCount) })
+          : t("barcode.dataset")}
+      </p>
+
+      <form className="mt-4 flex flex-wrap gap-2" onSubmit={handleSubmit}>
+        <input
+          className={`${inputClass} min-w-0 flex-1`}
+          inputMode="numeric"
+          placeholder="8901234567890"
+          aria-label={t("barcode.code")}
+          value={code}
+          onChange={(event) => setCode(event.target.value)}
+        />
+        <button
+          type="submit"
+          className="rounded-2xl bg-brand px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-dark"
+          disabled={busy}
+        >
+          {t("barcode.lookUp")}
+        </button>
+        {photoSupported === true && (
+          <label className={`${buttonClass} flex cursor-pointer items-center`}>
+            {t("barcode.photo")}
+            <input type="file" accept="image/*" capture="environment" className="sr-only" onChange={handlePhoto} />
+          </label>
+        )}
+      </form>
+      {photoSupported === false && (
+        <p className="mt-2 text-xs text-slate-400">
+          {t("barcode.noPhoto")}
+        </p>
+      )}
+
+      {found && foundFood && (
+        <div className="mt-4 space-y-3 rounded-2xl bg-slate-900/70 px-4 py-3 text-xs text-slate-200">
+          <div>
+            <p className="text-sm font-semibold text-white">{found.name}</p>
+            <p className="text-slate-400">
+              {[found.brand, found.barcode, found.source === "local" ? t("barcode.local") : null]
+                .filter(Boolean)
+                .join(" · ")}
+            </p>
+          </div>
+          <table className="w-full text-left">
+            <thead className="text-slate-400">
+              <tr>
+                <th className="font-medium" />
+                {MACRO_FIELDS.map((field) => (
+                  <th key={field.key} className="text-right font-medium">
+                    {t(field.label)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {[
+                { label: t("barcode.per100g"), totals: found.per100g },
+                ...(found.serving
+                  ? [
+                      {
+                        label: t("barcode.perServing", { serving: found.serving.label }),
+                        totals: scaleMacros(found.per100g, found.serving.grams / 100)
+                      }
+                    ]
+                  : [])
+              ].map((row) => (
+                <tr key={row.label}>
+                  <td className="pr-2">{row.label}</td>
+                  {MACRO_FIELDS.map((field) => (
+                    <td key={field.key} className="text-right tabular-nums">
+                      {number(row.totals[field.key])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="number"
+              min="0.1"
+              step="0.1"
+              className={`${inputClass} w-24`}
+              aria-label={t("custom.quantity")}
+              value={quantity}
+              onChange={(event) => setQuantity(event.target.value)}
+            />
+            <select
+              className={inputClass}
+              aria-label={t("common.unit")}
+              value={unit}
+              onChange={(event) => setUnit(event.target.value)}
+            >
+              {portionOptions(foundFood).map((option) => (
+                <option key={option.unit} value={option.unit}>
+                  {unitName(option.unit)}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              className="rounded-2xl bg-brand px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-dark"
+              onClick={() => handleLog(found)}
+            >
+              {t("barcode.log")}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {lookup?.kind === "missing" && (
+        <form
+          className="mt-4 space-y-3 rounded-2xl bg-slate-900/70 px-4 py-3 text-xs text-slate-200"
+          onSubmit={(event) => handleSaveProduct(event, lookup.barcode)}
+        >
+          <p>
+            {t("barcode.missing", { barcode: lookup.barcode })}
+          </p>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1">
+              {t("custom.name")}
+              <input
+                required
+                className={inputClass}
+                value={draft.name}
+                onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              {t("barcode.brand")}
+              <input
+                className={inputClass}
+                value={draft.brand}
+                onChange={(event) => setDraft((prev) => ({ ...prev, brand: event.target.value }))}
+              />
+            </label>
+          </div>
+          <p className="text-slate-400">{t("barcode.perLabel")}</p>
+          <div className="grid grid-cols-4 gap-2">
+            {MACRO_FIELDS.map((field) => (
+              <label key={field.key} className="flex flex-col gap-1">
+                {t(field.label)}
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  required={field.key === "calories"}
+                  className={inputClass}
+                  value={draft[field.key]}
+                  onChange={(event) => setDraft((prev) => ({ ...prev, [field.key]: event.target.value }))}
+                />
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1">
+              {t("barcode.serving")}
+              <input
+                className={inputClass}
+                placeholder={t("barcode.servingPlaceholder")}
+                value={draft.servingLabel}
+                onChange={(event) => setDraft((prev) => ({ ...prev, servingLabel: event.target.value }))}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              {t("barcode.servingGrams")}
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                className={inputClass}
+                value={draft.servingGrams}
+                onChange={(event) => setDraft((prev) => ({ ...prev, servingGrams: event.target.value }))}
+              />
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="rounded-2xl bg-brand px-3 py-2 font-semibold text-white transition hover:bg-brand-dark"
+            >
+              {t("barcode.save")}
+            </button>
+            <button type="button" className={buttonClass} onClick={() => setLookup(null)}>
+              {t("common.cancel")}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="mt-4 flex items-center gap-2">
+        <label className={`${buttonClass} cursor-pointer`}>
+          {t("barcode.import")}
+          <input
+            type="file"
+            accept=".json,.jsonl,.csv,.tsv,application/json,text/csv,text/tab-separated-values"
+            className="sr-only"
+            onChange={handleImport}
+            disabled={busy}
+          />
+        </label>
+        <span className="text-xs text-slate-400">{t("barcode.importHint")}</span>
+      </div>
+
+      {message && <p className="mt-3 text-xs text-slate-300">{message}</p>}
+    </section>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { GLASS_ML, WATER_TARGET_ML, emptyBodyLog, type BodyLog } from "../lib/body";
+import { useI18n } from "./i18n-provider";
+
+interface BodyTrackerProps {
+  profileId: string;
+  dateKey: string;
+  log: BodyLog | null;
+  /** Called with a change to apply to the stored log, which may be newer than `log`. */
+  onUpdate: (change: (log: BodyLog) => BodyLog) => Promise<void>;
+}
+
+const inputClass = "rounded-xl border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100";
+
+const glassCount = WATER_TARGET_ML / GLASS_ML;
+
+const parseMeasurement = (value: string) => {
+  const parsed = Number(value);
+  return value.trim() && parsed > 0 ? Math.round(parsed * 10) / 10 : undefined;
+};
+
+export default function BodyTracker({ profileId, dateKey, log, onUpdate }: BodyTrackerProps) {
+  const { t, number } = useI18n();
+  const current = log ?? emptyBodyLog(profileId, dateKey);
+  const [weight, setWeight] = useState("");
+  const [waist, setWaist] = useState("");
+
+  useEffect(() => {
+    setWeight(log?.weightKg !== undefined ? String(log.weightKg) : "");
+    setWaist(log?.waistCm !== undefined ? String(log.waistCm) : "");
+  }, [log]);
+
+  const changeWater = (deltaMl: number) =>
+    onUpdate((stored) => ({ ...stored, waterMl: Math.max(0, stored.waterMl + deltaMl) }));
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const weightKg = parseMeasurement(weight);
+    const waistCm = parseMeasurement(waist);
+    await onUpdate((stored) => ({ ...stored, weightKg, waistCm }));
+  };
+
+  const filledGlasses = Math.floor(current.waterMl / GLASS_ML);
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/60 px-4 py-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <div className="flex items-baseline justify-between">
+            <h3 className="text-sm font-semibold text-white">{t("body.water")}</h3>
+            <span className="text-xs text-slate-400">
+              {t("body.waterProgress", { amount: number(current.waterMl), target: number(WATER_TARGET_ML) })}
+            </span>
+          </div>
+          <div className="mt-2 flex flex-wrap gap-1" aria-hidden>
+            {Array.from({ length: Math.max(glassCount, filledGlasses) }, (_, index) => (
+              <span
+                key={index}
+                className={`h-6 w-4 rounded-b-md border ${
+                  index < filledGlasses ? "border-sky-400 bg-sky-400/70" : "border-slate-600"
+                }`}
+              />
+            ))}
+          </div>
+          <div className="mt-3 flex gap-2">
+            <button
+              type="button"
+              className="rounded-xl bg-sky-500/80 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-sky-500"
+              onClick={() => changeWater(GLASS_ML)}
+            >
+              {t("body.addGlass", { amount: number(GLASS_ML) })}
+            </button>
+            <button
+              type="button"
+              className="rounded-xl border border-slate-700 px-3 py-1.5 text-xs text-slate-200 transition hover:bg-slate-800 disabled:opacity-50"
+              onClick={() => changeWater(-GLASS_ML)}
+              disabled={current.waterMl === 0}
+            >
+              {t("body.undoGlass")}
+            </button>
+          </div>
+        </div>
+
+        <form className="flex flex-col gap-2" onSubmit={handleSubmit}>
+          <h3 className="text-sm font-semibold text-white">{t("body.title")}</h3>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="flex flex-col gap-1 text-xs text-slate-300">
+              {t("body.weight")}
+              <input
+                type="number"
+                min="20"
+                step="0.1"
+                inputMode="decimal"
+                className={inputClass}
+                value={weight}
+                onChange={(event) => setWeight(event.target.value)}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-slate-300">
+              {t("body.waist")}
+              <input
+                type="number"
+                min="30"
+                step="0.5"
+                inputMode="decimal"
+                className={inputClass}
+                value={waist}
+                onChange={(event) => setWaist(event.target.value)}
+              />
+            </label>
+          </div>
+          <button
+            type="submit"
+            className="self-start rounded-xl border border-slate-700 px-3 py-1.5 text-xs font-medium text-slate-200 transition hover:bg-slate-800"
+          >
+            {t("body.save")}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { listLogsByDate, type LogEntry } from "../lib/db";
+import { MEAL_SLOTS, groupByMealSlot } from "../lib/meals";
+import { addDays } from "../lib/utils";
+import { useI18n } from "./i18n-provider";
+
+interface CopyEntriesPanelProps {
+  profileId: string;
+  targetDateKey: string;
+  onCopy: (entries: LogEntry[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClass = "rounded-xl border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100";
+
+export default function CopyEntriesPanel({ profileId, targetDateKey, onCopy, onClose }: CopyEntriesPanelProps) {
+  const { t, mealLabel, number, unit, date } = useI18n();
+  const [sourceDateKey, setSourceDateKey] = useState(() => addDays(targetDateKey, -1));
+  const [entries, setEntries] = useState<LogEntry[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [copying, setCopying] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    listLogsByDate(profileId, sourceDateKey)
+      .then((next) => {
+        if (cancelled) return;
+        setEntries(next);
+        setSelected(new Set(next.map((entry) => entry.id)));
+      })
+      .catch((error) => console.error("Failed to load entries to copy", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId, sourceDateKey]);
+
+  const bySlot = groupByMealSlot(entries);
+
+  const toggle = (ids: string[], on: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      ids.forEach((id) => (on ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const handleCopy = async () => {
+    setCopying(true);
+    try {
+      await onCopy(entries.filter((entry) => selected.has(entry.id)));
+      onClose();
+    } finally {
+      setCopying(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 rounded-2xl border border-slate-800 bg-slate-900/60 px-4 py-4 text-sm text-slate-200">
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-xs text-slate-300">
+          {t("copyDay.from")}
+          <input
+            type="date"
+            className={inputClass}
+            value={sourceDateKey}
+            onChange={(event) => setSourceDateKey(event.target.value)}
+          />
+        </label>
+        <button
+          type="button"
+          className="rounded-xl border border-slate-700 px-3 py-2 text-xs text-slate-200 transition hover:bg-slate-800"
+          onClick={() => setSourceDateKey(addDays(targetDateKey, -1))}
+        >
+          {t("copyDay.yesterday")}
+        </button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="mt-4 text-xs text-slate-400">{t("copyDay.empty", { date: date(sourceDateKey) })}</p>
+      ) : (
+        <div className="mt-4 space-y-3">
+          {MEAL_SLOTS.filter((slot) => bySlot[slot].length > 0).map((slot) => {
+            const ids = bySlot[slot].map((entry) => entry.id);
+            const allSelected = ids.every((id) => selected.has(id));
+            return (
+              <fieldset key={slot}>
+                <label className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-brand-light">
+                  <input type="checkbox" checked={allSelected} onChange={() => toggle(ids, !allSelected)} />
+                  {mealLabel(slot)}
+                </label>
+                <ul className="mt-1 space-y-1 pl-6">
+                  {bySlot[slot].map((entry) => (
+                    <li key={entry.id}>
+                      <label className="flex items-center gap-2 text-xs text-slate-200">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(entry.id)}
+                          onChange={(event) => toggle([entry.id], event.target.checked)}
+                        />
+                        {entry.name} • {number(entry.quantity, 2)} {unit(entry.unit)} • {number(entry.calories, 0)} kcal
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              </fieldset>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="mt-4 flex gap-2">
+        <button
+          type="button"
+          className="rounded-xl bg-brand px-3 py-2 text-xs font-semibold text-white transition hover:bg-brand-dark disabled:opacity-50"
+          onClick={handleCopy}
+          disabled={copying || selected.size === 0 || sourceDateKey === targetDateKey}
+        >
+          {t("copyDay.submit", { count: number(selected.size), date: date(targetDateKey) })}
+        </button>
+        <button
+          type="button"
+          className="rounded-xl border border-slate-700 px-3 py-2 text-xs text-slate-200 transition hover:bg-slate-800"
+          onClick={onClose}
+        >
+          {t("common.cancel")}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import { useState } from "react";
+import type { FoodItem } from "../data/foods";
+import { parseMicros } from "../lib/nutrients";
+import { SERVING_UNIT } from "../lib/portions";
+import { parseTags } from "../lib/utils";
+import { useI18n } from "./i18n-provider";
+import MicronutrientFields, { toMicroDraft } from "./micronutrient-fields";
+
+interface CustomFoodEditorProps {
+  food: FoodItem;
+  onSave: (food: FoodItem) => Promise<void>;
+  onCancel: () => void;
+}
+
+const inputClass =
+  "rounded-xl border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100";
+
+export default function CustomFoodEditor({ food, onSave, onCancel }: CustomFoodEditorProps) {
+  const { t, unit } = useI18n();
+  const [draft, setDraft] = useState({
+    name: food.name,
+    description: food.description,
+    defaultQuantity: String(food.defaultQuantity),
+    unit: food.unit,
+    calories: String(food.calories),
+    protein: String(food.protein),
+    carbs: String(food.carbs),
+    fats: String(food.fats),
+    micros: toMicroDraft(food.micros),
+    tags: food.tags.join(", ")
+  });
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    await onSave({
+      ...food,
+      name: draft.name || food.name,
+      description: draft.description,
+      defaultQuantity: Number(draft.defaultQuantity) || 1,
+      unit: draft.unit || SERVING_UNIT,
+      calories: Number(draft.calories) || 0,
+      protein: Number(draft.protein) || 0,
+      carbs: Number(draft.carbs) || 0,
+      fats: Number(draft.fats) || 0,
+      micros: parseMicros(draft.micros),
+      tags: parseTags(draft.tags)
+    });
+  };
+
+  return (
+    <form className="space-y-3 text-sm text-slate-200" onSubmit={handleSubmit}>
+      <label className="flex flex-col gap-1 text-xs">
+        {t("custom.name")}
+        <input
+          required
+          className={inputClass}
+          value={draft.name}
+          onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-xs">
+        {t("food.description")}
+        <input
+          className={inputClass}
+          value={draft.description}
+          onChange={(event) => setDraft((prev) => ({ ...prev, description: event.target.value }))}
+        />
+      </label>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="flex flex-col gap-1 text-xs">
+          {t("food.defaultQuantity")}
+          <input
+            type="number"
+            min="0.1"
+            step="0.1"
+            className={inputClass}
+            value={draft.defaultQuantity}
+            onChange={(event) => setDraft((prev) => ({ ...prev, defaultQuantity: event.target.value }))}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs">
+          {t("common.unit")}
+          <input
+            className={inputClass}
+            placeholder={unit(SERVING_UNIT)}
+            value={draft.unit === SERVING_UNIT ? "" : draft.unit}
+            onChange={(event) => setDraft((prev) => ({ ...prev, unit: event.target.value }))}
+          />
+        </label>
+        {(["calories", "protein", "carbs", "fats"] as const).map((key) => (
+          <label key={key} className="flex flex-col gap-1 text-xs">
+            {t(`custom.${key}`)}
+            <input
+              type="number"
+              min="0"
+              step={key === "calories" ? "1" : "0.1"}
+              className={inputClass}
+              value={draft[key]}
+              onChange={(event) => setDraft((prev) => ({ ...prev, [key]: event.target.value }))}
+            />
+          </label>
+        ))}
+      </div>
+      <MicronutrientFields value={draft.micros} onChange={(micros) => setDraft((prev) => ({ ...prev, micros }))} />
+      <label className="flex flex-col gap-1 text-xs">
+        {t("food.tags")}
+        <input
+          className={inputClass}
+          value={draft.tags}
+          onChange={(event) => setDraft((prev) => ({ ...prev, tags: event.target.value }))}
+        />
+      </label>
+      <div className="flex gap-3">
+        <button
+          type="submit"
+          className="rounded-2xl bg-brand px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-dark"
+        >
+          {t("food.save")}
+        </button>
+        <button
+          type="button"
+          className="rounded-2xl border border-slate-700 px-4 py-2 text-sm font-medium text-slate-200 transition hover:bg-slate-800"
+          onClick={onCancel}
+        >
+          {t("common.cancel")}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatLoggedTime } from "../lib/day";
+import { listDayJournal, type JournalOp, type JournalRecord, type JournalSource, type LogEntry } from "../lib/db";
+import { localeInfo, type MessageKey } from "../lib/i18n";
+import { useI18n, type I18n } from "./i18n-provider";
+
+interface DayHistoryProps {
+  profileId: string;
+  dateKey: string;
+  /** The day's entries; the history reloads when they change. */
+  entries: LogEntry[];
+  onClose: () => void;
+}
+
+const OP_LABELS: Record<JournalOp, MessageKey> = {
+  create: "changes.create",
+  update: "changes.update",
+  delete: "changes.delete",
+  restore: "changes.restore"
+};
+
+const SOURCE_LABELS: Partial<Record<JournalSource, MessageKey>> = {
+  undo: "changes.undo",
+  redo: "changes.redo",
+  sync: "changes.sync"
+};
+
+/** What an edit can change, in the order the history lists it. */
+const FIELDS: { label: MessageKey; read: (entry: LogEntry, i18n: I18n) => string }[] = [
+  { label: "custom.name", read: (entry) => entry.name },
+  { label: "changes.amount", read: (entry, i18n) => `${i18n.number(entry.quantity, 2)} ${i18n.unit(entry.unit)}` },
+  { label: "macro.calories", read: (entry, i18n) => `${i18n.number(entry.calories, 0)} kcal` },
+  { label: "macro.protein", read: (entry, i18n) => `${i18n.number(entry.protein)} g` },
+  { label: "macro.carbs", read: (entry, i18n) => `${i18n.number(entry.carbs)} g` },
+  { label: "macro.fats", read: (entry, i18n) => `${i18n.number(entry.fats)} g` },
+  { label: "custom.meal", read: (entry, i18n) => i18n.mealLabel(entry.mealSlot) },
+  { label: "changes.day", read: (entry, i18n) => i18n.date(entry.dateKey) },
+  { label: "changes.time", read: (entry, i18n) => formatLoggedTime(entry, localeInfo(i18n.locale).intl) },
+  { label: "custom.notes", read: (entry) => entry.notes ?? "" }
+];
+
+function changedFields(before: LogEntry, after: LogEntry, i18n: I18n): string[] {
+  return FIELDS.filter((field) => field.read(before, i18n) !== field.read(after, i18n)).map(
+    (field) => `${i18n.t(field.label)}: ${field.read(before, i18n) || "—"} → ${field.read(after, i18n) || "—"}`
+  );
+}
+
+export default function DayHistory({ profileId, dateKey, entries, onClose }: DayHistoryProps) {
+  const i18n = useI18n();
+  const { t, number } = i18n;
+  const [records, setRecords] = useState<JournalRecord[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    listDayJournal(profileId, dateKey)
+      .then((next) => !cancelled && setRecords(next.reverse()))
+      .catch((error) => console.error("Failed to load change history", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId, dateKey, entries]);
+
+  return (
+    <div className="mt-6 rounded-2xl border border-slate-800 bg-slate-900/60 px-4 py-4 text-sm text-slate-200">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-sm font-semibold text-white">{t("changes.title", { date: i18n.date(dateKey) })}</h3>
+        <button
+          type="button"
+          className="rounded-xl border border-slate-700 px-3 py-2 text-xs text-slate-200 transition hover:bg-slate-800"
+          onClick={onClose}
+        >
+          {t("common.close")}
+        </button>
+      </div>
+
+      {records.length === 0 ? (
+        <p className="mt-4 text-xs text-slate-400">{t("changes.empty")}</p>
+      ) : (
+        <ol className="mt-4 space-y-2">
+          {records.map((record) => {
+            const subject = (record.after ?? record.before)!;
+            const details = record.before && record.after ? changedFields(record.before, record.after, i18n) : [];
+            const source = SOURCE_LABELS[record.source];
+            return (
+              <li key={record.seq} className="rounded-xl bg-slate-950/40 px-3 py-2">
+                <p className="text-xs text-slate-400">
+                  {i18n.dateTime(new Date(record.at))}
+                  {source && ` · ${t(source)}`}
+                </p>
+                <p className="text-sm text-slate-100">
+                  {t(OP_LABELS[record.op])} {subject.name} • {number(subject.quantity, 2)}{" "}
+                  {i18n.unit(subject.unit)} • {number(subject.calories, 0)} kcal
+                </p>
+                {details.length > 0 && (
+                  <ul className="mt-1 space-y-0.5 text-xs text-slate-300">
+                    {details.map((detail) => (
+                      <li key={detail}>{detail}</li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,394 @@
+"use client";
+
+import { useState } from "react";
+import { LOCATIONS, locationById } from "../data/locations";
+import {
+  FASTING_PRESETS,
+  FAST_WINDOW_KINDS,
+  createSchedule,
+  fastingPeriodFor,
+  weekdayOf,
+  type FastDays,
+  type FastWindow,
+  type FastingPresetId,
+  type FastingSchedule
+} from "../lib/fasting";
+import { useI18n, type I18n } from "./i18n-provider";
+
+interface FastingPanelProps {
+  dateKey: string;
+  schedules: FastingSchedule[];
+  onSave: (schedules: FastingSchedule[]) => Promise<void>;
+}
+
+const inputClass = "rounded-xl border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100";
+
+const buttonClass =
+  "rounded-2xl border border-slate-700 px-3 py-2 text-xs font-medium text-slate-200 transition hover:bg-slate-800";
+
+const DEFAULT_WINDOWS: Record<FastWindow["kind"], FastWindow> = {
+  "eating-window": { kind: "eating-window", eatFrom: "12:00", eatUntil: "20:00" },
+  daylight: { kind: "daylight", locationId: LOCATIONS[0].id, from: "sunrise" },
+  "all-day": { kind: "all-day" },
+  "food-only": { kind: "food-only" }
+};
+
+/** A local `HH:MM` in the reader's clock style and digits. */
+function clock({ time }: I18n, value: string) {
+  const [hours, minutes] = value.split(":").map(Number);
+  return time(new Date(2000, 0, 1, hours, minutes));
+}
+
+function describeDays({ t, number, weekday }: I18n, days: FastDays) {
+  switch (days.kind) {
+    case "daily":
+      return t("fasting.everyDay");
+    case "weekly":
+      return days.weekdays.length ? days.weekdays.map(weekday).join(", ") : t("fasting.noWeekdays");
+    case "dates":
+      return days.dateKeys.length === 1
+        ? t("fasting.oneDate")
+        : t("fasting.chosenDates", { count: number(days.dateKeys.length) });
+  }
+}
+
+function describeWindow(i18n: I18n, fastWindow: FastWindow) {
+  const { t, locale } = i18n;
+  switch (fastWindow.kind) {
+    case "eating-window":
+      return t("fasting.eatWindow", { from: clock(i18n, fastWindow.eatFrom), until: clock(i18n, fastWindow.eatUntil) });
+    case "daylight":
+      return t(fastWindow.from === "dawn" ? "fasting.fromDawn" : "fasting.fromSunrise", {
+        place: locationById(fastWindow.locationId)?.name ?? t("fasting.unknownPlace")
+      });
+    default:
+      return t(`fastWindow.${fastWindow.kind}`).toLocaleLowerCase(locale);
+  }
+}
+
+interface ScheduleEditorProps {
+  schedule: FastingSchedule;
+  dateKey: string;
+  onSave: (schedule: FastingSchedule) => void;
+  onCancel: () => void;
+}
+
+function ScheduleEditor({ schedule, dateKey, onSave, onCancel }: ScheduleEditorProps) {
+  const { t, time, date, weekday } = useI18n();
+  const [draft, setDraft] = useState(schedule);
+  const [newDate, setNewDate] = useState(dateKey);
+  const update = (patch: Partial<FastingSchedule>) => setDraft((prev) => ({ ...prev, ...patch }));
+  const { days, window: fastWindow } = draft;
+  // Times on the selected date, whether or not it is one of the fast days.
+  const preview = fastingPeriodFor(
+    { ...draft, enabled: true, days: { kind: "daily" }, startDate: undefined, endDate: undefined },
+    dateKey
+  );
+
+  const setDaysKind = (kind: FastDays["kind"]) =>
+    update({
+      days: kind === "weekly" ? { kind, weekdays: [] } : kind === "dates" ? { kind, dateKeys: [] } : { kind }
+    });
+
+  const toggleWeekday = (day: number) => {
+    if (days.kind !== "weekly") return;
+    const weekdays = days.weekdays.includes(day)
+      ? days.weekdays.filter((item) => item !== day)
+      : [...days.weekdays, day].sort();
+    update({ days: { kind: "weekly", weekdays } });
+  };
+
+  const addDate = () => {
+    if (days.kind !== "dates" || !newDate || days.dateKeys.includes(newDate)) return;
+    update({ days: { kind: "dates", dateKeys: [...days.dateKeys, newDate].sort() } });
+  };
+
+  const removeDate = (dateKeyToRemove: string) => {
+    if (days.kind !== "dates") return;
+    update({ days: { kind: "dates", dateKeys: days.dateKeys.filter((item) => item !== dateKeyToRemove) } });
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    onSave({ ...draft, name: draft.name.trim() || t("fasting.defaultName") });
+  };
+
+  return (
+    <form className="mt-3 space-y-3 text-xs text-slate-300" onSubmit={handleSubmit}>
+      <label className="flex flex-col gap-1">
+        {t("custom.name")}
+        <input className={inputClass} value={draft.name} onChange={(event) => update({ name: event.target.value })} />
+      </label>
+
+      <label className="flex flex-col gap-1">
+        {t("fasting.days")}
+        <select
+          className={inputClass}
+          value={days.kind}
+          onChange={(event) => setDaysKind(event.target.value as FastDays["kind"])}
+        >
+          <option value="daily">{t("fasting.everyDay")}</option>
+          <option value="weekly">{t("fasting.weekly")}</option>
+          <option value="dates">{t("fasting.dates")}</option>
+        </select>
+      </label>
+      {days.kind === "weekly" && (
+        <div className="flex flex-wrap gap-2">
+          {[0, 1, 2, 3, 4, 5, 6].map((day) => (
+            <label key={day} className="flex items-center gap-1">
+              <input type="checkbox" checked={days.weekdays.includes(day)} onChange={() => toggleWeekday(day)} />
+              {weekday(day)}
+            </label>
+          ))}
+        </div>
+      )}
+      {days.kind === "dates" && (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="date"
+              className={inputClass}
+              value={newDate}
+              onChange={(event) => setNewDate(event.target.value)}
+            />
+            <button type="button" className={buttonClass} onClick={addDate}>
+              {t("fasting.addDate")}
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {days.dateKeys.map((key) => (
+              <button
+                key={key}
+                type="button"
+                className="rounded-full bg-slate-800 px-2 py-1 text-[11px] text-slate-200 hover:bg-slate-700"
+                onClick={() => removeDate(key)}
+                aria-label={t("fasting.removeDate", { date: date(key) })}
+              >
+                {date(key)} ✕
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex flex-col gap-1">
+          {t("fasting.from")}
+          <input
+            type="date"
+            className={inputClass}
+            value={draft.startDate ?? ""}
+            onChange={(event) => update({ startDate: event.target.value || undefined })}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          {t("fasting.until")}
+          <input
+            type="date"
+            className={inputClass}
+            value={draft.endDate ?? ""}
+            onChange={(event) => update({ endDate: event.target.value || undefined })}
+          />
+        </label>
+      </div>
+
+      <label className="flex flex-col gap-1">
+        {t("fasting.noFood")}
+        <select
+          className={inputClass}
+          value={fastWindow.kind}
+          onChange={(event) => update({ window: DEFAULT_WINDOWS[event.target.value as FastWindow["kind"]] })}
+        >
+          {FAST_WINDOW_KINDS.map((kind) => (
+            <option key={kind} value={kind}>
+              {t(`fastWindow.${kind}`)}
+            </option>
+          ))}
+        </select>
+      </label>
+      {fastWindow.kind === "eating-window" && (
+        <div className="grid grid-cols-2 gap-2">
+          <label className="flex flex-col gap-1">
+            {t("fasting.eatFrom")}
+            <input
+              type="time"
+              className={inputClass}
+              value={fastWindow.eatFrom}
+              onChange={(event) => update({ window: { ...fastWindow, eatFrom: event.target.value } })}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            {t("fasting.eatUntil")}
+            <input
+              type="time"
+              className={inputClass}
+              value={fastWindow.eatUntil}
+              onChange={(event) => update({ window: { ...fastWindow, eatUntil: event.target.value } })}
+            />
+          </label>
+        </div>
+      )}
+      {fastWindow.kind === "daylight" && (
+        <div className="grid grid-cols-2 gap-2">
+          <label className="flex flex-col gap-1">
+            {t("fasting.city")}
+            <select
+              className={inputClass}
+              value={fastWindow.locationId}
+              onChange={(event) => update({ window: { ...fastWindow, locationId: event.target.value } })}
+            >
+              {LOCATIONS.map((location) => (
+                <option key={location.id} value={location.id}>
+                  {location.name}, {location.country}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            {t("fasting.startsAt")}
+            <select
+              className={inputClass}
+              value={fastWindow.from}
+              onChange={(event) =>
+                update({ window: { ...fastWindow, from: event.target.value as "dawn" | "sunrise" } })
+              }
+            >
+              <option value="dawn">{t("fasting.dawn")}</option>
+              <option value="sunrise">{t("fasting.sunrise")}</option>
+            </select>
+          </label>
+        </div>
+      )}
+      {preview && (
+        <p className="text-slate-400">
+          {t("fasting.preview", { date: date(dateKey), start: time(preview.start), end: time(preview.end) })}
+        </p>
+      )}
+
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={draft.vrat} onChange={(event) => update({ vrat: event.target.checked })} />
+        {t("fasting.vrat")}
+      </label>
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          className="rounded-2xl bg-brand px-3 py-2 text-xs font-semibold text-white transition hover:bg-brand-dark"
+        >
+          {t("fasting.save")}
+        </button>
+        <button type="button" className={buttonClass} onClick={onCancel}>
+          {t("common.cancel")}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default function FastingPanel({ dateKey, schedules, onSave }: FastingPanelProps) {
+  const i18n = useI18n();
+  const { t, date } = i18n;
+  const [presetId, setPresetId] = useState(FASTING_PRESETS[0].id);
+  const [editing, setEditing] = useState<FastingSchedule | null>(null);
+
+  const handleAdd = () => {
+    const preset = FASTING_PRESETS.find((item) => item.id === presetId) ?? FASTING_PRESETS[0];
+    const name = t(`fastName.${preset.id}`, { day: i18n.weekday(weekdayOf(dateKey)) });
+    setEditing(createSchedule(preset, dateKey, name));
+  };
+
+  const handleSave = async (schedule: FastingSchedule) => {
+    const exists = schedules.some((item) => item.id === schedule.id);
+    await onSave(
+      exists ? schedules.map((item) => (item.id === schedule.id ? schedule : item)) : [...schedules, schedule]
+    );
+    setEditing(null);
+  };
+
+  return (
+    <section className="glass rounded-3xl border border-slate-800 px-5 py-5">
+      <h2 className="text-lg font-semibold text-white">{t("fasting.title")}</h2>
+      <p className="mt-1 text-xs text-slate-300">
+        {t("fasting.intro")}
+      </p>
+
+      {schedules.length > 0 && (
+        <ul className="mt-4 space-y-2">
+          {schedules.map((schedule) => (
+            <li key={schedule.id} className="rounded-2xl bg-slate-900/70 px-3 py-2 text-xs text-slate-200">
+              <div className="flex items-center gap-2">
+                <label className="flex flex-1 items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={schedule.enabled}
+                    onChange={(event) =>
+                      onSave(
+                        schedules.map((item) =>
+                          item.id === schedule.id ? { ...item, enabled: event.target.checked } : item
+                        )
+                      )
+                    }
+                    aria-label={t("fasting.toggle", { name: schedule.name })}
+                  />
+                  <span className="font-semibold">{schedule.name}</span>
+                </label>
+                <button
+                  type="button"
+                  className="text-slate-400 hover:text-slate-200"
+                  onClick={() => setEditing(schedule)}
+                >
+                  {t("common.edit")}
+                </button>
+                <button
+                  type="button"
+                  className="text-red-300 hover:text-red-200"
+                  onClick={() => onSave(schedules.filter((item) => item.id !== schedule.id))}
+                >
+                  {t("common.delete")}
+                </button>
+              </div>
+              <p className="mt-1 pl-6 text-slate-400">
+                {describeDays(i18n, schedule.days)}, {describeWindow(i18n, schedule.window)}
+                {schedule.startDate || schedule.endDate
+                  ? ` · ${t("fasting.range", {
+                      start: schedule.startDate ? date(schedule.startDate) : "…",
+                      end: schedule.endDate ? date(schedule.endDate) : "…"
+                    })}`
+                  : ""}
+                {schedule.vrat ? ` · ${t("fasting.vratFoods")}` : ""}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {editing ? (
+        <ScheduleEditor
+          key={editing.id}
+          schedule={editing}
+          dateKey={dateKey}
+          onSave={handleSave}
+          onCancel={() => setEditing(null)}
+        />
+      ) : (
+        <div className="mt-4 flex gap-2">
+          <select
+            aria-label={t("fasting.preset")}
+            className={`${inputClass} flex-1`}
+            value={presetId}
+            onChange={(event) => setPresetId(event.target.value as FastingPresetId)}
+          >
+            {FASTING_PRESETS.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {t(`fastPreset.${preset.id}`)}
+              </option>
+            ))}
+          </select>
+          <button type="button" className={buttonClass} onClick={handleAdd}>
+            {t("fasting.add")}
+          </button>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { fastingPeriodAt, formatCountdown, nextFastingPeriod, type FastingSchedule } from "../lib/fasting";
+import { useI18n } from "./i18n-provider";
+
+interface FastingTimerProps {
+  schedules: FastingSchedule[];
+}
+
+export default function FastingTimer({ schedules }: FastingTimerProps) {
+  const { t, time } = useI18n();
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  if (!schedules.some((schedule) => schedule.enabled)) return null;
+
+  const current = fastingPeriodAt(schedules, now);
+  if (current) {
+    const elapsed = now.getTime() - current.start.getTime();
+    const total = current.end.getTime() - current.start.getTime();
+    return (
+      <div className="mt-4 rounded-2xl border border-amber-500/40 bg-amber-500/10 px-4 py-3" role="timer">
+        <div className="flex flex-wrap items-baseline justify-between gap-2">
+          <p className="text-sm font-semibold text-amber-200">{t("timer.fasting", { name: current.name })}</p>
+          <p className="font-mono text-lg text-amber-100">{formatCountdown(current.end.getTime() - now.getTime())}</p>
+        </div>
+        <div className="mt-2 h-1.5 overflow-hidden rounded-full bg-slate-800">
+          <div className="h-full rounded-full bg-amber-400" style={{ width: `${(elapsed / total) * 100}%` }} />
+        </div>
+        <p className="mt-1 text-[11px] text-amber-200/80">
+          {t("timer.since", { start: time(current.start), end: time(current.end) })}
+        </p>
+      </div>
+    );
+  }
+
+  const next = nextFastingPeriod(schedules, now);
+  if (!next) return null;
+  return (
+    <div
+      className="mt-4 rounded-2xl border border-slate-800 bg-slate-900/60 px-4 py-3 text-sm text-slate-300"
+      role="timer"
+    >
+      {t("timer.open", {
+        name: next.name,
+        countdown: formatCountdown(next.start.getTime() - now.getTime()),
+        time: time(next.start)
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  ACTIVITY_LEVELS,
+  GOAL_TYPES,
+  computeTargets,
+  type ActivityLevel,
+  type GoalProfile,
+  type GoalType,
+  type MacroTargets,
+  type Sex
+} from "../lib/targets";
+import { useI18n } from "./i18n-provider";
+
+interface GoalProfileCardProps {
+  profileId: string;
+  dateKey: string;
+  profile: GoalProfile | null;
+  targets: MacroTargets;
+  /** Latest logged weigh-in, used to prefill the weight when the plan is edited. */
+  latestWeightKg: number | null;
+  onSave: (profile: GoalProfile) => Promise<void>;
+}
+
+interface DraftState {
+  weightKg: string;
+  heightCm: string;
+  age: string;
+  sex: Sex;
+  activity: ActivityLevel;
+  goal: GoalType;
+  useManual: boolean;
+  calories: string;
+  protein: string;
+  carbs: string;
+  fats: string;
+}
+
+const inputClass =
+  "rounded-xl border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100";
+
+function toDraft(profile: GoalProfile | null, targets: MacroTargets, latestWeightKg: number | null): DraftState {
+  return {
+    weightKg: String(latestWeightKg ?? profile?.weightKg ?? 65),
+    heightCm: profile ? String(profile.heightCm) : "165",
+    age: profile ? String(profile.age) : "30",
+    sex: profile?.sex ?? "female",
+    activity: profile?.activity ?? "light",
+    goal: profile?.goal ?? "maintain",
+    useManual: Boolean(profile?.manual),
+    calories: String(targets.calories),
+    protein: String(targets.protein),
+    carbs: String(targets.carbs),
+    fats: String(targets.fats)
+  };
+}
+
+export default function GoalProfileCard({
+  profileId,
+  dateKey,
+  profile,
+  targets,
+  latestWeightKg,
+  onSave
+}: GoalProfileCardProps) {
+  const { t, number, date } = useI18n();
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<DraftState>(() => toDraft(profile, targets, latestWeightKg));
+
+  useEffect(() => {
+    if (!editing) {
+      setDraft(toDraft(profile, targets, latestWeightKg));
+    }
+  }, [editing, profile, targets, latestWeightKg]);
+
+  const buildProfile = (): GoalProfile => ({
+    profileId,
+    effectiveFrom: dateKey,
+    weightKg: Number(draft.weightKg) || 0,
+    heightCm: Number(draft.heightCm) || 0,
+    age: Number(draft.age) || 0,
+    sex: draft.sex,
+    activity: draft.activity,
+    goal: draft.goal,
+    manual: draft.useManual
+      ? {
+          calories: Number(draft.calories) || 0,
+          protein: Number(draft.protein) || 0,
+          carbs: Number(draft.carbs) || 0,
+          fats: Number(draft.fats) || 0
+        }
+      : null,
+    updatedAt: new Date().toISOString()
+  });
+
+  const preview = computeTargets(buildProfile());
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    await onSave(buildProfile());
+    setEditing(false);
+  };
+
+  const rows = [
+    { label: t("plan.calories"), value: `${number(targets.calories, 0)} kcal` },
+    { label: t("plan.protein"), value: `${number(targets.protein, 0)} g` },
+    { label: t("plan.carbs"), value: `${number(targets.carbs, 0)} g` },
+    { label: t("plan.fats"), value: `${number(targets.fats, 0)} g` }
+  ];
+
+  return (
+    <section className="glass rounded-3xl border border-slate-800 px-5 py-5">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-white">{t("plan.title")}</h2>
+          <p className="mt-1 text-xs text-slate-300">
+            {profile
+              ? profile.manual
+                ? t("plan.manualSince", { date: date(profile.effectiveFrom) })
+                : t("plan.goalSince", { goal: t(`goal.${profile.goal}`), date: date(profile.effectiveFrom) })
+              : t("plan.default")}
+          </p>
+        </div>
+        <button
+          type="button"
+          className="rounded-xl border border-slate-700 px-3 py-1 text-xs font-medium text-slate-200 transition hover:bg-slate-800"
+          onClick={() => setEditing((current) => !current)}
+        >
+          {editing ? t("common.cancel") : t("common.edit")}
+        </button>
+      </div>
+
+      {editing ? (
+        <form className="mt-4 space-y-3 text-sm text-slate-200" onSubmit={handleSubmit}>
+          <div className="grid grid-cols-3 gap-3">
+            <label className="flex flex-col gap-1">
+              {t("body.weight")}
+              <input
+                type="number"
+                min="20"
+                step="0.1"
+                className={inputClass}
+                value={draft.weightKg}
+                onChange={(event) => setDraft((prev) => ({ ...prev, weightKg: event.target.value }))}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              {t("plan.height")}
+              <input
+                type="number"
+                min="90"
+                className={inputClass}
+                value={draft.heightCm}
+                onChange={(event) => setDraft((prev) => ({ ...prev, heightCm: event.target.value }))}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              {t("plan.age")}
+              <input
+                type="number"
+                min="10"
+                className={inputClass}
+                value={draft.age}
+                onChange={(event) => setDraft((prev) => ({ ...prev, age: event.target.value }))}
+              />
+            </label>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1">
+              {t("plan.sex")}
+              <select
+                className={inputClass}
+                value={draft.sex}
+                onChange={(event) => setDraft((prev) => ({ ...prev, sex: event.target.value as Sex }))}
+              >
+                <option value="female">{t("plan.female")}</option>
+                <option value="male">{t("plan.male")}</option>
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              {t("plan.goal")}
+              <select
+                className={inputClass}
+                value={draft.goal}
+                onChange={(event) => setDraft((prev) => ({ ...prev, goal: event.target.value as GoalType }))}
+              >
+                {GOAL_TYPES.map((goal) => (
+                  <option key={goal} value={goal}>
+                    {t(`goal.${goal}`)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <label className="flex flex-col gap-1">
+            {t("plan.activity")}
+            <select
+              className={inputClass}
+              value={draft.activity}
+              onChange={(event) => setDraft((prev) => ({ ...prev, activity: event.target.value as ActivityLevel }))}
+            >
+              {ACTIVITY_LEVELS.map((level) => (
+                <option key={level} value={level}>
+                  {t(`activity.${level}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            <input
+              type="checkbox"
+              checked={draft.useManual}
+              onChange={(event) => setDraft((prev) => ({ ...prev, useManual: event.target.checked }))}
+            />
+            {t("plan.manual")}
+          </label>
+          {draft.useManual && (
+            <div className="grid grid-cols-2 gap-3">
+              {(["calories", "protein", "carbs", "fats"] as const).map((key) => (
+                <label key={key} className="flex flex-col gap-1">
+                  {t(`custom.${key}`)}
+                  <input
+                    type="number"
+                    min="0"
+                    className={inputClass}
+                    value={draft[key]}
+                    onChange={(event) => setDraft((prev) => ({ ...prev, [key]: event.target.value }))}
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+          <p className="rounded-2xl bg-slate-900/70 px-4 py-3 text-xs text-slate-300">
+            {t("plan.preview", {
+              calories: number(preview.calories, 0),
+              protein: number(preview.protein, 0),
+              carbs: number(preview.carbs, 0),
+              fats: number(preview.fats, 0),
+              date: date(dateKey)
+            })}
+          </p>
+          <button
+            type="submit"
+            className="w-full rounded-2xl bg-brand py-2 text-sm font-semibold text-white transition hover:bg-brand-dark"
+          >
+            {t("plan.save")}
+          </button>
+        </form>
+      ) : (
+        <div className="mt-4 space-y-3 text-sm text-slate-200">
+          {rows.map((row) => (
+            <div key={row.label} className="flex items-center justify-between rounded-2xl bg-slate-900/70 px-4 py-3">
+              <span>{row.label}</span>
+              <span className="font-semibold">{row.value}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
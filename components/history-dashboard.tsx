@@ -0,0 +1,297 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { weightTrend, type BodyLog } from "../lib/body";
+import { listBodyLogsInRange, listGoalProfiles, listLogsInRange, type LogEntry } from "../lib/db";
+import { buildHistory } from "../lib/history";
+import { targetsForDate, type GoalProfile } from "../lib/targets";
+import { addDays } from "../lib/utils";
+import { useI18n } from "./i18n-provider";
+
+interface HistoryDashboardProps {
+  profileId: string;
+  endDateKey: string;
+  /** The actual current day, which the current streak counts back from. */
+  todayKey: string;
+  /** Changes whenever the day's log changes so the range is re-read. */
+  refreshKey: unknown;
+}
+
+const RANGES = [7, 30, 90] as const;
+type RangeDays = (typeof RANGES)[number];
+
+const CHART_HEIGHT = 120;
+const BAR_WIDTH = 10;
+/** Weigh-ins before the range still seed the trend so it does not restart at the first visible day. */
+const TREND_WARMUP_DAYS = 60;
+
+const MACRO_LINES = [
+  { key: "protein", label: "macro.protein", stroke: "#4ba89f" },
+  { key: "carbs", label: "macro.carbs", stroke: "#fbbf24" },
+  { key: "fats", label: "macro.fats", stroke: "#f472b6" }
+] as const;
+
+const toY = (value: number, max: number, min: number) => CHART_HEIGHT - ((value - min) / (max - min)) * CHART_HEIGHT;
+
+function toPoints(values: (number | null)[], max: number, min = 0): string {
+  return values
+    .map((value, index) =>
+      value === null ? null : `${index * BAR_WIDTH + BAR_WIDTH / 2},${toY(value, max, min)}`
+    )
+    .filter(Boolean)
+    .join(" ");
+}
+
+export default function HistoryDashboard({ profileId, endDateKey, todayKey, refreshKey }: HistoryDashboardProps) {
+  const { t, number, date } = useI18n();
+  const [rangeDays, setRangeDays] = useState<RangeDays>(7);
+  const [entries, setEntries] = useState<LogEntry[]>([]);
+  const [profiles, setProfiles] = useState<GoalProfile[]>([]);
+  const [bodyLogs, setBodyLogs] = useState<BodyLog[]>([]);
+  const startDateKey = addDays(endDateKey, -(rangeDays - 1));
+  // The current streak is counted back from today, even while an earlier week is on screen.
+  const loadUntilKey = todayKey > endDateKey ? todayKey : endDateKey;
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const [nextEntries, nextProfiles, nextBody] = await Promise.all([
+          listLogsInRange(profileId, startDateKey, loadUntilKey),
+          listGoalProfiles(profileId),
+          listBodyLogsInRange(profileId, addDays(startDateKey, -TREND_WARMUP_DAYS), endDateKey)
+        ]);
+        if (!cancelled) {
+          setEntries(nextEntries);
+          setProfiles(nextProfiles);
+          setBodyLogs(nextBody);
+        }
+      } catch (error) {
+        console.error("Failed to load history", error);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId, startDateKey, loadUntilKey, endDateKey, refreshKey]);
+
+  const stats = useMemo(
+    () =>
+      buildHistory(entries, startDateKey, endDateKey, (dateKey) => targetsForDate(profiles, dateKey), todayKey),
+    [entries, profiles, startDateKey, endDateKey, todayKey]
+  );
+
+  const calorieMax = Math.max(
+    1,
+    ...stats.days.map((day) => Math.max(day.totals.calories, day.target.calories))
+  ) * 1.1;
+  const macroMax = Math.max(
+    1,
+    ...stats.days.map((day) => Math.max(day.totals.protein, day.totals.carbs, day.totals.fats))
+  ) * 1.1;
+  const chartWidth = stats.days.length * BAR_WIDTH;
+
+  const weightByDate = useMemo(
+    () => new Map(weightTrend(bodyLogs).map((point) => [point.dateKey, point])),
+    [bodyLogs]
+  );
+  const weightDays = stats.days.map((day) => weightByDate.get(day.dateKey) ?? null);
+  const weightValues = weightDays.flatMap((point) => (point ? [point.weightKg, point.trendKg] : []));
+  const weightMin = Math.min(...weightValues) - 0.5;
+  const weightMax = Math.max(...weightValues) + 0.5;
+  const latestWeight = [...weightDays].reverse().find(Boolean) ?? null;
+
+  const tiles = [
+    { label: t("history.avgCalories"), value: `${number(stats.averages.calories, 0)} kcal` },
+    { label: t("history.avgProtein"), value: `${number(stats.averages.protein)} g` },
+    { label: t("history.avgCarbs"), value: `${number(stats.averages.carbs)} g` },
+    { label: t("history.avgFats"), value: `${number(stats.averages.fats)} g` },
+    {
+      label: t("history.onTarget"),
+      value: stats.loggedDays ? `${number((stats.adherentDays / stats.loggedDays) * 100, 0)}%` : "—"
+    },
+    { label: t("history.daysLogged"), value: `${number(stats.loggedDays)} / ${number(stats.days.length)}` },
+    { label: t("history.currentStreak"), value: t("history.streak", { count: number(stats.currentStreak) }) },
+    { label: t("history.bestStreak"), value: t("history.streak", { count: number(stats.longestStreak) }) }
+  ];
+
+  return (
+    <section className="glass rounded-3xl border border-slate-800 px-6 py-6">
+      <div className="flex flex-col items-start justify-between gap-3 sm:flex-row sm:items-center">
+        <div>
+          <h2 className="text-xl font-semibold text-white">{t("history.title")}</h2>
+          <p className="text-sm text-slate-300">
+            {t("history.intro", { start: date(startDateKey), end: date(endDateKey) })}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {RANGES.map((days) => (
+            <button
+              key={days}
+              type="button"
+              onClick={() => setRangeDays(days)}
+              className={`rounded-full px-3 py-1 text-xs font-medium uppercase tracking-wide transition ${
+                rangeDays === days ? "bg-brand text-slate-50" : "bg-slate-800 text-slate-200 hover:bg-slate-700"
+              }`}
+            >
+              {t("history.days", { count: number(days) })}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <dl className="mt-6 grid grid-cols-2 gap-3 sm:grid-cols-4">
+        {tiles.map((tile) => (
+          <div key={tile.label} className="rounded-xl border border-slate-800 bg-slate-900/60 px-4 py-3">
+            <dt className="text-xs uppercase text-slate-400">{tile.label}</dt>
+            <dd className="text-lg font-semibold text-slate-100">{tile.value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <div className="mt-6 space-y-2">
+        <p className="text-xs uppercase tracking-wide text-slate-400">
+          {t("history.calories")} • <span className="text-slate-200">{t("history.average")}</span> •{" "}
+          <span className="text-red-300">{t("history.target")}</span>
+        </p>
+        <svg
+          className="h-40 w-full rounded-2xl bg-slate-900/60"
+          viewBox={`0 0 ${chartWidth} ${CHART_HEIGHT}`}
+          preserveAspectRatio="none"
+          role="img"
+          aria-label={t("history.caloriesChart")}
+        >
+          {stats.days.map((day, index) => {
+            const height = (day.totals.calories / calorieMax) * CHART_HEIGHT;
+            return (
+              <rect
+                key={day.dateKey}
+                x={index * BAR_WIDTH + 1}
+                y={CHART_HEIGHT - height}
+                width={BAR_WIDTH - 2}
+                height={height}
+                className={day.adherent ? "fill-brand-light" : "fill-slate-600"}
+              >
+                <title>
+                  {t("history.dayCalories", {
+                    date: date(day.dateKey),
+                    calories: number(day.totals.calories, 0),
+                    target: number(day.target.calories, 0)
+                  })}
+                </title>
+              </rect>
+            );
+          })}
+          <polyline
+            points={toPoints(stats.days.map((day) => day.target.calories), calorieMax)}
+            fill="none"
+            stroke="#fca5a5"
+            strokeDasharray="4 3"
+            strokeWidth={1}
+            vectorEffect="non-scaling-stroke"
+          />
+          <polyline
+            points={toPoints(stats.rollingCalories, calorieMax)}
+            fill="none"
+            stroke="#e2e8f0"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        </svg>
+      </div>
+
+      <div className="mt-6 space-y-2">
+        <p className="text-xs uppercase tracking-wide text-slate-400">
+          {t("history.macros")} •{" "}
+          {MACRO_LINES.map((line, index) => (
+            <span key={line.key} style={{ color: line.stroke }}>
+              {t(line.label)}
+              {index < MACRO_LINES.length - 1 ? " • " : ""}
+            </span>
+          ))}
+        </p>
+        <svg
+          className="h-32 w-full rounded-2xl bg-slate-900/60"
+          viewBox={`0 0 ${chartWidth} ${CHART_HEIGHT}`}
+          preserveAspectRatio="none"
+          role="img"
+          aria-label={t("history.macrosChart")}
+        >
+          {MACRO_LINES.map((line) => (
+            <polyline
+              key={line.key}
+              points={toPoints(
+                stats.days.map((day) => (day.entryCount > 0 ? day.totals[line.key] : null)),
+                macroMax
+              )}
+              fill="none"
+              stroke={line.stroke}
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+        </svg>
+      </div>
+
+      <div className="mt-6 space-y-2">
+        <p className="text-xs uppercase tracking-wide text-slate-400">
+          {t("history.weight")} • <span className="text-sky-300">{t("history.weighIns")}</span> •{" "}
+          <span className="text-slate-200">{t("history.trend")}</span>
+          {latestWeight && (
+            <span className="normal-case text-slate-300">
+              {" "}
+              — {t("history.latestTrend", { weight: number(latestWeight.trendKg), date: date(latestWeight.dateKey) })}
+            </span>
+          )}
+        </p>
+        {weightValues.length === 0 ? (
+          <p className="rounded-2xl bg-slate-900/60 px-4 py-6 text-sm text-slate-400">
+            {t("history.noWeight")}
+          </p>
+        ) : (
+          <svg
+            className="h-32 w-full rounded-2xl bg-slate-900/60"
+            viewBox={`0 0 ${chartWidth} ${CHART_HEIGHT}`}
+            preserveAspectRatio="none"
+            role="img"
+            aria-label={t("history.weightChart")}
+          >
+            {weightDays.map((point, index) =>
+              point ? (
+                <rect
+                  key={point.dateKey}
+                  x={index * BAR_WIDTH + BAR_WIDTH / 2 - 1.5}
+                  y={toY(point.weightKg, weightMax, weightMin) - 1.5}
+                  width={3}
+                  height={3}
+                  className="fill-sky-300"
+                >
+                  <title>
+                    {t("history.weighIn", {
+                      date: date(point.dateKey),
+                      weight: number(point.weightKg),
+                      trend: number(point.trendKg)
+                    })}
+                  </title>
+                </rect>
+              ) : null
+            )}
+            <polyline
+              points={toPoints(
+                weightDays.map((point) => point?.trendKg ?? null),
+                weightMax,
+                weightMin
+              )}
+              fill="none"
+              stroke="#e2e8f0"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+        )}
+      </div>
+    </section>
+  );
+}
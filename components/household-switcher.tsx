@@ -0,0 +1,179 @@
+"use client";
+
+import { useState } from "react";
+import { DAY_START_HOURS } from "../lib/day";
+import { DEFAULT_PROFILE_ID, profileInitial, profileNameProblem, type Profile } from "../lib/profiles";
+import { useI18n } from "./i18n-provider";
+
+interface HouseholdSwitcherProps {
+  profiles: Profile[];
+  activeId: string;
+  onSelect: (profileId: string) => Promise<void>;
+  onCreate: (name: string) => Promise<void>;
+  onUpdate: (profile: Profile, changes: Pick<Profile, "name" | "dayStartHour">) => Promise<void>;
+  onDelete: (profile: Profile) => Promise<void>;
+}
+
+const inputClass = "rounded-xl border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100";
+
+const buttonClass =
+  "rounded-2xl border border-slate-700 px-3 py-2 text-xs font-medium text-slate-200 transition hover:bg-slate-800";
+
+type Mode = "idle" | "adding" | "renaming";
+
+export default function HouseholdSwitcher({
+  profiles,
+  activeId,
+  onSelect,
+  onCreate,
+  onUpdate,
+  onDelete
+}: HouseholdSwitcherProps) {
+  const { t, time, profileName } = useI18n();
+  const [mode, setMode] = useState<Mode>("idle");
+  const [name, setName] = useState("");
+  const [dayStartHour, setDayStartHour] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const active = profiles.find((profile) => profile.id === activeId);
+
+  const open = (next: Mode) => {
+    setMode(next);
+    setName(next === "renaming" && active ? active.name : "");
+    setDayStartHour(active?.dayStartHour ?? 0);
+    setError(null);
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const others = mode === "renaming" ? profiles.filter((profile) => profile.id !== activeId) : profiles;
+    const unchanged = mode === "renaming" && name === active?.name;
+    const problem = unchanged ? null : profileNameProblem(name, others);
+    if (problem) {
+      setError(problem === "missing" ? t("profile.nameMissing") : t("profile.nameTaken", { name: name.trim() }));
+      return;
+    }
+    try {
+      if (mode === "renaming" && active) {
+        await onUpdate(active, { name, dayStartHour });
+      } else {
+        await onCreate(name);
+      }
+      setMode("idle");
+    } catch (error) {
+      console.error("Failed to save profile", error);
+      setError(t("profile.saveFailed"));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!active) return;
+    if (!window.confirm(t("profile.confirmRemove", { name: profileName(active) }))) return;
+    try {
+      await onDelete(active);
+      setMode("idle");
+    } catch (error) {
+      console.error("Failed to remove profile", error);
+      setError(t("profile.removeFailed"));
+    }
+  };
+
+  return (
+    <div className="mt-6">
+      <div className="flex flex-wrap items-center gap-2" role="radiogroup" aria-label={t("profile.group")}>
+        {profiles.map((profile) => {
+          const selected = profile.id === activeId;
+          return (
+            <button
+              key={profile.id}
+              type="button"
+              role="radio"
+              aria-checked={selected}
+              onClick={() => onSelect(profile.id)}
+              className={`flex items-center gap-2 rounded-full border py-1 pl-1 pr-3 text-xs font-medium transition ${
+                selected
+                  ? "border-brand-light bg-slate-800 text-white"
+                  : "border-slate-700 text-slate-300 hover:bg-slate-800"
+              }`}
+            >
+              <span
+                className={`flex h-6 w-6 items-center justify-center rounded-full text-[11px] font-semibold text-white ${profile.colour}`}
+                aria-hidden
+              >
+                {profileInitial({ name: profileName(profile) })}
+              </span>
+              {profileName(profile)}
+            </button>
+          );
+        })}
+        <button
+          type="button"
+          className="rounded-full border border-dashed border-slate-600 px-3 py-1 text-xs text-slate-300 transition hover:bg-slate-800"
+          onClick={() => open(mode === "adding" ? "idle" : "adding")}
+        >
+          {t("profile.add")}
+        </button>
+        {active && (
+          <button
+            type="button"
+            className="px-2 text-xs text-slate-400 underline-offset-2 hover:text-slate-200 hover:underline"
+            onClick={() => open(mode === "renaming" ? "idle" : "renaming")}
+          >
+            {t("profile.edit", { name: profileName(active) })}
+          </button>
+        )}
+      </div>
+
+      {mode !== "idle" && (
+        <form className="mt-3 flex flex-wrap items-end gap-2" onSubmit={handleSubmit}>
+          <label className="flex flex-col gap-1 text-xs text-slate-300">
+            {mode === "adding" ? t("profile.new") : t("custom.name")}
+            <input
+              autoFocus
+              className={inputClass}
+              placeholder={mode === "renaming" && active ? profileName(active) : t("profile.namePlaceholder")}
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+            />
+          </label>
+          {mode === "renaming" && (
+            <label className="flex flex-col gap-1 text-xs text-slate-300">
+              {t("profile.dayStart")}
+              <select
+                className={inputClass}
+                value={dayStartHour}
+                onChange={(event) => setDayStartHour(Number(event.target.value))}
+              >
+                {DAY_START_HOURS.map((hour) => (
+                  <option key={hour} value={hour}>
+                    {hour === 0 ? t("profile.midnight") : time(new Date(2000, 0, 1, hour))}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <button
+            type="submit"
+            className="rounded-2xl bg-brand px-3 py-2 text-xs font-semibold text-white transition hover:bg-brand-dark"
+          >
+            {mode === "adding" ? t("catalogue.add") : t("profile.save")}
+          </button>
+          {mode === "renaming" && activeId !== DEFAULT_PROFILE_ID && (
+            <button
+              type="button"
+              className="rounded-2xl border border-red-500/40 px-3 py-2 text-xs font-medium text-red-300 transition hover:bg-red-500/10"
+              onClick={handleDelete}
+            >
+              {t("profile.remove")}
+            </button>
+          )}
+          <button type="button" className={buttonClass} onClick={() => setMode("idle")}>
+            {t("common.cancel")}
+          </button>
+        </form>
+      )}
+
+      {error && <p className="mt-2 text-xs text-red-300">{error}</p>}
+    </div>
+  );
+}
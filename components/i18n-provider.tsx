@@ -0,0 +1,93 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import type { FoodItem } from "../data/foods";
+import {
+  DEFAULT_LOCALE,
+  browserLocale,
+  formatDate,
+  formatDateTime,
+  formatNumber,
+  formatTime,
+  formatWeekday,
+  getStoredLocale,
+  localFoodName,
+  localeInfo,
+  mealSlotLabel,
+  profileLabel,
+  putStoredLocale,
+  translate,
+  unitLabel,
+  type Locale,
+  type MessageKey
+} from "../lib/i18n";
+import type { MealSlot } from "../lib/meals";
+import type { Profile } from "../lib/profiles";
+
+export interface I18n {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+  mealLabel: (slot: MealSlot) => string;
+  number: (value: number, maximumFractionDigits?: number) => string;
+  time: (date: Date) => string;
+  date: (dateKey: string) => string;
+  dateTime: (date: Date) => string;
+  /** Short weekday name, counted from 0 = Sunday. */
+  weekday: (day: number) => string;
+  foodName: (food: Pick<FoodItem, "name" | "names">) => string;
+  unit: (unit: string) => string;
+  profileName: (profile: Pick<Profile, "id" | "name">) => string;
+}
+
+const I18nContext = createContext<I18n | null>(null);
+
+export default function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+
+  useEffect(() => {
+    getStoredLocale()
+      .then((stored) => setLocaleState(stored ?? browserLocale(navigator.languages)))
+      .catch((error) => console.error("Failed to load language", error));
+  }, []);
+
+  // The server renders English; the chosen language takes over once it is read from IndexedDB.
+  useEffect(() => {
+    const { dir } = localeInfo(locale);
+    document.documentElement.lang = locale;
+    document.documentElement.dir = dir;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    putStoredLocale(next).catch((error) => console.error("Failed to save language", error));
+  }, []);
+
+  const value = useMemo<I18n>(
+    () => ({
+      locale,
+      setLocale,
+      t: (key, params) => translate(locale, key, params),
+      mealLabel: (slot) => mealSlotLabel(locale, slot),
+      number: (amount, maximumFractionDigits) => formatNumber(locale, amount, maximumFractionDigits),
+      time: (date) => formatTime(locale, date),
+      date: (dateKey) => formatDate(locale, dateKey),
+      dateTime: (date) => formatDateTime(locale, date),
+      weekday: (day) => formatWeekday(locale, day),
+      foodName: (food) => localFoodName(food, locale),
+      unit: (unit) => unitLabel(locale, unit),
+      profileName: (profile) => profileLabel(locale, profile)
+    }),
+    [locale, setLocale]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18n {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error("useI18n must be used inside I18nProvider");
+  }
+  return context;
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import { LOCALES, type Locale } from "../lib/i18n";
+import { useI18n } from "./i18n-provider";
+
+export default function LanguagePicker() {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className="flex items-center justify-end gap-2 text-xs text-slate-400">
+      {t("app.language")}
+      <select
+        className="rounded-xl border border-slate-700 bg-slate-900 px-2 py-1 text-sm text-slate-100"
+        value={locale}
+        onChange={(event) => setLocale(event.target.value as Locale)}
+      >
+        {LOCALES.map((item) => (
+          <option key={item.id} value={item.id} lang={item.id}>
+            {item.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
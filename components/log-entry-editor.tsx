@@ -0,0 +1,240 @@
+"use client";
+
+import { useState } from "react";
+import type { FoodItem } from "../data/foods";
+import MicronutrientFields, { toMicroDraft } from "./micronutrient-fields";
+import type { LogEntry } from "../lib/db";
+import { parseMicros, scaleMicros } from "../lib/nutrients";
+import { GRAM_UNIT, SERVING_UNIT, portionOptions, resolveServing } from "../lib/portions";
+import { MEAL_SLOTS, type MealSlot } from "../lib/meals";
+import { instantOnDay, loggedTimeInput, utcOffsetAt } from "../lib/day";
+import { scaleMacros } from "../lib/utils";
+import { useI18n } from "./i18n-provider";
+
+interface LogEntryEditorProps {
+  entry: LogEntry;
+  /** Source catalogue item when the entry was logged from one; macros are rescaled from it. */
+  food?: FoodItem;
+  /** The owner's day start hour, so an early-morning time stays on the entry's day. */
+  dayStartHour: number;
+  onSave: (entry: LogEntry) => Promise<void>;
+  onCancel: () => void;
+}
+
+const inputClass =
+  "rounded-xl border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100";
+
+export default function LogEntryEditor({ entry, food, dayStartHour, onSave, onCancel }: LogEntryEditorProps) {
+  const { t, mealLabel, number, unit } = useI18n();
+  const loggedTime = loggedTimeInput(entry);
+  const [draft, setDraft] = useState({
+    name: entry.name,
+    quantity: String(entry.quantity),
+    unit: entry.unit,
+    calories: String(entry.calories),
+    protein: String(entry.protein),
+    carbs: String(entry.carbs),
+    fats: String(entry.fats),
+    micros: toMicroDraft(entry.micros),
+    mealSlot: entry.mealSlot,
+    notes: entry.notes ?? "",
+    date: entry.dateKey,
+    time: loggedTime
+  });
+
+  const quantity = Number(draft.quantity) || entry.quantity;
+  const serving = food ? resolveServing(food, quantity, draft.unit) : null;
+  const factor = serving?.factor ?? 1;
+  const scaled = food ? scaleMacros(food, factor) : null;
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    // An unchanged day and time keeps the original instant and offset, even after travelling.
+    const moved = draft.date !== entry.dateKey || draft.time !== loggedTime;
+    const createdAt = moved ? instantOnDay(draft.date, draft.time, dayStartHour) : null;
+    const macros = scaled ?? {
+      calories: Number(draft.calories) || 0,
+      protein: Number(draft.protein) || 0,
+      carbs: Number(draft.carbs) || 0,
+      fats: Number(draft.fats) || 0
+    };
+
+    await onSave({
+      ...entry,
+      ...macros,
+      micros: food ? scaleMicros(food.micros, factor) : parseMicros(draft.micros),
+      name: food ? entry.name : draft.name || t("custom.untitled"),
+      quantity,
+      mealSlot: draft.mealSlot,
+      unit: food ? draft.unit : draft.unit || SERVING_UNIT,
+      grams: food
+        ? serving?.grams
+        : draft.unit.trim().toLowerCase() === GRAM_UNIT
+          ? quantity
+          : undefined,
+      notes: draft.notes || undefined,
+      ...(createdAt && !Number.isNaN(createdAt.getTime())
+        ? { createdAt: createdAt.toISOString(), utcOffset: utcOffsetAt(createdAt) }
+        : {}),
+      dateKey: draft.date || entry.dateKey
+    });
+  };
+
+  return (
+    <form className="w-full space-y-3 text-sm text-slate-200" onSubmit={handleSubmit}>
+      {food ? (
+        <div className="flex flex-wrap items-end gap-3">
+          <p className="flex-1 text-base font-semibold text-white">{entry.name}</p>
+          <label className="flex flex-col gap-1 text-xs">
+            {t("catalogue.quantity")}
+            <input
+              type="number"
+              step={draft.unit === GRAM_UNIT ? "5" : "0.25"}
+              min="0.25"
+              className={`${inputClass} w-28`}
+              value={draft.quantity}
+              onChange={(event) => setDraft((prev) => ({ ...prev, quantity: event.target.value }))}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs">
+            {t("common.unit")}
+            <select
+              className={inputClass}
+              value={draft.unit}
+              disabled={!food.grams}
+              onChange={(event) => setDraft((prev) => ({ ...prev, unit: event.target.value }))}
+            >
+              {portionOptions(food).map((portion) => (
+                <option key={portion.unit} value={portion.unit}>
+                  {unit(portion.unit)}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+          <label className="col-span-2 flex flex-col gap-1 text-xs">
+            {t("custom.name")}
+            <input
+              required
+              className={inputClass}
+              value={draft.name}
+              onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs">
+            {t("custom.quantity")}
+            <input
+              type="number"
+              min="0.1"
+              step="0.1"
+              className={inputClass}
+              value={draft.quantity}
+              onChange={(event) => setDraft((prev) => ({ ...prev, quantity: event.target.value }))}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs">
+            {t("common.unit")}
+            <input
+              className={inputClass}
+              placeholder={unit(SERVING_UNIT)}
+              value={draft.unit === SERVING_UNIT ? "" : draft.unit}
+              onChange={(event) => setDraft((prev) => ({ ...prev, unit: event.target.value }))}
+            />
+          </label>
+          {(["calories", "protein", "carbs", "fats"] as const).map((key) => (
+            <label key={key} className="flex flex-col gap-1 text-xs">
+              {t(`custom.${key}`)}
+              <input
+                type="number"
+                min="0"
+                step={key === "calories" ? "1" : "0.1"}
+                className={inputClass}
+                value={draft[key]}
+                onChange={(event) => setDraft((prev) => ({ ...prev, [key]: event.target.value }))}
+              />
+            </label>
+          ))}
+          <div className="col-span-full">
+            <MicronutrientFields
+              value={draft.micros}
+              onChange={(micros) => setDraft((prev) => ({ ...prev, micros }))}
+            />
+          </div>
+        </div>
+      )}
+      <div className="grid grid-cols-3 gap-3">
+        <label className="flex flex-col gap-1 text-xs">
+          {t("custom.meal")}
+          <select
+            className={inputClass}
+            value={draft.mealSlot}
+            onChange={(event) => setDraft((prev) => ({ ...prev, mealSlot: event.target.value as MealSlot }))}
+          >
+            {MEAL_SLOTS.map((slot) => (
+              <option key={slot} value={slot}>
+                {mealLabel(slot)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs">
+          {t("entry.date")}
+          <input
+            type="date"
+            required
+            className={inputClass}
+            value={draft.date}
+            onChange={(event) => setDraft((prev) => ({ ...prev, date: event.target.value }))}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs">
+          {t("entry.time")}
+          <input
+            type="time"
+            required
+            className={inputClass}
+            value={draft.time}
+            onChange={(event) => setDraft((prev) => ({ ...prev, time: event.target.value }))}
+          />
+        </label>
+      </div>
+      <label className="flex flex-col gap-1 text-xs">
+        {t("custom.notes")}
+        <textarea
+          rows={2}
+          className={inputClass}
+          value={draft.notes}
+          onChange={(event) => setDraft((prev) => ({ ...prev, notes: event.target.value }))}
+        />
+      </label>
+      {scaled && (
+        <p className="text-xs text-slate-400">
+          {serving?.grams !== undefined && `${number(serving.grams, 0)} g • `}
+          {t("macro.summary", {
+            calories: number(scaled.calories, 0),
+            protein: number(scaled.protein),
+            carbs: number(scaled.carbs),
+            fats: number(scaled.fats)
+          })}
+        </p>
+      )}
+      <div className="flex gap-3">
+        <button
+          type="submit"
+          className="rounded-2xl bg-brand px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-dark"
+        >
+          {t("entry.save")}
+        </button>
+        <button
+          type="button"
+          className="rounded-2xl border border-slate-700 px-4 py-2 text-sm font-medium text-slate-200 transition hover:bg-slate-800"
+          onClick={onCancel}
+        >
+          {t("common.cancel")}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { MICRONUTRIENTS, MICRO_KEYS, type MicroKey, type Micronutrients } from "../lib/nutrients";
+import { useI18n } from "./i18n-provider";
+
+export type MicroDraft = Record<MicroKey, string>;
+
+export function toMicroDraft(micros?: Micronutrients): MicroDraft {
+  return MICRO_KEYS.reduce((acc, key) => {
+    acc[key] = micros?.[key] === undefined ? "" : String(micros[key]);
+    return acc;
+  }, {} as MicroDraft);
+}
+
+interface MicronutrientFieldsProps {
+  value: MicroDraft;
+  onChange: (next: MicroDraft) => void;
+}
+
+/** Collapsible inputs for the optional nutrients; blank means unknown. */
+export default function MicronutrientFields({ value, onChange }: MicronutrientFieldsProps) {
+  const { t, number } = useI18n();
+  const filled = MICRO_KEYS.filter((key) => value[key].trim() !== "").length;
+
+  return (
+    <details className="rounded-xl border border-slate-800 px-3 py-2">
+      <summary className="cursor-pointer text-xs text-slate-300">
+        {filled > 0 ? t("micro.fieldsSet", { count: number(filled) }) : t("micro.fields")}
+      </summary>
+      <div className="mt-3 grid grid-cols-2 gap-3">
+        {MICRONUTRIENTS.map((info) => (
+          <label key={info.key} className="flex flex-col gap-1 text-xs">
+            {t(`micro.${info.key}`)} ({info.unit})
+            <input
+              type="number"
+              min="0"
+              step={info.unit === "g" ? "0.1" : "1"}
+              placeholder={t("micro.unknown")}
+              className="rounded-xl border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100"
+              value={value[info.key]}
+              onChange={(event) => onChange({ ...value, [info.key]: event.target.value })}
+            />
+          </label>
+        ))}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { MICRONUTRIENTS, sumMicros, type Micronutrients } from "../lib/nutrients";
+import { useI18n } from "./i18n-provider";
+
+interface NutrientPanelProps {
+  entries: { micros?: Micronutrients }[];
+}
+
+export default function NutrientPanel({ entries }: NutrientPanelProps) {
+  const { t, number } = useI18n();
+  const totals = sumMicros(entries);
+
+  return (
+    <details className="mt-4 rounded-2xl border border-slate-800 bg-slate-900/60 px-4 py-3 text-sm text-slate-200">
+      <summary className="cursor-pointer text-xs uppercase tracking-wide text-slate-400">
+        {t("micro.summary")}
+      </summary>
+      <ul className="mt-3 grid gap-3 sm:grid-cols-5">
+        {MICRONUTRIENTS.map((info) => {
+          const total = totals[info.key];
+          const ratio = Math.min(1, total.value / info.reference);
+          const overLimit = info.kind === "limit" && total.value > info.reference;
+          return (
+            <li key={info.key} className="rounded-xl bg-slate-800/60 px-3 py-2">
+              <p className="text-[11px] uppercase text-slate-400">{t(`micro.${info.key}`)}</p>
+              {total.known === 0 ? (
+                <p className="text-sm font-semibold text-slate-500">{t("micro.noData")}</p>
+              ) : (
+                <>
+                  <p className={`text-sm font-semibold ${overLimit ? "text-red-300" : "text-slate-100"}`}>
+                    {total.missing > 0 ? "≥ " : ""}
+                    {number(total.value)} {info.unit}
+                  </p>
+                  <div className="mt-1 h-1 overflow-hidden rounded-full bg-slate-700">
+                    <div
+                      className={`h-full rounded-full ${overLimit ? "bg-red-400" : "bg-brand-light"}`}
+                      style={{ width: `${ratio * 100}%` }}
+                    />
+                  </div>
+                </>
+              )}
+              <p className="mt-1 text-[10px] text-slate-400">
+                {t(info.kind === "limit" ? "micro.limit" : "micro.goal", {
+                  amount: number(info.reference),
+                  unit: info.unit
+                })}
+                {total.missing > 0 && total.known > 0 && ` • ${t("micro.missing", { count: number(total.missing) })}`}
+              </p>
+            </li>
+          );
+        })}
+      </ul>
+    </details>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { useI18n } from "./i18n-provider";
+
+export interface QuickLogItem {
+  key: string;
+  name: string;
+  /** Last-used amount, e.g. "2 piece • 240 kcal". */
+  detail: string;
+  favourite: boolean;
+}
+
+interface QuickLogBarProps {
+  favourites: QuickLogItem[];
+  recents: QuickLogItem[];
+  onLog: (key: string) => Promise<void>;
+  onToggleFavourite: (key: string) => Promise<void>;
+}
+
+function QuickRow({
+  title,
+  items,
+  onLog,
+  onToggleFavourite
+}: { title: string; items: QuickLogItem[] } & Pick<QuickLogBarProps, "onLog" | "onToggleFavourite">) {
+  const { t } = useI18n();
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <p className="text-xs uppercase tracking-wide text-slate-400">{title}</p>
+      <div className="mt-2 flex gap-2 overflow-x-auto pb-1">
+        {items.map((item) => (
+          <div
+            key={item.key}
+            className="flex shrink-0 items-center rounded-2xl border border-slate-700 bg-slate-900/70 text-left"
+          >
+            <button
+              type="button"
+              className="rounded-l-2xl px-3 py-2 transition hover:bg-slate-800"
+              onClick={() => onLog(item.key)}
+              title={t("quick.again", { name: item.name })}
+            >
+              <span className="block text-sm font-medium text-slate-100">{item.name}</span>
+              <span className="block text-[11px] text-slate-400">{item.detail}</span>
+            </button>
+            <button
+              type="button"
+              className={`px-2 py-2 text-base transition ${
+                item.favourite ? "text-amber-300 hover:text-amber-200" : "text-slate-500 hover:text-slate-300"
+              }`}
+              onClick={() => onToggleFavourite(item.key)}
+              aria-pressed={item.favourite}
+              aria-label={t(item.favourite ? "catalogue.unstar" : "catalogue.star", { name: item.name })}
+            >
+              {item.favourite ? "★" : "☆"}
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function QuickLogBar({ favourites, recents, onLog, onToggleFavourite }: QuickLogBarProps) {
+  const { t } = useI18n();
+  if (favourites.length === 0 && recents.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-4 space-y-3 rounded-2xl border border-slate-800 bg-slate-900/40 px-4 py-3">
+      <QuickRow title={t("quick.favourites")} items={favourites} onLog={onLog} onToggleFavourite={onToggleFavourite} />
+      <QuickRow title={t("quick.recent")} items={recents} onLog={onLog} onToggleFavourite={onToggleFavourite} />
+    </div>
+  );
+}
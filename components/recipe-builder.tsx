@@ -0,0 +1,346 @@
+"use client";
+
+import { useState } from "react";
+import type { FoodItem } from "../data/foods";
+import {
+  ingredientFromFood,
+  perServingMacros,
+  recipeTotals,
+  servingsFor,
+  type Recipe,
+  type RecipeIngredient,
+  type RecipeYield
+} from "../lib/recipes";
+import { parseTags, uid } from "../lib/utils";
+import { useI18n } from "./i18n-provider";
+
+interface RecipeBuilderProps {
+  /** Catalogue and saved foods that can be used as ingredients. */
+  foods: FoodItem[];
+  recipes: Recipe[];
+  onSave: (recipe: Recipe) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+interface DraftState {
+  id: string | null;
+  name: string;
+  description: string;
+  tags: string;
+  ingredients: RecipeIngredient[];
+  yieldMode: RecipeYield["mode"];
+  servings: string;
+  cookedGrams: string;
+  servingGrams: string;
+}
+
+const emptyDraft: DraftState = {
+  id: null,
+  name: "",
+  description: "",
+  tags: "",
+  ingredients: [],
+  yieldMode: "servings",
+  servings: "4",
+  cookedGrams: "",
+  servingGrams: "250"
+};
+
+const inputClass =
+  "rounded-xl border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100";
+
+function toDraft(recipe: Recipe): DraftState {
+  return {
+    id: recipe.id,
+    name: recipe.name,
+    description: recipe.description,
+    tags: recipe.tags.join(", "),
+    ingredients: recipe.ingredients,
+    yieldMode: recipe.yield.mode,
+    servings: recipe.yield.mode === "servings" ? String(recipe.yield.servings) : emptyDraft.servings,
+    cookedGrams: recipe.yield.mode === "weight" ? String(recipe.yield.cookedGrams) : "",
+    servingGrams: recipe.yield.mode === "weight" ? String(recipe.yield.servingGrams) : emptyDraft.servingGrams
+  };
+}
+
+function draftYield(draft: DraftState): RecipeYield {
+  return draft.yieldMode === "servings"
+    ? { mode: "servings", servings: Number(draft.servings) || 1 }
+    : {
+        mode: "weight",
+        cookedGrams: Number(draft.cookedGrams) || 0,
+        servingGrams: Number(draft.servingGrams) || 0
+      };
+}
+
+export default function RecipeBuilder({ foods, recipes, onSave, onDelete }: RecipeBuilderProps) {
+  const { t, number, foodName, unit } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<DraftState>(emptyDraft);
+  const [pickFoodId, setPickFoodId] = useState("");
+  const [pickQuantity, setPickQuantity] = useState("1");
+
+  const recipeYield = draftYield(draft);
+  const totals = recipeTotals(draft);
+  const perServing = perServingMacros({ ingredients: draft.ingredients, yield: recipeYield });
+
+  const startEditing = (recipe: Recipe | null) => {
+    setDraft(recipe ? toDraft(recipe) : emptyDraft);
+    setOpen(true);
+  };
+
+  const handleAddIngredient = () => {
+    const food = foods.find((item) => item.id === pickFoodId);
+    const quantity = Number(pickQuantity);
+    if (!food || !(quantity > 0)) return;
+    setDraft((prev) => ({ ...prev, ingredients: [...prev.ingredients, ingredientFromFood(food, quantity)] }));
+    setPickQuantity("1");
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (draft.ingredients.length === 0) return;
+    const now = new Date().toISOString();
+    const existing = recipes.find((recipe) => recipe.id === draft.id);
+
+    await onSave({
+      id: draft.id ?? uid("recipe"),
+      name: draft.name || t("recipe.untitled"),
+      description: draft.description,
+      ingredients: draft.ingredients,
+      yield: recipeYield,
+      tags: parseTags(draft.tags),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    });
+    setDraft(emptyDraft);
+    setOpen(false);
+  };
+
+  return (
+    <section className="glass rounded-3xl border border-slate-800 px-5 py-5">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-white">{t("recipe.title")}</h2>
+          <p className="mt-1 text-xs text-slate-300">
+            {t("recipe.intro")}
+          </p>
+        </div>
+        {!open && (
+          <button
+            type="button"
+            className="rounded-xl border border-slate-700 px-3 py-1 text-xs font-medium text-slate-200 transition hover:bg-slate-800"
+            onClick={() => startEditing(null)}
+          >
+            {t("recipe.new")}
+          </button>
+        )}
+      </div>
+
+      {!open && recipes.length > 0 && (
+        <ul className="mt-4 space-y-2 text-sm text-slate-200">
+          {recipes.map((recipe) => {
+            const macros = perServingMacros(recipe);
+            return (
+              <li key={recipe.id} className="flex items-center gap-2 rounded-2xl bg-slate-900/70 px-4 py-3">
+                <div className="flex-1">
+                  <p className="font-semibold text-white">{recipe.name}</p>
+                  <p className="text-xs text-slate-400">
+                    {t("recipe.perServing", {
+                      calories: number(macros.calories, 0),
+                      servings: number(servingsFor(recipe.yield))
+                    })}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  className="rounded-xl border border-slate-700 px-2 py-1 text-xs text-slate-200 transition hover:bg-slate-800"
+                  onClick={() => startEditing(recipe)}
+                >
+                  {t("common.edit")}
+                </button>
+                <button
+                  type="button"
+                  className="rounded-xl border border-red-500/40 px-2 py-1 text-xs text-red-300 transition hover:bg-red-500/10"
+                  onClick={() => onDelete(recipe.id)}
+                >
+                  {t("common.delete")}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {open && (
+        <form className="mt-4 space-y-3 text-sm text-slate-200" onSubmit={handleSubmit}>
+          <label className="flex flex-col gap-1">
+            {t("custom.name")}
+            <input
+              required
+              className={inputClass}
+              placeholder={t("recipe.namePlaceholder")}
+              value={draft.name}
+              onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+            />
+          </label>
+
+          <div className="space-y-2">
+            <p className="text-xs uppercase tracking-wide text-slate-400">{t("recipe.ingredients")}</p>
+            {draft.ingredients.map((ingredient, index) => (
+              <div
+                key={`${ingredient.foodId}-${index}`}
+                className="flex items-center gap-2 rounded-xl bg-slate-900/70 px-3 py-2 text-xs"
+              >
+                <span className="flex-1">
+                  {number(ingredient.quantity, 2)} {unit(ingredient.unit)} {ingredient.name}
+                </span>
+                <span className="text-slate-400">{number(ingredient.macros.calories, 0)} kcal</span>
+                <button
+                  type="button"
+                  aria-label={t("recipe.remove", { name: ingredient.name })}
+                  className="text-red-300"
+                  onClick={() =>
+                    setDraft((prev) => ({
+                      ...prev,
+                      ingredients: prev.ingredients.filter((_, itemIndex) => itemIndex !== index)
+                    }))
+                  }
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <select
+                aria-label={t("recipe.ingredient")}
+                className={`${inputClass} min-w-0 flex-1`}
+                value={pickFoodId}
+                onChange={(event) => setPickFoodId(event.target.value)}
+              >
+                <option value="">{t("recipe.pick")}</option>
+                {foods.map((food) => (
+                  <option key={food.id} value={food.id}>
+                    {foodName(food)} ({unit(food.unit)})
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min="0.1"
+                step="0.1"
+                aria-label={t("recipe.quantity")}
+                className={`${inputClass} w-20`}
+                value={pickQuantity}
+                onChange={(event) => setPickQuantity(event.target.value)}
+              />
+              <button
+                type="button"
+                className="rounded-xl border border-brand-light px-3 text-xs font-medium text-brand-light transition hover:bg-brand-light/10"
+                onClick={handleAddIngredient}
+              >
+                {t("catalogue.add")}
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs uppercase tracking-wide text-slate-400">{t("recipe.yield")}</p>
+            <div className="flex gap-2 text-xs">
+              {(["servings", "weight"] as const).map((mode) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setDraft((prev) => ({ ...prev, yieldMode: mode }))}
+                  className={`rounded-full px-3 py-1 font-medium transition ${
+                    draft.yieldMode === mode ? "bg-brand text-slate-50" : "bg-slate-800 text-slate-200"
+                  }`}
+                >
+                  {mode === "servings" ? t("recipe.byServings") : t("recipe.byWeight")}
+                </button>
+              ))}
+            </div>
+            {draft.yieldMode === "servings" ? (
+              <label className="flex flex-col gap-1 text-xs">
+                {t("recipe.servings")}
+                <input
+                  type="number"
+                  min="1"
+                  step="0.5"
+                  className={inputClass}
+                  value={draft.servings}
+                  onChange={(event) => setDraft((prev) => ({ ...prev, servings: event.target.value }))}
+                />
+              </label>
+            ) : (
+              <div className="grid grid-cols-2 gap-3">
+                <label className="flex flex-col gap-1 text-xs">
+                  {t("recipe.cooked")}
+                  <input
+                    type="number"
+                    min="1"
+                    required
+                    className={inputClass}
+                    value={draft.cookedGrams}
+                    onChange={(event) => setDraft((prev) => ({ ...prev, cookedGrams: event.target.value }))}
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-xs">
+                  {t("recipe.servingSize")}
+                  <input
+                    type="number"
+                    min="1"
+                    required
+                    className={inputClass}
+                    value={draft.servingGrams}
+                    onChange={(event) => setDraft((prev) => ({ ...prev, servingGrams: event.target.value }))}
+                  />
+                </label>
+              </div>
+            )}
+          </div>
+
+          <label className="flex flex-col gap-1">
+            {t("catalogue.tags")}
+            <input
+              className={inputClass}
+              placeholder={t("recipe.tagsPlaceholder")}
+              value={draft.tags}
+              onChange={(event) => setDraft((prev) => ({ ...prev, tags: event.target.value }))}
+            />
+          </label>
+
+          <p className="rounded-2xl bg-slate-900/70 px-4 py-3 text-xs text-slate-300">
+            {t("recipe.summary", {
+              calories: number(totals.calories, 0),
+              servings: number(servingsFor(recipeYield)),
+              macros: t("macro.summary", {
+                calories: number(perServing.calories, 0),
+                protein: number(perServing.protein),
+                carbs: number(perServing.carbs),
+                fats: number(perServing.fats)
+              })
+            })}
+          </p>
+
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={draft.ingredients.length === 0}
+              className="flex-1 rounded-2xl bg-brand py-2 text-sm font-semibold text-white transition hover:bg-brand-dark disabled:opacity-50"
+            >
+              {t("recipe.save")}
+            </button>
+            <button
+              type="button"
+              className="rounded-2xl border border-slate-700 px-4 py-2 text-sm font-medium text-slate-200 transition hover:bg-slate-800"
+              onClick={() => setOpen(false)}
+            >
+              {t("common.cancel")}
+            </button>
+          </div>
+        </form>
+      )}
+    </section>
+  );
+}
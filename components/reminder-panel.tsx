@@ -0,0 +1,273 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { getBodyLog, getGoalProfileForDate, listLogsByDate } from "../lib/db";
+import { dayKeyFor } from "../lib/day";
+import { MEAL_SLOTS, type MealSlot } from "../lib/meals";
+import {
+  WATER_INTERVAL_HOURS,
+  dueReminders,
+  getReminderSettings,
+  getRemindersCheckedAt,
+  nextReminderAt,
+  putReminderSettings,
+  reminderMessage,
+  setRemindersCheckedAt,
+  type ReminderKind,
+  type ReminderMessage,
+  type ReminderSettings
+} from "../lib/reminders";
+import { DEFAULT_TARGETS, computeTargets } from "../lib/targets";
+import { useI18n } from "./i18n-provider";
+
+interface ReminderPanelProps {
+  profileId: string;
+  dayStartHour: number;
+}
+
+/** Re-check at least this often, so a sleeping laptop or a changed clock is noticed soon after. */
+const MAX_WAIT_MS = 15 * 60 * 1000;
+
+const inputClass = "rounded-xl border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100";
+
+const buttonClass =
+  "rounded-2xl border border-slate-700 px-3 py-2 text-xs font-medium text-slate-200 transition hover:bg-slate-800";
+
+const notificationsSupported = () => typeof window !== "undefined" && "Notification" in window;
+
+/** One notification per kind: the tag makes a new water reminder replace the one still on screen. */
+async function showReminder(kind: ReminderKind, { title, body }: ReminderMessage) {
+  const options = { body, tag: `reminder-${kind}`, icon: "/icons/icon.svg" };
+  // The service worker is only registered in production builds; dev falls back to a page notification.
+  const registration = "serviceWorker" in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration) {
+    await registration.showNotification(title, options);
+  } else {
+    new Notification(title, options);
+  }
+}
+
+export default function ReminderPanel({ profileId, dayStartHour }: ReminderPanelProps) {
+  const { t, locale, mealLabel, number } = useI18n();
+  const [settings, setSettings] = useState<ReminderSettings | null>(null);
+  const [permission, setPermission] = useState<NotificationPermission | "unsupported">("default");
+  // Read by the scheduler below without restarting it when the active person or the language changes.
+  const person = useRef({ profileId, dayStartHour, locale });
+  person.current = { profileId, dayStartHour, locale };
+
+  useEffect(() => {
+    setPermission(notificationsSupported() ? Notification.permission : "unsupported");
+    getReminderSettings()
+      .then(setSettings)
+      .catch((error) => console.error("Failed to load reminders", error));
+  }, []);
+
+  useEffect(() => {
+    if (!settings) return;
+    let timer: number | undefined;
+    let cancelled = false;
+
+    const check = async () => {
+      const now = new Date();
+      const since = await getRemindersCheckedAt();
+      await setRemindersCheckedAt(now);
+      // Nothing is replayed on the first check or for time spent without permission.
+      if (!since || !notificationsSupported() || Notification.permission !== "granted") return;
+      const due = dueReminders(settings, since, now);
+      if (due.length === 0) return;
+
+      const dateKey = dayKeyFor(now, person.current.dayStartHour);
+      const [logs, bodyLog, goalProfile] = await Promise.all([
+        listLogsByDate(person.current.profileId, dateKey),
+        getBodyLog(person.current.profileId, dateKey),
+        getGoalProfileForDate(person.current.profileId, dateKey)
+      ]);
+      const context = {
+        logs,
+        waterMl: bodyLog?.waterMl ?? 0,
+        targets: goalProfile ? computeTargets(goalProfile) : DEFAULT_TARGETS
+      };
+      for (const { kind } of due) {
+        const message = reminderMessage(kind, settings, context, person.current.locale);
+        if (message) await showReminder(kind, message);
+      }
+    };
+
+    const run = async () => {
+      window.clearTimeout(timer);
+      try {
+        await check();
+      } catch (error) {
+        console.error("Failed to show reminders", error);
+      }
+      if (cancelled) return;
+      const next = nextReminderAt(settings, new Date());
+      const wait = next ? Math.min(next.getTime() - Date.now(), MAX_WAIT_MS) : MAX_WAIT_MS;
+      timer = window.setTimeout(run, Math.max(wait, 1000));
+    };
+
+    // Background tabs throttle timers, so coming back to the app checks straight away.
+    const handleVisibility = () => {
+      if (document.visibilityState === "visible") run();
+    };
+    document.addEventListener("visibilitychange", handleVisibility);
+    run();
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+      document.removeEventListener("visibilitychange", handleVisibility);
+    };
+  }, [settings]);
+
+  if (!settings) return null;
+
+  const update = <K extends keyof ReminderSettings>(key: K, patch: Partial<ReminderSettings[K]>) => {
+    const next = { ...settings, [key]: { ...settings[key], ...patch } };
+    setSettings(next);
+    putReminderSettings(next).catch((error) => console.error("Failed to save reminders", error));
+  };
+
+  const handleAllow = async () => {
+    setPermission(await Notification.requestPermission());
+  };
+
+  const { meal, water, summary, quietHours } = settings;
+
+  return (
+    <section className="glass rounded-3xl border border-slate-800 px-5 py-5">
+      <h2 className="text-lg font-semibold text-white">{t("reminder.title")}</h2>
+      <p className="mt-1 text-xs text-slate-300">
+        {t("reminder.intro")}
+      </p>
+
+      {permission === "unsupported" && (
+        <p className="mt-3 text-xs text-amber-200">{t("reminder.unsupported")}</p>
+      )}
+      {permission === "denied" && (
+        <p className="mt-3 text-xs text-amber-200">{t("reminder.blocked")}</p>
+      )}
+      {permission === "default" && (
+        <button type="button" className={`${buttonClass} mt-3`} onClick={handleAllow}>
+          {t("reminder.allow")}
+        </button>
+      )}
+
+      <div className="mt-4 space-y-3 text-xs text-slate-300">
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={meal.enabled}
+              onChange={(event) => update("meal", { enabled: event.target.checked })}
+            />
+            {t("reminder.mealLog")}
+          </label>
+          <select
+            aria-label={t("reminder.mealSlot")}
+            className={inputClass}
+            value={meal.slot}
+            onChange={(event) => update("meal", { slot: event.target.value as MealSlot })}
+          >
+            {MEAL_SLOTS.map((slot) => (
+              <option key={slot} value={slot}>
+                {mealLabel(slot)}
+              </option>
+            ))}
+          </select>
+          {t("reminder.mealBy")}
+          <input
+            type="time"
+            aria-label={t("reminder.mealTime")}
+            className={inputClass}
+            value={meal.by}
+            onChange={(event) => update("meal", { by: event.target.value })}
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={water.enabled}
+              onChange={(event) => update("water", { enabled: event.target.checked })}
+            />
+            {t("reminder.water")}
+          </label>
+          <select
+            aria-label={t("reminder.waterHours")}
+            className={inputClass}
+            value={water.everyHours}
+            onChange={(event) => update("water", { everyHours: Number(event.target.value) })}
+          >
+            {WATER_INTERVAL_HOURS.map((hours) => (
+              <option key={hours} value={hours}>
+                {t("reminder.hours", { count: number(hours) })}
+              </option>
+            ))}
+          </select>
+          {t("reminder.from")}
+          <input
+            type="time"
+            aria-label={t("reminder.waterFirst")}
+            className={inputClass}
+            value={water.from}
+            onChange={(event) => update("water", { from: event.target.value })}
+          />
+          {t("reminder.to")}
+          <input
+            type="time"
+            aria-label={t("reminder.waterLast")}
+            className={inputClass}
+            value={water.until}
+            onChange={(event) => update("water", { until: event.target.value })}
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={summary.enabled}
+              onChange={(event) => update("summary", { enabled: event.target.checked })}
+            />
+            {t("reminder.summary")}
+          </label>
+          <input
+            type="time"
+            aria-label={t("reminder.summaryTime")}
+            className={inputClass}
+            value={summary.at}
+            onChange={(event) => update("summary", { at: event.target.value })}
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={quietHours.enabled}
+              onChange={(event) => update("quietHours", { enabled: event.target.checked })}
+            />
+            {t("reminder.quiet")}
+          </label>
+          <input
+            type="time"
+            aria-label={t("reminder.quietStart")}
+            className={inputClass}
+            value={quietHours.from}
+            onChange={(event) => update("quietHours", { from: event.target.value })}
+          />
+          {t("reminder.to")}
+          <input
+            type="time"
+            aria-label={t("reminder.quietEnd")}
+            className={inputClass}
+            value={quietHours.until}
+            onChange={(event) => update("quietHours", { until: event.target.value })}
+          />
+        </div>
+      </div>
+    </section>
+  );
+}
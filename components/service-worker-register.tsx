@@ -1,21 +1,55 @@
 "use client";
 
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
+import { useI18n } from "./i18n-provider";
 
 const SW_PATH = "/sw.js";
 
 export default function ServiceWorkerRegister() {
+  const { t } = useI18n();
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+
   useEffect(() => {
-    if (typeof window === "undefined" || !("serviceWorker" in navigator)) {
+    // public/sw.js only exists after a production build; see scripts/generate-sw.mjs.
+    if (
+      typeof window === "undefined" ||
+      !("serviceWorker" in navigator) ||
+      process.env.NODE_ENV !== "production"
+    ) {
       return;
     }
 
+    let reloading = false;
+    const onControllerChange = () => {
+      if (reloading) return;
+      reloading = true;
+      window.location.reload();
+    };
+
+    const trackInstalling = (worker: ServiceWorker | null) => {
+      worker?.addEventListener("statechange", () => {
+        // A controller already exists, so this is an update rather than the first install.
+        if (worker.state === "installed" && navigator.serviceWorker.controller) {
+          setWaitingWorker(worker);
+        }
+      });
+    };
+
     const onLoad = () => {
       navigator.serviceWorker
         .register(SW_PATH)
+        .then((registration) => {
+          if (registration.waiting && navigator.serviceWorker.controller) {
+            setWaitingWorker(registration.waiting);
+          }
+          trackInstalling(registration.installing);
+          registration.addEventListener("updatefound", () => trackInstalling(registration.installing));
+        })
         .catch((error) => console.error("SW registration failed", error));
     };
 
+    navigator.serviceWorker.addEventListener("controllerchange", onControllerChange);
+
     if (document.readyState === "complete") {
       onLoad();
     } else {
@@ -24,8 +58,34 @@ export default function ServiceWorkerRegister() {
 
     return () => {
       window.removeEventListener("load", onLoad);
+      navigator.serviceWorker.removeEventListener("controllerchange", onControllerChange);
     };
   }, []);
 
-  return null;
+  if (!waitingWorker) {
+    return null;
+  }
+
+  return (
+    <div
+      role="status"
+      className="fixed inset-x-4 bottom-4 z-50 mx-auto flex max-w-md items-center gap-3 rounded-2xl border border-slate-700 bg-slate-900/95 px-4 py-3 text-sm text-slate-100 shadow-lg print:hidden"
+    >
+      <span className="flex-1">{t("update.ready")}</span>
+      <button
+        type="button"
+        className="rounded-xl bg-brand px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-brand-dark"
+        onClick={() => waitingWorker.postMessage({ type: "SKIP_WAITING" })}
+      >
+        {t("update.reload")}
+      </button>
+      <button
+        type="button"
+        className="text-xs text-slate-400 hover:text-slate-200"
+        onClick={() => setWaitingWorker(null)}
+      >
+        {t("update.later")}
+      </button>
+    </div>
+  );
 }
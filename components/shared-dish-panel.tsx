@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+import type { FoodItem } from "../data/foods";
+import { GRAM_UNIT } from "../lib/portions";
+import type { Profile } from "../lib/profiles";
+import { useI18n } from "./i18n-provider";
+
+export interface SharedPortion {
+  profileId: string;
+  quantity: number;
+}
+
+interface SharedDishPanelProps {
+  food: FoodItem;
+  unit: string;
+  quantity: number;
+  profiles: Profile[];
+  activeId: string;
+  onLog: (portions: SharedPortion[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClass = "rounded-xl border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100";
+
+/** One pot, several plates: each person gets their own entry at their own portion. */
+export default function SharedDishPanel({
+  food,
+  unit,
+  quantity,
+  profiles,
+  activeId,
+  onLog,
+  onClose
+}: SharedDishPanelProps) {
+  const { t, number, foodName, unit: unitName, profileName } = useI18n();
+  const [portions, setPortions] = useState<Record<string, string>>(() =>
+    Object.fromEntries(profiles.map((profile) => [profile.id, String(quantity)]))
+  );
+  const [included, setIncluded] = useState<Set<string>>(() => new Set([activeId]));
+  const [saving, setSaving] = useState(false);
+
+  const chosen = profiles
+    .filter((profile) => included.has(profile.id))
+    .map((profile) => ({ profileId: profile.id, quantity: Number(portions[profile.id]) || 0 }))
+    .filter((portion) => portion.quantity > 0);
+
+  const toggle = (profileId: string, on: boolean) => {
+    setIncluded((prev) => {
+      const next = new Set(prev);
+      if (on) next.add(profileId);
+      else next.delete(profileId);
+      return next;
+    });
+  };
+
+  const handleLog = async () => {
+    setSaving(true);
+    try {
+      await onLog(chosen);
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 rounded-2xl border border-slate-800 bg-slate-950/60 px-4 py-3 text-xs text-slate-200">
+      <p className="font-semibold text-white">{t("share.title", { name: foodName(food) })}</p>
+      <ul className="mt-2 space-y-2">
+        {profiles.map((profile) => (
+          <li key={profile.id} className="flex items-center gap-3">
+            <label className="flex flex-1 items-center gap-2">
+              <input
+                type="checkbox"
+                checked={included.has(profile.id)}
+                onChange={(event) => toggle(profile.id, event.target.checked)}
+              />
+              {profileName(profile)}
+            </label>
+            <input
+              type="number"
+              min="0.25"
+              step={unit === GRAM_UNIT ? "5" : "0.25"}
+              aria-label={t("share.portion", { name: profileName(profile) })}
+              className={`${inputClass} w-24`}
+              value={portions[profile.id] ?? ""}
+              disabled={!included.has(profile.id)}
+              onChange={(event) => setPortions((prev) => ({ ...prev, [profile.id]: event.target.value }))}
+            />
+            <span className="w-16 text-slate-400">{unitName(unit)}</span>
+          </li>
+        ))}
+      </ul>
+      <div className="mt-3 flex gap-2">
+        <button
+          type="button"
+          className="rounded-xl bg-brand px-3 py-2 text-xs font-semibold text-white transition hover:bg-brand-dark disabled:opacity-50"
+          onClick={handleLog}
+          disabled={saving || chosen.length === 0}
+        >
+          {chosen.length === 1 ? t("share.submitOne") : t("share.submitMany", { count: number(chosen.length) })}
+        </button>
+        <button
+          type="button"
+          className="rounded-xl border border-slate-700 px-3 py-2 text-xs text-slate-200 transition hover:bg-slate-800"
+          onClick={onClose}
+        >
+          {t("common.cancel")}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  SyncError,
+  createVaultId,
+  disableSync,
+  enableSync,
+  getSyncStatus,
+  syncNow,
+  type SyncStatus
+} from "../lib/sync";
+import { useI18n } from "./i18n-provider";
+
+interface SyncPanelProps {
+  onSynced: () => Promise<void>;
+  onStatusChange: (status: SyncStatus | null) => void;
+}
+
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+const inputClass = "rounded-xl border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100";
+
+const buttonClass =
+  "rounded-2xl border border-slate-700 px-3 py-2 text-xs font-medium text-slate-200 transition hover:bg-slate-800";
+
+export default function SyncPanel({ onSynced, onStatusChange }: SyncPanelProps) {
+  const { t, number, dateTime } = useI18n();
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+  const [endpoint, setEndpoint] = useState("");
+  const [vaultId, setVaultId] = useState("");
+  const [passphrase, setPassphrase] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const running = useRef(false);
+  // Kept in a ref so a new callback from the page does not restart the sync loop below.
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const refreshStatus = useCallback(async () => {
+    const next = await getSyncStatus();
+    setStatus(next);
+    onStatusChange(next);
+  }, [onStatusChange]);
+
+  const runSync = useCallback(async () => {
+    if (running.current || !navigator.onLine) return;
+    running.current = true;
+    setBusy(true);
+    try {
+      const result = await syncNow();
+      if (result.pulled > 0) {
+        await onSyncedRef.current();
+      }
+      setMessage(null);
+    } catch (error) {
+      console.error("Failed to sync", error);
+    } finally {
+      running.current = false;
+      setBusy(false);
+      await refreshStatus();
+    }
+  }, [refreshStatus]);
+
+  useEffect(() => {
+    getSyncStatus()
+      .then((current) => {
+        setStatus(current);
+        onStatusChange(current);
+        if (current) {
+          runSync();
+        }
+      })
+      .catch((error) => console.error("Failed to read sync settings", error));
+
+    // Writes made offline stay in the outbox until the connection comes back.
+    const handleOnline = () => {
+      getSyncStatus().then((current) => current && runSync());
+    };
+    window.addEventListener("online", handleOnline);
+    const interval = window.setInterval(handleOnline, SYNC_INTERVAL_MS);
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.clearInterval(interval);
+    };
+  }, [onStatusChange, runSync]);
+
+  const handleEnable = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setBusy(true);
+    try {
+      const result = await enableSync({ endpoint, vaultId, passphrase });
+      setPassphrase("");
+      setMessage(t("sync.enabled", { pushed: number(result.pushed), pulled: number(result.pulled) }));
+      await onSynced();
+    } catch (error) {
+      await disableSync();
+      setMessage(t(error instanceof SyncError ? `sync.${error.problem}` : "sync.failed"));
+    } finally {
+      setBusy(false);
+      await refreshStatus();
+    }
+  };
+
+  const handleDisable = async () => {
+    await disableSync();
+    setMessage(t("sync.disabled"));
+    await refreshStatus();
+  };
+
+  return (
+    <section className="glass rounded-3xl border border-slate-800 px-5 py-5">
+      <h2 className="text-lg font-semibold text-white">{t("sync.title")}</h2>
+      <p className="mt-1 text-xs text-slate-300">{t("sync.intro")}</p>
+
+      {status ? (
+        <div className="mt-4 space-y-3 text-xs text-slate-200">
+          <p className="break-all">
+            {t("sync.vaultId")} <span className="font-mono">{status.vaultId}</span> • {status.endpoint}
+          </p>
+          <p>
+            {status.lastSyncedAt
+              ? t("sync.lastSynced", { time: dateTime(new Date(status.lastSyncedAt)) })
+              : t("sync.notSynced")}{" "}
+            {status.pending > 0 && t("sync.pending", { count: number(status.pending) })}
+          </p>
+          {status.lastError && <p className="text-red-300">{t(`sync.${status.lastError}`)}</p>}
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              className="rounded-2xl bg-brand px-3 py-2 font-semibold text-white transition hover:bg-brand-dark disabled:opacity-60"
+              onClick={runSync}
+              disabled={busy}
+            >
+              {busy ? t("sync.syncing") : t("sync.now")}
+            </button>
+            <button type="button" className={buttonClass} onClick={handleDisable} disabled={busy}>
+              {t("sync.turnOff")}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <form className="mt-4 flex flex-col gap-3" onSubmit={handleEnable}>
+          <label className="flex flex-col gap-1 text-xs text-slate-300">
+            {t("sync.server")}
+            <input
+              type="url"
+              className={inputClass}
+              placeholder="http://localhost:8787"
+              value={endpoint}
+              onChange={(event) => setEndpoint(event.target.value)}
+              required
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-300">
+            {t("sync.vaultId")}
+            <div className="flex gap-2">
+              <input
+                className={`${inputClass} flex-1 font-mono`}
+                value={vaultId}
+                onChange={(event) => setVaultId(event.target.value)}
+                required
+              />
+              <button type="button" className={buttonClass} onClick={() => setVaultId(createVaultId())}>
+                {t("sync.newVault")}
+              </button>
+            </div>
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-300">
+            {t("sync.passphrase")}
+            <input
+              type="password"
+              className={inputClass}
+              autoComplete="new-password"
+              minLength={8}
+              value={passphrase}
+              onChange={(event) => setPassphrase(event.target.value)}
+              required
+            />
+          </label>
+          <p className="text-xs text-slate-400">{t("sync.passphraseWarning")}</p>
+          <button
+            type="submit"
+            className="rounded-2xl bg-brand px-3 py-2 text-xs font-semibold text-white transition hover:bg-brand-dark disabled:opacity-60"
+            disabled={busy}
+          >
+            {busy ? t("sync.connecting") : t("sync.turnOn")}
+          </button>
+        </form>
+      )}
+
+      {message && <p className="mt-3 text-xs text-slate-300">{message}</p>}
+    </section>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  TRASH_RETENTION_OPTIONS,
+  getTrashRetentionDays,
+  listTrash,
+  purgeExpiredTrash,
+  purgeTrash,
+  setTrashRetentionDays,
+  type LogEntry,
+  type TrashedLog
+} from "../lib/db";
+import { useI18n } from "./i18n-provider";
+
+interface TrashPanelProps {
+  profileId: string;
+  /** The day's entries; the trash reloads when they change, e.g. after a delete or an undo. */
+  entries: LogEntry[];
+  onRestore: (id: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const buttonClass = "rounded-xl border border-slate-700 px-3 py-2 text-xs text-slate-200 transition hover:bg-slate-800";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default function TrashPanel({ profileId, entries, onRestore, onClose }: TrashPanelProps) {
+  const { t, mealLabel, number, unit, date, dateTime } = useI18n();
+  const [trashed, setTrashed] = useState<TrashedLog[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+
+  const reload = async () => setTrashed(await listTrash(profileId));
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([listTrash(profileId), getTrashRetentionDays()])
+      .then(([next, days]) => {
+        if (cancelled) return;
+        setTrashed(next);
+        setRetentionDays(days);
+      })
+      .catch((error) => console.error("Failed to load trash", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId, entries]);
+
+  const handleRetention = async (days: number) => {
+    setRetentionDays(days);
+    await setTrashRetentionDays(days);
+    await purgeExpiredTrash();
+    await reload();
+  };
+
+  const handlePurge = async (ids: string[]) => {
+    const question = ids.length === 1 ? t("trash.confirmOne") : t("trash.confirmAll", { count: number(ids.length) });
+    if (!window.confirm(question)) return;
+    await purgeTrash(ids);
+    await reload();
+  };
+
+  return (
+    <div className="mt-6 rounded-2xl border border-slate-800 bg-slate-900/60 px-4 py-4 text-sm text-slate-200">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-sm font-semibold text-white">{t("log.trash")}</h3>
+        {retentionDays !== null && (
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            {t("trash.retention")}
+            <select
+              className="rounded-xl border border-slate-700 bg-slate-900 px-2 py-1 text-xs text-slate-100"
+              value={retentionDays}
+              onChange={(event) => handleRetention(Number(event.target.value))}
+            >
+              {TRASH_RETENTION_OPTIONS.map((days) => (
+                <option key={days} value={days}>
+                  {t("trash.days", { count: number(days) })}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {trashed.length === 0 ? (
+        <p className="mt-4 text-xs text-slate-400">{t("trash.empty")}</p>
+      ) : (
+        <ul className="mt-4 space-y-2">
+          {trashed.map((entry) => (
+            <li key={entry.id} className="flex flex-wrap items-center gap-2 rounded-xl bg-slate-950/40 px-3 py-2">
+              <div className="min-w-0 flex-1">
+                <p className="text-sm text-slate-100">
+                  {entry.name} • {number(entry.quantity, 2)} {unit(entry.unit)} • {number(entry.calories, 0)} kcal
+                </p>
+                <p className="text-xs text-slate-400">
+                  {t("trash.deletedOn", {
+                    meal: mealLabel(entry.mealSlot),
+                    date: date(entry.dateKey),
+                    time: dateTime(new Date(entry.trashedAt))
+                  })}
+                  {retentionDays !== null &&
+                    ` · ${t("trash.purgedAfter", {
+                      time: dateTime(new Date(new Date(entry.trashedAt).getTime() + retentionDays * DAY_MS))
+                    })}`}
+                </p>
+              </div>
+              <button
+                type="button"
+                className="rounded-xl bg-brand px-3 py-2 text-xs font-semibold text-white transition hover:bg-brand-dark"
+                onClick={() => onRestore(entry.id)}
+              >
+                {t("trash.restore")}
+              </button>
+              <button type="button" className={buttonClass} onClick={() => handlePurge([entry.id])}>
+                {t("trash.purge")}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-4 flex gap-2">
+        {trashed.length > 0 && (
+          <button
+            type="button"
+            className="rounded-xl border border-red-500/40 px-3 py-2 text-xs font-semibold text-red-300 transition hover:bg-red-500/10"
+            onClick={() => handlePurge(trashed.map((entry) => entry.id))}
+          >
+            {t("trash.purgeAll")}
+          </button>
+        )}
+        <button type="button" className={buttonClass} onClick={onClose}>
+          {t("common.close")}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import type { Locale } from '../lib/i18n';
+import type { Micronutrients } from '../lib/nutrients';
+import type { Portion } from '../lib/portions';
+import { scaleMicros } from '../lib/nutrients';
+import { scaleMacros } from '../lib/utils';
+import catalogue from './catalogue.json';
+
+export interface FoodItem {
+  id: string;
+  name: string;
+  /** Catalogue foods only: the name in other languages; English `name` is the fallback. */
+  names?: Partial<Record<Locale, string>>;
+  description: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fats: number;
+  /** Per `defaultQuantity`, like the macros. Omitted nutrients are unknown, not zero. */
+  micros?: Micronutrients;
+  defaultQuantity: number;
+  unit: string;
+  /** Weight of `defaultQuantity` in grams; enables household measures and logging by weight. */
+  grams?: number;
+  /** Extra household measures (katori, ladle, cup, tbsp...) with their gram equivalents. */
+  portions?: Portion[];
+  tags: string[];
+  locale: string[];
+  /** Other spellings and names in Indian scripts; matched by search but not displayed. */
+  aliases?: string[];
+  /** Catalogue foods only: key into `CATALOGUE_SOURCES`. */
+  source?: string;
+  /** Catalogue foods only: ids this food was published under before, still valid in old log entries. */
+  formerIds?: string[];
+  /** Set on foods the user saved on this device; they live in IndexedDB rather than `FOODS`. */
+  custom?: boolean;
+  /** Set on entries generated from a saved recipe; the recipe itself lives in IndexedDB. */
+  recipe?: boolean;
+}
+
+export type Region = 'north-indian' | 'south-indian' | 'bengali' | 'gujarati' | 'street-food';
+
+/**
+ * One food as stored in `data/catalogue.json`. Values are per 100 g so they can be checked
+ * against reference tables; the serving only decides what a tap on "Add" logs.
+ * Run `node scripts/validate-catalogue.mjs` after editing the file.
+ */
+export interface CatalogueFood {
+  id: string;
+  name: string;
+  names?: Partial<Record<Locale, string>>;
+  description: string;
+  source: string;
+  regions: Region[];
+  tags: string[];
+  locale: string[];
+  aliases: string[];
+  per100g: {
+    calories: number;
+    protein: number;
+    carbs: number;
+    fats: number;
+    micros?: Micronutrients;
+  };
+  serving: { quantity: number; unit: string; grams: number };
+  portions?: Portion[];
+  formerIds?: string[];
+}
+
+export interface Catalogue {
+  /** Bumped on every change to the data, e.g. `2026.10.0`. */
+  version: string;
+  updated: string;
+  sources: Record<string, string>;
+  regions: Record<Region, string>;
+  foods: CatalogueFood[];
+}
+
+const CATALOGUE = catalogue as Catalogue;
+
+export const CATALOGUE_VERSION = CATALOGUE.version;
+export const CATALOGUE_SOURCES = CATALOGUE.sources;
+export const REGION_LABELS = CATALOGUE.regions;
+
+/** Regions are also added as tags, so the catalogue's tag filter doubles as a cuisine filter. */
+function toFoodItem(food: CatalogueFood): FoodItem {
+  const factor = food.serving.grams / 100;
+  return {
+    id: food.id,
+    name: food.name,
+    names: food.names,
+    description: food.description,
+    ...scaleMacros(food.per100g, factor),
+    micros: scaleMicros(food.per100g.micros, factor),
+    defaultQuantity: food.serving.quantity,
+    unit: food.serving.unit,
+    grams: food.serving.grams,
+    portions: food.portions,
+    tags: [...food.tags, ...food.regions],
+    locale: food.locale,
+    aliases: food.aliases,
+    source: food.source,
+    formerIds: food.formerIds
+  };
+}
+
+export const FOODS: FoodItem[] = CATALOGUE.foods.map(toFoodItem);
+
+const FORMER_IDS = new Map(
+  CATALOGUE.foods.flatMap((food) => (food.formerIds ?? []).map((formerId) => [formerId, food.id] as const))
+);
+
+/** Maps an id from an older catalogue version to the current one; other ids pass through. */
+export function canonicalFoodId(id: string): string {
+  return FORMER_IDS.get(id) ?? id;
+}
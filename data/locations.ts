@@ -0,0 +1,40 @@
+/**
+ * Cities for sunrise and sunset fasts. Coordinates are enough to compute the times on the
+ * device, so fasting windows work offline and no location permission is asked for.
+ */
+export interface FastingLocation {
+  id: string;
+  name: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+}
+
+export const LOCATIONS: FastingLocation[] = [
+  { id: 'delhi', name: 'Delhi', country: 'India', latitude: 28.61, longitude: 77.21 },
+  { id: 'mumbai', name: 'Mumbai', country: 'India', latitude: 19.08, longitude: 72.88 },
+  { id: 'kolkata', name: 'Kolkata', country: 'India', latitude: 22.57, longitude: 88.36 },
+  { id: 'chennai', name: 'Chennai', country: 'India', latitude: 13.08, longitude: 80.27 },
+  { id: 'bengaluru', name: 'Bengaluru', country: 'India', latitude: 12.97, longitude: 77.59 },
+  { id: 'hyderabad', name: 'Hyderabad', country: 'India', latitude: 17.39, longitude: 78.49 },
+  { id: 'ahmedabad', name: 'Ahmedabad', country: 'India', latitude: 23.02, longitude: 72.57 },
+  { id: 'pune', name: 'Pune', country: 'India', latitude: 18.52, longitude: 73.86 },
+  { id: 'lucknow', name: 'Lucknow', country: 'India', latitude: 26.85, longitude: 80.95 },
+  { id: 'jaipur', name: 'Jaipur', country: 'India', latitude: 26.91, longitude: 75.79 },
+  { id: 'patna', name: 'Patna', country: 'India', latitude: 25.59, longitude: 85.14 },
+  { id: 'kochi', name: 'Kochi', country: 'India', latitude: 9.93, longitude: 76.27 },
+  { id: 'srinagar', name: 'Srinagar', country: 'India', latitude: 34.08, longitude: 74.8 },
+  { id: 'dhaka', name: 'Dhaka', country: 'Bangladesh', latitude: 23.81, longitude: 90.41 },
+  { id: 'karachi', name: 'Karachi', country: 'Pakistan', latitude: 24.86, longitude: 67.01 },
+  { id: 'lahore', name: 'Lahore', country: 'Pakistan', latitude: 31.55, longitude: 74.34 },
+  { id: 'colombo', name: 'Colombo', country: 'Sri Lanka', latitude: 6.93, longitude: 79.86 },
+  { id: 'kathmandu', name: 'Kathmandu', country: 'Nepal', latitude: 27.72, longitude: 85.32 },
+  { id: 'dubai', name: 'Dubai', country: 'UAE', latitude: 25.2, longitude: 55.27 },
+  { id: 'singapore', name: 'Singapore', country: 'Singapore', latitude: 1.35, longitude: 103.82 },
+  { id: 'london', name: 'London', country: 'UK', latitude: 51.51, longitude: -0.13 },
+  { id: 'toronto', name: 'Toronto', country: 'Canada', latitude: 43.65, longitude: -79.38 },
+  { id: 'new-york', name: 'New York', country: 'USA', latitude: 40.71, longitude: -74.01 },
+  { id: 'san-francisco', name: 'San Francisco', country: 'USA', latitude: 37.77, longitude: -122.42 }
+];
+
+export const locationById = (id: string) => LOCATIONS.find((location) => location.id === id);
@@ -0,0 +1,450 @@
+import type { Messages } from './en';
+
+export const bn: Messages = {
+  'app.tagline':
+    'স্থানীয় খাবার আর গোপনীয়তার কথা ভেবে তৈরি হালকা, অফলাইনে চলা ট্র্যাকার। ' +
+    'নেটওয়ার্ক না থাকলেও কয়েক সেকেন্ডে যেকোনো কিছু লিখে রাখুন।',
+  'app.privacy': 'রোজকার পুষ্টির তথ্য আপনার ডিভাইসেই থাকে। কোনো বিজ্ঞাপন নেই, কোনো পেওয়াল নেই।',
+  'app.language': 'ভাষা',
+
+  'connection.offlineSync': 'অফলাইন মোড। পরিবর্তন এখানে সেভ হচ্ছে, সংযোগ ফিরলে সিঙ্ক হবে।',
+  'connection.offline': 'অফলাইন মোড। সব পরিবর্তন এই ডিভাইসে সেভ করা আছে।',
+  'connection.online': 'অনলাইন। সবকিছু এই ডিভাইসে সেভ করা আছে।',
+  'connection.syncPaused': 'সিঙ্ক থেমে আছে। পরিবর্তনগুলো এই ডিভাইসে নিরাপদ।',
+  'connection.syncWaiting': 'প্রথম সিঙ্কের অপেক্ষায়।',
+  'connection.synced': '{time}-এ সিঙ্ক হয়েছে। সবকিছু এই ডিভাইসেও সেভ করা আছে।',
+
+  'meal.breakfast': 'জলখাবার',
+  'meal.lunch': 'দুপুরের খাবার',
+  'meal.snacks': 'টিফিন',
+  'meal.dinner': 'রাতের খাবার',
+
+  'macro.calories': 'ক্যালোরি',
+  'macro.protein': 'প্রোটিন',
+  'macro.carbs': 'শর্করা',
+  'macro.fats': 'ফ্যাট',
+  'macro.progress': '{label}-এর অগ্রগতি',
+  'macro.over': '{amount} {unit} বেশি',
+  'macro.left': '{target}-এর মধ্যে {amount} {unit} বাকি',
+  'macro.summary': '{calories} kcal • প্রোটিন {protein} g • শর্করা {carbs} g • ফ্যাট {fats} g',
+  'macro.proteinShort': 'প্রোটিন {amount} g',
+  'macro.carbsShort': 'শর্করা {amount} g',
+  'macro.fatsShort': 'ফ্যাট {amount} g',
+
+  'header.trackingDate': 'তারিখ',
+  'fast.confirm': 'এটা আপনার {name} উপোসের সময়ের মধ্যে পড়ছে, উপোস ভাঙবে {time}-এ। তবুও লিখবেন?',
+
+  'catalogue.title': 'স্থানীয় খাবারের তালিকা',
+  'catalogue.intro':
+    'দক্ষিণ এশিয়ার রোজকার খাবার, অফলাইনে লেখার জন্য তৈরি। তালিকা v{version}, ' +
+    'প্রতি ১০০ গ্রামের তথ্য থেকে প্রতি পরিবেশনের মান।',
+  'catalogue.mealSlot': 'কোন বেলা',
+  'catalogue.autoMeal': 'নিজে থেকে',
+  'catalogue.search': 'দোসা, বিরিয়ানি, ডাল খুঁজুন...',
+  'catalogue.reset': 'রিসেট',
+  'catalogue.vratOnly': '{name}: শুধু উপোসের খাবার',
+  'catalogue.star': '{name} প্রিয়তে যোগ করুন',
+  'catalogue.unstar': '{name} প্রিয় থেকে সরান',
+  'catalogue.perServing': '{calories} kcal / {quantity} {unit}',
+  'catalogue.tags': 'ট্যাগ',
+  'catalogue.quantity': 'পরিমাণ',
+  'catalogue.shared': 'ভাগ করে',
+  'catalogue.add': 'যোগ করুন',
+  'catalogue.empty': 'কিছু পাওয়া যায়নি। অন্য শব্দ দিয়ে খুঁজুন বা ফিল্টার সরান।',
+  'catalogue.myFoods': 'আমার খাবার',
+  'catalogue.myRecipes': 'আমার রেসিপি',
+  'catalogue.packaged': 'প্যাকেটজাত',
+
+  'custom.title': 'নিজের খাবার যোগ করুন',
+  'custom.intro':
+    'বাড়ির রান্না? লেবেল ছাড়া রাস্তার খাবার? একবার হাতে লিখে নিজের খাবারে সেভ করে রাখুন, ব্যস।',
+  'custom.name': 'নাম',
+  'custom.namePlaceholder': 'দিদিমার খিচুড়ি',
+  'custom.untitled': 'নামহীন খাবার',
+  'custom.quantity': 'পরিমাণ',
+  'custom.meal': 'কোন বেলা',
+  'custom.autoMeal': 'সময় অনুযায়ী',
+  'custom.calories': 'ক্যালোরি (kcal)',
+  'custom.protein': 'প্রোটিন (g)',
+  'custom.carbs': 'শর্করা (g)',
+  'custom.fats': 'ফ্যাট (g)',
+  'custom.notes': 'নোট',
+  'custom.notesPlaceholder': 'মশলা, রান্নার পদ্ধতি বা তেলের কথা লিখুন।',
+  'custom.saveFood': 'এক ট্যাপে লেখার জন্য আমার খাবারে সেভ করুন',
+  'custom.tagsPlaceholder': 'বাড়ির রান্না, জলখাবার',
+  'custom.submit': 'সেভ করুন',
+
+  'log.title': 'রোজকার খাতা',
+  'log.intro': 'প্রতিটি খাবার এই ডিভাইসে সেভ থাকে। পরিমাণ, সময় বা পুষ্টির মান এক ট্যাপে বদলান।',
+  'log.copy': 'অন্য দিন থেকে কপি করুন',
+  'log.report': 'ডায়েটিশিয়ানের জন্য রিপোর্ট',
+  'log.undo': 'আগের অবস্থায় ফেরান',
+  'log.redo': 'আবার করুন',
+  'log.history': 'পরিবর্তন',
+  'log.trash': 'ট্র্যাশ',
+  'log.deleted': '{name} মুছে ফেলা হয়েছে। এটি ট্র্যাশে আছে।',
+  'log.loading': 'খাতা লোড হচ্ছে…',
+  'log.empty': 'এখনও কিছু লেখা হয়নি। দোসা, বিরিয়ানি দিয়ে শুরু করুন বা নিজের রেসিপি যোগ করুন।',
+
+  'trash.retention': 'মুছে ফেলা এন্ট্রি যতদিন রাখা হবে',
+  'trash.days': '{count} দিন',
+  'trash.empty': 'ট্র্যাশে কিছু নেই।',
+  'trash.deletedOn': '{date}, {meal} · {time}-এ মোছা হয়েছে',
+  'trash.purgedAfter': '{time}-এর পরে চিরতরে মুছে যাবে',
+  'trash.restore': 'ফিরিয়ে আনুন',
+  'trash.purge': 'চিরতরে মুছুন',
+  'trash.purgeAll': 'ট্র্যাশ খালি করুন',
+  'trash.confirmOne': 'এই এন্ট্রিটি চিরতরে মুছবেন?',
+  'trash.confirmAll': 'ট্র্যাশের সব {count}টি এন্ট্রি চিরতরে মুছবেন?',
+
+  'changes.title': '{date}-এর পরিবর্তন',
+  'changes.empty': 'এই দিনের কোনো পরিবর্তন এখনও লেখা হয়নি।',
+  'changes.create': 'যোগ করা হয়েছে',
+  'changes.update': 'বদলানো হয়েছে',
+  'changes.delete': 'মোছা হয়েছে',
+  'changes.restore': 'ফিরিয়ে আনা হয়েছে',
+  'changes.undo': 'আগের অবস্থায় ফেরানো',
+  'changes.redo': 'আবার করা',
+  'changes.sync': 'অন্য ডিভাইস থেকে',
+  'changes.amount': 'পরিমাণ',
+  'changes.day': 'দিন',
+  'changes.time': 'সময়',
+
+  'common.unit': 'একক',
+  'common.edit': 'বদলান',
+  'common.delete': 'মুছুন',
+  'common.close': 'বন্ধ করুন',
+  'common.cancel': 'বাতিল',
+
+  'timer.fasting': 'উপোস · {name}',
+  'timer.since': '{start} থেকে · ভাঙবে {end}-এ',
+  'timer.open': 'খাওয়ার সময় চলছে। {name} শুরু হবে {countdown} পরে, {time}-এ।',
+
+  'quick.favourites': 'প্রিয়',
+  'quick.recent': 'সাম্প্রতিক',
+  'quick.again': '{name} আবার লিখুন',
+
+  'micro.fibre': 'ফাইবার',
+  'micro.sugar': 'চিনি',
+  'micro.sodium': 'সোডিয়াম',
+  'micro.iron': 'আয়রন',
+  'micro.calcium': 'ক্যালসিয়াম',
+  'micro.summary': 'ফাইবার, চিনি, সোডিয়াম, আয়রন ও ক্যালসিয়াম',
+  'micro.noData': 'তথ্য নেই',
+  'micro.limit': 'সীমা {amount} {unit}',
+  'micro.goal': 'লক্ষ্য {amount} {unit}',
+  'micro.missing': '{count}টি খাবারের তথ্য নেই',
+  'micro.fields': 'অণুপুষ্টি (ঐচ্ছিক)',
+  'micro.fieldsSet': 'অণুপুষ্টি (ঐচ্ছিক, {count}টি দেওয়া)',
+  'micro.unknown': 'অজানা',
+
+  'update.ready': 'LocalPlate-এর নতুন সংস্করণ তৈরি।',
+  'update.reload': 'আপডেট করতে রিলোড করুন',
+  'update.later': 'পরে',
+
+  'food.description': 'বিবরণ',
+  'food.defaultQuantity': 'সাধারণ পরিমাণ',
+  'food.tags': 'ট্যাগ (কমা দিয়ে আলাদা করুন)',
+  'food.save': 'খাবার সেভ করুন',
+
+  'share.title': '{name} কার জন্য লিখবেন',
+  'share.portion': '{name}-এর ভাগ',
+  'share.submitOne': '1 জনের জন্য লিখুন',
+  'share.submitMany': '{count} জনের জন্য লিখুন',
+
+  'body.water': 'জল',
+  'body.waterProgress': '{amount} / {target} ml',
+  'body.addGlass': '+ গ্লাস ({amount} ml)',
+  'body.undoGlass': 'গ্লাস কমান',
+  'body.title': 'শরীর',
+  'body.weight': 'ওজন (kg)',
+  'body.waist': 'কোমর (cm, ঐচ্ছিক)',
+  'body.save': 'মাপ সেভ করুন',
+
+  'entry.date': 'তারিখ',
+  'entry.time': 'সময়',
+  'entry.save': 'পরিবর্তন সেভ করুন',
+
+  'copyDay.from': 'যেদিন থেকে কপি',
+  'copyDay.yesterday': 'গতকাল',
+  'copyDay.empty': '{date}-এ কিছু লেখা হয়নি।',
+  'copyDay.submit': '{count}টি {date}-এ কপি করুন',
+
+  'plan.title': 'দিনের লক্ষ্য',
+  'plan.manualSince': '{date} থেকে নিজের ঠিক করা লক্ষ্য।',
+  'plan.goalSince': '{date} থেকে {goal} পরিকল্পনা।',
+  'plan.default': 'ডিফল্ট সুষম থালা। নিজের লক্ষ্যের জন্য প্রোফাইল পূরণ করুন।',
+  'plan.height': 'উচ্চতা (cm)',
+  'plan.age': 'বয়স',
+  'plan.sex': 'লিঙ্গ',
+  'plan.female': 'মহিলা',
+  'plan.male': 'পুরুষ',
+  'plan.goal': 'লক্ষ্য',
+  'plan.activity': 'কার্যকলাপের মাত্রা',
+  'plan.manual': 'লক্ষ্য নিজে ঠিক করুন',
+  'plan.preview':
+    '{calories} kcal • প্রোটিন {protein} g • কার্বস {carbs} g • ফ্যাট {fats} g, {date} থেকে প্রযোজ্য। ' +
+    'আগের দিনগুলোর লক্ষ্য একই থাকবে।',
+  'plan.save': 'লক্ষ্য সংরক্ষণ করুন',
+  'plan.calories': 'ক্যালোরির লক্ষ্য',
+  'plan.protein': 'প্রোটিনের লক্ষ্য',
+  'plan.carbs': 'কার্বসের সীমা',
+  'plan.fats': 'ফ্যাটের ঊর্ধ্বসীমা',
+
+  'goal.cut': 'চর্বি কমানো',
+  'goal.maintain': 'ওজন ধরে রাখা',
+  'goal.bulk': 'পেশি বাড়ানো',
+
+  'activity.sedentary': 'বসে থাকা (ডেস্কের কাজ)',
+  'activity.light': 'হালকা (সপ্তাহে ১-৩ বার ব্যায়াম)',
+  'activity.moderate': 'মাঝারি (সপ্তাহে ৩-৫ বার ব্যায়াম)',
+  'activity.active': 'সক্রিয় (সপ্তাহে ৬-৭ বার ব্যায়াম)',
+  'activity.athlete': 'ক্রীড়াবিদ (দিনে দুবার)',
+
+  'recipe.title': 'রেসিপি',
+  'recipe.intro': 'খিচুড়ি, সাম্বার বা যেকোনো ঘরের রান্না একবার উপকরণ দিয়ে বানান, তারপর প্রতি পরিবেশন হিসেবে লগ করুন।',
+  'recipe.new': 'নতুন',
+  'recipe.perServing': '{calories} kcal / পরিবেশন • {servings} পরিবেশন',
+  'recipe.namePlaceholder': 'মুগ ডালের খিচুড়ি',
+  'recipe.untitled': 'নামহীন রেসিপি',
+  'recipe.ingredients': 'উপকরণ',
+  'recipe.ingredient': 'উপকরণ',
+  'recipe.pick': 'একটি উপকরণ বাছুন…',
+  'recipe.quantity': 'উপকরণের পরিমাণ',
+  'recipe.remove': '{name} সরান',
+  'recipe.yield': 'মোট পরিমাণ',
+  'recipe.byServings': 'পরিবেশনের সংখ্যা',
+  'recipe.byWeight': 'রান্নার পরে ওজন',
+  'recipe.servings': 'পরিবেশন',
+  'recipe.cooked': 'মোট রান্না করা (g)',
+  'recipe.servingSize': 'এক পরিবেশন (g)',
+  'recipe.tagsPlaceholder': 'ঘরে তৈরি, রাতের খাবার',
+  'recipe.summary': 'পুরো হাঁড়ি: {calories} kcal। প্রতি পরিবেশন (মোট {servings}): {macros}',
+  'recipe.save': 'রেসিপি সংরক্ষণ করুন',
+
+  'profile.group': 'কে লগ করছেন',
+  'profile.add': '+ ব্যক্তি',
+  'profile.edit': '{name} সম্পাদনা করুন',
+  'profile.new': 'নতুন প্রোফাইল',
+  'profile.namePlaceholder': 'মা',
+  'profile.dayStart': 'দিন শুরু হয়',
+  'profile.midnight': 'মধ্যরাত',
+  'profile.save': 'সংরক্ষণ করুন',
+  'profile.remove': 'সরান',
+  'profile.confirmRemove': '{name}-কে সরাবেন? তাঁর লগ, লক্ষ্য এবং জল ও ওজনের ইতিহাস এই ডিভাইস থেকে মুছে যাবে।',
+  'profile.nameMissing': 'প্রোফাইলের একটি নাম দিন।',
+  'profile.nameTaken': '{name} নামে একটি প্রোফাইল আগে থেকেই আছে।',
+  'profile.saveFailed': 'প্রোফাইল সংরক্ষণ করা যায়নি।',
+  'profile.removeFailed': 'প্রোফাইল সরানো যায়নি।',
+  'profile.me': 'আমি',
+  'profile.unnamed': 'নামহীন প্রোফাইল',
+
+  'backup.title': 'ব্যাকআপ ও এক্সপোর্ট',
+  'backup.intro':
+    'আপনার ডেটা কখনো এই ডিভাইসের বাইরে যায় না। সাইট ডেটা মোছার বা ফোন বদলানোর আগে একটি ব্যাকআপ ফাইল ' +
+    'রাখুন।',
+  'backup.json': 'ব্যাকআপ (JSON)',
+  'backup.entriesCsv': '{name}-এর এন্ট্রি CSV',
+  'backup.dailyCsv': '{name}-এর দৈনিক মোট CSV',
+  'backup.restore': 'পুনরুদ্ধার…',
+  'backup.contents':
+    '{profiles}টি প্রোফাইল, {entries}টি এন্ট্রি, {foods}টি সংরক্ষিত খাবার, {recipes}টি রেসিপি, জল ও ওজনের' +
+    ' {body} দিন, {goals}টি লক্ষ্য প্রোফাইল, {favourites}টি তারকাচিহ্নিত খাবার এবং {fasting}টি উপবাসের ' +
+    'সময়সূচি।',
+  'backup.exportedOn': '{date}-এ এক্সপোর্ট করা।',
+  'backup.duplicates': '{count}টি আগে থেকেই এই ডিভাইসে আছে।',
+  'backup.merge': 'মেশান (আমারটা রাখুন)',
+  'backup.replace': 'সব কিছু বদলে দিন',
+  'backup.restored': 'ব্যাকআপ থেকে {count}টি এন্ট্রি পুনরুদ্ধার হয়েছে।',
+  'backup.merged': '{count}টি নতুন এন্ট্রি মেশানো হয়েছে।',
+  'backup.failed': 'ইমপোর্ট ব্যর্থ হয়েছে। কিছুই বদলায়নি।',
+  'backup.unreadable': 'এই ব্যাকআপ পড়া যায়নি।',
+  'backup.invalidJson': 'এই ফাইলটি বৈধ JSON নয়।',
+  'backup.notBackup': 'এই ফাইলটি LocalPlate ব্যাকআপ নয়।',
+  'backup.tooNew': 'এই ব্যাকআপ LocalPlate-এর নতুন সংস্করণে তৈরি। অ্যাপ আপডেট করে আবার চেষ্টা করুন।',
+  'backup.badLogs': 'ব্যাকআপে ত্রুটিপূর্ণ এন্ট্রি আছে।',
+
+  'reminder.title': 'রিমাইন্ডার',
+  'reminder.intro': 'সার্ভার ছাড়াই এই ডিভাইসে হিসাব হয়। LocalPlate খোলা থাকলে বা ব্যাকগ্রাউন্ডে চললে দেখা যায়।',
+  'reminder.unsupported': 'এই ব্রাউজার বিজ্ঞপ্তি দেখাতে পারে না।',
+  'reminder.blocked': 'বিজ্ঞপ্তি বন্ধ আছে। ব্রাউজারের সেটিংসে অনুমতি দিন।',
+  'reminder.allow': 'বিজ্ঞপ্তির অনুমতি দিন',
+  'reminder.mealLog': 'লগ করুন',
+  'reminder.mealSlot': 'কোন খাবারের কথা মনে করাবে',
+  'reminder.mealBy': 'এই সময়ের মধ্যে',
+  'reminder.mealTime': 'খাবারের রিমাইন্ডারের সময়',
+  'reminder.water': 'জল, প্রতি',
+  'reminder.waterHours': 'জলের রিমাইন্ডারের মাঝে ঘণ্টা',
+  'reminder.hours': '{count} ঘণ্টা',
+  'reminder.from': 'শুরু',
+  'reminder.to': 'শেষ',
+  'reminder.waterFirst': 'প্রথম জলের রিমাইন্ডার',
+  'reminder.waterLast': 'শেষ জলের রিমাইন্ডার',
+  'reminder.summary': 'দিনের সারাংশ, সময়',
+  'reminder.summaryTime': 'দিনের সারাংশের সময়',
+  'reminder.quiet': 'নীরব সময়, শুরু',
+  'reminder.quietStart': 'নীরব সময়ের শুরু',
+  'reminder.quietEnd': 'নীরব সময়ের শেষ',
+  'reminder.mealTitle': 'আপনার {meal} লগ করুন',
+  'reminder.mealBody': 'আজ এখনো {meal}-এর জন্য কিছু লগ করা হয়নি।',
+  'reminder.waterTitle': 'এক গ্লাস জল খাওয়ার সময়',
+  'reminder.waterBody': 'আজ এ পর্যন্ত {target}-এর মধ্যে {amount} ml।',
+  'reminder.summaryTitle': 'আজকের মোট',
+  'reminder.summaryBody':
+    '{caloriesTarget}-এর মধ্যে {calories} kcal · প্রোটিন {protein}/{proteinTarget} g · কার্বস ' +
+    '{carbs}/{carbsTarget} g · ফ্যাট {fats}/{fatsTarget} g · জল {water}/{waterTarget} ml',
+
+  'history.title': 'ইতিহাস',
+  'history.intro': '{start} থেকে {end}। গড়ে শুধু লগ করা দিন গোনা হয়; লক্ষ্যে মানে ক্যালোরির লক্ষ্যের 10%-এর মধ্যে।',
+  'history.days': '{count} দিন',
+  'history.avgCalories': 'গড় ক্যালোরি',
+  'history.avgProtein': 'গড় প্রোটিন',
+  'history.avgCarbs': 'গড় কার্বস',
+  'history.avgFats': 'গড় ফ্যাট',
+  'history.onTarget': 'লক্ষ্যে',
+  'history.daysLogged': 'লগ করা দিন',
+  'history.currentStreak': 'চলতি ধারা',
+  'history.bestStreak': 'সেরা ধারা',
+  'history.streak': '{count} দিন',
+  'history.calories': 'দৈনিক ক্যালোরি',
+  'history.average': '7 দিনের গড়',
+  'history.target': 'লক্ষ্য',
+  'history.caloriesChart': 'দৈনিক ক্যালোরির চার্ট',
+  'history.dayCalories': '{date}: {target}-এর মধ্যে {calories} kcal',
+  'history.macros': 'দৈনিক ম্যাক্রো (g)',
+  'history.macrosChart': 'দৈনিক ম্যাক্রোর চার্ট',
+  'history.weight': 'ওজন (kg)',
+  'history.weighIns': 'ওজন মাপা',
+  'history.trend': 'মসৃণ প্রবণতা',
+  'history.latestTrend': '{date}-এ প্রবণতা {weight} kg',
+  'history.noWeight': 'এই সময়ে কোনো ওজন মাপা হয়নি। প্রবণতা দেখতে দৈনিক লগে আপনার ওজন যোগ করুন।',
+  'history.weightChart': 'ওজনের প্রবণতার চার্ট',
+  'history.weighIn': '{date}: {weight} kg (প্রবণতা {trend})',
+
+  'report.back': '← লগে ফিরে যান',
+  'report.person': 'ব্যক্তি',
+  'report.from': 'শুরু',
+  'report.to': 'শেষ',
+  'report.print': 'প্রিন্ট করুন বা PDF হিসেবে সংরক্ষণ করুন',
+
+  'barcode.title': 'বারকোড দিয়ে প্যাকেটজাত খাবার',
+  'barcode.intro': 'দাগগুলোর নিচের নম্বরটি টাইপ করুন।',
+  'barcode.introPhoto': 'দাগগুলোর নিচের নম্বরটি টাইপ করুন বা সেগুলোর ছবি তুলুন।',
+  'barcode.dataset': 'পণ্যগুলো এই ডিভাইসে রাখা ডেটাসেটে খোঁজা হয়।',
+  'barcode.datasetCount': 'পণ্যগুলো এই ডিভাইসে রাখা ডেটাসেটে খোঁজা হয় ({count}টি পণ্য)।',
+  'barcode.code': 'বারকোড',
+  'barcode.lookUp': 'খুঁজুন',
+  'barcode.photo': 'ছবি…',
+  'barcode.noPhoto': 'এই ব্রাউজার ছবি থেকে বারকোড পড়তে পারে না, তাই নম্বরটি টাইপ করুন। Android-এ Chrome পারে।',
+  'barcode.local': 'এই ডিভাইসে লেখা',
+  'barcode.per100g': 'প্রতি 100 g',
+  'barcode.perServing': 'প্রতি {serving}',
+  'barcode.calories': 'kcal',
+  'barcode.protein': 'প্রোটিন g',
+  'barcode.carbs': 'কার্বস g',
+  'barcode.fats': 'ফ্যাট g',
+  'barcode.log': 'লগ করুন',
+  'barcode.missing':
+    '{barcode} এখনো পণ্যের ডেটায় নেই। প্যাকেটের পুষ্টি লেবেল থেকে একবার লিখে দিন, পরের বার পাওয়া যাবে।',
+  'barcode.brand': 'ব্র্যান্ড',
+  'barcode.perLabel': 'প্রতি 100 g, লেবেলে যেমন ছাপা',
+  'barcode.serving': 'পরিবেশন (ঐচ্ছিক)',
+  'barcode.servingPlaceholder': '2টি বিস্কুট',
+  'barcode.servingGrams': 'পরিবেশনের ওজন (g)',
+  'barcode.save': 'পণ্য সংরক্ষণ করুন',
+  'barcode.import': 'পণ্যের ডেটা ইমপোর্ট করুন…',
+  'barcode.importHint': 'Open Food Facts-এর JSONL বা CSV অংশ যেমন আছে তেমনই চলে।',
+  'barcode.invalid': 'এটি বৈধ EAN বা UPC বারকোড নয়। দাগগুলোর নিচের অঙ্ক দেখে নিন।',
+  'barcode.lookupFailed': 'খোঁজা ব্যর্থ হয়েছে। আবার চেষ্টা করুন।',
+  'barcode.notInPhoto': 'এই ছবিতে কোনো বারকোড পাওয়া যায়নি। কাছ থেকে স্পষ্ট ছবি তুলুন বা নম্বর টাইপ করুন।',
+  'barcode.photoFailed': 'এই ছবিটি পড়া যায়নি।',
+  'barcode.imported': '{count}টি পণ্য ইমপোর্ট হয়েছে।',
+  'barcode.kept': 'আপনার নিজে লেখা {count}টি রাখা হয়েছে।',
+  'barcode.skipped': 'বারকোড, নাম বা বৈধ শক্তি ও ম্যাক্রোর মান ছাড়া {count}টি সারি বাদ দেওয়া হয়েছে।',
+  'barcode.unreadable': 'এই ফাইলটি বৈধ JSON, JSON Lines বা CSV নয়।',
+  'barcode.empty': 'এই ফাইলে বারকোড, নাম ও প্রতি 100 g শক্তি সহ কোনো পণ্য পাওয়া যায়নি।',
+  'barcode.logged': '{name} লগ করা হয়েছে।',
+  'barcode.saved': 'সংরক্ষিত। এখন থেকে এই বারকোডে এটি পাওয়া যাবে।',
+  'barcode.saveFailed': 'এই পণ্যটি সংরক্ষণ করা যায়নি।',
+
+  'fasting.title': 'উপবাস',
+  'fasting.intro': 'ইন্টারমিটেন্ট, রমজান, নবরাত্রি, একাদশী বা সাপ্তাহিক ব্রত। সূর্যের সময় এই ডিভাইসেই হিসাব করা হয়।',
+  'fasting.toggle': '{name} চালু',
+  'fasting.range': '{start} থেকে {end}',
+  'fasting.vratFoods': 'ব্রতের খাবার',
+  'fasting.preset': 'উপবাসের ধরন',
+  'fasting.add': 'উপবাস যোগ করুন',
+  'fasting.everyDay': 'প্রতিদিন',
+  'fasting.noWeekdays': 'কোনো বার নেই',
+  'fasting.oneDate': '1টি বাছাই করা তারিখ',
+  'fasting.chosenDates': '{count}টি বাছাই করা তারিখ',
+  'fasting.eatWindow': 'খাওয়া {from}–{until}',
+  'fasting.fromDawn': '{place}-এ ভোর থেকে সূর্যাস্ত',
+  'fasting.fromSunrise': '{place}-এ সূর্যোদয় থেকে সূর্যাস্ত',
+  'fasting.unknownPlace': 'অজানা জায়গা',
+  'fasting.defaultName': 'উপবাস',
+  'fasting.days': 'উপবাসের দিন',
+  'fasting.weekly': 'নির্দিষ্ট বার',
+  'fasting.dates': 'বাছাই করা তারিখ',
+  'fasting.addDate': 'তারিখ যোগ করুন',
+  'fasting.removeDate': '{date} সরান',
+  'fasting.from': 'শুরু (ঐচ্ছিক)',
+  'fasting.until': 'শেষ (ঐচ্ছিক)',
+  'fasting.noFood': 'না খাওয়ার সময়',
+  'fasting.eatFrom': 'খাওয়া শুরু',
+  'fasting.eatUntil': 'খাওয়া শেষ',
+  'fasting.city': 'শহর',
+  'fasting.startsAt': 'শুরু হয়',
+  'fasting.dawn': 'ভোর (ফজর, সূর্য 18° নিচে)',
+  'fasting.sunrise': 'সূর্যোদয়',
+  'fasting.preview': '{date}: {start} থেকে {end} পর্যন্ত কোনো খাবার নয়।',
+  'fasting.vrat': 'ধর্মীয় উপবাস: তালিকায় ব্রতের (উপবাসের) খাবার দেখান',
+  'fasting.save': 'উপবাস সংরক্ষণ করুন',
+
+  'fastWindow.eating-window': 'খাওয়ার সময় (ইন্টারমিটেন্ট)',
+  'fastWindow.daylight': 'ভোর বা সূর্যোদয় থেকে সূর্যাস্ত',
+  'fastWindow.all-day': 'সারা দিন',
+  'fastWindow.food-only': 'সময়ের সীমা নেই, শুধু ব্রতের খাবার',
+
+  'fastPreset.16-8': 'ইন্টারমিটেন্ট 16:8',
+  'fastPreset.ramadan': 'রমজান (ভোর থেকে সূর্যাস্ত)',
+  'fastPreset.navratri': 'নবরাত্রি (নয় দিন, ব্রতের খাবার)',
+  'fastPreset.ekadashi': 'একাদশী (বাছাই করা তারিখ)',
+  'fastPreset.weekly': 'সাপ্তাহিক ব্রত (সূর্যোদয় থেকে সূর্যাস্ত)',
+
+  'fastName.16-8': 'ইন্টারমিটেন্ট 16:8',
+  'fastName.ramadan': 'রমজান',
+  'fastName.navratri': 'নবরাত্রি',
+  'fastName.ekadashi': 'একাদশী',
+  'fastName.weekly': '{day}-এর ব্রত',
+
+  'sync.title': 'এনক্রিপ্ট করা সিঙ্ক',
+  'sync.intro':
+    'ঐচ্ছিক। এন্ট্রিগুলো এই ডিভাইস ছাড়ার আগে আপনার পাসফ্রেজ দিয়ে এনক্রিপ্ট হয়; সার্ভার শুধু অপাঠ্য ' +
+    'ডেটা দেখে। প্রতিটি ডিভাইসে একই ভল্ট আইডি আর পাসফ্রেজ ব্যবহার করুন।',
+  'sync.lastSynced': 'শেষ সিঙ্ক {time}।',
+  'sync.notSynced': 'এখনও সিঙ্ক হয়নি।',
+  'sync.pending': '{count}টি পরিবর্তন আপলোডের অপেক্ষায়।',
+  'sync.syncing': 'সিঙ্ক হচ্ছে…',
+  'sync.now': 'এখনই সিঙ্ক করুন',
+  'sync.turnOff': 'বন্ধ করুন',
+  'sync.server': 'সার্ভারের ঠিকানা',
+  'sync.vaultId': 'ভল্ট আইডি',
+  'sync.newVault': 'নতুন',
+  'sync.passphrase': 'পাসফ্রেজ',
+  'sync.passphraseWarning': 'পাসফ্রেজ পুনরুদ্ধার করা যায় না। এটি হারালে সিঙ্ক করা কপি পড়া যাবে না।',
+  'sync.connecting': 'সংযোগ হচ্ছে…',
+  'sync.turnOn': 'সিঙ্ক চালু করুন',
+  'sync.enabled': 'সিঙ্ক চালু। {pushed}টি পরিবর্তন পাঠানো হয়েছে, {pulled}টি পাওয়া গেছে।',
+  'sync.disabled': 'সিঙ্ক বন্ধ। আপনার এন্ট্রিগুলো এই ডিভাইসেই থাকবে।',
+  'sync.missingSettings': 'সার্ভারের ঠিকানা আর ভল্ট আইডি লিখুন।',
+  'sync.badVaultId': 'ভল্ট আইডি ৮ থেকে ১২৮টি অক্ষর, সংখ্যা, ড্যাশ বা আন্ডারস্কোর নিয়ে হয়।',
+  'sync.shortPassphrase': 'অন্তত ৮ অক্ষরের পাসফ্রেজ ব্যবহার করুন।',
+  'sync.notSetUp': 'এই ডিভাইসে সিঙ্ক সেট করা নেই।',
+  'sync.unreachable': 'সিঙ্ক সার্ভারে পৌঁছানো যায়নি।',
+  'sync.serverError': 'সিঙ্ক সার্ভার একটি ত্রুটি ফেরত দিয়েছে। পরে আবার চেষ্টা করুন।',
+  'sync.wrongPassphrase': 'সিঙ্ক করা ডেটা ডিক্রিপ্ট করা যায়নি। এই ভল্টের পাসফ্রেজ যাচাই করুন।',
+  'sync.failed': 'সিঙ্ক ব্যর্থ হয়েছে। আপনার পরিবর্তন এই ডিভাইসে নিরাপদ আছে।',
+
+  'unit.serving': 'পরিবেশন'
+};
@@ -0,0 +1,461 @@
+/**
+ * English UI strings, and the list of keys every other catalogue must provide. `{name}` marks a
+ * value filled in by `translate` in `lib/i18n`; keep placeholders as they are when translating.
+ */
+export const en = {
+  'app.tagline':
+    'A lean, offline-friendly tracker built for local plates and privacy-first nutrition. ' +
+    'Log anything in seconds, even with zero signal.',
+  'app.privacy': 'Daily nutrition stays on your device. No ads, no paywalls.',
+  'app.language': 'Language',
+
+  'connection.offlineSync': 'Offline mode. Changes are saved here and sync when you reconnect.',
+  'connection.offline': 'Offline mode. All changes stored locally.',
+  'connection.online': 'Online. Everything is saved on this device.',
+  'connection.syncPaused': 'Sync paused. Changes are safe on this device.',
+  'connection.syncWaiting': 'Waiting for the first sync.',
+  'connection.synced': 'Synced at {time}. Everything is also saved on this device.',
+
+  'meal.breakfast': 'Breakfast',
+  'meal.lunch': 'Lunch',
+  'meal.snacks': 'Snacks',
+  'meal.dinner': 'Dinner',
+
+  'macro.calories': 'Calories',
+  'macro.protein': 'Protein',
+  'macro.carbs': 'Carbs',
+  'macro.fats': 'Fats',
+  'macro.progress': '{label} progress',
+  'macro.over': '{amount} {unit} over',
+  'macro.left': '{amount} {unit} left of {target}',
+  'macro.summary': '{calories} kcal • {protein} g P • {carbs} g C • {fats} g F',
+  'macro.proteinShort': '{amount} g P',
+  'macro.carbsShort': '{amount} g C',
+  'macro.fatsShort': '{amount} g F',
+
+  'header.trackingDate': 'Tracking date',
+  'fast.confirm': 'This falls inside your {name} fast, which ends at {time}. Log it anyway?',
+
+  'catalogue.title': 'Local food catalogue',
+  'catalogue.intro':
+    'South Asian staples curated and ready to log offline. Catalogue v{version}, values per serving ' +
+    'from per-100 g data.',
+  'catalogue.mealSlot': 'Meal slot',
+  'catalogue.autoMeal': 'Auto meal',
+  'catalogue.search': 'Search dosa, biriyani, दाल...',
+  'catalogue.reset': 'Reset',
+  'catalogue.vratOnly': '{name}: vrat foods only',
+  'catalogue.star': 'Star {name}',
+  'catalogue.unstar': 'Unstar {name}',
+  'catalogue.perServing': '{calories} kcal / {quantity} {unit}',
+  'catalogue.tags': 'Tags',
+  'catalogue.quantity': 'Qty',
+  'catalogue.shared': 'Shared',
+  'catalogue.add': 'Add',
+  'catalogue.empty': 'Nothing found. Try a different keyword or clear the filters.',
+  'catalogue.myFoods': 'My foods',
+  'catalogue.myRecipes': 'My recipes',
+  'catalogue.packaged': 'Packaged',
+
+  'custom.title': 'Custom quick add',
+  'custom.intro':
+    'Homemade recipe? Street food without labels? Log it manually once, save it to your foods and you are set.',
+  'custom.name': 'Name',
+  'custom.namePlaceholder': "Grandma's khichdi",
+  'custom.untitled': 'Untitled Meal',
+  'custom.quantity': 'Quantity',
+  'custom.meal': 'Meal',
+  'custom.autoMeal': 'Based on time of day',
+  'custom.calories': 'Calories (kcal)',
+  'custom.protein': 'Protein (g)',
+  'custom.carbs': 'Carbs (g)',
+  'custom.fats': 'Fats (g)',
+  'custom.notes': 'Notes',
+  'custom.notesPlaceholder': 'Add spices, prep methods, or cooking oils.',
+  'custom.saveFood': 'Save to my foods for one-tap logging',
+  'custom.tagsPlaceholder': 'homemade, breakfast',
+  'custom.submit': 'Save entry',
+
+  'log.title': 'Daily log',
+  'log.intro': 'Every meal is stored locally. Edit quantities, times or macros in a tap.',
+  'log.copy': 'Copy from another day',
+  'log.report': 'Dietitian report',
+  'log.undo': 'Undo',
+  'log.redo': 'Redo',
+  'log.history': 'Changes',
+  'log.trash': 'Trash',
+  'log.deleted': 'Deleted {name}. It is in the trash.',
+  'log.loading': 'Loading logs…',
+  'log.empty': 'Nothing logged yet. Start with a dosa, biryani, or add a custom recipe.',
+
+  'trash.retention': 'Keep deleted entries for',
+  'trash.days': '{count} days',
+  'trash.empty': 'Nothing in the trash.',
+  'trash.deletedOn': '{meal} on {date} · deleted {time}',
+  'trash.purgedAfter': 'purged after {time}',
+  'trash.restore': 'Restore',
+  'trash.purge': 'Delete for good',
+  'trash.purgeAll': 'Empty trash',
+  'trash.confirmOne': 'Delete this entry for good?',
+  'trash.confirmAll': 'Delete all {count} entries in the trash for good?',
+
+  'changes.title': 'Changes to {date}',
+  'changes.empty': 'No changes recorded for this day yet.',
+  'changes.create': 'Added',
+  'changes.update': 'Edited',
+  'changes.delete': 'Deleted',
+  'changes.restore': 'Restored',
+  'changes.undo': 'undo',
+  'changes.redo': 'redo',
+  'changes.sync': 'from another device',
+  'changes.amount': 'Amount',
+  'changes.day': 'Day',
+  'changes.time': 'Time',
+
+  'common.unit': 'Unit',
+  'common.edit': 'Edit',
+  'common.delete': 'Delete',
+  'common.close': 'Close',
+  'common.cancel': 'Cancel',
+
+  'timer.fasting': 'Fasting · {name}',
+  'timer.since': 'Since {start} · breaks at {end}',
+  'timer.open': 'Eating window open. {name} starts in {countdown} at {time}.',
+
+  'quick.favourites': 'Favourites',
+  'quick.recent': 'Recent',
+  'quick.again': 'Log {name} again',
+
+  'micro.fibre': 'Fibre',
+  'micro.sugar': 'Sugar',
+  'micro.sodium': 'Sodium',
+  'micro.iron': 'Iron',
+  'micro.calcium': 'Calcium',
+  'micro.summary': 'Fibre, sugar, sodium, iron & calcium',
+  'micro.noData': 'No data',
+  'micro.limit': 'Limit {amount} {unit}',
+  'micro.goal': 'Aim for {amount} {unit}',
+  'micro.missing': '{count} item(s) without data',
+  'micro.fields': 'Micronutrients (optional)',
+  'micro.fieldsSet': 'Micronutrients (optional, {count} set)',
+  'micro.unknown': 'unknown',
+
+  'update.ready': 'A new version of LocalPlate is ready.',
+  'update.reload': 'Reload to update',
+  'update.later': 'Later',
+
+  'food.description': 'Description',
+  'food.defaultQuantity': 'Default quantity',
+  'food.tags': 'Tags (comma separated)',
+  'food.save': 'Save food',
+
+  'share.title': 'Log {name} for',
+  'share.portion': "{name}'s portion",
+  'share.submitOne': 'Log for 1 person',
+  'share.submitMany': 'Log for {count} people',
+
+  'body.water': 'Water',
+  'body.waterProgress': '{amount} / {target} ml',
+  'body.addGlass': '+ Glass ({amount} ml)',
+  'body.undoGlass': 'Undo glass',
+  'body.title': 'Body',
+  'body.weight': 'Weight (kg)',
+  'body.waist': 'Waist (cm, optional)',
+  'body.save': 'Save measurements',
+
+  'entry.date': 'Date',
+  'entry.time': 'Time',
+  'entry.save': 'Save changes',
+
+  'copyDay.from': 'Copy from',
+  'copyDay.yesterday': 'Yesterday',
+  'copyDay.empty': 'Nothing was logged on {date}.',
+  'copyDay.submit': 'Copy {count} to {date}',
+
+  'plan.title': 'Day plan targets',
+  'plan.manualSince': 'Manual targets since {date}.',
+  'plan.goalSince': '{goal} plan since {date}.',
+  'plan.default': 'Default balanced plate. Set up your profile for personal targets.',
+  'plan.height': 'Height (cm)',
+  'plan.age': 'Age',
+  'plan.sex': 'Sex',
+  'plan.female': 'Female',
+  'plan.male': 'Male',
+  'plan.goal': 'Goal',
+  'plan.activity': 'Activity level',
+  'plan.manual': 'Set targets manually',
+  'plan.preview':
+    '{calories} kcal • {protein} g protein • {carbs} g carbs • {fats} g fats, applied from {date} ' +
+    'onwards. Earlier days keep their targets.',
+  'plan.save': 'Save targets',
+  'plan.calories': 'Calories goal',
+  'plan.protein': 'Protein target',
+  'plan.carbs': 'Carbs lane',
+  'plan.fats': 'Fats ceiling',
+
+  'goal.cut': 'Lose fat',
+  'goal.maintain': 'Maintain',
+  'goal.bulk': 'Build muscle',
+
+  'activity.sedentary': 'Sedentary (desk job)',
+  'activity.light': 'Light (1-3 workouts/week)',
+  'activity.moderate': 'Moderate (3-5 workouts/week)',
+  'activity.active': 'Active (6-7 workouts/week)',
+  'activity.athlete': 'Athlete (twice daily)',
+
+  'recipe.title': 'Recipes',
+  'recipe.intro': 'Build khichdi, sambar or any home dish from ingredients once, then log it by the serving.',
+  'recipe.new': 'New',
+  'recipe.perServing': '{calories} kcal / serving • {servings} servings',
+  'recipe.namePlaceholder': 'Moong dal khichdi',
+  'recipe.untitled': 'Untitled recipe',
+  'recipe.ingredients': 'Ingredients',
+  'recipe.ingredient': 'Ingredient',
+  'recipe.pick': 'Pick an ingredient…',
+  'recipe.quantity': 'Ingredient quantity',
+  'recipe.remove': 'Remove {name}',
+  'recipe.yield': 'Yield',
+  'recipe.byServings': 'Number of servings',
+  'recipe.byWeight': 'Cooked weight',
+  'recipe.servings': 'Servings',
+  'recipe.cooked': 'Total cooked (g)',
+  'recipe.servingSize': 'Serving size (g)',
+  'recipe.tagsPlaceholder': 'homemade, dinner',
+  'recipe.summary': 'Whole pot: {calories} kcal. Per serving ({servings} total): {macros}',
+  'recipe.save': 'Save recipe',
+
+  'profile.group': 'Who is logging',
+  'profile.add': '+ Person',
+  'profile.edit': 'Edit {name}',
+  'profile.new': 'New profile',
+  'profile.namePlaceholder': 'Amma',
+  'profile.dayStart': 'Day starts at',
+  'profile.midnight': 'Midnight',
+  'profile.save': 'Save',
+  'profile.remove': 'Remove',
+  'profile.confirmRemove':
+    'Remove {name}? Their log, targets and water and weight history are deleted from this device.',
+  'profile.nameMissing': 'Give the profile a name.',
+  'profile.nameTaken': 'There is already a profile called {name}.',
+  'profile.saveFailed': 'Could not save the profile.',
+  'profile.removeFailed': 'Could not remove the profile.',
+  'profile.me': 'Me',
+  'profile.unnamed': 'Unnamed profile',
+
+  'backup.title': 'Backup & export',
+  'backup.intro':
+    'Your data never leaves this device. Keep a backup file before clearing site data or switching ' +
+    'phones.',
+  'backup.json': 'Backup (JSON)',
+  'backup.entriesCsv': "{name}'s entries CSV",
+  'backup.dailyCsv': "{name}'s daily totals CSV",
+  'backup.restore': 'Restore…',
+  'backup.contents':
+    '{profiles} profile(s), {entries} entries, {foods} saved foods, {recipes} recipes, {body} days of ' +
+    'water and weight, {goals} target profiles, {favourites} starred foods and {fasting} fasting ' +
+    'schedules.',
+  'backup.exportedOn': 'Exported on {date}.',
+  'backup.duplicates': '{count} already exist on this device.',
+  'backup.merge': 'Merge (keep mine)',
+  'backup.replace': 'Replace everything',
+  'backup.restored': 'Restored {count} entries from the backup.',
+  'backup.merged': 'Merged {count} new entries.',
+  'backup.failed': 'Import failed. Nothing was changed.',
+  'backup.unreadable': 'Could not read this backup.',
+  'backup.invalidJson': 'This file is not valid JSON.',
+  'backup.notBackup': 'This file is not a LocalPlate backup.',
+  'backup.tooNew': 'This backup was made by a newer version of LocalPlate. Update the app and try again.',
+  'backup.badLogs': 'The backup contains malformed log entries.',
+
+  'reminder.title': 'Reminders',
+  'reminder.intro':
+    'Worked out on this device, with no server. They show while LocalPlate is open or running in the ' +
+    'background.',
+  'reminder.unsupported': 'This browser cannot show notifications.',
+  'reminder.blocked': 'Notifications are blocked. Allow them in the browser settings.',
+  'reminder.allow': 'Allow notifications',
+  'reminder.mealLog': 'Log',
+  'reminder.mealSlot': 'Meal to remind about',
+  'reminder.mealBy': 'by',
+  'reminder.mealTime': 'Meal reminder time',
+  'reminder.water': 'Water every',
+  'reminder.waterHours': 'Hours between water reminders',
+  'reminder.hours': '{count} h',
+  'reminder.from': 'from',
+  'reminder.to': 'to',
+  'reminder.waterFirst': 'First water reminder',
+  'reminder.waterLast': 'Last water reminder',
+  'reminder.summary': 'Day summary at',
+  'reminder.summaryTime': 'Day summary time',
+  'reminder.quiet': 'Quiet from',
+  'reminder.quietStart': 'Quiet hours start',
+  'reminder.quietEnd': 'Quiet hours end',
+  'reminder.mealTitle': 'Log your {meal}',
+  'reminder.mealBody': 'Nothing logged for {meal} yet today.',
+  'reminder.waterTitle': 'Time for a glass of water',
+  'reminder.waterBody': '{amount} of {target} ml so far today.',
+  'reminder.summaryTitle': "Today's totals",
+  'reminder.summaryBody':
+    '{calories} of {caloriesTarget} kcal · protein {protein}/{proteinTarget} g · carbs ' +
+    '{carbs}/{carbsTarget} g · fats {fats}/{fatsTarget} g · water {water}/{waterTarget} ml',
+
+  'history.title': 'History',
+  'history.intro': '{start} to {end}. Averages count logged days only; on target means within 10% of the calorie goal.',
+  'history.days': '{count} days',
+  'history.avgCalories': 'Avg calories',
+  'history.avgProtein': 'Avg protein',
+  'history.avgCarbs': 'Avg carbs',
+  'history.avgFats': 'Avg fats',
+  'history.onTarget': 'On target',
+  'history.daysLogged': 'Days logged',
+  'history.currentStreak': 'Current streak',
+  'history.bestStreak': 'Best streak',
+  'history.streak': '{count} d',
+  'history.calories': 'Calories per day',
+  'history.average': '7-day average',
+  'history.target': 'target',
+  'history.caloriesChart': 'Daily calories chart',
+  'history.dayCalories': '{date}: {calories} kcal of {target}',
+  'history.macros': 'Macros per day (g)',
+  'history.macrosChart': 'Daily macros chart',
+  'history.weight': 'Weight (kg)',
+  'history.weighIns': 'weigh-ins',
+  'history.trend': 'smoothed trend',
+  'history.latestTrend': 'trend {weight} kg on {date}',
+  'history.noWeight': 'No weigh-ins in this range. Add your weight in the daily log to see a trend.',
+  'history.weightChart': 'Weight trend chart',
+  'history.weighIn': '{date}: {weight} kg (trend {trend})',
+
+  'report.back': '← Back to log',
+  'report.person': 'Person',
+  'report.from': 'From',
+  'report.to': 'To',
+  'report.print': 'Print or save as PDF',
+
+  'barcode.title': 'Packaged food by barcode',
+  'barcode.intro': 'Type the number under the bars.',
+  'barcode.introPhoto': 'Type the number under the bars or take a photo of them.',
+  'barcode.dataset': 'Products are looked up in a dataset stored on this device.',
+  'barcode.datasetCount': 'Products are looked up in a dataset stored on this device ({count} products).',
+  'barcode.code': 'Barcode',
+  'barcode.lookUp': 'Look up',
+  'barcode.photo': 'Photo…',
+  'barcode.noPhoto': "This browser can't read barcodes from photos, so type the number instead. Chrome on Android can.",
+  'barcode.local': 'entered on this device',
+  'barcode.per100g': 'Per 100 g',
+  'barcode.perServing': 'Per {serving}',
+  'barcode.calories': 'kcal',
+  'barcode.protein': 'Protein g',
+  'barcode.carbs': 'Carbs g',
+  'barcode.fats': 'Fat g',
+  'barcode.log': 'Log',
+  'barcode.missing':
+    "{barcode} is not in the product data yet. Copy it from the pack's nutrition label once and it will " +
+    'be found next time.',
+  'barcode.brand': 'Brand',
+  'barcode.perLabel': 'Per 100 g, as printed on the label',
+  'barcode.serving': 'Serving (optional)',
+  'barcode.servingPlaceholder': '2 biscuits',
+  'barcode.servingGrams': 'Serving weight (g)',
+  'barcode.save': 'Save product',
+  'barcode.import': 'Import product data…',
+  'barcode.importHint': 'Open Food Facts JSONL or CSV subsets work as they are.',
+  'barcode.invalid': 'That is not a valid EAN or UPC barcode. Check the digits under the bars.',
+  'barcode.lookupFailed': 'Lookup failed. Try again.',
+  'barcode.notInPhoto': 'No barcode found in this photo. Try a closer, sharper shot or type the number.',
+  'barcode.photoFailed': 'Could not read this photo.',
+  'barcode.imported': 'Imported {count} products.',
+  'barcode.kept': 'Kept {count} you entered yourself.',
+  'barcode.skipped': 'Skipped {count} rows without a barcode, name or valid energy and macro values.',
+  'barcode.unreadable': 'This file is not valid JSON, JSON Lines or CSV.',
+  'barcode.empty': 'No products with a barcode, name and energy per 100 g were found in this file.',
+  'barcode.logged': 'Logged {name}.',
+  'barcode.saved': 'Saved. This barcode will find it from now on.',
+  'barcode.saveFailed': 'Could not save this product.',
+
+  'fasting.title': 'Fasting',
+  'fasting.intro':
+    'Intermittent, Ramadan, Navratri, Ekadashi or a weekly vrat. Sun times are worked out on this device.',
+  'fasting.toggle': '{name} on',
+  'fasting.range': '{start} to {end}',
+  'fasting.vratFoods': 'vrat foods',
+  'fasting.preset': 'Fasting preset',
+  'fasting.add': 'Add fast',
+  'fasting.everyDay': 'Every day',
+  'fasting.noWeekdays': 'No weekdays',
+  'fasting.oneDate': '1 chosen date',
+  'fasting.chosenDates': '{count} chosen dates',
+  'fasting.eatWindow': 'eat {from}–{until}',
+  'fasting.fromDawn': 'dawn to sunset in {place}',
+  'fasting.fromSunrise': 'sunrise to sunset in {place}',
+  'fasting.unknownPlace': 'unknown place',
+  'fasting.defaultName': 'Fast',
+  'fasting.days': 'Fast days',
+  'fasting.weekly': 'Certain weekdays',
+  'fasting.dates': 'Chosen dates',
+  'fasting.addDate': 'Add date',
+  'fasting.removeDate': 'Remove {date}',
+  'fasting.from': 'From (optional)',
+  'fasting.until': 'Until (optional)',
+  'fasting.noFood': 'No food',
+  'fasting.eatFrom': 'Eat from',
+  'fasting.eatUntil': 'Eat until',
+  'fasting.city': 'City',
+  'fasting.startsAt': 'Starts at',
+  'fasting.dawn': 'Dawn (Fajr, sun 18° below)',
+  'fasting.sunrise': 'Sunrise',
+  'fasting.preview': 'On {date}: no food from {start} to {end}.',
+  'fasting.vrat': 'Religious fast: show vrat (upvas) foods in the catalogue',
+  'fasting.save': 'Save fast',
+
+  'fastWindow.eating-window': 'Eating window (intermittent)',
+  'fastWindow.daylight': 'Dawn or sunrise to sunset',
+  'fastWindow.all-day': 'Whole day',
+  'fastWindow.food-only': 'No time limit, vrat foods only',
+
+  'fastPreset.16-8': 'Intermittent 16:8',
+  'fastPreset.ramadan': 'Ramadan (dawn to sunset)',
+  'fastPreset.navratri': 'Navratri (nine days, vrat foods)',
+  'fastPreset.ekadashi': 'Ekadashi (chosen dates)',
+  'fastPreset.weekly': 'Weekly vrat (sunrise to sunset)',
+
+  'fastName.16-8': 'Intermittent 16:8',
+  'fastName.ramadan': 'Ramadan',
+  'fastName.navratri': 'Navratri',
+  'fastName.ekadashi': 'Ekadashi',
+  'fastName.weekly': '{day} vrat',
+
+  'sync.title': 'Encrypted sync',
+  'sync.intro':
+    'Optional. Entries are encrypted with your passphrase before they leave this device; the server only ' +
+    'sees unreadable blobs. Use the same vault id and passphrase on each device.',
+  'sync.lastSynced': 'Last synced {time}.',
+  'sync.notSynced': 'Not synced yet.',
+  'sync.pending': '{count} changes waiting to upload.',
+  'sync.syncing': 'Syncing…',
+  'sync.now': 'Sync now',
+  'sync.turnOff': 'Turn off',
+  'sync.server': 'Server address',
+  'sync.vaultId': 'Vault id',
+  'sync.newVault': 'New',
+  'sync.passphrase': 'Passphrase',
+  'sync.passphraseWarning': 'The passphrase cannot be recovered. Lose it and the synced copy is unreadable.',
+  'sync.connecting': 'Connecting…',
+  'sync.turnOn': 'Turn on sync',
+  'sync.enabled': 'Sync is on. Sent {pushed} and received {pulled} changes.',
+  'sync.disabled': 'Sync is off. Your entries stay on this device.',
+  'sync.missingSettings': 'Enter a server address and a vault id.',
+  'sync.badVaultId': 'A vault id is 8 to 128 letters, digits, dashes or underscores.',
+  'sync.shortPassphrase': 'Use a passphrase of at least 8 characters.',
+  'sync.notSetUp': 'Sync is not set up on this device.',
+  'sync.unreachable': 'Could not reach the sync server.',
+  'sync.serverError': 'The sync server returned an error. Try again later.',
+  'sync.wrongPassphrase': 'Could not decrypt synced data. Check the passphrase for this vault.',
+  'sync.failed': 'Sync failed. Your changes are safe on this device.',
+
+  'unit.serving': 'serving'
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
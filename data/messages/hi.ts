@@ -0,0 +1,453 @@
+import type { Messages } from './en';
+
+export const hi: Messages = {
+  'app.tagline':
+    'स्थानीय खाने और निजता को ध्यान में रखकर बना हल्का, ऑफ़लाइन चलने वाला ट्रैकर। ' +
+    'बिना नेटवर्क के भी कुछ ही सेकंड में कुछ भी दर्ज करें।',
+  'app.privacy': 'रोज़ का पोषण आपके डिवाइस पर ही रहता है। न विज्ञापन, न पेवॉल।',
+  'app.language': 'भाषा',
+
+  'connection.offlineSync': 'ऑफ़लाइन मोड। बदलाव यहीं सहेजे जाते हैं और कनेक्ट होने पर सिंक होंगे।',
+  'connection.offline': 'ऑफ़लाइन मोड। सभी बदलाव इसी डिवाइस पर सहेजे गए हैं।',
+  'connection.online': 'ऑनलाइन। सब कुछ इसी डिवाइस पर सहेजा गया है।',
+  'connection.syncPaused': 'सिंक रुका हुआ है। बदलाव इस डिवाइस पर सुरक्षित हैं।',
+  'connection.syncWaiting': 'पहले सिंक का इंतज़ार है।',
+  'connection.synced': '{time} पर सिंक हुआ। सब कुछ इस डिवाइस पर भी सहेजा गया है।',
+
+  'meal.breakfast': 'नाश्ता',
+  'meal.lunch': 'दोपहर का खाना',
+  'meal.snacks': 'स्नैक्स',
+  'meal.dinner': 'रात का खाना',
+
+  'macro.calories': 'कैलोरी',
+  'macro.protein': 'प्रोटीन',
+  'macro.carbs': 'कार्ब्स',
+  'macro.fats': 'वसा',
+  'macro.progress': '{label} की प्रगति',
+  'macro.over': '{amount} {unit} ज़्यादा',
+  'macro.left': '{target} में से {amount} {unit} बाकी',
+  'macro.summary': '{calories} kcal • प्रो {protein} g • कार्ब {carbs} g • वसा {fats} g',
+  'macro.proteinShort': 'प्रो {amount} g',
+  'macro.carbsShort': 'कार्ब {amount} g',
+  'macro.fatsShort': 'वसा {amount} g',
+
+  'header.trackingDate': 'तारीख',
+  'fast.confirm': 'यह आपके {name} उपवास के समय में है, जो {time} पर खुलेगा। फिर भी दर्ज करें?',
+
+  'catalogue.title': 'स्थानीय भोजन सूची',
+  'catalogue.intro':
+    'दक्षिण एशियाई रोज़मर्रा का खाना, ऑफ़लाइन दर्ज करने के लिए तैयार। सूची v{version}, ' +
+    'प्रति 100 ग्राम आँकड़ों से प्रति सर्विंग मान।',
+  'catalogue.mealSlot': 'भोजन',
+  'catalogue.autoMeal': 'अपने-आप',
+  'catalogue.search': 'डोसा, बिरयानी, दाल खोजें...',
+  'catalogue.reset': 'रीसेट',
+  'catalogue.vratOnly': '{name}: सिर्फ़ व्रत का खाना',
+  'catalogue.star': '{name} को पसंदीदा बनाएँ',
+  'catalogue.unstar': '{name} को पसंदीदा से हटाएँ',
+  'catalogue.perServing': '{calories} kcal / {quantity} {unit}',
+  'catalogue.tags': 'टैग',
+  'catalogue.quantity': 'मात्रा',
+  'catalogue.shared': 'साझा',
+  'catalogue.add': 'जोड़ें',
+  'catalogue.empty': 'कुछ नहीं मिला। दूसरा शब्द आज़माएँ या फ़िल्टर हटाएँ।',
+  'catalogue.myFoods': 'मेरे खाद्य',
+  'catalogue.myRecipes': 'मेरी रेसिपी',
+  'catalogue.packaged': 'पैकेटबंद',
+
+  'custom.title': 'अपना खाना जोड़ें',
+  'custom.intro':
+    'घर की रेसिपी? बिना लेबल वाला स्ट्रीट फ़ूड? एक बार हाथ से दर्ज करें, अपने खानों में सहेजें और हो गया।',
+  'custom.name': 'नाम',
+  'custom.namePlaceholder': 'दादी की खिचड़ी',
+  'custom.untitled': 'बिना नाम का भोजन',
+  'custom.quantity': 'मात्रा',
+  'custom.meal': 'भोजन',
+  'custom.autoMeal': 'समय के हिसाब से',
+  'custom.calories': 'कैलोरी (kcal)',
+  'custom.protein': 'प्रोटीन (g)',
+  'custom.carbs': 'कार्ब्स (g)',
+  'custom.fats': 'वसा (g)',
+  'custom.notes': 'टिप्पणी',
+  'custom.notesPlaceholder': 'मसाले, बनाने का तरीका या तेल लिखें।',
+  'custom.saveFood': 'एक टैप में दर्ज करने के लिए मेरे खानों में सहेजें',
+  'custom.tagsPlaceholder': 'घर का, नाश्ता',
+  'custom.submit': 'दर्ज करें',
+
+  'log.title': 'आज का रिकॉर्ड',
+  'log.intro': 'हर भोजन इसी डिवाइस पर सहेजा जाता है। मात्रा, समय या पोषक मान एक टैप में बदलें।',
+  'log.copy': 'किसी और दिन से कॉपी करें',
+  'log.report': 'डाइटीशियन के लिए रिपोर्ट',
+  'log.undo': 'पूर्ववत करें',
+  'log.redo': 'फिर से करें',
+  'log.history': 'बदलाव',
+  'log.trash': 'कचरा',
+  'log.deleted': '{name} हटाया गया। यह कचरे में है।',
+  'log.loading': 'रिकॉर्ड लोड हो रहा है…',
+  'log.empty': 'अभी कुछ दर्ज नहीं हुआ। डोसा, बिरयानी से शुरू करें या अपनी रेसिपी जोड़ें।',
+
+  'trash.retention': 'हटाई गई एंट्री इतने दिन रखें',
+  'trash.days': '{count} दिन',
+  'trash.empty': 'कचरे में कुछ नहीं है।',
+  'trash.deletedOn': '{date}, {meal} · {time} पर हटाया गया',
+  'trash.purgedAfter': '{time} के बाद हमेशा के लिए मिट जाएगा',
+  'trash.restore': 'वापस लाएँ',
+  'trash.purge': 'हमेशा के लिए हटाएँ',
+  'trash.purgeAll': 'कचरा खाली करें',
+  'trash.confirmOne': 'यह एंट्री हमेशा के लिए हटाएँ?',
+  'trash.confirmAll': 'कचरे की सभी {count} एंट्री हमेशा के लिए हटाएँ?',
+
+  'changes.title': '{date} के बदलाव',
+  'changes.empty': 'इस दिन का अभी कोई बदलाव दर्ज नहीं है।',
+  'changes.create': 'जोड़ा',
+  'changes.update': 'बदला',
+  'changes.delete': 'हटाया',
+  'changes.restore': 'वापस लाया',
+  'changes.undo': 'पूर्ववत',
+  'changes.redo': 'फिर से',
+  'changes.sync': 'दूसरे डिवाइस से',
+  'changes.amount': 'मात्रा',
+  'changes.day': 'दिन',
+  'changes.time': 'समय',
+
+  'common.unit': 'इकाई',
+  'common.edit': 'बदलें',
+  'common.delete': 'हटाएँ',
+  'common.close': 'बंद करें',
+  'common.cancel': 'रद्द करें',
+
+  'timer.fasting': 'उपवास · {name}',
+  'timer.since': '{start} से · {end} पर खुलेगा',
+  'timer.open': 'खाने का समय चल रहा है। {name} {countdown} में, {time} पर शुरू होगा।',
+
+  'quick.favourites': 'पसंदीदा',
+  'quick.recent': 'हाल के',
+  'quick.again': '{name} फिर से दर्ज करें',
+
+  'micro.fibre': 'फ़ाइबर',
+  'micro.sugar': 'चीनी',
+  'micro.sodium': 'सोडियम',
+  'micro.iron': 'आयरन',
+  'micro.calcium': 'कैल्शियम',
+  'micro.summary': 'फ़ाइबर, चीनी, सोडियम, आयरन और कैल्शियम',
+  'micro.noData': 'जानकारी नहीं',
+  'micro.limit': 'सीमा {amount} {unit}',
+  'micro.goal': 'लक्ष्य {amount} {unit}',
+  'micro.missing': '{count} चीज़ों की जानकारी नहीं',
+  'micro.fields': 'सूक्ष्म पोषक तत्व (वैकल्पिक)',
+  'micro.fieldsSet': 'सूक्ष्म पोषक तत्व (वैकल्पिक, {count} भरे)',
+  'micro.unknown': 'पता नहीं',
+
+  'update.ready': 'LocalPlate का नया संस्करण तैयार है।',
+  'update.reload': 'अपडेट के लिए रीलोड करें',
+  'update.later': 'बाद में',
+
+  'food.description': 'विवरण',
+  'food.defaultQuantity': 'सामान्य मात्रा',
+  'food.tags': 'टैग (कॉमा से अलग करें)',
+  'food.save': 'खाना सहेजें',
+
+  'share.title': '{name} किसके लिए दर्ज करें',
+  'share.portion': '{name} का हिस्सा',
+  'share.submitOne': '1 व्यक्ति के लिए दर्ज करें',
+  'share.submitMany': '{count} लोगों के लिए दर्ज करें',
+
+  'body.water': 'पानी',
+  'body.waterProgress': '{amount} / {target} ml',
+  'body.addGlass': '+ गिलास ({amount} ml)',
+  'body.undoGlass': 'गिलास हटाएँ',
+  'body.title': 'शरीर',
+  'body.weight': 'वज़न (kg)',
+  'body.waist': 'कमर (cm, वैकल्पिक)',
+  'body.save': 'माप सहेजें',
+
+  'entry.date': 'तारीख',
+  'entry.time': 'समय',
+  'entry.save': 'बदलाव सहेजें',
+
+  'copyDay.from': 'यहाँ से कॉपी करें',
+  'copyDay.yesterday': 'कल',
+  'copyDay.empty': '{date} को कुछ दर्ज नहीं हुआ था।',
+  'copyDay.submit': '{count} को {date} पर कॉपी करें',
+
+  'plan.title': 'दिन के लक्ष्य',
+  'plan.manualSince': '{date} से अपने तय किए लक्ष्य।',
+  'plan.goalSince': '{date} से {goal} योजना।',
+  'plan.default': 'डिफ़ॉल्ट संतुलित थाली। निजी लक्ष्यों के लिए अपनी प्रोफ़ाइल भरें।',
+  'plan.height': 'लंबाई (cm)',
+  'plan.age': 'उम्र',
+  'plan.sex': 'लिंग',
+  'plan.female': 'महिला',
+  'plan.male': 'पुरुष',
+  'plan.goal': 'लक्ष्य',
+  'plan.activity': 'गतिविधि स्तर',
+  'plan.manual': 'लक्ष्य खुद तय करें',
+  'plan.preview':
+    '{calories} kcal • प्रोटीन {protein} g • कार्ब्स {carbs} g • वसा {fats} g, {date} से लागू। पहले के ' +
+    'दिनों के लक्ष्य वही रहेंगे।',
+  'plan.save': 'लक्ष्य सहेजें',
+  'plan.calories': 'कैलोरी लक्ष्य',
+  'plan.protein': 'प्रोटीन लक्ष्य',
+  'plan.carbs': 'कार्ब्स सीमा',
+  'plan.fats': 'वसा की ऊपरी सीमा',
+
+  'goal.cut': 'वसा घटाना',
+  'goal.maintain': 'वज़न बनाए रखना',
+  'goal.bulk': 'मांसपेशियाँ बढ़ाना',
+
+  'activity.sedentary': 'कम सक्रिय (डेस्क जॉब)',
+  'activity.light': 'हल्का (हफ़्ते में 1-3 वर्कआउट)',
+  'activity.moderate': 'मध्यम (हफ़्ते में 3-5 वर्कआउट)',
+  'activity.active': 'सक्रिय (हफ़्ते में 6-7 वर्कआउट)',
+  'activity.athlete': 'एथलीट (दिन में दो बार)',
+
+  'recipe.title': 'रेसिपी',
+  'recipe.intro': 'खिचड़ी, सांभर या कोई भी घर का व्यंजन एक बार सामग्री से बनाएँ, फिर हर सर्विंग के हिसाब से लॉग करें।',
+  'recipe.new': 'नई',
+  'recipe.perServing': '{calories} kcal / सर्विंग • {servings} सर्विंग',
+  'recipe.namePlaceholder': 'मूंग दाल खिचड़ी',
+  'recipe.untitled': 'बिना नाम की रेसिपी',
+  'recipe.ingredients': 'सामग्री',
+  'recipe.ingredient': 'सामग्री',
+  'recipe.pick': 'सामग्री चुनें…',
+  'recipe.quantity': 'सामग्री की मात्रा',
+  'recipe.remove': '{name} हटाएँ',
+  'recipe.yield': 'कुल मात्रा',
+  'recipe.byServings': 'सर्विंग की संख्या',
+  'recipe.byWeight': 'पका हुआ वज़न',
+  'recipe.servings': 'सर्विंग',
+  'recipe.cooked': 'कुल पका हुआ (g)',
+  'recipe.servingSize': 'एक सर्विंग (g)',
+  'recipe.tagsPlaceholder': 'घर का बना, रात का खाना',
+  'recipe.summary': 'पूरा बर्तन: {calories} kcal। प्रति सर्विंग (कुल {servings}): {macros}',
+  'recipe.save': 'रेसिपी सहेजें',
+
+  'profile.group': 'कौन लॉग कर रहा है',
+  'profile.add': '+ व्यक्ति',
+  'profile.edit': '{name} बदलें',
+  'profile.new': 'नई प्रोफ़ाइल',
+  'profile.namePlaceholder': 'अम्मा',
+  'profile.dayStart': 'दिन शुरू होता है',
+  'profile.midnight': 'आधी रात',
+  'profile.save': 'सहेजें',
+  'profile.remove': 'हटाएँ',
+  'profile.confirmRemove': '{name} को हटाएँ? उनका लॉग, लक्ष्य और पानी व वज़न का इतिहास इस डिवाइस से मिट जाएगा।',
+  'profile.nameMissing': 'प्रोफ़ाइल को एक नाम दें।',
+  'profile.nameTaken': '{name} नाम की प्रोफ़ाइल पहले से है।',
+  'profile.saveFailed': 'प्रोफ़ाइल सहेजी नहीं जा सकी।',
+  'profile.removeFailed': 'प्रोफ़ाइल हटाई नहीं जा सकी।',
+  'profile.me': 'मैं',
+  'profile.unnamed': 'बिना नाम की प्रोफ़ाइल',
+
+  'backup.title': 'बैकअप और एक्सपोर्ट',
+  'backup.intro': 'आपका डेटा कभी इस डिवाइस से बाहर नहीं जाता। साइट डेटा मिटाने या फ़ोन बदलने से पहले बैकअप फ़ाइल रखें।',
+  'backup.json': 'बैकअप (JSON)',
+  'backup.entriesCsv': '{name} की प्रविष्टियाँ CSV',
+  'backup.dailyCsv': '{name} का दैनिक योग CSV',
+  'backup.restore': 'बहाल करें…',
+  'backup.contents':
+    '{profiles} प्रोफ़ाइल, {entries} प्रविष्टियाँ, {foods} सहेजे गए खाद्य, {recipes} रेसिपी, पानी और वज़न' +
+    ' के {body} दिन, {goals} लक्ष्य प्रोफ़ाइल, {favourites} स्टार किए खाद्य और {fasting} उपवास समय-सारणी।',
+  'backup.exportedOn': '{date} को एक्सपोर्ट किया गया।',
+  'backup.duplicates': '{count} इस डिवाइस पर पहले से हैं।',
+  'backup.merge': 'मिलाएँ (मेरा रखें)',
+  'backup.replace': 'सब कुछ बदलें',
+  'backup.restored': 'बैकअप से {count} प्रविष्टियाँ बहाल की गईं।',
+  'backup.merged': '{count} नई प्रविष्टियाँ मिलाई गईं।',
+  'backup.failed': 'इम्पोर्ट विफल रहा। कुछ नहीं बदला।',
+  'backup.unreadable': 'यह बैकअप पढ़ा नहीं जा सका।',
+  'backup.invalidJson': 'यह फ़ाइल मान्य JSON नहीं है।',
+  'backup.notBackup': 'यह फ़ाइल LocalPlate बैकअप नहीं है।',
+  'backup.tooNew': 'यह बैकअप LocalPlate के नए संस्करण से बना है। ऐप अपडेट करके फिर कोशिश करें।',
+  'backup.badLogs': 'बैकअप में गलत प्रविष्टियाँ हैं।',
+
+  'reminder.title': 'रिमाइंडर',
+  'reminder.intro':
+    'इसी डिवाइस पर तय होते हैं, कोई सर्वर नहीं। ये तब दिखते हैं जब LocalPlate खुला हो या बैकग्राउंड में ' +
+    'चल रहा हो।',
+  'reminder.unsupported': 'यह ब्राउज़र सूचनाएँ नहीं दिखा सकता।',
+  'reminder.blocked': 'सूचनाएँ बंद हैं। ब्राउज़र सेटिंग में इन्हें अनुमति दें।',
+  'reminder.allow': 'सूचनाओं की अनुमति दें',
+  'reminder.mealLog': 'लॉग करें',
+  'reminder.mealSlot': 'किस भोजन की याद दिलाएँ',
+  'reminder.mealBy': 'इस समय तक',
+  'reminder.mealTime': 'भोजन रिमाइंडर का समय',
+  'reminder.water': 'पानी, हर',
+  'reminder.waterHours': 'पानी के रिमाइंडर के बीच घंटे',
+  'reminder.hours': '{count} घंटे',
+  'reminder.from': 'शुरुआत',
+  'reminder.to': 'अंत',
+  'reminder.waterFirst': 'पहला पानी रिमाइंडर',
+  'reminder.waterLast': 'आख़िरी पानी रिमाइंडर',
+  'reminder.summary': 'दिन का सारांश, समय',
+  'reminder.summaryTime': 'दिन के सारांश का समय',
+  'reminder.quiet': 'शांत समय, शुरुआत',
+  'reminder.quietStart': 'शांत समय की शुरुआत',
+  'reminder.quietEnd': 'शांत समय का अंत',
+  'reminder.mealTitle': 'अपना {meal} लॉग करें',
+  'reminder.mealBody': 'आज अभी तक {meal} में कुछ लॉग नहीं हुआ।',
+  'reminder.waterTitle': 'एक गिलास पानी का समय',
+  'reminder.waterBody': 'आज अब तक {target} में से {amount} ml।',
+  'reminder.summaryTitle': 'आज का योग',
+  'reminder.summaryBody':
+    '{caloriesTarget} में से {calories} kcal · प्रोटीन {protein}/{proteinTarget} g · कार्ब्स ' +
+    '{carbs}/{carbsTarget} g · वसा {fats}/{fatsTarget} g · पानी {water}/{waterTarget} ml',
+
+  'history.title': 'इतिहास',
+  'history.intro':
+    '{start} से {end} तक। औसत में सिर्फ़ लॉग किए गए दिन गिने जाते हैं; लक्ष्य पर यानी कैलोरी लक्ष्य के ' +
+    '10% के भीतर।',
+  'history.days': '{count} दिन',
+  'history.avgCalories': 'औसत कैलोरी',
+  'history.avgProtein': 'औसत प्रोटीन',
+  'history.avgCarbs': 'औसत कार्ब्स',
+  'history.avgFats': 'औसत वसा',
+  'history.onTarget': 'लक्ष्य पर',
+  'history.daysLogged': 'लॉग किए दिन',
+  'history.currentStreak': 'मौजूदा सिलसिला',
+  'history.bestStreak': 'सबसे लंबा सिलसिला',
+  'history.streak': '{count} दिन',
+  'history.calories': 'रोज़ की कैलोरी',
+  'history.average': '7 दिन का औसत',
+  'history.target': 'लक्ष्य',
+  'history.caloriesChart': 'रोज़ की कैलोरी का चार्ट',
+  'history.dayCalories': '{date}: {target} में से {calories} kcal',
+  'history.macros': 'रोज़ के मैक्रो (g)',
+  'history.macrosChart': 'रोज़ के मैक्रो का चार्ट',
+  'history.weight': 'वज़न (kg)',
+  'history.weighIns': 'वज़न माप',
+  'history.trend': 'औसत रुझान',
+  'history.latestTrend': '{date} को रुझान {weight} kg',
+  'history.noWeight': 'इस अवधि में कोई वज़न नहीं। रुझान देखने के लिए दैनिक लॉग में अपना वज़न जोड़ें।',
+  'history.weightChart': 'वज़न रुझान का चार्ट',
+  'history.weighIn': '{date}: {weight} kg (रुझान {trend})',
+
+  'report.back': '← लॉग पर वापस',
+  'report.person': 'व्यक्ति',
+  'report.from': 'से',
+  'report.to': 'तक',
+  'report.print': 'प्रिंट करें या PDF सहेजें',
+
+  'barcode.title': 'बारकोड से पैकेटबंद खाना',
+  'barcode.intro': 'बारों के नीचे लिखा नंबर टाइप करें।',
+  'barcode.introPhoto': 'बारों के नीचे लिखा नंबर टाइप करें या उनकी फ़ोटो लें।',
+  'barcode.dataset': 'उत्पाद इस डिवाइस पर रखे डेटासेट में खोजे जाते हैं।',
+  'barcode.datasetCount': 'उत्पाद इस डिवाइस पर रखे डेटासेट में खोजे जाते हैं ({count} उत्पाद)।',
+  'barcode.code': 'बारकोड',
+  'barcode.lookUp': 'खोजें',
+  'barcode.photo': 'फ़ोटो…',
+  'barcode.noPhoto': 'यह ब्राउज़र फ़ोटो से बारकोड नहीं पढ़ सकता, इसलिए नंबर टाइप करें। Android पर Chrome पढ़ सकता है।',
+  'barcode.local': 'इस डिवाइस पर दर्ज',
+  'barcode.per100g': 'प्रति 100 g',
+  'barcode.perServing': 'प्रति {serving}',
+  'barcode.calories': 'kcal',
+  'barcode.protein': 'प्रोटीन g',
+  'barcode.carbs': 'कार्ब्स g',
+  'barcode.fats': 'वसा g',
+  'barcode.log': 'लॉग करें',
+  'barcode.missing':
+    '{barcode} अभी उत्पाद डेटा में नहीं है। पैकेट के पोषण लेबल से इसे एक बार भर दें, अगली बार यह मिल ' +
+    'जाएगा।',
+  'barcode.brand': 'ब्रांड',
+  'barcode.perLabel': 'प्रति 100 g, जैसा लेबल पर छपा है',
+  'barcode.serving': 'सर्विंग (वैकल्पिक)',
+  'barcode.servingPlaceholder': '2 बिस्कुट',
+  'barcode.servingGrams': 'सर्विंग का वज़न (g)',
+  'barcode.save': 'उत्पाद सहेजें',
+  'barcode.import': 'उत्पाद डेटा इम्पोर्ट करें…',
+  'barcode.importHint': 'Open Food Facts के JSONL या CSV हिस्से सीधे काम करते हैं।',
+  'barcode.invalid': 'यह मान्य EAN या UPC बारकोड नहीं है। बारों के नीचे के अंक जाँचें।',
+  'barcode.lookupFailed': 'खोज विफल रही। फिर कोशिश करें।',
+  'barcode.notInPhoto': 'इस फ़ोटो में कोई बारकोड नहीं मिला। पास से साफ़ फ़ोटो लें या नंबर टाइप करें।',
+  'barcode.photoFailed': 'यह फ़ोटो पढ़ी नहीं जा सकी।',
+  'barcode.imported': '{count} उत्पाद इम्पोर्ट किए गए।',
+  'barcode.kept': 'आपके खुद दर्ज किए {count} उत्पाद रखे गए।',
+  'barcode.skipped': 'बारकोड, नाम या सही ऊर्जा और मैक्रो मानों के बिना {count} पंक्तियाँ छोड़ी गईं।',
+  'barcode.unreadable': 'यह फ़ाइल मान्य JSON, JSON Lines या CSV नहीं है।',
+  'barcode.empty': 'इस फ़ाइल में बारकोड, नाम और प्रति 100 g ऊर्जा वाला कोई उत्पाद नहीं मिला।',
+  'barcode.logged': '{name} लॉग किया गया।',
+  'barcode.saved': 'सहेजा गया। अब से यह बारकोड इसे ढूँढ लेगा।',
+  'barcode.saveFailed': 'यह उत्पाद सहेजा नहीं जा सका।',
+
+  'fasting.title': 'उपवास',
+  'fasting.intro':
+    'इंटरमिटेंट, रमज़ान, नवरात्रि, एकादशी या साप्ताहिक व्रत। सूर्य के समय इसी डिवाइस पर निकाले जाते हैं।',
+  'fasting.toggle': '{name} चालू',
+  'fasting.range': '{start} से {end} तक',
+  'fasting.vratFoods': 'व्रत का खाना',
+  'fasting.preset': 'उपवास का प्रकार',
+  'fasting.add': 'उपवास जोड़ें',
+  'fasting.everyDay': 'हर दिन',
+  'fasting.noWeekdays': 'कोई दिन नहीं',
+  'fasting.oneDate': '1 चुनी हुई तारीख़',
+  'fasting.chosenDates': '{count} चुनी हुई तारीख़ें',
+  'fasting.eatWindow': 'खाना {from}–{until}',
+  'fasting.fromDawn': '{place} में भोर से सूर्यास्त तक',
+  'fasting.fromSunrise': '{place} में सूर्योदय से सूर्यास्त तक',
+  'fasting.unknownPlace': 'अज्ञात जगह',
+  'fasting.defaultName': 'उपवास',
+  'fasting.days': 'उपवास के दिन',
+  'fasting.weekly': 'कुछ ख़ास वार',
+  'fasting.dates': 'चुनी हुई तारीख़ें',
+  'fasting.addDate': 'तारीख़ जोड़ें',
+  'fasting.removeDate': '{date} हटाएँ',
+  'fasting.from': 'से (वैकल्पिक)',
+  'fasting.until': 'तक (वैकल्पिक)',
+  'fasting.noFood': 'बिना खाने का समय',
+  'fasting.eatFrom': 'खाना शुरू',
+  'fasting.eatUntil': 'खाना बंद',
+  'fasting.city': 'शहर',
+  'fasting.startsAt': 'शुरुआत',
+  'fasting.dawn': 'भोर (फ़ज्र, सूर्य क्षितिज से 18° नीचे)',
+  'fasting.sunrise': 'सूर्योदय',
+  'fasting.preview': '{date} को: {start} से {end} तक कोई खाना नहीं।',
+  'fasting.vrat': 'धार्मिक उपवास: कैटलॉग में व्रत (उपवास) का खाना दिखाएँ',
+  'fasting.save': 'उपवास सहेजें',
+
+  'fastWindow.eating-window': 'खाने का समय (इंटरमिटेंट)',
+  'fastWindow.daylight': 'भोर या सूर्योदय से सूर्यास्त तक',
+  'fastWindow.all-day': 'पूरा दिन',
+  'fastWindow.food-only': 'कोई समय सीमा नहीं, सिर्फ़ व्रत का खाना',
+
+  'fastPreset.16-8': 'इंटरमिटेंट 16:8',
+  'fastPreset.ramadan': 'रमज़ान (भोर से सूर्यास्त)',
+  'fastPreset.navratri': 'नवरात्रि (नौ दिन, व्रत का खाना)',
+  'fastPreset.ekadashi': 'एकादशी (चुनी हुई तारीख़ें)',
+  'fastPreset.weekly': 'साप्ताहिक व्रत (सूर्योदय से सूर्यास्त)',
+
+  'fastName.16-8': 'इंटरमिटेंट 16:8',
+  'fastName.ramadan': 'रमज़ान',
+  'fastName.navratri': 'नवरात्रि',
+  'fastName.ekadashi': 'एकादशी',
+  'fastName.weekly': '{day} का व्रत',
+
+  'sync.title': 'एन्क्रिप्टेड सिंक',
+  'sync.intro':
+    'वैकल्पिक। प्रविष्टियाँ इस डिवाइस से निकलने से पहले आपके पासफ़्रेज़ से एन्क्रिप्ट होती हैं; सर्वर को ' +
+    'केवल न पढ़े जा सकने वाले ब्लॉब दिखते हैं। हर डिवाइस पर वही वॉल्ट आईडी और पासफ़्रेज़ इस्तेमाल करें।',
+  'sync.lastSynced': 'पिछला सिंक {time}।',
+  'sync.notSynced': 'अभी तक सिंक नहीं हुआ।',
+  'sync.pending': '{count} बदलाव अपलोड होने की प्रतीक्षा में।',
+  'sync.syncing': 'सिंक हो रहा है…',
+  'sync.now': 'अभी सिंक करें',
+  'sync.turnOff': 'बंद करें',
+  'sync.server': 'सर्वर पता',
+  'sync.vaultId': 'वॉल्ट आईडी',
+  'sync.newVault': 'नया',
+  'sync.passphrase': 'पासफ़्रेज़',
+  'sync.passphraseWarning': 'पासफ़्रेज़ वापस नहीं पाया जा सकता। इसे भूलने पर सिंक की गई प्रति पढ़ी नहीं जा सकेगी।',
+  'sync.connecting': 'जुड़ रहा है…',
+  'sync.turnOn': 'सिंक चालू करें',
+  'sync.enabled': 'सिंक चालू है। {pushed} बदलाव भेजे और {pulled} प्राप्त किए।',
+  'sync.disabled': 'सिंक बंद है। आपकी प्रविष्टियाँ इसी डिवाइस पर रहेंगी।',
+  'sync.missingSettings': 'सर्वर पता और वॉल्ट आईडी दर्ज करें।',
+  'sync.badVaultId': 'वॉल्ट आईडी में 8 से 128 अक्षर, अंक, डैश या अंडरस्कोर होते हैं।',
+  'sync.shortPassphrase': 'कम से कम 8 वर्णों का पासफ़्रेज़ इस्तेमाल करें।',
+  'sync.notSetUp': 'इस डिवाइस पर सिंक सेट नहीं है।',
+  'sync.unreachable': 'सिंक सर्वर से संपर्क नहीं हो सका।',
+  'sync.serverError': 'सिंक सर्वर ने त्रुटि लौटाई। बाद में फिर कोशिश करें।',
+  'sync.wrongPassphrase': 'सिंक डेटा डिक्रिप्ट नहीं हो सका। इस वॉल्ट का पासफ़्रेज़ जाँचें।',
+  'sync.failed': 'सिंक विफल रहा। आपके बदलाव इस डिवाइस पर सुरक्षित हैं।',
+
+  'unit.serving': 'सर्विंग'
+};
@@ -0,0 +1,472 @@
+import type { Messages } from './en';
+
+export const ta: Messages = {
+  'app.tagline':
+    'உள்ளூர் உணவுக்காகவும் தனியுரிமைக்காகவும் உருவான எளிய, இணையமில்லாமலும் இயங்கும் கண்காணிப்பு. ' +
+    'சிக்னல் இல்லாவிட்டாலும் எதையும் சில நொடிகளில் பதிவு செய்யலாம்.',
+  'app.privacy': 'தினசரி ஊட்டச்சத்து உங்கள் சாதனத்திலேயே இருக்கும். விளம்பரங்கள் இல்லை, கட்டணம் இல்லை.',
+  'app.language': 'மொழி',
+
+  'connection.offlineSync':
+    'ஆஃப்லைன் நிலை. மாற்றங்கள் இங்கே சேமிக்கப்பட்டு, இணைப்பு வந்ததும் ஒத்திசைக்கப்படும்.',
+  'connection.offline': 'ஆஃப்லைன் நிலை. எல்லா மாற்றங்களும் இந்தச் சாதனத்தில் சேமிக்கப்பட்டன.',
+  'connection.online': 'ஆன்லைன். எல்லாம் இந்தச் சாதனத்தில் சேமிக்கப்பட்டுள்ளது.',
+  'connection.syncPaused': 'ஒத்திசைவு நிறுத்தப்பட்டுள்ளது. மாற்றங்கள் இந்தச் சாதனத்தில் பாதுகாப்பாக உள்ளன.',
+  'connection.syncWaiting': 'முதல் ஒத்திசைவுக்காகக் காத்திருக்கிறது.',
+  'connection.synced': '{time} மணிக்கு ஒத்திசைக்கப்பட்டது. எல்லாம் இந்தச் சாதனத்திலும் சேமிக்கப்பட்டுள்ளது.',
+
+  'meal.breakfast': 'காலை உணவு',
+  'meal.lunch': 'மதிய உணவு',
+  'meal.snacks': 'சிற்றுண்டி',
+  'meal.dinner': 'இரவு உணவு',
+
+  'macro.calories': 'கலோரி',
+  'macro.protein': 'புரதம்',
+  'macro.carbs': 'மாவுச்சத்து',
+  'macro.fats': 'கொழுப்பு',
+  'macro.progress': '{label} முன்னேற்றம்',
+  'macro.over': '{amount} {unit} அதிகம்',
+  'macro.left': '{target} இல் {amount} {unit} மீதம்',
+  'macro.summary': '{calories} kcal • புரதம் {protein} g • மாவு {carbs} g • கொழுப்பு {fats} g',
+  'macro.proteinShort': 'புரதம் {amount} g',
+  'macro.carbsShort': 'மாவு {amount} g',
+  'macro.fatsShort': 'கொழுப்பு {amount} g',
+
+  'header.trackingDate': 'தேதி',
+  'fast.confirm':
+    'இது உங்கள் {name} விரத நேரத்துக்குள் வருகிறது; விரதம் {time} மணிக்கு முடியும். இருந்தாலும் பதிவு செய்யவா?',
+
+  'catalogue.title': 'உள்ளூர் உணவுப் பட்டியல்',
+  'catalogue.intro':
+    'தெற்காசிய அன்றாட உணவுகள், ஆஃப்லைனில் பதிவு செய்யத் தயார். பட்டியல் v{version}, ' +
+    '100 கிராம் தரவிலிருந்து ஒரு பரிமாறலுக்கான மதிப்புகள்.',
+  'catalogue.mealSlot': 'உணவு வேளை',
+  'catalogue.autoMeal': 'தானாக',
+  'catalogue.search': 'தோசை, பிரியாணி, பருப்பு தேடுங்கள்...',
+  'catalogue.reset': 'மீட்டமை',
+  'catalogue.vratOnly': '{name}: விரத உணவுகள் மட்டும்',
+  'catalogue.star': '{name} பிடித்தவையில் சேர்',
+  'catalogue.unstar': '{name} பிடித்தவையிலிருந்து நீக்கு',
+  'catalogue.perServing': '{calories} kcal / {quantity} {unit}',
+  'catalogue.tags': 'குறிச்சொற்கள்',
+  'catalogue.quantity': 'அளவு',
+  'catalogue.shared': 'பகிர்வு',
+  'catalogue.add': 'சேர்',
+  'catalogue.empty': 'எதுவும் கிடைக்கவில்லை. வேறு சொல்லை முயலுங்கள் அல்லது வடிகட்டிகளை நீக்குங்கள்.',
+  'catalogue.myFoods': 'என் உணவுகள்',
+  'catalogue.myRecipes': 'என் சமையல் குறிப்புகள்',
+  'catalogue.packaged': 'பொதி செய்யப்பட்டது',
+
+  'custom.title': 'சொந்த உணவைச் சேர்',
+  'custom.intro':
+    'வீட்டுச் சமையலா? லேபிள் இல்லாத தெருவோர உணவா? ஒருமுறை கையால் பதிவு செய்து உங்கள் உணவுகளில் சேமியுங்கள்.',
+  'custom.name': 'பெயர்',
+  'custom.namePlaceholder': 'பாட்டியின் பொங்கல்',
+  'custom.untitled': 'பெயரில்லா உணவு',
+  'custom.quantity': 'அளவு',
+  'custom.meal': 'உணவு வேளை',
+  'custom.autoMeal': 'நேரத்தைப் பொறுத்து',
+  'custom.calories': 'கலோரி (kcal)',
+  'custom.protein': 'புரதம் (g)',
+  'custom.carbs': 'மாவுச்சத்து (g)',
+  'custom.fats': 'கொழுப்பு (g)',
+  'custom.notes': 'குறிப்புகள்',
+  'custom.notesPlaceholder': 'மசாலா, சமைக்கும் முறை அல்லது எண்ணெயைக் குறிப்பிடுங்கள்.',
+  'custom.saveFood': 'ஒரே தட்டலில் பதிவு செய்ய என் உணவுகளில் சேமி',
+  'custom.tagsPlaceholder': 'வீட்டுச் சமையல், காலை',
+  'custom.submit': 'பதிவைச் சேமி',
+
+  'log.title': 'தினசரி பதிவு',
+  'log.intro': 'ஒவ்வொரு உணவும் இந்தச் சாதனத்தில் சேமிக்கப்படும். அளவு, நேரம், ஊட்டச்சத்தை ஒரு தட்டலில் மாற்றலாம்.',
+  'log.copy': 'வேறு நாளிலிருந்து நகலெடு',
+  'log.report': 'உணவியல் நிபுணருக்கான அறிக்கை',
+  'log.undo': 'செயல்தவிர்',
+  'log.redo': 'மீண்டும் செய்',
+  'log.history': 'மாற்றங்கள்',
+  'log.trash': 'குப்பை',
+  'log.deleted': '{name} நீக்கப்பட்டது. அது குப்பையில் உள்ளது.',
+  'log.loading': 'பதிவுகள் ஏற்றப்படுகின்றன…',
+  'log.empty': 'இன்னும் எதுவும் பதிவாகவில்லை. தோசை, பிரியாணி அல்லது சொந்த சமையல் குறிப்புடன் தொடங்குங்கள்.',
+
+  'trash.retention': 'நீக்கிய பதிவுகளை வைத்திருக்கும் காலம்',
+  'trash.days': '{count} நாட்கள்',
+  'trash.empty': 'குப்பையில் எதுவும் இல்லை.',
+  'trash.deletedOn': '{date}, {meal} · {time} அன்று நீக்கப்பட்டது',
+  'trash.purgedAfter': '{time}க்குப் பிறகு நிரந்தரமாக அழிக்கப்படும்',
+  'trash.restore': 'மீட்டெடு',
+  'trash.purge': 'நிரந்தரமாக நீக்கு',
+  'trash.purgeAll': 'குப்பையைக் காலியாக்கு',
+  'trash.confirmOne': 'இந்தப் பதிவை நிரந்தரமாக நீக்கவா?',
+  'trash.confirmAll': 'குப்பையிலுள்ள {count} பதிவுகளையும் நிரந்தரமாக நீக்கவா?',
+
+  'changes.title': '{date} அன்றைய மாற்றங்கள்',
+  'changes.empty': 'இந்த நாளுக்கு இன்னும் மாற்றங்கள் எதுவும் பதிவாகவில்லை.',
+  'changes.create': 'சேர்க்கப்பட்டது',
+  'changes.update': 'திருத்தப்பட்டது',
+  'changes.delete': 'நீக்கப்பட்டது',
+  'changes.restore': 'மீட்டெடுக்கப்பட்டது',
+  'changes.undo': 'செயல்தவிர்ப்பு',
+  'changes.redo': 'மீண்டும் செய்தது',
+  'changes.sync': 'வேறு சாதனத்திலிருந்து',
+  'changes.amount': 'அளவு',
+  'changes.day': 'நாள்',
+  'changes.time': 'நேரம்',
+
+  'common.unit': 'அலகு',
+  'common.edit': 'திருத்து',
+  'common.delete': 'நீக்கு',
+  'common.close': 'மூடு',
+  'common.cancel': 'ரத்துசெய்',
+
+  'timer.fasting': 'விரதம் · {name}',
+  'timer.since': '{start} முதல் · {end} மணிக்கு முடியும்',
+  'timer.open': 'உணவு நேரம் திறந்துள்ளது. {name} இன்னும் {countdown} இல், {time} மணிக்குத் தொடங்கும்.',
+
+  'quick.favourites': 'பிடித்தவை',
+  'quick.recent': 'சமீபத்தியவை',
+  'quick.again': '{name} மீண்டும் பதிவு செய்',
+
+  'micro.fibre': 'நார்ச்சத்து',
+  'micro.sugar': 'சர்க்கரை',
+  'micro.sodium': 'சோடியம்',
+  'micro.iron': 'இரும்புச்சத்து',
+  'micro.calcium': 'கால்சியம்',
+  'micro.summary': 'நார்ச்சத்து, சர்க்கரை, சோடியம், இரும்பு, கால்சியம்',
+  'micro.noData': 'தரவு இல்லை',
+  'micro.limit': 'வரம்பு {amount} {unit}',
+  'micro.goal': 'இலக்கு {amount} {unit}',
+  'micro.missing': '{count} உணவுகளுக்குத் தரவு இல்லை',
+  'micro.fields': 'நுண்ணூட்டச்சத்துகள் (விருப்பம்)',
+  'micro.fieldsSet': 'நுண்ணூட்டச்சத்துகள் (விருப்பம், {count} நிரப்பப்பட்டவை)',
+  'micro.unknown': 'தெரியாது',
+
+  'update.ready': 'LocalPlate-இன் புதிய பதிப்பு தயார்.',
+  'update.reload': 'புதுப்பிக்க மீண்டும் ஏற்று',
+  'update.later': 'பிறகு',
+
+  'food.description': 'விளக்கம்',
+  'food.defaultQuantity': 'இயல்பு அளவு',
+  'food.tags': 'குறிச்சொற்கள் (காற்புள்ளியால் பிரிக்கவும்)',
+  'food.save': 'உணவைச் சேமி',
+
+  'share.title': '{name} யாருக்குப் பதிவு செய்வது',
+  'share.portion': '{name} பங்கு',
+  'share.submitOne': '1 நபருக்குப் பதிவு செய்',
+  'share.submitMany': '{count} பேருக்குப் பதிவு செய்',
+
+  'body.water': 'தண்ணீர்',
+  'body.waterProgress': '{amount} / {target} ml',
+  'body.addGlass': '+ குவளை ({amount} ml)',
+  'body.undoGlass': 'குவளையைக் குறை',
+  'body.title': 'உடல்',
+  'body.weight': 'எடை (kg)',
+  'body.waist': 'இடுப்பு (cm, விருப்பம்)',
+  'body.save': 'அளவுகளைச் சேமி',
+
+  'entry.date': 'தேதி',
+  'entry.time': 'நேரம்',
+  'entry.save': 'மாற்றங்களைச் சேமி',
+
+  'copyDay.from': 'இந்த நாளிலிருந்து நகலெடு',
+  'copyDay.yesterday': 'நேற்று',
+  'copyDay.empty': '{date} அன்று எதுவும் பதிவாகவில்லை.',
+  'copyDay.submit': '{count} பதிவுகளை {date}க்கு நகலெடு',
+
+  'plan.title': 'இன்றைய இலக்குகள்',
+  'plan.manualSince': '{date} முதல் நீங்கள் அமைத்த இலக்குகள்.',
+  'plan.goalSince': '{date} முதல் {goal} திட்டம்.',
+  'plan.default': 'இயல்பான சமச்சீர் தட்டு. தனிப்பட்ட இலக்குகளுக்கு உங்கள் சுயவிவரத்தை அமைக்கவும்.',
+  'plan.height': 'உயரம் (cm)',
+  'plan.age': 'வயது',
+  'plan.sex': 'பாலினம்',
+  'plan.female': 'பெண்',
+  'plan.male': 'ஆண்',
+  'plan.goal': 'இலக்கு',
+  'plan.activity': 'செயல்பாட்டு நிலை',
+  'plan.manual': 'இலக்குகளை நானே அமைக்கிறேன்',
+  'plan.preview':
+    '{calories} kcal • புரதம் {protein} g • கார்ப்ஸ் {carbs} g • கொழுப்பு {fats} g, {date} முதல் ' +
+    'பொருந்தும். முந்தைய நாட்களின் இலக்குகள் மாறாது.',
+  'plan.save': 'இலக்குகளைச் சேமி',
+  'plan.calories': 'கலோரி இலக்கு',
+  'plan.protein': 'புரத இலக்கு',
+  'plan.carbs': 'கார்ப்ஸ் அளவு',
+  'plan.fats': 'கொழுப்பு உச்சவரம்பு',
+
+  'goal.cut': 'கொழுப்பைக் குறைத்தல்',
+  'goal.maintain': 'எடையைப் பராமரித்தல்',
+  'goal.bulk': 'தசையை வளர்த்தல்',
+
+  'activity.sedentary': 'அமர்ந்த வேலை (மேசைப் பணி)',
+  'activity.light': 'குறைவு (வாரம் 1-3 பயிற்சிகள்)',
+  'activity.moderate': 'மிதமானது (வாரம் 3-5 பயிற்சிகள்)',
+  'activity.active': 'சுறுசுறுப்பு (வாரம் 6-7 பயிற்சிகள்)',
+  'activity.athlete': 'விளையாட்டு வீரர் (தினமும் இருமுறை)',
+
+  'recipe.title': 'சமையல் குறிப்புகள்',
+  'recipe.intro':
+    'கிச்சடி, சாம்பார் அல்லது எந்த வீட்டு உணவையும் ஒருமுறை பொருட்களிலிருந்து உருவாக்கி, பிறகு ஒவ்வொரு ' +
+    'பரிமாறலாகப் பதிவு செய்யுங்கள்.',
+  'recipe.new': 'புதியது',
+  'recipe.perServing': '{calories} kcal / பரிமாறல் • {servings} பரிமாறல்கள்',
+  'recipe.namePlaceholder': 'பாசிப்பருப்பு கிச்சடி',
+  'recipe.untitled': 'பெயரிடாத சமையல் குறிப்பு',
+  'recipe.ingredients': 'பொருட்கள்',
+  'recipe.ingredient': 'பொருள்',
+  'recipe.pick': 'ஒரு பொருளைத் தேர்ந்தெடுக்கவும்…',
+  'recipe.quantity': 'பொருளின் அளவு',
+  'recipe.remove': '{name} ஐ நீக்கு',
+  'recipe.yield': 'மொத்த அளவு',
+  'recipe.byServings': 'பரிமாறல்களின் எண்ணிக்கை',
+  'recipe.byWeight': 'சமைத்த எடை',
+  'recipe.servings': 'பரிமாறல்கள்',
+  'recipe.cooked': 'மொத்தம் சமைத்தது (g)',
+  'recipe.servingSize': 'ஒரு பரிமாறல் (g)',
+  'recipe.tagsPlaceholder': 'வீட்டு உணவு, இரவு உணவு',
+  'recipe.summary': 'முழுப் பாத்திரம்: {calories} kcal. ஒரு பரிமாறலுக்கு (மொத்தம் {servings}): {macros}',
+  'recipe.save': 'குறிப்பைச் சேமி',
+
+  'profile.group': 'யார் பதிவு செய்கிறார்கள்',
+  'profile.add': '+ நபர்',
+  'profile.edit': '{name} ஐத் திருத்து',
+  'profile.new': 'புதிய சுயவிவரம்',
+  'profile.namePlaceholder': 'அம்மா',
+  'profile.dayStart': 'நாள் தொடங்கும் நேரம்',
+  'profile.midnight': 'நள்ளிரவு',
+  'profile.save': 'சேமி',
+  'profile.remove': 'நீக்கு',
+  'profile.confirmRemove':
+    '{name} ஐ நீக்கவா? அவர்களின் பதிவு, இலக்குகள், நீர் மற்றும் எடை வரலாறு இந்தச் சாதனத்திலிருந்து ' +
+    'அழிக்கப்படும்.',
+  'profile.nameMissing': 'சுயவிவரத்திற்கு ஒரு பெயர் கொடுங்கள்.',
+  'profile.nameTaken': '{name} என்ற சுயவிவரம் ஏற்கனவே உள்ளது.',
+  'profile.saveFailed': 'சுயவிவரத்தைச் சேமிக்க முடியவில்லை.',
+  'profile.removeFailed': 'சுயவிவரத்தை நீக்க முடியவில்லை.',
+  'profile.me': 'நான்',
+  'profile.unnamed': 'பெயரிடாத சுயவிவரம்',
+
+  'backup.title': 'காப்புப்பிரதி & ஏற்றுமதி',
+  'backup.intro':
+    'உங்கள் தரவு இந்தச் சாதனத்தை விட்டு வெளியேறாது. தளத் தரவை அழிக்கும் முன் அல்லது தொலைபேசியை மாற்றும் ' +
+    'முன் காப்புப்பிரதி கோப்பை வைத்திருங்கள்.',
+  'backup.json': 'காப்புப்பிரதி (JSON)',
+  'backup.entriesCsv': '{name} இன் பதிவுகள் CSV',
+  'backup.dailyCsv': '{name} இன் தினசரி மொத்தம் CSV',
+  'backup.restore': 'மீட்டமை…',
+  'backup.contents':
+    '{profiles} சுயவிவரம், {entries} பதிவுகள், {foods} சேமித்த உணவுகள், {recipes} சமையல் குறிப்புகள், ' +
+    'நீர் மற்றும் எடையின் {body} நாட்கள், {goals} இலக்கு சுயவிவரங்கள், {favourites} நட்சத்திரமிட்ட ' +
+    'உணவுகள் மற்றும் {fasting} விரத அட்டவணைகள்.',
+  'backup.exportedOn': '{date} அன்று ஏற்றுமதி செய்யப்பட்டது.',
+  'backup.duplicates': '{count} ஏற்கனவே இந்தச் சாதனத்தில் உள்ளன.',
+  'backup.merge': 'இணை (என்னுடையதை வை)',
+  'backup.replace': 'அனைத்தையும் மாற்று',
+  'backup.restored': 'காப்புப்பிரதியிலிருந்து {count} பதிவுகள் மீட்டமைக்கப்பட்டன.',
+  'backup.merged': '{count} புதிய பதிவுகள் இணைக்கப்பட்டன.',
+  'backup.failed': 'இறக்குமதி தோல்வியடைந்தது. எதுவும் மாறவில்லை.',
+  'backup.unreadable': 'இந்தக் காப்புப்பிரதியைப் படிக்க முடியவில்லை.',
+  'backup.invalidJson': 'இந்தக் கோப்பு சரியான JSON அல்ல.',
+  'backup.notBackup': 'இந்தக் கோப்பு LocalPlate காப்புப்பிரதி அல்ல.',
+  'backup.tooNew':
+    'இந்தக் காப்புப்பிரதி LocalPlate இன் புதிய பதிப்பில் உருவாக்கப்பட்டது. ஆப்பைப் புதுப்பித்து மீண்டும் ' +
+    'முயலவும்.',
+  'backup.badLogs': 'காப்புப்பிரதியில் தவறான பதிவுகள் உள்ளன.',
+
+  'reminder.title': 'நினைவூட்டல்கள்',
+  'reminder.intro':
+    'சர்வர் இல்லாமல் இந்தச் சாதனத்திலேயே கணக்கிடப்படுகின்றன. LocalPlate திறந்திருக்கும்போது அல்லது ' +
+    'பின்னணியில் இயங்கும்போது காட்டப்படும்.',
+  'reminder.unsupported': 'இந்த உலாவியால் அறிவிப்புகளைக் காட்ட முடியாது.',
+  'reminder.blocked': 'அறிவிப்புகள் தடுக்கப்பட்டுள்ளன. உலாவி அமைப்புகளில் அனுமதிக்கவும்.',
+  'reminder.allow': 'அறிவிப்புகளை அனுமதி',
+  'reminder.mealLog': 'பதிவு செய்',
+  'reminder.mealSlot': 'நினைவூட்ட வேண்டிய உணவு',
+  'reminder.mealBy': 'நேரம்',
+  'reminder.mealTime': 'உணவு நினைவூட்டல் நேரம்',
+  'reminder.water': 'தண்ணீர், ஒவ்வொரு',
+  'reminder.waterHours': 'தண்ணீர் நினைவூட்டல்களுக்கு இடையேயான மணிநேரம்',
+  'reminder.hours': '{count} மணி',
+  'reminder.from': 'தொடக்கம்',
+  'reminder.to': 'முடிவு',
+  'reminder.waterFirst': 'முதல் தண்ணீர் நினைவூட்டல்',
+  'reminder.waterLast': 'கடைசி தண்ணீர் நினைவூட்டல்',
+  'reminder.summary': 'நாள் சுருக்கம், நேரம்',
+  'reminder.summaryTime': 'நாள் சுருக்க நேரம்',
+  'reminder.quiet': 'அமைதி நேரம், தொடக்கம்',
+  'reminder.quietStart': 'அமைதி நேரத் தொடக்கம்',
+  'reminder.quietEnd': 'அமைதி நேர முடிவு',
+  'reminder.mealTitle': 'உங்கள் {meal} ஐப் பதிவு செய்யுங்கள்',
+  'reminder.mealBody': 'இன்று இதுவரை {meal} க்கு எதுவும் பதிவு செய்யப்படவில்லை.',
+  'reminder.waterTitle': 'ஒரு டம்ளர் தண்ணீர் குடிக்கும் நேரம்',
+  'reminder.waterBody': 'இன்று இதுவரை {target} இல் {amount} ml.',
+  'reminder.summaryTitle': 'இன்றைய மொத்தம்',
+  'reminder.summaryBody':
+    '{caloriesTarget} இல் {calories} kcal · புரதம் {protein}/{proteinTarget} g · கார்ப்ஸ் ' +
+    '{carbs}/{carbsTarget} g · கொழுப்பு {fats}/{fatsTarget} g · தண்ணீர் {water}/{waterTarget} ml',
+
+  'history.title': 'வரலாறு',
+  'history.intro':
+    '{start} முதல் {end} வரை. சராசரிகள் பதிவு செய்த நாட்களை மட்டும் கணக்கிடுகின்றன; இலக்கில் என்றால் ' +
+    'கலோரி இலக்கின் 10% க்குள்.',
+  'history.days': '{count} நாட்கள்',
+  'history.avgCalories': 'சராசரி கலோரி',
+  'history.avgProtein': 'சராசரி புரதம்',
+  'history.avgCarbs': 'சராசரி கார்ப்ஸ்',
+  'history.avgFats': 'சராசரி கொழுப்பு',
+  'history.onTarget': 'இலக்கில்',
+  'history.daysLogged': 'பதிவு செய்த நாட்கள்',
+  'history.currentStreak': 'தற்போதைய தொடர்',
+  'history.bestStreak': 'சிறந்த தொடர்',
+  'history.streak': '{count} நா',
+  'history.calories': 'நாள்தோறும் கலோரி',
+  'history.average': '7 நாள் சராசரி',
+  'history.target': 'இலக்கு',
+  'history.caloriesChart': 'தினசரி கலோரி வரைபடம்',
+  'history.dayCalories': '{date}: {target} இல் {calories} kcal',
+  'history.macros': 'நாள்தோறும் மேக்ரோக்கள் (g)',
+  'history.macrosChart': 'தினசரி மேக்ரோ வரைபடம்',
+  'history.weight': 'எடை (kg)',
+  'history.weighIns': 'எடை அளவீடுகள்',
+  'history.trend': 'சீரான போக்கு',
+  'history.latestTrend': '{date} அன்று போக்கு {weight} kg',
+  'history.noWeight': 'இந்தக் காலத்தில் எடை அளவீடு இல்லை. போக்கைக் காண தினசரி பதிவில் உங்கள் எடையைச் சேர்க்கவும்.',
+  'history.weightChart': 'எடைப் போக்கு வரைபடம்',
+  'history.weighIn': '{date}: {weight} kg (போக்கு {trend})',
+
+  'report.back': '← பதிவுக்குத் திரும்பு',
+  'report.person': 'நபர்',
+  'report.from': 'தொடக்கம்',
+  'report.to': 'முடிவு',
+  'report.print': 'அச்சிடு அல்லது PDF ஆகச் சேமி',
+
+  'barcode.title': 'பார்கோடு மூலம் பொதி உணவு',
+  'barcode.intro': 'கோடுகளுக்குக் கீழே உள்ள எண்ணைத் தட்டச்சு செய்யவும்.',
+  'barcode.introPhoto': 'கோடுகளுக்குக் கீழே உள்ள எண்ணைத் தட்டச்சு செய்யவும் அல்லது அவற்றைப் புகைப்படம் எடுக்கவும்.',
+  'barcode.dataset': 'இந்தச் சாதனத்தில் சேமிக்கப்பட்ட தரவுத்தொகுப்பில் பொருட்கள் தேடப்படுகின்றன.',
+  'barcode.datasetCount':
+    'இந்தச் சாதனத்தில் சேமிக்கப்பட்ட தரவுத்தொகுப்பில் பொருட்கள் தேடப்படுகின்றன ({count} பொருட்கள்).',
+  'barcode.code': 'பார்கோடு',
+  'barcode.lookUp': 'தேடு',
+  'barcode.photo': 'புகைப்படம்…',
+  'barcode.noPhoto':
+    'இந்த உலாவியால் புகைப்படங்களிலிருந்து பார்கோடுகளைப் படிக்க முடியாது, எனவே எண்ணைத் தட்டச்சு செய்யவும்.' +
+    ' Android இல் Chrome படிக்கும்.',
+  'barcode.local': 'இந்தச் சாதனத்தில் உள்ளிடப்பட்டது',
+  'barcode.per100g': '100 g க்கு',
+  'barcode.perServing': '{serving} க்கு',
+  'barcode.calories': 'kcal',
+  'barcode.protein': 'புரதம் g',
+  'barcode.carbs': 'கார்ப்ஸ் g',
+  'barcode.fats': 'கொழுப்பு g',
+  'barcode.log': 'பதிவு செய்',
+  'barcode.missing':
+    '{barcode} இன்னும் பொருள் தரவில் இல்லை. பொதியின் ஊட்டச்சத்து லேபிளிலிருந்து ஒருமுறை உள்ளிடுங்கள், ' +
+    'அடுத்த முறை கிடைக்கும்.',
+  'barcode.brand': 'பிராண்ட்',
+  'barcode.perLabel': '100 g க்கு, லேபிளில் அச்சிட்டபடி',
+  'barcode.serving': 'பரிமாறல் (விருப்பம்)',
+  'barcode.servingPlaceholder': '2 பிஸ்கட்கள்',
+  'barcode.servingGrams': 'பரிமாறல் எடை (g)',
+  'barcode.save': 'பொருளைச் சேமி',
+  'barcode.import': 'பொருள் தரவை இறக்குமதி செய்…',
+  'barcode.importHint': 'Open Food Facts JSONL அல்லது CSV பகுதிகள் அப்படியே வேலை செய்யும்.',
+  'barcode.invalid': 'இது சரியான EAN அல்லது UPC பார்கோடு அல்ல. கோடுகளுக்குக் கீழே உள்ள இலக்கங்களைச் சரிபார்க்கவும்.',
+  'barcode.lookupFailed': 'தேடல் தோல்வியடைந்தது. மீண்டும் முயலவும்.',
+  'barcode.notInPhoto':
+    'இந்தப் புகைப்படத்தில் பார்கோடு இல்லை. அருகில் தெளிவாக எடுக்கவும் அல்லது எண்ணைத் தட்டச்சு செய்யவும்.',
+  'barcode.photoFailed': 'இந்தப் புகைப்படத்தைப் படிக்க முடியவில்லை.',
+  'barcode.imported': '{count} பொருட்கள் இறக்குமதி செய்யப்பட்டன.',
+  'barcode.kept': 'நீங்களே உள்ளிட்ட {count} வைக்கப்பட்டன.',
+  'barcode.skipped':
+    'பார்கோடு, பெயர் அல்லது சரியான ஆற்றல் மற்றும் மேக்ரோ மதிப்புகள் இல்லாத {count} வரிசைகள் ' +
+    'தவிர்க்கப்பட்டன.',
+  'barcode.unreadable': 'இந்தக் கோப்பு சரியான JSON, JSON Lines அல்லது CSV அல்ல.',
+  'barcode.empty': 'இந்தக் கோப்பில் பார்கோடு, பெயர் மற்றும் 100 g க்கான ஆற்றல் கொண்ட பொருள் எதுவும் இல்லை.',
+  'barcode.logged': '{name} பதிவு செய்யப்பட்டது.',
+  'barcode.saved': 'சேமிக்கப்பட்டது. இனி இந்தப் பார்கோடு இதைக் கண்டுபிடிக்கும்.',
+  'barcode.saveFailed': 'இந்தப் பொருளைச் சேமிக்க முடியவில்லை.',
+
+  'fasting.title': 'விரதம்',
+  'fasting.intro':
+    'இடைவிட்ட விரதம், ரமலான், நவராத்திரி, ஏகாதசி அல்லது வாராந்திர விரதம். சூரிய நேரங்கள் இந்தச் ' +
+    'சாதனத்திலேயே கணக்கிடப்படுகின்றன.',
+  'fasting.toggle': '{name} இயக்கத்தில்',
+  'fasting.range': '{start} முதல் {end} வரை',
+  'fasting.vratFoods': 'விரத உணவுகள்',
+  'fasting.preset': 'விரத வகை',
+  'fasting.add': 'விரதத்தைச் சேர்',
+  'fasting.everyDay': 'ஒவ்வொரு நாளும்',
+  'fasting.noWeekdays': 'கிழமைகள் இல்லை',
+  'fasting.oneDate': '1 தேர்ந்தெடுத்த தேதி',
+  'fasting.chosenDates': '{count} தேர்ந்தெடுத்த தேதிகள்',
+  'fasting.eatWindow': 'உணவு {from}–{until}',
+  'fasting.fromDawn': '{place} இல் விடியல் முதல் சூரியன் மறையும் வரை',
+  'fasting.fromSunrise': '{place} இல் சூரிய உதயம் முதல் சூரியன் மறையும் வரை',
+  'fasting.unknownPlace': 'அறியாத இடம்',
+  'fasting.defaultName': 'விரதம்',
+  'fasting.days': 'விரத நாட்கள்',
+  'fasting.weekly': 'குறிப்பிட்ட கிழமைகள்',
+  'fasting.dates': 'தேர்ந்தெடுத்த தேதிகள்',
+  'fasting.addDate': 'தேதியைச் சேர்',
+  'fasting.removeDate': '{date} ஐ நீக்கு',
+  'fasting.from': 'தொடக்கம் (விருப்பம்)',
+  'fasting.until': 'முடிவு (விருப்பம்)',
+  'fasting.noFood': 'உணவு இல்லாத நேரம்',
+  'fasting.eatFrom': 'உணவு தொடக்கம்',
+  'fasting.eatUntil': 'உணவு முடிவு',
+  'fasting.city': 'நகரம்',
+  'fasting.startsAt': 'தொடங்கும் நேரம்',
+  'fasting.dawn': 'விடியல் (ஃபஜ்ர், சூரியன் 18° கீழே)',
+  'fasting.sunrise': 'சூரிய உதயம்',
+  'fasting.preview': '{date} அன்று: {start} முதல் {end} வரை உணவு இல்லை.',
+  'fasting.vrat': 'சமய விரதம்: பட்டியலில் விரத (உபவாச) உணவுகளைக் காட்டு',
+  'fasting.save': 'விரதத்தைச் சேமி',
+
+  'fastWindow.eating-window': 'உணவு நேரம் (இடைவிட்ட விரதம்)',
+  'fastWindow.daylight': 'விடியல் அல்லது சூரிய உதயம் முதல் சூரியன் மறையும் வரை',
+  'fastWindow.all-day': 'முழு நாள்',
+  'fastWindow.food-only': 'நேர வரம்பு இல்லை, விரத உணவுகள் மட்டும்',
+
+  'fastPreset.16-8': 'இடைவிட்ட விரதம் 16:8',
+  'fastPreset.ramadan': 'ரமலான் (விடியல் முதல் சூரியன் மறையும் வரை)',
+  'fastPreset.navratri': 'நவராத்திரி (ஒன்பது நாட்கள், விரத உணவுகள்)',
+  'fastPreset.ekadashi': 'ஏகாதசி (தேர்ந்தெடுத்த தேதிகள்)',
+  'fastPreset.weekly': 'வாராந்திர விரதம் (சூரிய உதயம் முதல் மறைவு வரை)',
+
+  'fastName.16-8': 'இடைவிட்ட விரதம் 16:8',
+  'fastName.ramadan': 'ரமலான்',
+  'fastName.navratri': 'நவராத்திரி',
+  'fastName.ekadashi': 'ஏகாதசி',
+  'fastName.weekly': '{day} விரதம்',
+
+  'sync.title': 'மறையாக்கப்பட்ட ஒத்திசைவு',
+  'sync.intro':
+    'விருப்பத்தேர்வு. பதிவுகள் இந்தச் சாதனத்தை விட்டுச் செல்லும் முன் உங்கள் கடவுச்சொற்றொடரால் ' +
+    'மறையாக்கப்படும்; சேவையகம் படிக்க முடியாத தரவை மட்டுமே பார்க்கும். ஒவ்வொரு சாதனத்திலும் அதே வால்ட் ' +
+    'ஐடி மற்றும் கடவுச்சொற்றொடரைப் பயன்படுத்துங்கள்.',
+  'sync.lastSynced': 'கடைசியாக ஒத்திசைத்தது {time}.',
+  'sync.notSynced': 'இன்னும் ஒத்திசைக்கப்படவில்லை.',
+  'sync.pending': '{count} மாற்றங்கள் பதிவேற்றக் காத்திருக்கின்றன.',
+  'sync.syncing': 'ஒத்திசைக்கிறது…',
+  'sync.now': 'இப்போது ஒத்திசை',
+  'sync.turnOff': 'அணை',
+  'sync.server': 'சேவையக முகவரி',
+  'sync.vaultId': 'வால்ட் ஐடி',
+  'sync.newVault': 'புதியது',
+  'sync.passphrase': 'கடவுச்சொற்றொடர்',
+  'sync.passphraseWarning': 'கடவுச்சொற்றொடரை மீட்டெடுக்க முடியாது. அதை இழந்தால் ஒத்திசைத்த நகலைப் படிக்க முடியாது.',
+  'sync.connecting': 'இணைக்கிறது…',
+  'sync.turnOn': 'ஒத்திசைவை இயக்கு',
+  'sync.enabled': 'ஒத்திசைவு இயக்கத்தில் உள்ளது. {pushed} மாற்றங்கள் அனுப்பப்பட்டன, {pulled} பெறப்பட்டன.',
+  'sync.disabled': 'ஒத்திசைவு அணைக்கப்பட்டது. உங்கள் பதிவுகள் இந்தச் சாதனத்திலேயே இருக்கும்.',
+  'sync.missingSettings': 'சேவையக முகவரியும் வால்ட் ஐடியும் உள்ளிடுங்கள்.',
+  'sync.badVaultId': 'வால்ட் ஐடி 8 முதல் 128 எழுத்துகள், எண்கள், கோடுகள் அல்லது அடிக்கோடுகள் கொண்டது.',
+  'sync.shortPassphrase': 'குறைந்தது 8 எழுத்துகள் கொண்ட கடவுச்சொற்றொடரைப் பயன்படுத்துங்கள்.',
+  'sync.notSetUp': 'இந்தச் சாதனத்தில் ஒத்திசைவு அமைக்கப்படவில்லை.',
+  'sync.unreachable': 'ஒத்திசைவு சேவையகத்தை அணுக முடியவில்லை.',
+  'sync.serverError': 'ஒத்திசைவு சேவையகம் பிழை தந்தது. பின்னர் மீண்டும் முயலுங்கள்.',
+  'sync.wrongPassphrase': 'ஒத்திசைத்த தரவை மறைவிலக்க முடியவில்லை. இந்த வால்ட்டின் கடவுச்சொற்றொடரைச் சரிபாருங்கள்.',
+  'sync.failed': 'ஒத்திசைவு தோல்வியடைந்தது. உங்கள் மாற்றங்கள் இந்தச் சாதனத்தில் பாதுகாப்பாக உள்ளன.',
+
+  'unit.serving': 'பரிமாறல்'
+};
@@ -0,0 +1,455 @@
+import type { Messages } from './en';
+
+export const ur: Messages = {
+  'app.tagline':
+    'مقامی کھانوں اور رازداری کو سامنے رکھ کر بنایا گیا ہلکا، آف لائن چلنے والا ٹریکر۔ ' +
+    'سگنل نہ ہو تب بھی چند سیکنڈ میں کچھ بھی درج کریں۔',
+  'app.privacy': 'روزانہ کی غذائیت آپ کے آلے پر ہی رہتی ہے۔ نہ اشتہار، نہ پے وال۔',
+  'app.language': 'زبان',
+
+  'connection.offlineSync': 'آف لائن موڈ۔ تبدیلیاں یہیں محفوظ ہیں اور رابطہ بحال ہونے پر سنک ہوں گی۔',
+  'connection.offline': 'آف لائن موڈ۔ تمام تبدیلیاں اسی آلے پر محفوظ ہیں۔',
+  'connection.online': 'آن لائن۔ سب کچھ اسی آلے پر محفوظ ہے۔',
+  'connection.syncPaused': 'سنک رکا ہوا ہے۔ تبدیلیاں اس آلے پر محفوظ ہیں۔',
+  'connection.syncWaiting': 'پہلے سنک کا انتظار ہے۔',
+  'connection.synced': '{time} پر سنک ہوا۔ سب کچھ اس آلے پر بھی محفوظ ہے۔',
+
+  'meal.breakfast': 'ناشتہ',
+  'meal.lunch': 'دوپہر کا کھانا',
+  'meal.snacks': 'ہلکا پھلکا',
+  'meal.dinner': 'رات کا کھانا',
+
+  'macro.calories': 'کیلوریز',
+  'macro.protein': 'پروٹین',
+  'macro.carbs': 'کاربس',
+  'macro.fats': 'چکنائی',
+  'macro.progress': '{label} کی پیش رفت',
+  'macro.over': '{amount} {unit} زیادہ',
+  'macro.left': '{target} میں سے {amount} {unit} باقی',
+  'macro.summary': '{calories} kcal • پروٹین {protein} g • کاربس {carbs} g • چکنائی {fats} g',
+  'macro.proteinShort': 'پروٹین {amount} g',
+  'macro.carbsShort': 'کاربس {amount} g',
+  'macro.fatsShort': 'چکنائی {amount} g',
+
+  'header.trackingDate': 'تاریخ',
+  'fast.confirm': 'یہ آپ کے {name} روزے کے وقت میں ہے، جو {time} پر کھلے گا۔ پھر بھی درج کریں؟',
+
+  'catalogue.title': 'مقامی کھانوں کی فہرست',
+  'catalogue.intro':
+    'جنوبی ایشیا کے روزمرہ کھانے، آف لائن درج کرنے کے لیے تیار۔ فہرست v{version}، ' +
+    'فی 100 گرام اعداد سے فی سرونگ مقدار۔',
+  'catalogue.mealSlot': 'کھانے کا وقت',
+  'catalogue.autoMeal': 'خودکار',
+  'catalogue.search': 'ڈوسا، بریانی، دال تلاش کریں...',
+  'catalogue.reset': 'ری سیٹ',
+  'catalogue.vratOnly': '{name}: صرف ورت کے کھانے',
+  'catalogue.star': '{name} کو پسندیدہ بنائیں',
+  'catalogue.unstar': '{name} کو پسندیدہ سے ہٹائیں',
+  'catalogue.perServing': '{calories} kcal / {quantity} {unit}',
+  'catalogue.tags': 'ٹیگ',
+  'catalogue.quantity': 'مقدار',
+  'catalogue.shared': 'مشترکہ',
+  'catalogue.add': 'شامل کریں',
+  'catalogue.empty': 'کچھ نہیں ملا۔ کوئی اور لفظ آزمائیں یا فلٹر ہٹائیں۔',
+  'catalogue.myFoods': 'میرے کھانے',
+  'catalogue.myRecipes': 'میری تراکیب',
+  'catalogue.packaged': 'پیک شدہ',
+
+  'custom.title': 'اپنا کھانا شامل کریں',
+  'custom.intro':
+    'گھر کی ترکیب؟ بغیر لیبل کا ٹھیلے کا کھانا؟ ایک بار ہاتھ سے درج کریں، اپنے کھانوں میں محفوظ کریں اور بس۔',
+  'custom.name': 'نام',
+  'custom.namePlaceholder': 'دادی کی کھچڑی',
+  'custom.untitled': 'بے نام کھانا',
+  'custom.quantity': 'مقدار',
+  'custom.meal': 'کھانے کا وقت',
+  'custom.autoMeal': 'وقت کے حساب سے',
+  'custom.calories': 'کیلوریز (kcal)',
+  'custom.protein': 'پروٹین (g)',
+  'custom.carbs': 'کاربس (g)',
+  'custom.fats': 'چکنائی (g)',
+  'custom.notes': 'نوٹ',
+  'custom.notesPlaceholder': 'مصالحے، پکانے کا طریقہ یا تیل لکھیں۔',
+  'custom.saveFood': 'ایک ٹیپ میں درج کرنے کے لیے میرے کھانوں میں محفوظ کریں',
+  'custom.tagsPlaceholder': 'گھر کا، ناشتہ',
+  'custom.submit': 'محفوظ کریں',
+
+  'log.title': 'روزانہ ریکارڈ',
+  'log.intro': 'ہر کھانا اسی آلے پر محفوظ ہوتا ہے۔ مقدار، وقت یا غذائی اجزا ایک ٹیپ میں بدلیں۔',
+  'log.copy': 'کسی اور دن سے نقل کریں',
+  'log.report': 'ماہرِ غذائیت کے لیے رپورٹ',
+  'log.undo': 'واپس کریں',
+  'log.redo': 'دوبارہ کریں',
+  'log.history': 'تبدیلیاں',
+  'log.trash': 'ردی',
+  'log.deleted': '{name} حذف کر دیا گیا۔ یہ ردی میں ہے۔',
+  'log.loading': 'ریکارڈ لوڈ ہو رہا ہے…',
+  'log.empty': 'ابھی کچھ درج نہیں ہوا۔ ڈوسا، بریانی سے شروع کریں یا اپنی ترکیب شامل کریں۔',
+
+  'trash.retention': 'حذف شدہ اندراجات اتنے دن رکھیں',
+  'trash.days': '{count} دن',
+  'trash.empty': 'ردی میں کچھ نہیں ہے۔',
+  'trash.deletedOn': '{date}، {meal} · {time} کو حذف کیا گیا',
+  'trash.purgedAfter': '{time} کے بعد ہمیشہ کے لیے مٹ جائے گا',
+  'trash.restore': 'بحال کریں',
+  'trash.purge': 'ہمیشہ کے لیے حذف کریں',
+  'trash.purgeAll': 'ردی خالی کریں',
+  'trash.confirmOne': 'یہ اندراج ہمیشہ کے لیے حذف کریں؟',
+  'trash.confirmAll': 'ردی کے تمام {count} اندراجات ہمیشہ کے لیے حذف کریں؟',
+
+  'changes.title': '{date} کی تبدیلیاں',
+  'changes.empty': 'اس دن کی ابھی کوئی تبدیلی درج نہیں۔',
+  'changes.create': 'شامل کیا',
+  'changes.update': 'ترمیم کی',
+  'changes.delete': 'حذف کیا',
+  'changes.restore': 'بحال کیا',
+  'changes.undo': 'واپسی',
+  'changes.redo': 'دوبارہ',
+  'changes.sync': 'دوسرے آلے سے',
+  'changes.amount': 'مقدار',
+  'changes.day': 'دن',
+  'changes.time': 'وقت',
+
+  'common.unit': 'اکائی',
+  'common.edit': 'ترمیم',
+  'common.delete': 'حذف کریں',
+  'common.close': 'بند کریں',
+  'common.cancel': 'منسوخ کریں',
+
+  'timer.fasting': 'روزہ · {name}',
+  'timer.since': '{start} سے · {end} پر افطار',
+  'timer.open': 'کھانے کا وقت جاری ہے۔ {name} {countdown} بعد، {time} پر شروع ہوگا۔',
+
+  'quick.favourites': 'پسندیدہ',
+  'quick.recent': 'حالیہ',
+  'quick.again': '{name} دوبارہ درج کریں',
+
+  'micro.fibre': 'ریشہ',
+  'micro.sugar': 'چینی',
+  'micro.sodium': 'سوڈیم',
+  'micro.iron': 'آئرن',
+  'micro.calcium': 'کیلشیم',
+  'micro.summary': 'ریشہ، چینی، سوڈیم، آئرن اور کیلشیم',
+  'micro.noData': 'معلومات نہیں',
+  'micro.limit': 'حد {amount} {unit}',
+  'micro.goal': 'ہدف {amount} {unit}',
+  'micro.missing': '{count} چیزوں کی معلومات نہیں',
+  'micro.fields': 'خرد غذائی اجزا (اختیاری)',
+  'micro.fieldsSet': 'خرد غذائی اجزا (اختیاری، {count} درج)',
+  'micro.unknown': 'نامعلوم',
+
+  'update.ready': 'LocalPlate کا نیا ورژن تیار ہے۔',
+  'update.reload': 'اپ ڈیٹ کے لیے دوبارہ لوڈ کریں',
+  'update.later': 'بعد میں',
+
+  'food.description': 'تفصیل',
+  'food.defaultQuantity': 'عام مقدار',
+  'food.tags': 'ٹیگ (کوما سے الگ کریں)',
+  'food.save': 'کھانا محفوظ کریں',
+
+  'share.title': '{name} کس کے لیے درج کریں',
+  'share.portion': '{name} کا حصہ',
+  'share.submitOne': '1 فرد کے لیے درج کریں',
+  'share.submitMany': '{count} افراد کے لیے درج کریں',
+
+  'body.water': 'پانی',
+  'body.waterProgress': '{amount} / {target} ml',
+  'body.addGlass': '+ گلاس ({amount} ml)',
+  'body.undoGlass': 'گلاس واپس لیں',
+  'body.title': 'جسم',
+  'body.weight': 'وزن (kg)',
+  'body.waist': 'کمر (cm، اختیاری)',
+  'body.save': 'پیمائش محفوظ کریں',
+
+  'entry.date': 'تاریخ',
+  'entry.time': 'وقت',
+  'entry.save': 'تبدیلیاں محفوظ کریں',
+
+  'copyDay.from': 'یہاں سے نقل کریں',
+  'copyDay.yesterday': 'کل',
+  'copyDay.empty': '{date} کو کچھ درج نہیں ہوا۔',
+  'copyDay.submit': '{count} کو {date} پر نقل کریں',
+
+  'plan.title': 'دن کے اہداف',
+  'plan.manualSince': '{date} سے اپنے طے کردہ اہداف۔',
+  'plan.goalSince': '{date} سے {goal} منصوبہ۔',
+  'plan.default': 'ڈیفالٹ متوازن تھالی۔ ذاتی اہداف کے لیے اپنی پروفائل بنائیں۔',
+  'plan.height': 'قد (cm)',
+  'plan.age': 'عمر',
+  'plan.sex': 'جنس',
+  'plan.female': 'خاتون',
+  'plan.male': 'مرد',
+  'plan.goal': 'ہدف',
+  'plan.activity': 'سرگرمی کی سطح',
+  'plan.manual': 'اہداف خود طے کریں',
+  'plan.preview':
+    '{calories} kcal • پروٹین {protein} g • کاربس {carbs} g • چکنائی {fats} g، {date} سے لاگو۔ پچھلے دنوں' +
+    ' کے اہداف وہی رہیں گے۔',
+  'plan.save': 'اہداف محفوظ کریں',
+  'plan.calories': 'کیلوری کا ہدف',
+  'plan.protein': 'پروٹین کا ہدف',
+  'plan.carbs': 'کاربس کی حد',
+  'plan.fats': 'چکنائی کی بالائی حد',
+
+  'goal.cut': 'چربی کم کرنا',
+  'goal.maintain': 'وزن برقرار رکھنا',
+  'goal.bulk': 'پٹھے بنانا',
+
+  'activity.sedentary': 'کم متحرک (دفتری کام)',
+  'activity.light': 'ہلکی (ہفتے میں 1-3 ورزشیں)',
+  'activity.moderate': 'درمیانی (ہفتے میں 3-5 ورزشیں)',
+  'activity.active': 'متحرک (ہفتے میں 6-7 ورزشیں)',
+  'activity.athlete': 'کھلاڑی (دن میں دو بار)',
+
+  'recipe.title': 'تراکیب',
+  'recipe.intro': 'کھچڑی، سانبھر یا کوئی بھی گھریلو کھانا ایک بار اجزا سے بنائیں، پھر ہر سرونگ کے حساب سے لاگ کریں۔',
+  'recipe.new': 'نئی',
+  'recipe.perServing': '{calories} kcal / سرونگ • {servings} سرونگز',
+  'recipe.namePlaceholder': 'مونگ دال کھچڑی',
+  'recipe.untitled': 'بے نام ترکیب',
+  'recipe.ingredients': 'اجزا',
+  'recipe.ingredient': 'جز',
+  'recipe.pick': 'ایک جز چنیں…',
+  'recipe.quantity': 'جز کی مقدار',
+  'recipe.remove': '{name} ہٹائیں',
+  'recipe.yield': 'کل مقدار',
+  'recipe.byServings': 'سرونگز کی تعداد',
+  'recipe.byWeight': 'پکا ہوا وزن',
+  'recipe.servings': 'سرونگز',
+  'recipe.cooked': 'کل پکا ہوا (g)',
+  'recipe.servingSize': 'ایک سرونگ (g)',
+  'recipe.tagsPlaceholder': 'گھر کا بنا، رات کا کھانا',
+  'recipe.summary': 'پوری دیگچی: {calories} kcal۔ فی سرونگ (کل {servings}): {macros}',
+  'recipe.save': 'ترکیب محفوظ کریں',
+
+  'profile.group': 'کون لاگ کر رہا ہے',
+  'profile.add': '+ فرد',
+  'profile.edit': '{name} میں ترمیم کریں',
+  'profile.new': 'نئی پروفائل',
+  'profile.namePlaceholder': 'امّی',
+  'profile.dayStart': 'دن شروع ہوتا ہے',
+  'profile.midnight': 'آدھی رات',
+  'profile.save': 'محفوظ کریں',
+  'profile.remove': 'ہٹائیں',
+  'profile.confirmRemove': '{name} کو ہٹائیں؟ ان کا لاگ، اہداف اور پانی و وزن کی تاریخ اس ڈیوائس سے مٹ جائے گی۔',
+  'profile.nameMissing': 'پروفائل کو ایک نام دیں۔',
+  'profile.nameTaken': '{name} نام کی پروفائل پہلے سے موجود ہے۔',
+  'profile.saveFailed': 'پروفائل محفوظ نہیں ہو سکی۔',
+  'profile.removeFailed': 'پروفائل ہٹائی نہیں جا سکی۔',
+  'profile.me': 'میں',
+  'profile.unnamed': 'بے نام پروفائل',
+
+  'backup.title': 'بیک اپ اور ایکسپورٹ',
+  'backup.intro':
+    'آپ کا ڈیٹا کبھی اس ڈیوائس سے باہر نہیں جاتا۔ سائٹ ڈیٹا صاف کرنے یا فون بدلنے سے پہلے بیک اپ فائل ' +
+    'رکھیں۔',
+  'backup.json': 'بیک اپ (JSON)',
+  'backup.entriesCsv': '{name} کے اندراجات CSV',
+  'backup.dailyCsv': '{name} کا روزانہ میزان CSV',
+  'backup.restore': 'بحال کریں…',
+  'backup.contents':
+    '{profiles} پروفائل، {entries} اندراجات، {foods} محفوظ کھانے، {recipes} تراکیب، پانی اور وزن کے ' +
+    '{body} دن، {goals} ہدف پروفائلز، {favourites} ستارہ لگے کھانے اور {fasting} روزے کے نظام الاوقات۔',
+  'backup.exportedOn': '{date} کو ایکسپورٹ کیا گیا۔',
+  'backup.duplicates': '{count} پہلے سے اس ڈیوائس پر موجود ہیں۔',
+  'backup.merge': 'ملائیں (میرا رکھیں)',
+  'backup.replace': 'سب کچھ بدل دیں',
+  'backup.restored': 'بیک اپ سے {count} اندراجات بحال کیے گئے۔',
+  'backup.merged': '{count} نئے اندراجات ملائے گئے۔',
+  'backup.failed': 'امپورٹ ناکام رہا۔ کچھ نہیں بدلا۔',
+  'backup.unreadable': 'یہ بیک اپ پڑھا نہیں جا سکا۔',
+  'backup.invalidJson': 'یہ فائل درست JSON نہیں ہے۔',
+  'backup.notBackup': 'یہ فائل LocalPlate بیک اپ نہیں ہے۔',
+  'backup.tooNew': 'یہ بیک اپ LocalPlate کے نئے ورژن سے بنا ہے۔ ایپ اپڈیٹ کر کے دوبارہ کوشش کریں۔',
+  'backup.badLogs': 'بیک اپ میں خراب اندراجات ہیں۔',
+
+  'reminder.title': 'یاد دہانیاں',
+  'reminder.intro':
+    'کسی سرور کے بغیر اسی ڈیوائس پر طے ہوتی ہیں۔ یہ تب دکھتی ہیں جب LocalPlate کھلا ہو یا پس منظر میں چل ' +
+    'رہا ہو۔',
+  'reminder.unsupported': 'یہ براؤزر اطلاعات نہیں دکھا سکتا۔',
+  'reminder.blocked': 'اطلاعات بند ہیں۔ براؤزر کی ترتیبات میں انہیں اجازت دیں۔',
+  'reminder.allow': 'اطلاعات کی اجازت دیں',
+  'reminder.mealLog': 'لاگ کریں',
+  'reminder.mealSlot': 'کس کھانے کی یاد دلائیں',
+  'reminder.mealBy': 'اس وقت تک',
+  'reminder.mealTime': 'کھانے کی یاد دہانی کا وقت',
+  'reminder.water': 'پانی، ہر',
+  'reminder.waterHours': 'پانی کی یاد دہانیوں کے درمیان گھنٹے',
+  'reminder.hours': '{count} گھنٹے',
+  'reminder.from': 'آغاز',
+  'reminder.to': 'اختتام',
+  'reminder.waterFirst': 'پانی کی پہلی یاد دہانی',
+  'reminder.waterLast': 'پانی کی آخری یاد دہانی',
+  'reminder.summary': 'دن کا خلاصہ، وقت',
+  'reminder.summaryTime': 'دن کے خلاصے کا وقت',
+  'reminder.quiet': 'خاموش اوقات، آغاز',
+  'reminder.quietStart': 'خاموش اوقات کا آغاز',
+  'reminder.quietEnd': 'خاموش اوقات کا اختتام',
+  'reminder.mealTitle': 'اپنا {meal} لاگ کریں',
+  'reminder.mealBody': 'آج ابھی تک {meal} کے لیے کچھ لاگ نہیں ہوا۔',
+  'reminder.waterTitle': 'ایک گلاس پانی کا وقت',
+  'reminder.waterBody': 'آج اب تک {target} میں سے {amount} ml۔',
+  'reminder.summaryTitle': 'آج کا میزان',
+  'reminder.summaryBody':
+    '{caloriesTarget} میں سے {calories} kcal · پروٹین {protein}/{proteinTarget} g · کاربس ' +
+    '{carbs}/{carbsTarget} g · چکنائی {fats}/{fatsTarget} g · پانی {water}/{waterTarget} ml',
+
+  'history.title': 'تاریخ',
+  'history.intro':
+    '{start} سے {end} تک۔ اوسط میں صرف لاگ کیے گئے دن گنے جاتے ہیں؛ ہدف پر کا مطلب کیلوری کے ہدف کے 10% ' +
+    'کے اندر۔',
+  'history.days': '{count} دن',
+  'history.avgCalories': 'اوسط کیلوریز',
+  'history.avgProtein': 'اوسط پروٹین',
+  'history.avgCarbs': 'اوسط کاربس',
+  'history.avgFats': 'اوسط چکنائی',
+  'history.onTarget': 'ہدف پر',
+  'history.daysLogged': 'لاگ کیے گئے دن',
+  'history.currentStreak': 'موجودہ سلسلہ',
+  'history.bestStreak': 'بہترین سلسلہ',
+  'history.streak': '{count} دن',
+  'history.calories': 'روزانہ کیلوریز',
+  'history.average': '7 دن کا اوسط',
+  'history.target': 'ہدف',
+  'history.caloriesChart': 'روزانہ کیلوریز کا چارٹ',
+  'history.dayCalories': '{date}: {target} میں سے {calories} kcal',
+  'history.macros': 'روزانہ میکروز (g)',
+  'history.macrosChart': 'روزانہ میکروز کا چارٹ',
+  'history.weight': 'وزن (kg)',
+  'history.weighIns': 'وزن کی پیمائش',
+  'history.trend': 'ہموار رجحان',
+  'history.latestTrend': '{date} کو رجحان {weight} kg',
+  'history.noWeight': 'اس مدت میں وزن کی کوئی پیمائش نہیں۔ رجحان دیکھنے کے لیے روزانہ لاگ میں اپنا وزن شامل کریں۔',
+  'history.weightChart': 'وزن کے رجحان کا چارٹ',
+  'history.weighIn': '{date}: {weight} kg (رجحان {trend})',
+
+  'report.back': '← لاگ پر واپس',
+  'report.person': 'فرد',
+  'report.from': 'سے',
+  'report.to': 'تک',
+  'report.print': 'پرنٹ کریں یا PDF محفوظ کریں',
+
+  'barcode.title': 'بارکوڈ سے پیک شدہ کھانا',
+  'barcode.intro': 'لکیروں کے نیچے لکھا نمبر ٹائپ کریں۔',
+  'barcode.introPhoto': 'لکیروں کے نیچے لکھا نمبر ٹائپ کریں یا ان کی تصویر لیں۔',
+  'barcode.dataset': 'مصنوعات اس ڈیوائس پر رکھے ڈیٹاسیٹ میں تلاش کی جاتی ہیں۔',
+  'barcode.datasetCount': 'مصنوعات اس ڈیوائس پر رکھے ڈیٹاسیٹ میں تلاش کی جاتی ہیں ({count} مصنوعات)۔',
+  'barcode.code': 'بارکوڈ',
+  'barcode.lookUp': 'تلاش کریں',
+  'barcode.photo': 'تصویر…',
+  'barcode.noPhoto': 'یہ براؤزر تصویروں سے بارکوڈ نہیں پڑھ سکتا، اس لیے نمبر ٹائپ کریں۔ Android پر Chrome پڑھ سکتا ہے۔',
+  'barcode.local': 'اس ڈیوائس پر درج',
+  'barcode.per100g': 'فی 100 g',
+  'barcode.perServing': 'فی {serving}',
+  'barcode.calories': 'kcal',
+  'barcode.protein': 'پروٹین g',
+  'barcode.carbs': 'کاربس g',
+  'barcode.fats': 'چکنائی g',
+  'barcode.log': 'لاگ کریں',
+  'barcode.missing':
+    '{barcode} ابھی مصنوعات کے ڈیٹا میں نہیں ہے۔ پیکٹ کے غذائی لیبل سے ایک بار درج کر دیں، اگلی بار مل ' +
+    'جائے گا۔',
+  'barcode.brand': 'برانڈ',
+  'barcode.perLabel': 'فی 100 g، جیسا لیبل پر چھپا ہے',
+  'barcode.serving': 'سرونگ (اختیاری)',
+  'barcode.servingPlaceholder': '2 بسکٹ',
+  'barcode.servingGrams': 'سرونگ کا وزن (g)',
+  'barcode.save': 'پروڈکٹ محفوظ کریں',
+  'barcode.import': 'مصنوعات کا ڈیٹا امپورٹ کریں…',
+  'barcode.importHint': 'Open Food Facts کے JSONL یا CSV حصے جوں کے توں چلتے ہیں۔',
+  'barcode.invalid': 'یہ درست EAN یا UPC بارکوڈ نہیں ہے۔ لکیروں کے نیچے کے ہندسے دیکھ لیں۔',
+  'barcode.lookupFailed': 'تلاش ناکام رہی۔ دوبارہ کوشش کریں۔',
+  'barcode.notInPhoto': 'اس تصویر میں کوئی بارکوڈ نہیں ملا۔ قریب سے صاف تصویر لیں یا نمبر ٹائپ کریں۔',
+  'barcode.photoFailed': 'یہ تصویر پڑھی نہیں جا سکی۔',
+  'barcode.imported': '{count} مصنوعات امپورٹ کی گئیں۔',
+  'barcode.kept': 'آپ کی خود درج کردہ {count} رکھی گئیں۔',
+  'barcode.skipped': 'بارکوڈ، نام یا درست توانائی اور میکرو قدروں کے بغیر {count} قطاریں چھوڑ دی گئیں۔',
+  'barcode.unreadable': 'یہ فائل درست JSON، JSON Lines یا CSV نہیں ہے۔',
+  'barcode.empty': 'اس فائل میں بارکوڈ، نام اور فی 100 g توانائی والی کوئی پروڈکٹ نہیں ملی۔',
+  'barcode.logged': '{name} لاگ کر دیا گیا۔',
+  'barcode.saved': 'محفوظ ہو گیا۔ اب سے یہ بارکوڈ اسے ڈھونڈ لے گا۔',
+  'barcode.saveFailed': 'یہ پروڈکٹ محفوظ نہیں ہو سکی۔',
+
+  'fasting.title': 'روزہ',
+  'fasting.intro':
+    'وقفے والا روزہ، رمضان، نوراتری، ایکادشی یا ہفتہ وار ورت۔ سورج کے اوقات اسی ڈیوائس پر نکالے جاتے ہیں۔',
+  'fasting.toggle': '{name} چالو',
+  'fasting.range': '{start} سے {end} تک',
+  'fasting.vratFoods': 'ورت کے کھانے',
+  'fasting.preset': 'روزے کی قسم',
+  'fasting.add': 'روزہ شامل کریں',
+  'fasting.everyDay': 'ہر دن',
+  'fasting.noWeekdays': 'کوئی دن نہیں',
+  'fasting.oneDate': '1 منتخب تاریخ',
+  'fasting.chosenDates': '{count} منتخب تاریخیں',
+  'fasting.eatWindow': 'کھانا {from}–{until}',
+  'fasting.fromDawn': '{place} میں فجر سے غروب تک',
+  'fasting.fromSunrise': '{place} میں طلوع سے غروب تک',
+  'fasting.unknownPlace': 'نامعلوم جگہ',
+  'fasting.defaultName': 'روزہ',
+  'fasting.days': 'روزے کے دن',
+  'fasting.weekly': 'مخصوص دن',
+  'fasting.dates': 'منتخب تاریخیں',
+  'fasting.addDate': 'تاریخ شامل کریں',
+  'fasting.removeDate': '{date} ہٹائیں',
+  'fasting.from': 'سے (اختیاری)',
+  'fasting.until': 'تک (اختیاری)',
+  'fasting.noFood': 'کھانے سے پرہیز',
+  'fasting.eatFrom': 'کھانا شروع',
+  'fasting.eatUntil': 'کھانا بند',
+  'fasting.city': 'شہر',
+  'fasting.startsAt': 'آغاز',
+  'fasting.dawn': 'فجر (سورج افق سے 18° نیچے)',
+  'fasting.sunrise': 'طلوعِ آفتاب',
+  'fasting.preview': '{date} کو: {start} سے {end} تک کوئی کھانا نہیں۔',
+  'fasting.vrat': 'مذہبی روزہ: فہرست میں ورت (اپواس) کے کھانے دکھائیں',
+  'fasting.save': 'روزہ محفوظ کریں',
+
+  'fastWindow.eating-window': 'کھانے کا وقت (وقفے والا روزہ)',
+  'fastWindow.daylight': 'فجر یا طلوع سے غروب تک',
+  'fastWindow.all-day': 'پورا دن',
+  'fastWindow.food-only': 'وقت کی کوئی حد نہیں، صرف ورت کے کھانے',
+
+  'fastPreset.16-8': 'وقفے والا روزہ 16:8',
+  'fastPreset.ramadan': 'رمضان (فجر سے غروب)',
+  'fastPreset.navratri': 'نوراتری (نو دن، ورت کے کھانے)',
+  'fastPreset.ekadashi': 'ایکادشی (منتخب تاریخیں)',
+  'fastPreset.weekly': 'ہفتہ وار ورت (طلوع سے غروب)',
+
+  'fastName.16-8': 'وقفے والا روزہ 16:8',
+  'fastName.ramadan': 'رمضان',
+  'fastName.navratri': 'نوراتری',
+  'fastName.ekadashi': 'ایکادشی',
+  'fastName.weekly': '{day} کا ورت',
+
+  'sync.title': 'خفیہ کردہ سنک',
+  'sync.intro':
+    'اختیاری۔ اندراجات اس ڈیوائس سے نکلنے سے پہلے آپ کے پاس فریز سے خفیہ کیے جاتے ہیں؛ سرور کو صرف ' +
+    'ناقابلِ مطالعہ ڈیٹا نظر آتا ہے۔ ہر ڈیوائس پر وہی والٹ آئی ڈی اور پاس فریز استعمال کریں۔',
+  'sync.lastSynced': 'آخری سنک {time}۔',
+  'sync.notSynced': 'ابھی سنک نہیں ہوا۔',
+  'sync.pending': '{count} تبدیلیاں اپ لوڈ کی منتظر ہیں۔',
+  'sync.syncing': 'سنک ہو رہا ہے…',
+  'sync.now': 'ابھی سنک کریں',
+  'sync.turnOff': 'بند کریں',
+  'sync.server': 'سرور کا پتہ',
+  'sync.vaultId': 'والٹ آئی ڈی',
+  'sync.newVault': 'نیا',
+  'sync.passphrase': 'پاس فریز',
+  'sync.passphraseWarning': 'پاس فریز بازیافت نہیں ہو سکتا۔ اسے کھو دیا تو سنک شدہ نقل پڑھی نہیں جا سکے گی۔',
+  'sync.connecting': 'جڑ رہا ہے…',
+  'sync.turnOn': 'سنک آن کریں',
+  'sync.enabled': 'سنک آن ہے۔ {pushed} تبدیلیاں بھیجی گئیں اور {pulled} موصول ہوئیں۔',
+  'sync.disabled': 'سنک بند ہے۔ آپ کے اندراجات اسی ڈیوائس پر رہیں گے۔',
+  'sync.missingSettings': 'سرور کا پتہ اور والٹ آئی ڈی درج کریں۔',
+  'sync.badVaultId': 'والٹ آئی ڈی 8 سے 128 حروف، ہندسوں، ڈیش یا انڈر اسکور پر مشتمل ہوتی ہے۔',
+  'sync.shortPassphrase': 'کم از کم 8 حروف کا پاس فریز استعمال کریں۔',
+  'sync.notSetUp': 'اس ڈیوائس پر سنک سیٹ نہیں ہے۔',
+  'sync.unreachable': 'سنک سرور تک رسائی نہیں ہو سکی۔',
+  'sync.serverError': 'سنک سرور نے خرابی لوٹائی۔ بعد میں دوبارہ کوشش کریں۔',
+  'sync.wrongPassphrase': 'سنک شدہ ڈیٹا ڈی کرپٹ نہیں ہو سکا۔ اس والٹ کا پاس فریز چیک کریں۔',
+  'sync.failed': 'سنک ناکام رہا۔ آپ کی تبدیلیاں اس ڈیوائس پر محفوظ ہیں۔',
+
+  'unit.serving': 'سرونگ'
+};
@@ -0,0 +1,348 @@
+import { DEFAULT_DAY_START_HOUR, loggedTimeInput } from './day';
+import {
+  TRASH_RETENTION_OPTIONS,
+  getTrashRetentionDays,
+  listFastingSchedules,
+  listFavouriteKeys,
+  normalizeLogEntry,
+  putFastingSchedules,
+  putFavouriteKeys,
+  readSnapshot,
+  setTrashRetentionDays,
+  writeSnapshot,
+  type DataSnapshot,
+  type LogEntry
+} from './db';
+import type { FastingSchedule } from './fasting';
+import { LOCALES, getStoredLocale, putStoredLocale, type Locale } from './i18n';
+import { DEFAULT_PROFILE_ID, defaultProfile, type Profile } from './profiles';
+import { MICRO_KEYS, MICRONUTRIENTS, sumMicros } from './nutrients';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  getReminderSettings,
+  putReminderSettings,
+  type ReminderSettings
+} from './reminders';
+import { sumMacros } from './utils';
+
+export const BACKUP_FORMAT = 'localplate-backup';
+/**
+ * 2 added saved custom foods, 3 added recipes, 4 added water, weight and waist logs, 5 added
+ * profiles, 6 added each entry's UTC offset and each profile's day start hour, 7 added
+ * favourites, fasting schedules and the device settings.
+ */
+export const BACKUP_VERSION = 7;
+
+/** Device settings kept in the meta store. Sync credentials are left out on purpose. */
+export interface BackupSettings {
+  reminders?: ReminderSettings;
+  trashRetentionDays?: number;
+  locale?: Locale;
+}
+
+export interface BackupFile extends DataSnapshot {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  /** Starred foods by profile id. */
+  favourites: Record<string, string[]>;
+  /** Fasting schedules by profile id. */
+  fasting: Record<string, FastingSchedule[]>;
+  settings: BackupSettings;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportPreview {
+  profileCount: number;
+  logCount: number;
+  goalCount: number;
+  foodCount: number;
+  recipeCount: number;
+  bodyCount: number;
+  favouriteCount: number;
+  fastingCount: number;
+  /** Entries in the file whose `id` already exists on this device. */
+  duplicateIds: string[];
+}
+
+export async function createBackup(): Promise<BackupFile> {
+  const snapshot = await readSnapshot();
+  const profileIds = snapshot.profiles.map((profile) => profile.id);
+  const [favourites, fasting, reminders, trashRetentionDays, locale] = await Promise.all([
+    Promise.all(profileIds.map(listFavouriteKeys)),
+    Promise.all(profileIds.map(listFastingSchedules)),
+    getReminderSettings(),
+    getTrashRetentionDays(),
+    getStoredLocale()
+  ]);
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...snapshot,
+    favourites: Object.fromEntries(profileIds.map((id, index) => [id, favourites[index]])),
+    fasting: Object.fromEntries(profileIds.map((id, index) => [id, fasting[index]])),
+    settings: { reminders, trashRetentionDays, locale: locale ?? undefined }
+  };
+}
+
+const withProfile = <T extends { profileId?: string }>(record: T): T & { profileId: string } => ({
+  ...record,
+  profileId: record.profileId ?? DEFAULT_PROFILE_ID
+});
+
+const withDayStart = (profile: Profile): Profile => ({
+  ...profile,
+  dayStartHour: profile.dayStartHour ?? DEFAULT_DAY_START_HOUR
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+/** Keeps the per-profile lists that are arrays; a hand-edited file can't break the settings. */
+function byProfile<T>(value: unknown): Record<string, T[]> {
+  return isRecord(value)
+    ? Object.fromEntries(Object.entries(value).filter((pair): pair is [string, T[]] => Array.isArray(pair[1])))
+    : {};
+}
+
+function parseSettings(value: unknown): BackupSettings {
+  if (!isRecord(value)) return {};
+  const { reminders, trashRetentionDays, locale } = value;
+  return {
+    reminders:
+      isRecord(reminders) && Object.keys(DEFAULT_REMINDER_SETTINGS).every((key) => isRecord(reminders[key]))
+        ? (reminders as unknown as ReminderSettings)
+        : undefined,
+    trashRetentionDays:
+      typeof trashRetentionDays === 'number' && TRASH_RETENTION_OPTIONS.includes(trashRetentionDays)
+        ? trashRetentionDays
+        : undefined,
+    locale: LOCALES.find((item) => item.id === locale)?.id
+  };
+}
+
+function isLogEntry(value: unknown): value is LogEntry {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.id === 'string' &&
+    typeof entry.name === 'string' &&
+    typeof entry.createdAt === 'string' &&
+    !Number.isNaN(Date.parse(entry.createdAt)) &&
+    ['calories', 'protein', 'carbs', 'fats', 'quantity'].every((key) => typeof entry[key] === 'number')
+  );
+}
+
+export type BackupProblem = 'invalidJson' | 'notBackup' | 'tooNew' | 'badLogs';
+
+/** Thrown by `parseBackup`; `problem` lets the backup panel explain it in the reader's language. */
+export class BackupParseError extends Error {
+  constructor(
+    readonly problem: BackupProblem,
+    message: string
+  ) {
+    super(message);
+    this.name = 'BackupParseError';
+  }
+}
+
+export function parseBackup(text: string): BackupFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BackupParseError('invalidJson', 'This file is not valid JSON.');
+  }
+
+  const data = raw as Partial<BackupFile> | null;
+  if (!data || data.format !== BACKUP_FORMAT) {
+    throw new BackupParseError('notBackup', 'This file is not a LocalPlate backup.');
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new BackupParseError(
+      'tooNew',
+      'This backup was made by a newer version of LocalPlate. Update the app and try again.'
+    );
+  }
+  if (!Array.isArray(data.logs) || !data.logs.every(isLogEntry)) {
+    throw new BackupParseError('badLogs', 'The backup contains malformed log entries.');
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: data.version,
+    exportedAt: data.exportedAt ?? '',
+    profiles:
+      Array.isArray(data.profiles) && data.profiles.length > 0 ? data.profiles.map(withDayStart) : [defaultProfile()],
+    logs: data.logs.map(normalizeLogEntry),
+    goals: Array.isArray(data.goals) ? data.goals.map(withProfile) : [],
+    foods: Array.isArray(data.foods) ? data.foods : [],
+    recipes: Array.isArray(data.recipes) ? data.recipes : [],
+    body: Array.isArray(data.body) ? data.body.map(withProfile) : [],
+    favourites: byProfile<string>(data.favourites),
+    fasting: byProfile<FastingSchedule>(data.fasting),
+    settings: parseSettings(data.settings)
+  };
+}
+
+export async function previewImport(backup: BackupFile): Promise<ImportPreview> {
+  const current = await readSnapshot();
+  const existing = new Set(current.logs.map((entry) => entry.id));
+  return {
+    profileCount: backup.profiles.length,
+    logCount: backup.logs.length,
+    goalCount: backup.goals.length,
+    foodCount: backup.foods.length,
+    recipeCount: backup.recipes.length,
+    bodyCount: backup.body.length,
+    favouriteCount: Object.values(backup.favourites).reduce((sum, keys) => sum + keys.length, 0),
+    fastingCount: Object.values(backup.fasting).reduce((sum, schedules) => sum + schedules.length, 0),
+    duplicateIds: backup.logs.filter((entry) => existing.has(entry.id)).map((entry) => entry.id)
+  };
+}
+
+/** Restores the backup's settings. Backups older than version 7 have none, so nothing changes. */
+async function restoreSettings({ reminders, trashRetentionDays, locale }: BackupSettings): Promise<void> {
+  await Promise.all([
+    reminders ? putReminderSettings(reminders) : undefined,
+    trashRetentionDays ? setTrashRetentionDays(trashRetentionDays) : undefined,
+    locale ? putStoredLocale(locale) : undefined
+  ]);
+}
+
+/**
+ * `replace` wipes this device, change history and pending deletions included, and restores the
+ * backup as-is with its settings. `merge` adds everything new and keeps the local copy of any
+ * entry, goal profile, saved food, recipe or body log that exists on both sides; favourites and
+ * fasting schedules are added to the local ones, and this device's settings stay as they are.
+ */
+export async function importBackup(backup: BackupFile, mode: ImportMode): Promise<void> {
+  if (mode === 'replace') {
+    await writeSnapshot(backup, { replace: true });
+    await Promise.all(
+      backup.profiles.flatMap((profile) => [
+        putFavouriteKeys(profile.id, backup.favourites[profile.id] ?? []),
+        putFastingSchedules(profile.id, backup.fasting[profile.id] ?? [])
+      ])
+    );
+    await restoreSettings(backup.settings);
+    return;
+  }
+
+  const current = await readSnapshot();
+  const profileIds = new Set(current.profiles.map((profile) => profile.id));
+  const logIds = new Set(current.logs.map((entry) => entry.id));
+  const goalKeys = new Set(current.goals.map((profile) => `${profile.profileId}/${profile.effectiveFrom}`));
+  const foodIds = new Set(current.foods.map((food) => food.id));
+  const recipeIds = new Set(current.recipes.map((recipe) => recipe.id));
+  const bodyDates = new Set(current.body.map((log) => `${log.profileId}/${log.dateKey}`));
+  await writeSnapshot(
+    {
+      profiles: backup.profiles.filter((profile) => !profileIds.has(profile.id)),
+      logs: backup.logs.filter((entry) => !logIds.has(entry.id)),
+      goals: backup.goals.filter((profile) => !goalKeys.has(`${profile.profileId}/${profile.effectiveFrom}`)),
+      foods: backup.foods.filter((food) => !foodIds.has(food.id)),
+      recipes: backup.recipes.filter((recipe) => !recipeIds.has(recipe.id)),
+      body: backup.body.filter((log) => !bodyDates.has(`${log.profileId}/${log.dateKey}`))
+    },
+    { replace: false }
+  );
+  await Promise.all(
+    backup.profiles.map(async ({ id }) => {
+      const [favourites, schedules] = await Promise.all([listFavouriteKeys(id), listFastingSchedules(id)]);
+      const newFavourites = (backup.favourites[id] ?? []).filter((key) => !favourites.includes(key));
+      const scheduleIds = new Set(schedules.map((schedule) => schedule.id));
+      const newSchedules = (backup.fasting[id] ?? []).filter((schedule) => !scheduleIds.has(schedule.id));
+      await Promise.all([
+        newFavourites.length > 0 ? putFavouriteKeys(id, [...favourites, ...newFavourites]) : undefined,
+        newSchedules.length > 0 ? putFastingSchedules(id, [...schedules, ...newSchedules]) : undefined
+      ]);
+    })
+  );
+}
+
+function csvCell(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: (string | number | undefined)[][]): string {
+  return rows.map((row) => row.map(csvCell).join(',')).join('\r\n');
+}
+
+const microHeaders = MICRONUTRIENTS.map((info) => `${info.key}_${info.unit}`);
+
+export function entriesToCsv(entries: LogEntry[]): string {
+  return toCsv([
+    [
+      'date',
+      'time',
+      'meal',
+      'name',
+      'quantity',
+      'unit',
+      'grams',
+      'calories',
+      'protein_g',
+      'carbs_g',
+      'fats_g',
+      ...microHeaders,
+      'notes'
+    ],
+    ...entries.map((entry) => [
+      entry.dateKey,
+      loggedTimeInput(entry),
+      entry.mealSlot,
+      entry.name,
+      entry.quantity,
+      entry.unit,
+      entry.grams,
+      entry.calories,
+      entry.protein,
+      entry.carbs,
+      entry.fats,
+      ...MICRO_KEYS.map((key) => entry.micros?.[key]),
+      entry.notes
+    ])
+  ]);
+}
+
+export function dailyTotalsToCsv(entries: LogEntry[]): string {
+  const byDate = new Map<string, LogEntry[]>();
+  entries.forEach((entry) => byDate.set(entry.dateKey, [...(byDate.get(entry.dateKey) ?? []), entry]));
+
+  return toCsv([
+    ['date', 'entries', 'calories', 'protein_g', 'carbs_g', 'fats_g', ...microHeaders],
+    ...Array.from(byDate.keys())
+      .sort()
+      .map((dateKey) => {
+        const dayEntries = byDate.get(dateKey) ?? [];
+        const totals = sumMacros(dayEntries);
+        const micros = sumMicros(dayEntries);
+        return [
+          dateKey,
+          dayEntries.length,
+          totals.calories,
+          totals.protein,
+          totals.carbs,
+          totals.fats,
+          // Blank rather than a misleading partial sum when any entry lacks the nutrient.
+          ...MICRO_KEYS.map((key) => (micros[key].missing === 0 ? micros[key].value : undefined))
+        ];
+      })
+  ]);
+}
+
+/** Saves `content` through a temporary object URL, so it works without any network access. */
+export function downloadFile(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,61 @@
+import { addDays } from './utils';
+
+/** Water, weight and waist for one person on one day, keyed by profile and local `dateKey`. */
+export interface BodyLog {
+  profileId: string;
+  dateKey: string;
+  waterMl: number;
+  weightKg?: number;
+  waistCm?: number;
+  updatedAt: string;
+}
+
+export const GLASS_ML = 250;
+export const WATER_TARGET_ML = 2000;
+
+/**
+ * Share of each new weigh-in that moves the trend. Daily weight swings by a kilo or more with
+ * water and salt, so a slow average shows the real direction.
+ */
+export const TREND_SMOOTHING = 0.1;
+
+export interface WeightPoint {
+  dateKey: string;
+  weightKg: number;
+  trendKg: number;
+}
+
+export function emptyBodyLog(profileId: string, dateKey: string): BodyLog {
+  return { profileId, dateKey, waterMl: 0, updatedAt: new Date().toISOString() };
+}
+
+const daysBetween = (from: string, to: string) => {
+  let days = 0;
+  for (let key = from; key < to && days < 366; key = addDays(key, 1)) {
+    days += 1;
+  }
+  return days;
+};
+
+/**
+ * Exponentially smoothed weight. Gaps between weigh-ins count as that many days of smoothing,
+ * so a reading after a week away pulls the trend further than one taken the next morning.
+ */
+export function weightTrend(logs: BodyLog[], smoothing = TREND_SMOOTHING): WeightPoint[] {
+  const weighIns = logs
+    .filter((log): log is BodyLog & { weightKg: number } => typeof log.weightKg === 'number' && log.weightKg > 0)
+    .sort((a, b) => a.dateKey.localeCompare(b.dateKey));
+
+  const points: WeightPoint[] = [];
+  weighIns.forEach((log, index) => {
+    const previous = points[index - 1];
+    if (!previous) {
+      points.push({ dateKey: log.dateKey, weightKg: log.weightKg, trendKg: log.weightKg });
+      return;
+    }
+    const weight = 1 - (1 - smoothing) ** Math.max(1, daysBetween(previous.dateKey, log.dateKey));
+    const trendKg = previous.trendKg + weight * (log.weightKg - previous.trendKg);
+    points.push({ dateKey: log.dateKey, weightKg: log.weightKg, trendKg: Math.round(trendKg * 100) / 100 });
+  });
+  return points;
+}
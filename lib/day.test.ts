@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { dayKeyFor, instantOnDay, logTimestamp } from './day';
+
+/**
+ * DST behaviour of the nutritional day. US Eastern springs forward at 02:00 on 2026-03-08 and
+ * falls back at 02:00 on 2026-11-01. Run with a TypeScript loader, e.g.
+ * `node -r sucrase/register/ts --test lib/day.test.ts`.
+ */
+
+before(() => {
+  process.env.TZ = 'America/New_York';
+});
+
+const wallClock = (date: Date) => `${date.getHours()}:${date.getMinutes().toString().padStart(2, '0')}`;
+
+describe('dayKeyFor', () => {
+  it('counts hours before the day start towards the previous day', () => {
+    assert.equal(dayKeyFor(new Date(2026, 2, 8, 1, 30), 3), '2026-03-07');
+    assert.equal(dayKeyFor(new Date(2026, 2, 8, 3, 0), 3), '2026-03-08');
+  });
+
+  it('files both 01:30s of fall-back night under the same day', () => {
+    const first = new Date('2026-11-01T05:30:00Z');
+    const second = new Date('2026-11-01T06:30:00Z');
+    assert.equal(wallClock(first), '1:30');
+    assert.equal(wallClock(second), '1:30');
+    assert.equal(dayKeyFor(first, 2), '2026-10-31');
+    assert.equal(dayKeyFor(second, 2), '2026-10-31');
+    assert.equal(dayKeyFor(first, 0), '2026-11-01');
+  });
+});
+
+describe('instantOnDay', () => {
+  it('moves a midnight-start time in the spring-forward gap forward within its day', () => {
+    const instant = instantOnDay('2026-03-08', '02:30:00', 0);
+    assert.equal(wallClock(instant), '3:30');
+    assert.equal(dayKeyFor(instant, 0), '2026-03-08');
+  });
+
+  it('keeps a gap time before a 3 a.m. day start in the day it was picked for', () => {
+    const instant = instantOnDay('2026-03-07', '02:30:00', 3);
+    assert.equal(dayKeyFor(instant, 3), '2026-03-07');
+    assert.ok(instant < new Date(2026, 2, 8, 3, 0));
+  });
+
+  it('moves a gap time forward when the day starts inside the gap', () => {
+    const instant = instantOnDay('2026-03-08', '02:30:00', 2);
+    assert.equal(wallClock(instant), '3:30');
+    assert.equal(dayKeyFor(instant, 2), '2026-03-08');
+  });
+
+  it('puts an early-morning time on the next calendar date of the nutritional day', () => {
+    const instant = instantOnDay('2026-10-31', '01:30:00', 2);
+    assert.equal(wallClock(instant), '1:30');
+    assert.equal(instant.getDate(), 1);
+    assert.equal(dayKeyFor(instant, 2), '2026-10-31');
+  });
+
+  it('round-trips every time of day across both transitions', () => {
+    for (const dateKey of ['2026-03-07', '2026-03-08', '2026-10-31', '2026-11-01']) {
+      for (const dayStartHour of [0, 2, 3, 6]) {
+        for (let hour = 0; hour < 24; hour += 1) {
+          const time = `${hour.toString().padStart(2, '0')}:30:00`;
+          const instant = instantOnDay(dateKey, time, dayStartHour);
+          assert.equal(dayKeyFor(instant, dayStartHour), dateKey, `${dateKey} ${time} from ${dayStartHour}:00`);
+        }
+      }
+    }
+  });
+});
+
+describe('logTimestamp', () => {
+  it('uses the current instant when logging into the current day', () => {
+    const now = new Date(2026, 2, 8, 1, 15);
+    assert.equal(logTimestamp('2026-03-07', 3, now), now);
+  });
+
+  it('copies the time of day onto an earlier day', () => {
+    const now = new Date(2026, 2, 9, 12, 0);
+    const stamped = logTimestamp('2026-03-08', 0, now);
+    assert.equal(wallClock(stamped), '12:00');
+    assert.equal(dayKeyFor(stamped, 0), '2026-03-08');
+  });
+});
@@ -0,0 +1,71 @@
+import { addDays, formatDateKey } from './utils';
+
+/**
+ * Which nutritional day an entry counts towards. The day is decided once, when the entry is
+ * logged, and stored as `dateKey` together with the UTC offset at that moment. Nothing later
+ * re-derives it from `createdAt`, so travel and DST changes never move entries between days.
+ */
+
+/** Local hour the nutritional day starts at; a 1 a.m. meal on a night shift can count as "today". */
+export const DEFAULT_DAY_START_HOUR = 0;
+export const DAY_START_HOURS = [0, 1, 2, 3, 4, 5, 6];
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/** Minutes east of UTC on this device at `date`, e.g. 330 for IST. */
+export const utcOffsetAt = (date: Date) => -date.getTimezoneOffset();
+
+/** The nutritional day `date` falls in. Compares wall-clock hours, so a DST jump cannot shift it. */
+export function dayKeyFor(date: Date, dayStartHour: number): string {
+  const calendarKey = formatDateKey(date);
+  return date.getHours() < dayStartHour ? addDays(calendarKey, -1) : calendarKey;
+}
+
+/**
+ * The instant of wall-clock `HH:MM[:SS]` within nutritional day `dateKey`. Times before the start
+ * hour belong to the next calendar morning. Built from parts rather than parsing a string, so a
+ * time inside a DST gap moves forward instead of becoming an invalid date. When that move would
+ * cross the next day start (02:30 with a 3 a.m. start on spring-forward night), the time is
+ * clamped to the last second of `dateKey` instead.
+ */
+export function instantOnDay(dateKey: string, time: string, dayStartHour: number): Date {
+  const [hours, minutes, seconds = 0] = time.split(':').map(Number);
+  const calendarKey = hours < dayStartHour ? addDays(dateKey, 1) : dateKey;
+  const [year, month, day] = calendarKey.split('-').map(Number);
+  const instant = new Date(year, month - 1, day, hours, minutes, seconds);
+  if (dayKeyFor(instant, dayStartHour) === dateKey) return instant;
+
+  const [nextYear, nextMonth, nextDay] = addDays(dateKey, 1).split('-').map(Number);
+  return new Date(new Date(nextYear, nextMonth - 1, nextDay, dayStartHour).getTime() - 1000);
+}
+
+export const timeOfDay = (date: Date) => `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+
+/**
+ * When an entry logged now into `dateKey` happened: right now if that is the current day,
+ * otherwise the same time of day on `dateKey` (logging yesterday's lunch after the fact).
+ */
+export function logTimestamp(dateKey: string, dayStartHour: number, now = new Date()): Date {
+  if (dayKeyFor(now, dayStartHour) === dateKey) return now;
+  return instantOnDay(dateKey, timeOfDay(now), dayStartHour);
+}
+
+/** The `createdAt` instant as the wall clock read where it was logged, as a UTC-field Date. */
+function loggedWallClock(createdAt: string, utcOffset: number): Date {
+  return new Date(Date.parse(createdAt) + utcOffset * 60 * 1000);
+}
+
+/** `HH:MM` the entry was logged at, in the timezone it was logged in, for `<input type="time">`. */
+export function loggedTimeInput(entry: { createdAt: string; utcOffset: number }): string {
+  const clock = loggedWallClock(entry.createdAt, entry.utcOffset);
+  return `${pad(clock.getUTCHours())}:${pad(clock.getUTCMinutes())}`;
+}
+
+/** Display time of an entry in the timezone it was logged in, wherever the device is now. */
+export function formatLoggedTime(entry: { createdAt: string; utcOffset: number }, locale?: string): string {
+  return loggedWallClock(entry.createdAt, entry.utcOffset).toLocaleTimeString(locale, {
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'UTC'
+  });
+}
@@ -0,0 +1,923 @@
+import { canonicalFoodId, type FoodItem } from '../data/foods';
+import { mealSlotForDate, type MealSlot } from './meals';
+import type { Micronutrients } from './nutrients';
+import { emptyBodyLog, type BodyLog } from './body';
+import { DEFAULT_DAY_START_HOUR, utcOffsetAt } from './day';
+import type { FastingSchedule } from './fasting';
+import type { Product } from './products';
+import { DEFAULT_PROFILE_ID, PROFILE_COLOURS, defaultProfile, type Profile } from './profiles';
+import { quickKey } from './quick-log';
+import type { Recipe } from './recipes';
+import { formatDateKey } from './utils';
+import type { GoalProfile } from './targets';
+
+export interface LogEntry {
+  id: string;
+  /** Household member the entry belongs to; see `lib/profiles`. */
+  profileId: string;
+  name: string;
+  foodId?: string;
+  /** Recipe the entry was logged from; macros are copied so later recipe edits leave it alone. */
+  recipeId?: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fats: number;
+  micros?: Micronutrients;
+  quantity: number;
+  unit: string;
+  /** Normalised weight of `quantity` in `unit`, when the food's weight is known. */
+  grams?: number;
+  createdAt: string;
+  /** Nutritional `YYYY-MM-DD` day the entry counts towards, fixed when logged; see `lib/day`. */
+  dateKey: string;
+  /** Minutes east of UTC where the entry was logged, so its time reads the same after travel. */
+  utcOffset: number;
+  mealSlot: MealSlot;
+  notes?: string;
+  /** Stamped by `putLog`; sync merges by last writer wins on this. */
+  updatedAt?: string;
+}
+
+/** Left behind by `deleteLog` so a deletion can win over an older copy arriving from sync. */
+export interface Tombstone {
+  id: string;
+  deletedAt: string;
+}
+
+/** A deleted entry kept for restoring until the trash is purged; see `purgeExpiredTrash`. */
+export interface TrashedLog extends LogEntry {
+  trashedAt: string;
+}
+
+export type JournalOp = 'create' | 'update' | 'delete' | 'restore';
+
+/** `app` for changes made in this tab, `undo`/`redo` for replays of them, `sync` for other devices. */
+export type JournalSource = 'app' | 'undo' | 'redo' | 'sync';
+
+/** One change to one log entry. The journal is append-only: undoing a change adds another record. */
+export interface JournalRecord {
+  /** Assigned by IndexedDB and increasing, so it orders records written in the same millisecond. */
+  seq: number;
+  at: string;
+  op: JournalOp;
+  source: JournalSource;
+  entryId: string;
+  profileId: string;
+  /** `profileId/dateKey` of the entry before and after, so a move to another day shows up on both. */
+  days: string[];
+  before: LogEntry | null;
+  after: LogEntry | null;
+}
+
+/** A log entry waiting to be pushed; `queuedAt` tells a re-edit apart from the copy already sent. */
+interface OutboxItem {
+  id: string;
+  queuedAt: string;
+}
+
+const DB_NAME = 'localplate';
+const DB_VERSION = 13;
+const LOG_STORE = 'logs';
+const GOAL_STORE = 'goals';
+const FOOD_STORE = 'foods';
+const RECIPE_STORE = 'recipes';
+const TOMBSTONE_STORE = 'tombstones';
+const OUTBOX_STORE = 'outbox';
+const META_STORE = 'meta';
+const BODY_STORE = 'body';
+const PROFILE_STORE = 'profiles';
+const PRODUCT_STORE = 'products';
+const TRASH_STORE = 'trash';
+const JOURNAL_STORE = 'journal';
+const DATE_INDEX = 'dateKey';
+const PROFILE_DATE_INDEX = 'profileDate';
+const PROFILE_INDEX = 'profileId';
+const DAYS_INDEX = 'days';
+const ENTRY_INDEX = 'entryId';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** Fills fields older versions did not write. One pass, so the updates never overwrite each other. */
+function backfillLogEntries(store: IDBObjectStore) {
+  const cursorRequest = store.openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const entry = cursor.value as LogEntry;
+    if (!entry.mealSlot || !entry.dateKey || !entry.profileId || entry.utcOffset === undefined) {
+      cursor.update(normalizeLogEntry(entry));
+    }
+    cursor.continue();
+  };
+}
+
+/**
+ * Completes an entry written by an older version, a backup or another device. The meal slot and
+ * day are inferred from `createdAt` in this device's timezone, and the UTC offset is the one this
+ * timezone had at that instant, which is right unless the entry was logged while travelling.
+ */
+export function normalizeLogEntry(entry: LogEntry): LogEntry {
+  const created = new Date(entry.createdAt);
+  return {
+    ...entry,
+    dateKey: entry.dateKey ?? formatDateKey(created),
+    mealSlot: entry.mealSlot ?? mealSlotForDate(created),
+    profileId: entry.profileId ?? DEFAULT_PROFILE_ID,
+    utcOffset: entry.utcOffset ?? utcOffsetAt(created)
+  };
+}
+
+/** Profiles from before the day start setting start their day at midnight. */
+function backfillProfiles(store: IDBObjectStore) {
+  const cursorRequest = store.openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const profile = cursor.value as Profile;
+    if (profile.dayStartHour === undefined) {
+      cursor.update({ ...profile, dayStartHour: DEFAULT_DAY_START_HOUR });
+    }
+    cursor.continue();
+  };
+}
+
+/** Recreates a store keyed by `[profileId, ...]`, moving its records into the default profile. */
+function rekeyByProfile(db: IDBDatabase, tx: IDBTransaction, storeName: string, keyPath: string[]) {
+  const readRequest = tx.objectStore(storeName).getAll();
+  readRequest.onsuccess = () => {
+    db.deleteObjectStore(storeName);
+    const store = db.createObjectStore(storeName, { keyPath });
+    readRequest.result.forEach((record) => store.put({ ...record, profileId: DEFAULT_PROFILE_ID }));
+  };
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this environment'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(LOG_STORE, { keyPath: 'id' });
+        }
+        if (event.oldVersion < 2) {
+          // Goal profiles are keyed by the first day they apply to, so older days keep their targets.
+          db.createObjectStore(GOAL_STORE, { keyPath: 'effectiveFrom' });
+        }
+        if (event.oldVersion < 4) {
+          request.transaction!.objectStore(LOG_STORE).createIndex(DATE_INDEX, 'dateKey');
+        }
+        if (event.oldVersion < 5) {
+          db.createObjectStore(FOOD_STORE, { keyPath: 'id' });
+        }
+        if (event.oldVersion < 6) {
+          db.createObjectStore(RECIPE_STORE, { keyPath: 'id' });
+        }
+        if (event.oldVersion < 7) {
+          db.createObjectStore(TOMBSTONE_STORE, { keyPath: 'id' });
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+          db.createObjectStore(META_STORE);
+        }
+        if (event.oldVersion < 8) {
+          // One record per day, so the key doubles as the date range index.
+          db.createObjectStore(BODY_STORE, { keyPath: 'dateKey' });
+        }
+        if (event.oldVersion < 9) {
+          const tx = request.transaction!;
+          db.createObjectStore(PROFILE_STORE, { keyPath: 'id' }).put(defaultProfile());
+          const logs = tx.objectStore(LOG_STORE);
+          // Every day query now goes through a profile, so the date-only index has no readers left.
+          logs.deleteIndex(DATE_INDEX);
+          logs.createIndex(PROFILE_DATE_INDEX, ['profileId', 'dateKey']);
+          // Targets and body logs were keyed by date alone; each person now has their own timeline.
+          rekeyByProfile(db, tx, GOAL_STORE, ['profileId', 'effectiveFrom']);
+          rekeyByProfile(db, tx, BODY_STORE, ['profileId', 'dateKey']);
+        }
+        if (event.oldVersion === 9) {
+          backfillProfiles(request.transaction!.objectStore(PROFILE_STORE));
+        }
+        if (event.oldVersion >= 1 && event.oldVersion < 10) {
+          backfillLogEntries(request.transaction!.objectStore(LOG_STORE));
+        }
+        if (event.oldVersion < 11) {
+          db.createObjectStore(PRODUCT_STORE, { keyPath: 'barcode' });
+        }
+        if (event.oldVersion < 12) {
+          db.createObjectStore(TRASH_STORE, { keyPath: 'id' }).createIndex(PROFILE_INDEX, 'profileId');
+          // One index row per day an entry was on, so edits that move an entry show up under both days.
+          db.createObjectStore(JOURNAL_STORE, { keyPath: 'seq', autoIncrement: true })
+            .createIndex(DAYS_INDEX, 'days', { multiEntry: true });
+        }
+        if (event.oldVersion < 13) {
+          // Purging an entry or a profile removes its change history too.
+          const journal = request.transaction!.objectStore(JOURNAL_STORE);
+          journal.createIndex(ENTRY_INDEX, 'entryId');
+          journal.createIndex(PROFILE_INDEX, 'profileId');
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  const result = await requestToPromise(run(tx.objectStore(storeName)));
+  await transactionDone(tx);
+  return result;
+}
+
+const LOG_WRITE_STORES = [LOG_STORE, TOMBSTONE_STORE, OUTBOX_STORE, TRASH_STORE, JOURNAL_STORE];
+
+export const journalDay = (profileId: string, dateKey: string) => `${profileId}/${dateKey}`;
+
+/** Adds a journal record inside a log write's transaction, so the two can never disagree. */
+async function appendJournal(
+  tx: IDBTransaction,
+  op: JournalOp,
+  source: JournalSource,
+  before: LogEntry | null,
+  after: LogEntry | null
+): Promise<JournalRecord> {
+  const subject = (after ?? before)!;
+  const days = [before, after].flatMap((entry) => (entry ? [journalDay(entry.profileId, entry.dateKey)] : []));
+  const record: Omit<JournalRecord, 'seq'> = {
+    at: new Date().toISOString(),
+    op,
+    source,
+    entryId: subject.id,
+    profileId: subject.profileId,
+    days: Array.from(new Set(days)),
+    before,
+    after
+  };
+  const seq = await requestToPromise(tx.objectStore(JOURNAL_STORE).add(record));
+  return { ...record, seq: Number(seq) };
+}
+
+async function writeLog(entry: LogEntry, source: JournalSource): Promise<JournalRecord> {
+  const db = await openDb();
+  const tx = db.transaction(LOG_WRITE_STORES, 'readwrite');
+  const now = new Date().toISOString();
+  const [previous, trashed] = await Promise.all([
+    requestToPromise<LogEntry | undefined>(tx.objectStore(LOG_STORE).get(entry.id)),
+    requestToPromise<TrashedLog | undefined>(tx.objectStore(TRASH_STORE).get(entry.id))
+  ]);
+  const stored = { ...entry, updatedAt: now };
+  tx.objectStore(LOG_STORE).put(stored);
+  tx.objectStore(TOMBSTONE_STORE).delete(entry.id);
+  tx.objectStore(TRASH_STORE).delete(entry.id);
+  tx.objectStore(OUTBOX_STORE).put({ id: entry.id, queuedAt: now });
+  const op = previous ? 'update' : trashed ? 'restore' : 'create';
+  const record = await appendJournal(tx, op, source, previous ?? null, stored);
+  await transactionDone(tx);
+  return record;
+}
+
+/** Moves the entry to the trash. The tombstone is written straight away so the deletion still syncs. */
+async function removeLog(id: string, source: JournalSource): Promise<JournalRecord | null> {
+  const db = await openDb();
+  const tx = db.transaction(LOG_WRITE_STORES, 'readwrite');
+  const now = new Date().toISOString();
+  const previous = await requestToPromise<LogEntry | undefined>(tx.objectStore(LOG_STORE).get(id));
+  tx.objectStore(LOG_STORE).delete(id);
+  tx.objectStore(TOMBSTONE_STORE).put({ id, deletedAt: now });
+  tx.objectStore(OUTBOX_STORE).put({ id, queuedAt: now });
+  let record: JournalRecord | null = null;
+  if (previous) {
+    tx.objectStore(TRASH_STORE).put({ ...previous, trashedAt: now });
+    record = await appendJournal(tx, 'delete', source, previous, null);
+  }
+  await transactionDone(tx);
+  return record;
+}
+
+/** Saves an entry and returns the journal record, which is what undo needs. */
+export async function putLog(entry: LogEntry): Promise<JournalRecord> {
+  return writeLog(entry, 'app');
+}
+
+/** Soft delete: the entry can be restored from the trash until it is purged. Null if it was already gone. */
+export async function deleteLog(id: string): Promise<JournalRecord | null> {
+  return removeLog(id, 'app');
+}
+
+/** Puts a trashed entry back where it was. It syncs as a fresh edit, so it wins over its own tombstone. */
+export async function restoreLog(id: string): Promise<JournalRecord | null> {
+  const trashed = await withStore<TrashedLog | undefined>(TRASH_STORE, 'readonly', (store) => store.get(id));
+  if (!trashed) return null;
+  const entry: LogEntry & { trashedAt?: string } = { ...trashed };
+  delete entry.trashedAt;
+  return writeLog(entry, 'app');
+}
+
+/**
+ * Undo and redo: returns each entry to the state a journal record found it in (`before`) or left
+ * it in (`after`). Undo walks the records newest first. The replay is journaled like any change.
+ * Records purged since, along with their entry, are skipped so undo cannot bring it back.
+ */
+export async function replayJournal(records: JournalRecord[], side: 'before' | 'after'): Promise<void> {
+  const source = side === 'before' ? 'undo' : 'redo';
+  const ordered = side === 'before' ? [...records].reverse() : records;
+  for (const record of ordered) {
+    const kept = await withStore<number>(JOURNAL_STORE, 'readonly', (store) => store.count(record.seq));
+    if (kept === 0) continue;
+    const target = record[side];
+    if (target) {
+      await writeLog(target, source);
+    } else {
+      await removeLog(record.entryId, source);
+    }
+  }
+}
+
+/** Every journaled change to entries on one of the profile's days, oldest first. */
+export async function listDayJournal(profileId: string, dateKey: string): Promise<JournalRecord[]> {
+  return withStore<JournalRecord[]>(JOURNAL_STORE, 'readonly', (store) =>
+    store.index(DAYS_INDEX).getAll(journalDay(profileId, dateKey))
+  );
+}
+
+/** The profile's trash, most recently deleted first. */
+export async function listTrash(profileId: string): Promise<TrashedLog[]> {
+  const trashed = await withStore<TrashedLog[]>(TRASH_STORE, 'readonly', (store) =>
+    store.index(PROFILE_INDEX).getAll(profileId)
+  );
+  return trashed.sort((a, b) => b.trashedAt.localeCompare(a.trashedAt));
+}
+
+/**
+ * Deletes trashed entries for good, journal records included, so no copy of them is left on the
+ * device. Their tombstones stay, so sync keeps them deleted everywhere.
+ */
+export async function purgeTrash(ids: string[]): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([TRASH_STORE, JOURNAL_STORE], 'readwrite');
+  const journal = tx.objectStore(JOURNAL_STORE);
+  const seqs = await Promise.all(ids.map((id) => requestToPromise(journal.index(ENTRY_INDEX).getAllKeys(id))));
+  ids.forEach((id) => tx.objectStore(TRASH_STORE).delete(id));
+  seqs.flat().forEach((seq) => journal.delete(seq));
+  await transactionDone(tx);
+}
+
+const byCreatedAt = (a: LogEntry, b: LogEntry) => a.createdAt.localeCompare(b.createdAt);
+
+/** `[profileId, dateKey]` bounds for the profile-date index, both inclusive. */
+const profileDays = (profileId: string, startKey = '', endKey = '\uffff') =>
+  IDBKeyRange.bound([profileId, startKey], [profileId, endKey]);
+
+export async function listLogsByDate(profileId: string, dateKey: string): Promise<LogEntry[]> {
+  const entries = await withStore<LogEntry[]>(LOG_STORE, 'readonly', (store) =>
+    store.index(PROFILE_DATE_INDEX).getAll([profileId, dateKey])
+  );
+  return entries.sort(byCreatedAt);
+}
+
+/** Entries whose `dateKey` falls between `startKey` and `endKey`, both inclusive. */
+export async function listLogsInRange(profileId: string, startKey: string, endKey: string): Promise<LogEntry[]> {
+  const entries = await withStore<LogEntry[]>(LOG_STORE, 'readonly', (store) =>
+    store.index(PROFILE_DATE_INDEX).getAll(profileDays(profileId, startKey, endKey))
+  );
+  return entries.sort(byCreatedAt);
+}
+
+/** How many times each `foodId` has been logged, walked with a cursor so the full history is never held in memory. */
+export async function countLogsByFood(profileId: string): Promise<Record<string, number>> {
+  const db = await openDb();
+  const tx = db.transaction(LOG_STORE, 'readonly');
+  const counts: Record<string, number> = {};
+  const cursorRequest = tx.objectStore(LOG_STORE).index(PROFILE_DATE_INDEX).openCursor(profileDays(profileId));
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const { foodId } = cursor.value as LogEntry;
+    if (foodId) {
+      const id = canonicalFoodId(foodId);
+      counts[id] = (counts[id] ?? 0) + 1;
+    }
+    cursor.continue();
+  };
+  await transactionDone(tx);
+  return counts;
+}
+
+/**
+ * Latest entry per food (see `quickKey`), most recent first. Walks back through the days until
+ * `limit` distinct foods have turned up and every key in `include` has been found, so a favourite
+ * last eaten weeks ago still gets its last-used quantity.
+ */
+export async function listLatestEntries(
+  profileId: string,
+  limit: number,
+  include: string[] = []
+): Promise<LogEntry[]> {
+  const db = await openDb();
+  const tx = db.transaction(LOG_STORE, 'readonly');
+  const latest = new Map<string, LogEntry>();
+  const missing = new Set(include);
+  let lastDay: string | null = null;
+  const cursorRequest = tx
+    .objectStore(LOG_STORE)
+    .index(PROFILE_DATE_INDEX)
+    .openCursor(profileDays(profileId), 'prev');
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const entry = cursor.value as LogEntry;
+    // Entries within a day are not in time order, so finish the day before stopping.
+    if (lastDay && entry.dateKey !== lastDay) return;
+    const key = quickKey(entry);
+    const current = latest.get(key);
+    if (!current || (current.dateKey === entry.dateKey && entry.createdAt > current.createdAt)) {
+      latest.set(key, entry);
+    }
+    missing.delete(key);
+    if (latest.size >= limit && missing.size === 0) {
+      lastDay = entry.dateKey;
+    }
+    cursor.continue();
+  };
+  await transactionDone(tx);
+  return Array.from(latest.values()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+const favouritesKey = (profileId: string) =>
+  profileId === DEFAULT_PROFILE_ID ? 'favourites' : `favourites:${profileId}`;
+
+/** Starred `quickKey`s, in the order they were starred. */
+export async function listFavouriteKeys(profileId: string): Promise<string[]> {
+  return (await getMeta<string[]>(favouritesKey(profileId))) ?? [];
+}
+
+export async function toggleFavourite(profileId: string, key: string): Promise<string[]> {
+  const current = await listFavouriteKeys(profileId);
+  const next = current.includes(key) ? current.filter((item) => item !== key) : [...current, key];
+  await putFavouriteKeys(profileId, next);
+  return next;
+}
+
+export async function putFavouriteKeys(profileId: string, keys: string[]): Promise<void> {
+  await putMeta(favouritesKey(profileId), keys);
+}
+
+const fastingKey = (profileId: string) => `fasting:${profileId}`;
+
+export async function listFastingSchedules(profileId: string): Promise<FastingSchedule[]> {
+  return (await getMeta<FastingSchedule[]>(fastingKey(profileId))) ?? [];
+}
+
+export async function putFastingSchedules(profileId: string, schedules: FastingSchedule[]): Promise<void> {
+  await putMeta(fastingKey(profileId), schedules);
+}
+
+export async function putGoalProfile(profile: GoalProfile): Promise<void> {
+  await withStore(GOAL_STORE, 'readwrite', (store) => store.put(profile));
+}
+
+export async function listGoalProfiles(profileId: string): Promise<GoalProfile[]> {
+  return withStore<GoalProfile[]>(GOAL_STORE, 'readonly', (store) => store.getAll(profileDays(profileId)));
+}
+
+/** The goal profile in force on `dateKey`: the latest one whose `effectiveFrom` is on or before it. */
+export async function getGoalProfileForDate(profileId: string, dateKey: string): Promise<GoalProfile | null> {
+  const cursor = await withStore(GOAL_STORE, 'readonly', (store) =>
+    store.openCursor(profileDays(profileId, '', dateKey), 'prev')
+  );
+  return cursor ? (cursor.value as GoalProfile) : null;
+}
+
+export async function listCustomFoods(): Promise<FoodItem[]> {
+  const foods = await withStore<FoodItem[]>(FOOD_STORE, 'readonly', (store) => store.getAll());
+  return foods.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function putCustomFood(food: FoodItem): Promise<void> {
+  await withStore(FOOD_STORE, 'readwrite', (store) => store.put({ ...food, custom: true }));
+}
+
+export async function deleteCustomFood(id: string): Promise<void> {
+  await withStore(FOOD_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+export async function listRecipes(): Promise<Recipe[]> {
+  const recipes = await withStore<Recipe[]>(RECIPE_STORE, 'readonly', (store) => store.getAll());
+  return recipes.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function putRecipe(recipe: Recipe): Promise<void> {
+  await withStore(RECIPE_STORE, 'readwrite', (store) => store.put(recipe));
+}
+
+export async function deleteRecipe(id: string): Promise<void> {
+  await withStore(RECIPE_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+export async function getProduct(barcode: string): Promise<Product | null> {
+  const product = await withStore<Product | undefined>(PRODUCT_STORE, 'readonly', (store) => store.get(barcode));
+  return product ?? null;
+}
+
+export async function putProduct(product: Product): Promise<void> {
+  await withStore(PRODUCT_STORE, 'readwrite', (store) => store.put(product));
+}
+
+export async function countProducts(): Promise<number> {
+  return withStore<number>(PRODUCT_STORE, 'readonly', (store) => store.count());
+}
+
+/**
+ * Upserts a dataset in one transaction and returns how many rows were written. Products typed in
+ * on this device win over imported rows with the same barcode.
+ */
+export async function importProducts(products: Product[]): Promise<number> {
+  const db = await openDb();
+  const tx = db.transaction(PRODUCT_STORE, 'readwrite');
+  const store = tx.objectStore(PRODUCT_STORE);
+  let written = 0;
+  products.forEach((product) => {
+    const existing = store.get(product.barcode);
+    existing.onsuccess = () => {
+      if ((existing.result as Product | undefined)?.source === 'local') return;
+      store.put(product);
+      written += 1;
+    };
+  });
+  await transactionDone(tx);
+  return written;
+}
+
+export async function getBodyLog(profileId: string, dateKey: string): Promise<BodyLog | null> {
+  const log = await withStore<BodyLog | undefined>(BODY_STORE, 'readonly', (store) =>
+    store.get([profileId, dateKey])
+  );
+  return log ?? null;
+}
+
+/**
+ * Applies `change` to the stored log for the day inside one transaction, so quick taps on the
+ * water buttons each build on the previous one instead of on what the screen last showed.
+ */
+export async function updateBodyLog(
+  profileId: string,
+  dateKey: string,
+  change: (log: BodyLog) => BodyLog
+): Promise<BodyLog> {
+  const db = await openDb();
+  const tx = db.transaction(BODY_STORE, 'readwrite');
+  const store = tx.objectStore(BODY_STORE);
+  const stored = await requestToPromise<BodyLog | undefined>(store.get([profileId, dateKey]));
+  const next = { ...change(stored ?? emptyBodyLog(profileId, dateKey)), updatedAt: new Date().toISOString() };
+  store.put(next);
+  await transactionDone(tx);
+  return next;
+}
+
+/** Inclusive range of local date keys, oldest first. */
+export async function listBodyLogsInRange(profileId: string, startKey: string, endKey: string): Promise<BodyLog[]> {
+  return withStore<BodyLog[]>(BODY_STORE, 'readonly', (store) =>
+    store.getAll(profileDays(profileId, startKey, endKey))
+  );
+}
+
+/** Most recent weigh-in on or before `dateKey`, for anything that needs a current weight. */
+export async function getLatestWeight(
+  profileId: string,
+  dateKey: string
+): Promise<{ dateKey: string; weightKg: number } | null> {
+  const db = await openDb();
+  const tx = db.transaction(BODY_STORE, 'readonly');
+  const cursorRequest = tx.objectStore(BODY_STORE).openCursor(profileDays(profileId, '', dateKey), 'prev');
+
+  return new Promise((resolve, reject) => {
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        resolve(null);
+        return;
+      }
+      const log = cursor.value as BodyLog;
+      if (typeof log.weightKg === 'number') {
+        resolve({ dateKey: log.dateKey, weightKg: log.weightKg });
+        return;
+      }
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+}
+
+export async function listProfiles(): Promise<Profile[]> {
+  const profiles = await withStore<Profile[]>(PROFILE_STORE, 'readonly', (store) => store.getAll());
+  return profiles.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function putProfile(profile: Profile): Promise<void> {
+  await withStore(PROFILE_STORE, 'readwrite', (store) => store.put(profile));
+}
+
+/**
+ * Removes a profile with its targets, body logs, settings, trash and change journal. Its log
+ * entries get tombstones as in `deleteLog`, so the deletion also reaches other devices through
+ * sync, but they are purged straight away rather than moved to the trash.
+ */
+export async function deleteProfile(profileId: string): Promise<void> {
+  if (profileId === DEFAULT_PROFILE_ID) {
+    throw new Error('The first profile on a device cannot be removed.');
+  }
+  const db = await openDb();
+  const tx = db.transaction([PROFILE_STORE, GOAL_STORE, BODY_STORE, META_STORE, ...LOG_WRITE_STORES], 'readwrite');
+  const now = new Date().toISOString();
+  const ids = await requestToPromise(
+    tx.objectStore(LOG_STORE).index(PROFILE_DATE_INDEX).getAllKeys(profileDays(profileId))
+  );
+  ids.forEach((key) => {
+    const id = String(key);
+    tx.objectStore(LOG_STORE).delete(id);
+    tx.objectStore(TOMBSTONE_STORE).put({ id, deletedAt: now });
+    tx.objectStore(OUTBOX_STORE).put({ id, queuedAt: now });
+  });
+  const trashed = await requestToPromise(tx.objectStore(TRASH_STORE).index(PROFILE_INDEX).getAllKeys(profileId));
+  trashed.forEach((key) => tx.objectStore(TRASH_STORE).delete(key));
+  const journaled = await requestToPromise(tx.objectStore(JOURNAL_STORE).index(PROFILE_INDEX).getAllKeys(profileId));
+  journaled.forEach((key) => tx.objectStore(JOURNAL_STORE).delete(key));
+  tx.objectStore(GOAL_STORE).delete(profileDays(profileId));
+  tx.objectStore(BODY_STORE).delete(profileDays(profileId));
+  tx.objectStore(META_STORE).delete(favouritesKey(profileId));
+  tx.objectStore(META_STORE).delete(fastingKey(profileId));
+  tx.objectStore(PROFILE_STORE).delete(profileId);
+  await transactionDone(tx);
+}
+
+const ACTIVE_PROFILE_META_KEY = 'activeProfile';
+const TRASH_RETENTION_META_KEY = 'trashRetentionDays';
+
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90];
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export async function getActiveProfileId(): Promise<string> {
+  return (await getMeta<string>(ACTIVE_PROFILE_META_KEY)) ?? DEFAULT_PROFILE_ID;
+}
+
+export async function setActiveProfileId(profileId: string): Promise<void> {
+  await putMeta(ACTIVE_PROFILE_META_KEY, profileId);
+}
+
+export async function getTrashRetentionDays(): Promise<number> {
+  return (await getMeta<number>(TRASH_RETENTION_META_KEY)) ?? DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export async function setTrashRetentionDays(days: number): Promise<void> {
+  await putMeta(TRASH_RETENTION_META_KEY, days);
+}
+
+/** Purges every profile's entries that have sat in the trash longer than the retention period. */
+export async function purgeExpiredTrash(now = new Date()): Promise<number> {
+  const days = await getTrashRetentionDays();
+  const cutoff = new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+  const trashed = await withStore<TrashedLog[]>(TRASH_STORE, 'readonly', (store) => store.getAll());
+  const expired = trashed.filter((entry) => entry.trashedAt < cutoff).map((entry) => entry.id);
+  if (expired.length > 0) {
+    await purgeTrash(expired);
+  }
+  return expired.length;
+}
+
+export interface DataSnapshot {
+  profiles: Profile[];
+  logs: LogEntry[];
+  goals: GoalProfile[];
+  foods: FoodItem[];
+  recipes: Recipe[];
+  body: BodyLog[];
+}
+
+const SNAPSHOT_STORES = [PROFILE_STORE, LOG_STORE, GOAL_STORE, FOOD_STORE, RECIPE_STORE, BODY_STORE];
+
+export async function readSnapshot(): Promise<DataSnapshot> {
+  const db = await openDb();
+  const tx = db.transaction(SNAPSHOT_STORES, 'readonly');
+  const [profiles, logs, goals, foods, recipes, body] = await Promise.all([
+    requestToPromise<Profile[]>(tx.objectStore(PROFILE_STORE).getAll()),
+    requestToPromise<LogEntry[]>(tx.objectStore(LOG_STORE).getAll()),
+    requestToPromise<GoalProfile[]>(tx.objectStore(GOAL_STORE).getAll()),
+    requestToPromise<FoodItem[]>(tx.objectStore(FOOD_STORE).getAll()),
+    requestToPromise<Recipe[]>(tx.objectStore(RECIPE_STORE).getAll()),
+    requestToPromise<BodyLog[]>(tx.objectStore(BODY_STORE).getAll())
+  ]);
+  return { profiles, logs: logs.sort(byCreatedAt), goals, foods, recipes, body };
+}
+
+/**
+ * Writes a snapshot in a single transaction. With `replace` the stores are cleared first, along
+ * with the trash, the journal, the tombstones and the outbox, so nothing from before the restore
+ * is undone or synced on top of it; otherwise records are upserted by key and the journal is left
+ * alone.
+ */
+export async function writeSnapshot(snapshot: DataSnapshot, { replace }: { replace: boolean }): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(
+    [...SNAPSHOT_STORES, OUTBOX_STORE, TRASH_STORE, TOMBSTONE_STORE, JOURNAL_STORE],
+    'readwrite'
+  );
+  const outbox = tx.objectStore(OUTBOX_STORE);
+  const queuedAt = new Date().toISOString();
+  const profiles = tx.objectStore(PROFILE_STORE);
+  const logs = tx.objectStore(LOG_STORE);
+  const goals = tx.objectStore(GOAL_STORE);
+  const foods = tx.objectStore(FOOD_STORE);
+  const recipes = tx.objectStore(RECIPE_STORE);
+  const body = tx.objectStore(BODY_STORE);
+
+  if (replace) {
+    profiles.clear();
+    logs.clear();
+    goals.clear();
+    foods.clear();
+    recipes.clear();
+    body.clear();
+    // Deletions, edits and pending pushes from before the restore belong to the data being replaced.
+    tx.objectStore(TRASH_STORE).clear();
+    tx.objectStore(JOURNAL_STORE).clear();
+    tx.objectStore(TOMBSTONE_STORE).clear();
+    outbox.clear();
+  }
+  snapshot.profiles.forEach((profile) => profiles.put(profile));
+  snapshot.logs.forEach((entry) => {
+    logs.put(entry);
+    outbox.put({ id: entry.id, queuedAt });
+  });
+  snapshot.goals.forEach((profile) => goals.put(profile));
+  snapshot.foods.forEach((food) => foods.put(food));
+  snapshot.recipes.forEach((recipe) => recipes.put(recipe));
+  snapshot.body.forEach((log) => body.put(log));
+
+  await transactionDone(tx);
+}
+
+export async function getMeta<T>(key: string): Promise<T | undefined> {
+  return withStore<T | undefined>(META_STORE, 'readonly', (store) => store.get(key));
+}
+
+export async function putMeta<T>(key: string, value: T): Promise<void> {
+  await withStore(META_STORE, 'readwrite', (store) => store.put(value, key));
+}
+
+export async function deleteMeta(key: string): Promise<void> {
+  await withStore(META_STORE, 'readwrite', (store) => store.delete(key));
+}
+
+export interface PendingChange {
+  id: string;
+  queuedAt: string;
+  /** Current local copy, or `null` when the entry has been deleted. */
+  entry: LogEntry | null;
+  tombstone: Tombstone | null;
+}
+
+export async function listPendingChanges(): Promise<PendingChange[]> {
+  const db = await openDb();
+  const tx = db.transaction(LOG_WRITE_STORES, 'readonly');
+  const items = await requestToPromise<OutboxItem[]>(tx.objectStore(OUTBOX_STORE).getAll());
+  return Promise.all(
+    items.map(async (item) => {
+      const [entry, tombstone] = await Promise.all([
+        requestToPromise<LogEntry | undefined>(tx.objectStore(LOG_STORE).get(item.id)),
+        requestToPromise<Tombstone | undefined>(tx.objectStore(TOMBSTONE_STORE).get(item.id))
+      ]);
+      return { ...item, entry: entry ?? null, tombstone: tombstone ?? null };
+    })
+  );
+}
+
+export async function countPendingChanges(): Promise<number> {
+  return withStore<number>(OUTBOX_STORE, 'readonly', (store) => store.count());
+}
+
+/** Drops pushed items, unless the entry changed again while the push was in flight. */
+export async function clearPendingChanges(pushed: Pick<PendingChange, 'id' | 'queuedAt'>[]): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+  const store = tx.objectStore(OUTBOX_STORE);
+  await Promise.all(
+    pushed.map(async (item) => {
+      const current = await requestToPromise<OutboxItem | undefined>(store.get(item.id));
+      if (current && current.queuedAt === item.queuedAt) {
+        store.delete(item.id);
+      }
+    })
+  );
+  await transactionDone(tx);
+}
+
+/** Queues every stored entry, e.g. when sync is first turned on for an existing log. */
+export async function queueAllLogs(): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(LOG_WRITE_STORES, 'readwrite');
+  const queuedAt = new Date().toISOString();
+  const outbox = tx.objectStore(OUTBOX_STORE);
+  const [ids, tombstones] = await Promise.all([
+    requestToPromise(tx.objectStore(LOG_STORE).getAllKeys()),
+    requestToPromise<Tombstone[]>(tx.objectStore(TOMBSTONE_STORE).getAll())
+  ]);
+  ids.forEach((id) => outbox.put({ id: String(id), queuedAt }));
+  tombstones.forEach((tombstone) => outbox.put({ id: tombstone.id, queuedAt }));
+  await transactionDone(tx);
+}
+
+export interface IncomingChange {
+  id: string;
+  entry: LogEntry | null;
+  tombstone: Tombstone | null;
+}
+
+/**
+ * Applies changes pulled from another device. `wins` decides each conflict against the local
+ * copy; remote writes are stored as-is, without re-stamping or re-queueing them.
+ */
+export async function applyIncomingChanges(
+  changes: IncomingChange[],
+  wins: (incoming: IncomingChange, local: IncomingChange) => boolean
+): Promise<number> {
+  const db = await openDb();
+  const tx = db.transaction([PROFILE_STORE, ...LOG_WRITE_STORES], 'readwrite');
+  const logs = tx.objectStore(LOG_STORE);
+  const tombstones = tx.objectStore(TOMBSTONE_STORE);
+  const trash = tx.objectStore(TRASH_STORE);
+  const profiles = tx.objectStore(PROFILE_STORE);
+  const knownProfiles = new Set((await requestToPromise(profiles.getAllKeys())).map(String));
+  let applied = 0;
+
+  for (const change of changes) {
+    const [entry, tombstone] = await Promise.all([
+      requestToPromise<LogEntry | undefined>(logs.get(change.id)),
+      requestToPromise<Tombstone | undefined>(tombstones.get(change.id))
+    ]);
+    if (!wins(change, { id: change.id, entry: entry ?? null, tombstone: tombstone ?? null })) continue;
+
+    if (change.entry) {
+      // Entries from devices running older versions are completed like migrated ones.
+      const incoming = normalizeLogEntry(change.entry);
+      const { profileId } = incoming;
+      if (!knownProfiles.has(profileId)) {
+        // Profiles themselves are not synced; add an unnamed one for the person to rename.
+        profiles.put({
+          id: profileId,
+          name: '',
+          colour: PROFILE_COLOURS[knownProfiles.size % PROFILE_COLOURS.length],
+          dayStartHour: DEFAULT_DAY_START_HOUR,
+          createdAt: new Date().toISOString()
+        });
+        knownProfiles.add(profileId);
+      }
+      logs.put(incoming);
+      tombstones.delete(change.id);
+      trash.delete(change.id);
+      await appendJournal(tx, entry ? 'update' : 'create', 'sync', entry ?? null, incoming);
+    } else if (change.tombstone) {
+      logs.delete(change.id);
+      tombstones.put(change.tombstone);
+      // A deletion made on another device can still be restored here.
+      if (entry) {
+        trash.put({ ...entry, trashedAt: change.tombstone.deletedAt });
+        await appendJournal(tx, 'delete', 'sync', entry, null);
+      }
+    }
+    applied += 1;
+  }
+
+  await transactionDone(tx);
+  return applied;
+}
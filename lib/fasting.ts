@@ -0,0 +1,195 @@
+import { LOCATIONS, locationById } from '../data/locations';
+import { sunTimes } from './sun';
+import { addDays, formatDateKey, uid } from './utils';
+
+/** Which calendar days a schedule fasts on. Weekdays count from 0 = Sunday. */
+export type FastDays =
+  | { kind: 'daily' }
+  | { kind: 'weekly'; weekdays: number[] }
+  | { kind: 'dates'; dateKeys: string[] };
+
+/** When no food is eaten on a fast day. Times are local `HH:MM`. */
+export type FastWindow =
+  | { kind: 'eating-window'; eatFrom: string; eatUntil: string }
+  | { kind: 'daylight'; locationId: string; from: 'dawn' | 'sunrise' }
+  | { kind: 'all-day' }
+  | { kind: 'food-only' };
+
+export interface FastingSchedule {
+  id: string;
+  name: string;
+  days: FastDays;
+  window: FastWindow;
+  /** First and last date keys the schedule runs, e.g. the nine nights of Navratri. */
+  startDate?: string;
+  endDate?: string;
+  /** Only vrat (upvas) foods are eaten on these days, so the catalogue can narrow to them. */
+  vrat: boolean;
+  enabled: boolean;
+}
+
+export interface FastingPeriod {
+  scheduleId: string;
+  name: string;
+  start: Date;
+  end: Date;
+}
+
+/** In the order the schedule editor offers them; labels are the `fastWindow.*` messages. */
+export const FAST_WINDOW_KINDS: FastWindow['kind'][] = ['eating-window', 'daylight', 'all-day', 'food-only'];
+
+/** Used when the sun never gets 18° below the horizon, as in northern summers. */
+const DAWN_FALLBACK_MS = 90 * 60 * 1000;
+
+const atTime = (dateKey: string, time: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(year, month - 1, day, hours, minutes);
+};
+
+/** 0 = Sunday, as in `FastDays` weekly schedules. */
+export const weekdayOf = (dateKey: string) => atTime(dateKey, '12:00').getDay();
+
+export function isFastDay(schedule: FastingSchedule, dateKey: string): boolean {
+  if (!schedule.enabled) return false;
+  if (schedule.startDate && dateKey < schedule.startDate) return false;
+  if (schedule.endDate && dateKey > schedule.endDate) return false;
+  switch (schedule.days.kind) {
+    case 'daily':
+      return true;
+    case 'weekly':
+      return schedule.days.weekdays.includes(weekdayOf(dateKey));
+    case 'dates':
+      return schedule.days.dateKeys.includes(dateKey);
+  }
+}
+
+/**
+ * The no-food period that belongs to `dateKey`, if any. An eating window fasts from the end of
+ * that day's window until the next day's opens, so an evening-to-noon fast counts for the evening.
+ */
+export function fastingPeriodFor(schedule: FastingSchedule, dateKey: string): FastingPeriod | null {
+  if (!isFastDay(schedule, dateKey)) return null;
+  const period = (start: Date | null, end: Date | null) =>
+    start && end && start < end ? { scheduleId: schedule.id, name: schedule.name, start, end } : null;
+  const { window } = schedule;
+
+  switch (window.kind) {
+    case 'eating-window': {
+      const eatUntil = atTime(window.eatUntil > window.eatFrom ? dateKey : addDays(dateKey, 1), window.eatUntil);
+      return period(eatUntil, atTime(addDays(dateKey, 1), window.eatFrom));
+    }
+    case 'daylight': {
+      const location = locationById(window.locationId);
+      if (!location) return null;
+      const sun = sunTimes(dateKey, location.latitude, location.longitude);
+      const dawn = sun.dawn ?? (sun.sunrise && new Date(sun.sunrise.getTime() - DAWN_FALLBACK_MS));
+      return period(window.from === 'dawn' ? dawn : sun.sunrise, sun.sunset);
+    }
+    case 'all-day':
+      return period(atTime(dateKey, '00:00'), atTime(addDays(dateKey, 1), '00:00'));
+    case 'food-only':
+      return null;
+  }
+}
+
+const periodsAround = (schedules: FastingSchedule[], dateKey: string, from: number, to: number) => {
+  const periods: FastingPeriod[] = [];
+  for (let offset = from; offset <= to; offset += 1) {
+    const key = addDays(dateKey, offset);
+    schedules.forEach((schedule) => {
+      const period = fastingPeriodFor(schedule, key);
+      if (period) periods.push(period);
+    });
+  }
+  return periods;
+};
+
+/** The fast `at` falls in, ending last when schedules overlap. */
+export function fastingPeriodAt(schedules: FastingSchedule[], at: Date): FastingPeriod | null {
+  const current = periodsAround(schedules, formatDateKey(at), -1, 0).filter(
+    (period) => period.start <= at && at < period.end
+  );
+  return current.sort((a, b) => b.end.getTime() - a.end.getTime())[0] ?? null;
+}
+
+export function nextFastingPeriod(schedules: FastingSchedule[], after: Date, days = 8): FastingPeriod | null {
+  const upcoming = periodsAround(schedules, formatDateKey(after), 0, days).filter((period) => period.start > after);
+  return upcoming.sort((a, b) => a.start.getTime() - b.start.getTime())[0] ?? null;
+}
+
+/** The religious fast on `dateKey` that limits food to vrat items, if any. */
+export function vratScheduleFor(schedules: FastingSchedule[], dateKey: string): FastingSchedule | undefined {
+  return schedules.find((schedule) => schedule.vrat && isFastDay(schedule, dateKey));
+}
+
+/** `H:MM:SS` for the live timer. */
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
+
+/** Labels are the `fastPreset.*` messages and default names the `fastName.*` ones, given to `createSchedule`. */
+export type FastingPresetId = '16-8' | 'ramadan' | 'navratri' | 'ekadashi' | 'weekly';
+
+export interface FastingPreset {
+  id: FastingPresetId;
+  build: (dateKey: string) => Omit<FastingSchedule, 'id' | 'name' | 'enabled'>;
+}
+
+const DEFAULT_LOCATION_ID = LOCATIONS[0].id;
+
+/** Starting points; dates for lunar festivals change every year, so each one is editable. */
+export const FASTING_PRESETS: FastingPreset[] = [
+  {
+    id: '16-8',
+    build: () => ({
+      days: { kind: 'daily' },
+      window: { kind: 'eating-window', eatFrom: '12:00', eatUntil: '20:00' },
+      vrat: false
+    })
+  },
+  {
+    id: 'ramadan',
+    build: (dateKey) => ({
+      days: { kind: 'daily' },
+      window: { kind: 'daylight', locationId: DEFAULT_LOCATION_ID, from: 'dawn' },
+      startDate: dateKey,
+      endDate: addDays(dateKey, 29),
+      vrat: false
+    })
+  },
+  {
+    id: 'navratri',
+    build: (dateKey) => ({
+      days: { kind: 'daily' },
+      window: { kind: 'food-only' },
+      startDate: dateKey,
+      endDate: addDays(dateKey, 8),
+      vrat: true
+    })
+  },
+  {
+    id: 'ekadashi',
+    build: (dateKey) => ({
+      days: { kind: 'dates', dateKeys: [dateKey] },
+      window: { kind: 'food-only' },
+      vrat: true
+    })
+  },
+  {
+    id: 'weekly',
+    build: (dateKey) => ({
+      days: { kind: 'weekly', weekdays: [weekdayOf(dateKey)] },
+      window: { kind: 'daylight', locationId: DEFAULT_LOCATION_ID, from: 'sunrise' },
+      vrat: true
+    })
+  }
+];
+
+export function createSchedule(preset: FastingPreset, dateKey: string, name: string): FastingSchedule {
+  return { id: uid('fast'), name, ...preset.build(dateKey), enabled: true };
+}
@@ -0,0 +1,112 @@
+import type { LogEntry } from './db';
+import type { MacroTargets } from './targets';
+import { addDays, sumMacros, type MacroTotals } from './utils';
+
+export interface DaySummary {
+  dateKey: string;
+  totals: MacroTotals;
+  entryCount: number;
+  target: MacroTargets;
+  /** Calories landed within `ADHERENCE_TOLERANCE` of the day's target. */
+  adherent: boolean;
+}
+
+export interface HistoryStats {
+  days: DaySummary[];
+  /** Trailing 7-day mean calories per day, over logged days only; `null` before anything is logged. */
+  rollingCalories: (number | null)[];
+  averages: MacroTotals;
+  loggedDays: number;
+  adherentDays: number;
+  currentStreak: number;
+  longestStreak: number;
+}
+
+export const ADHERENCE_TOLERANCE = 0.1;
+const ROLLING_WINDOW = 7;
+
+export function isAdherent(calories: number, target: number): boolean {
+  return target > 0 && Math.abs(calories - target) <= target * ADHERENCE_TOLERANCE;
+}
+
+/**
+ * Per-day totals and adherence for `startKey`..`endKey`. The current streak runs back from
+ * `todayKey`, the actual current day, which lies after `endKey` when an earlier range is on
+ * screen; pass entries up to `todayKey` for it to count those days.
+ */
+export function buildHistory(
+  entries: LogEntry[],
+  startKey: string,
+  endKey: string,
+  targetFor: (dateKey: string) => MacroTargets,
+  todayKey: string
+): HistoryStats {
+  const byDate = new Map<string, LogEntry[]>();
+  entries.forEach((entry) => {
+    const bucket = byDate.get(entry.dateKey);
+    if (bucket) {
+      bucket.push(entry);
+    } else {
+      byDate.set(entry.dateKey, [entry]);
+    }
+  });
+
+  const summarize = (dateKey: string): DaySummary => {
+    const dayEntries = byDate.get(dateKey) ?? [];
+    const totals = sumMacros(dayEntries);
+    const target = targetFor(dateKey);
+    return {
+      dateKey,
+      totals,
+      entryCount: dayEntries.length,
+      target,
+      adherent: dayEntries.length > 0 && isAdherent(totals.calories, target.calories)
+    };
+  };
+
+  const days: DaySummary[] = [];
+  for (let key = startKey; key <= endKey; key = addDays(key, 1)) {
+    days.push(summarize(key));
+  }
+
+  const rollingCalories = days.map((_, index) => {
+    const window = days.slice(Math.max(0, index - ROLLING_WINDOW + 1), index + 1).filter((day) => day.entryCount > 0);
+    if (window.length === 0) return null;
+    return Math.round(window.reduce((sum, day) => sum + day.totals.calories, 0) / window.length);
+  });
+
+  const logged = days.filter((day) => day.entryCount > 0);
+  const summed = sumMacros(logged.map((day) => day.totals));
+  const divisor = Math.max(1, logged.length);
+
+  let currentStreak = 0;
+  let longestStreak = 0;
+  let run = 0;
+  days.forEach((day) => {
+    run = day.adherent ? run + 1 : 0;
+    longestStreak = Math.max(longestStreak, run);
+  });
+  // Today is still in progress, so an unfinished today doesn't break the current streak.
+  for (let key = todayKey; key >= startKey; key = addDays(key, -1)) {
+    if (summarize(key).adherent) {
+      currentStreak += 1;
+    } else if (key !== todayKey) {
+      break;
+    }
+  }
+
+  return {
+    days,
+    rollingCalories,
+    averages: {
+      calories: Math.round(summed.calories / divisor),
+      protein: Number((summed.protein / divisor).toFixed(1)),
+      carbs: Number((summed.carbs / divisor).toFixed(1)),
+      fats: Number((summed.fats / divisor).toFixed(1))
+    },
+    loggedDays: logged.length,
+    adherentDays: logged.filter((day) => day.adherent).length,
+    currentStreak,
+    longestStreak
+  };
+}
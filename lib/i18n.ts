@@ -0,0 +1,124 @@
+import { bn } from '../data/messages/bn';
+import { en, type MessageKey, type Messages } from '../data/messages/en';
+import { hi } from '../data/messages/hi';
+import { ta } from '../data/messages/ta';
+import { ur } from '../data/messages/ur';
+import type { FoodItem } from '../data/foods';
+import { getMeta, putMeta } from './db';
+import type { MealSlot } from './meals';
+import { SERVING_UNIT } from './portions';
+import { DEFAULT_PROFILE_ID, type Profile } from './profiles';
+
+/**
+ * UI language. Every catalogue is bundled with the app rather than fetched, so the precached
+ * build works in any language with no connection.
+ */
+export type Locale = 'en' | 'hi' | 'ta' | 'bn' | 'ur';
+
+export interface LocaleInfo {
+  id: Locale;
+  /** Name of the language in its own script, as shown in the picker. */
+  label: string;
+  /** BCP 47 tag for `Intl`, so digits, separators and clock style follow the language. */
+  intl: string;
+  dir: 'ltr' | 'rtl';
+}
+
+export const LOCALES: LocaleInfo[] = [
+  { id: 'en', label: 'English', intl: 'en-IN', dir: 'ltr' },
+  { id: 'hi', label: 'हिन्दी', intl: 'hi-IN', dir: 'ltr' },
+  { id: 'ta', label: 'தமிழ்', intl: 'ta-IN', dir: 'ltr' },
+  { id: 'bn', label: 'বাংলা', intl: 'bn-IN', dir: 'ltr' },
+  { id: 'ur', label: 'اردو', intl: 'ur-IN', dir: 'rtl' }
+];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export type { MessageKey };
+
+const MESSAGES: Record<Locale, Messages> = { en, hi, ta, bn, ur };
+
+const LOCALE_META_KEY = 'locale';
+
+export const localeInfo = (locale: Locale) => LOCALES.find((item) => item.id === locale) ?? LOCALES[0];
+
+/** The message for `key` with each `{name}` replaced from `params`; unknown placeholders are left visible. */
+export function translate(locale: Locale, key: MessageKey, params: Record<string, string | number> = {}): string {
+  return MESSAGES[locale][key].replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+export const mealSlotLabel = (locale: Locale, slot: MealSlot) => translate(locale, `meal.${slot}`);
+
+/** Units are shown as they were typed, except the app's own serving unit. */
+export const unitLabel = (locale: Locale, unit: string) =>
+  unit === SERVING_UNIT ? translate(locale, 'unit.serving') : unit;
+
+export const profileLabel = (locale: Locale, profile: Pick<Profile, 'id' | 'name'>) =>
+  profile.name || translate(locale, profile.id === DEFAULT_PROFILE_ID ? 'profile.me' : 'profile.unnamed');
+
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+/** Locale digits and separators, e.g. ১২৩.৫ in Bengali. At most `maximumFractionDigits` decimals. */
+export function formatNumber(locale: Locale, value: number, maximumFractionDigits = 1): string {
+  const cacheKey = `${locale}:${maximumFractionDigits}`;
+  let format = numberFormats.get(cacheKey);
+  if (!format) {
+    format = new Intl.NumberFormat(localeInfo(locale).intl, { maximumFractionDigits });
+    numberFormats.set(cacheKey, format);
+  }
+  return format.format(value);
+}
+
+export function formatTime(locale: Locale, date: Date, options: Intl.DateTimeFormatOptions = {}): string {
+  return date.toLocaleTimeString(localeInfo(locale).intl, { hour: '2-digit', minute: '2-digit', ...options });
+}
+
+/** A moment as a short local date and time, e.g. "19 Oct, 08:15 am". */
+export function formatDateTime(locale: Locale, date: Date): string {
+  return date.toLocaleString(localeInfo(locale).intl, {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
+/** A `YYYY-MM-DD` key as a short local date, e.g. "19 अक्टू॰ 2026". */
+export function formatDate(locale: Locale, dateKey: string): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day, 12).toLocaleDateString(localeInfo(locale).intl, {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric'
+  });
+}
+
+/** Short local name of a weekday counted from 0 = Sunday, e.g. "Mon" or "सोम". */
+export function formatWeekday(locale: Locale, day: number): string {
+  // 4 January 2026 was a Sunday.
+  return new Date(2026, 0, 4 + day, 12).toLocaleDateString(localeInfo(locale).intl, { weekday: 'short' });
+}
+
+/** Catalogue foods carry translated names; custom foods and recipes keep the name they were saved with. */
+export const localFoodName = (food: Pick<FoodItem, 'name' | 'names'>, locale: Locale) =>
+  food.names?.[locale] ?? food.name;
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some((item) => item.id === value);
+
+/** The first of the browser's preferred languages we have a catalogue for, e.g. `ta` for `ta-IN`. */
+export function browserLocale(languages: readonly string[]): Locale {
+  const match = languages.map((language) => language.split('-')[0].toLowerCase()).find(isLocale);
+  return match ?? DEFAULT_LOCALE;
+}
+
+/** The language picked on this device, or null before anyone has chosen one. */
+export async function getStoredLocale(): Promise<Locale | null> {
+  const stored = await getMeta<string>(LOCALE_META_KEY);
+  return isLocale(stored) ? stored : null;
+}
+
+export async function putStoredLocale(locale: Locale): Promise<void> {
+  await putMeta(LOCALE_META_KEY, locale);
+}
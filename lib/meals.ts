@@ -0,0 +1,25 @@
+export type MealSlot = 'breakfast' | 'lunch' | 'snacks' | 'dinner';
+
+export const MEAL_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'snacks', 'dinner'];
+
+/**
+ * Default slot for a local time of day. Anything after 19:00 or before 04:00
+ * counts as dinner so late meals are not filed as breakfast.
+ */
+export function mealSlotForDate(date: Date): MealSlot {
+  const hour = date.getHours();
+  if (hour >= 4 && hour < 11) return 'breakfast';
+  if (hour >= 11 && hour < 16) return 'lunch';
+  if (hour >= 16 && hour < 19) return 'snacks';
+  return 'dinner';
+}
+
+export function groupByMealSlot<T extends { mealSlot: MealSlot }>(entries: T[]): Record<MealSlot, T[]> {
+  return entries.reduce<Record<MealSlot, T[]>>(
+    (acc, entry) => {
+      acc[entry.mealSlot].push(entry);
+      return acc;
+    },
+    { breakfast: [], lunch: [], snacks: [], dinner: [] }
+  );
+}
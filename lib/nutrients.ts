@@ -0,0 +1,87 @@
+export type MicroKey = 'fibre' | 'sugar' | 'sodium' | 'iron' | 'calcium';
+
+/** Optional per-item values. A missing key means "unknown", never zero. */
+export type Micronutrients = Partial<Record<MicroKey, number>>;
+
+export interface MicronutrientInfo {
+  key: MicroKey;
+  label: string;
+  unit: 'g' | 'mg';
+  /** Adult reference intake; `limit` means stay under it, `goal` means reach it. */
+  reference: number;
+  kind: 'limit' | 'goal';
+}
+
+export const MICRONUTRIENTS: MicronutrientInfo[] = [
+  { key: 'fibre', label: 'Fibre', unit: 'g', reference: 30, kind: 'goal' },
+  { key: 'sugar', label: 'Sugar', unit: 'g', reference: 50, kind: 'limit' },
+  { key: 'sodium', label: 'Sodium', unit: 'mg', reference: 2000, kind: 'limit' },
+  { key: 'iron', label: 'Iron', unit: 'mg', reference: 18, kind: 'goal' },
+  { key: 'calcium', label: 'Calcium', unit: 'mg', reference: 1000, kind: 'goal' }
+];
+
+export const MICRO_KEYS = MICRONUTRIENTS.map((info) => info.key);
+
+const roundMicro = (key: MicroKey, value: number) =>
+  MICRONUTRIENTS.find((info) => info.key === key)?.unit === 'mg' ? Math.round(value) : Number(value.toFixed(1));
+
+export function scaleMicros(micros: Micronutrients | undefined, factor: number): Micronutrients | undefined {
+  if (!micros) return undefined;
+  return MICRO_KEYS.reduce<Micronutrients>((acc, key) => {
+    const value = micros[key];
+    if (value !== undefined) {
+      acc[key] = roundMicro(key, value * factor);
+    }
+    return acc;
+  }, {});
+}
+
+export interface MicroTotal {
+  /** Sum over the items that report this nutrient. */
+  value: number;
+  /** Items that report it. */
+  known: number;
+  /** Items with no data for it, so `value` is a lower bound when this is above zero. */
+  missing: number;
+}
+
+export function sumMicros(items: { micros?: Micronutrients }[]): Record<MicroKey, MicroTotal> {
+  return MICRO_KEYS.reduce(
+    (acc, key) => {
+      const known = items.filter((item) => item.micros?.[key] !== undefined);
+      acc[key] = {
+        value: roundMicro(key, known.reduce((sum, item) => sum + (item.micros?.[key] ?? 0), 0)),
+        known: known.length,
+        missing: items.length - known.length
+      };
+      return acc;
+    },
+    {} as Record<MicroKey, MicroTotal>
+  );
+}
+
+/** Collapses totals back to plain values, keeping only nutrients every item reported. */
+export function completeMicros(totals: Record<MicroKey, MicroTotal>): Micronutrients | undefined {
+  const micros = MICRO_KEYS.reduce<Micronutrients>((acc, key) => {
+    if (totals[key].known > 0 && totals[key].missing === 0) {
+      acc[key] = totals[key].value;
+    }
+    return acc;
+  }, {});
+  return Object.keys(micros).length > 0 ? micros : undefined;
+}
+
+/** Parses form strings, leaving blank fields out instead of storing zero. */
+export function parseMicros(values: Partial<Record<MicroKey, string>>): Micronutrients | undefined {
+  const micros = MICRO_KEYS.reduce<Micronutrients>((acc, key) => {
+    const raw = values[key]?.trim();
+    if (raw) {
+      const value = Number(raw);
+      if (Number.isFinite(value) && value >= 0) {
+        acc[key] = value;
+      }
+    }
+    return acc;
+  }, {});
+  return Object.keys(micros).length > 0 ? micros : undefined;
+}
@@ -0,0 +1,61 @@
+import type { FoodItem } from '../data/foods';
+
+/** A household measure for one food, e.g. one katori of dal weighs about 150 g. */
+export interface Portion {
+  unit: string;
+  grams: number;
+}
+
+export const GRAM_UNIT = 'g';
+
+/** Unit of recipes, packaged products and custom entries without one; shown translated. */
+export const SERVING_UNIT = 'serving';
+
+/**
+ * Units a food can be logged in: its own unit first, then any household measures, then raw
+ * grams. Foods without a known weight can only be logged in their own unit.
+ */
+export function portionOptions(food: FoodItem): Portion[] {
+  if (!food.grams) {
+    return [{ unit: food.unit, grams: 0 }];
+  }
+
+  const options: Portion[] = [{ unit: food.unit, grams: food.grams / food.defaultQuantity }];
+  food.portions?.forEach((portion) => {
+    if (!options.some((option) => option.unit === portion.unit)) {
+      options.push(portion);
+    }
+  });
+  if (food.unit !== GRAM_UNIT) {
+    options.push({ unit: GRAM_UNIT, grams: 1 });
+  }
+  return options;
+}
+
+export interface ResolvedServing {
+  /** Multiplier applied to the food's per-`defaultQuantity` macros. */
+  factor: number;
+  /** Normalised weight, when the food's weight is known. */
+  grams?: number;
+}
+
+export function resolveServing(food: FoodItem, quantity: number, unit: string): ResolvedServing {
+  const portion = food.grams ? portionOptions(food).find((option) => option.unit === unit) : undefined;
+  if (!food.grams || !portion) {
+    return { factor: quantity / food.defaultQuantity };
+  }
+
+  const grams = quantity * portion.grams;
+  return { factor: grams / food.grams, grams: Math.round(grams) };
+}
+
+/** A sensible starting quantity after switching units: the food's usual serving, converted. */
+export function defaultQuantityFor(food: FoodItem, unit: string): number {
+  if (unit === food.unit || !food.grams) {
+    return food.defaultQuantity;
+  }
+  if (unit === GRAM_UNIT) {
+    return Math.round(food.grams);
+  }
+  return 1;
+}
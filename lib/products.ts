@@ -0,0 +1,294 @@
+import type { FoodItem } from '../data/foods';
+import { GRAM_UNIT, SERVING_UNIT } from './portions';
+import { scaleMacros, type MacroTotals } from './utils';
+
+/**
+ * A packaged food found by its barcode. The products store holds rows imported from a dataset
+ * file (an Open Food Facts subset, say) plus products typed in on this device, so lookups never
+ * need a connection.
+ */
+export interface Product {
+  /** Normalised GTIN, see `normalizeBarcode`. */
+  barcode: string;
+  name: string;
+  brand?: string;
+  /** As printed on the label's per 100 g column. */
+  per100g: MacroTotals;
+  /** The pack's suggested serving, e.g. "2 biscuits (25 g)". Absent when the label gives none. */
+  serving?: { label: string; grams: number };
+  /** `local` products were typed in on this device and are never overwritten by an import. */
+  source: 'import' | 'local';
+  updatedAt: string;
+}
+
+export interface ProductImport {
+  products: Product[];
+  /** Rows without a usable barcode, name or energy value, or with a negative or non-numeric per 100 g value. */
+  skipped: number;
+}
+
+const GTIN_LENGTHS = [8, 12, 13, 14];
+
+/** Standard GS1 check digit: weights 3 and 1 alternate from the digit next to the check digit. */
+function hasValidCheckDigit(digits: string): boolean {
+  const body = digits.slice(0, -1);
+  const sum = body
+    .split('')
+    .reverse()
+    .reduce((acc, digit, index) => acc + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+/**
+ * Digits of an EAN-8, UPC-A, EAN-13 or GTIN-14 with a correct check digit, or null. UPC-A codes
+ * gain a leading zero so a pack scanned as UPC-A matches the same pack listed as EAN-13.
+ */
+export function normalizeBarcode(input: string): string | null {
+  const digits = input.replace(/[\s-]/g, '');
+  if (!/^\d+$/.test(digits) || !GTIN_LENGTHS.includes(digits.length) || !hasValidCheckDigit(digits)) {
+    return null;
+  }
+  return digits.length === 12 ? `0${digits}` : digits;
+}
+
+export const productFoodId = (barcode: string) => `product-${barcode}`;
+
+/**
+ * The product as a saved food: one label serving when the pack gives one, otherwise 100 g.
+ * Either way the weight is known, so it can also be logged in grams.
+ */
+export function productToFood(product: Product): FoodItem {
+  const grams = product.serving?.grams ?? 100;
+  return {
+    id: productFoodId(product.barcode),
+    name: product.name,
+    description: '',
+    ...scaleMacros(product.per100g, grams / 100),
+    defaultQuantity: product.serving ? 1 : 100,
+    unit: product.serving ? SERVING_UNIT : GRAM_UNIT,
+    grams,
+    tags: ['packaged'],
+    locale: product.brand ? [product.brand] : [],
+    custom: true
+  };
+}
+
+const KJ_PER_KCAL = 4.184;
+
+const toNumber = (value: unknown): number | undefined => {
+  const parsed = typeof value === 'number' ? value : Number(String(value ?? '').replace(',', '.'));
+  return value !== '' && value !== null && value !== undefined && Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const round1 = (value: number) => Number(value.toFixed(1));
+
+/** A label value that can be stored: a finite number, not negative. */
+const toAmount = (value: unknown): number | undefined => {
+  const parsed = toNumber(value);
+  return parsed !== undefined && parsed >= 0 ? parsed : undefined;
+};
+
+/**
+ * A row already in this app's `Product` shape, e.g. from another device's export. Only the known
+ * fields are kept, and each per 100 g value must be a non-negative number; energy is required,
+ * missing macros count as 0.
+ */
+function ownRowToProduct(
+  row: Record<string, unknown>,
+  per100g: Record<string, unknown>,
+  updatedAt: string
+): Product | null {
+  const barcode = normalizeBarcode(String(row.barcode ?? ''));
+  const name = typeof row.name === 'string' ? row.name.trim() : '';
+  const calories = toAmount(per100g.calories);
+  const macros = (['protein', 'carbs', 'fats'] as const).map((key) =>
+    per100g[key] === undefined ? 0 : toAmount(per100g[key])
+  );
+  if (!barcode || !name || calories === undefined || macros.some((value) => value === undefined)) {
+    return null;
+  }
+
+  const [protein, carbs, fats] = macros as number[];
+  const serving = row.serving as Record<string, unknown> | undefined;
+  const servingGrams = serving && typeof serving === 'object' ? toAmount(serving.grams) : undefined;
+  return {
+    barcode,
+    name,
+    brand: typeof row.brand === 'string' && row.brand.trim() ? row.brand.trim() : undefined,
+    per100g: { calories: Math.round(calories), protein: round1(protein), carbs: round1(carbs), fats: round1(fats) },
+    serving:
+      serving && servingGrams
+        ? { label: String(serving.label ?? '').trim() || `${servingGrams} g`, grams: servingGrams }
+        : undefined,
+    source: 'import',
+    updatedAt
+  };
+}
+
+/**
+ * One dataset row as a product. Reads Open Food Facts field names, both nested (`nutriments`) as
+ * in the JSONL dump and flat as in the CSV export, and this app's own `Product` shape.
+ */
+function rowToProduct(row: Record<string, unknown>, updatedAt: string): Product | null {
+  if (row.per100g && typeof row.per100g === 'object') {
+    return ownRowToProduct(row, row.per100g as Record<string, unknown>, updatedAt);
+  }
+
+  const nutriments = { ...row, ...((row.nutriments as Record<string, unknown> | undefined) ?? {}) };
+  const barcode = normalizeBarcode(String(row.code ?? row.barcode ?? ''));
+  const name = String(row.product_name_en ?? row.product_name ?? '').trim();
+  const kilojoules = toAmount(nutriments.energy_100g) ?? toAmount(nutriments['energy-kj_100g']);
+  const calories =
+    toAmount(nutriments['energy-kcal_100g']) ?? (kilojoules === undefined ? undefined : kilojoules / KJ_PER_KCAL);
+  if (!barcode || !name || calories === undefined) {
+    return null;
+  }
+
+  const servingGrams = toAmount(row.serving_quantity);
+  const brand = String(row.brands ?? '').split(',')[0].trim();
+  return {
+    barcode,
+    name,
+    brand: brand || undefined,
+    per100g: {
+      calories: Math.round(calories),
+      protein: round1(toAmount(nutriments.proteins_100g) ?? 0),
+      carbs: round1(toAmount(nutriments.carbohydrates_100g) ?? 0),
+      fats: round1(toAmount(nutriments.fat_100g) ?? 0)
+    },
+    serving:
+      servingGrams && servingGrams > 0
+        ? { label: String(row.serving_size ?? '').trim() || `${servingGrams} g`, grams: servingGrams }
+        : undefined,
+    source: 'import',
+    updatedAt
+  };
+}
+
+/** Splits one line of a delimited file, honouring double quotes around cells. */
+function splitDelimited(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+function parseRows(text: string): Record<string, unknown>[] {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[')) {
+    return JSON.parse(trimmed);
+  }
+  if (trimmed.startsWith('{')) {
+    const lines = trimmed.split(/\r?\n/).filter((line) => line.trim());
+    if (lines.length > 1 && lines.every((line) => line.trim().startsWith('{'))) {
+      return lines.map((line) => JSON.parse(line));
+    }
+    const parsed = JSON.parse(trimmed);
+    return Array.isArray(parsed.products) ? parsed.products : [parsed];
+  }
+
+  // The Open Food Facts CSV export is tab-separated; hand-made files are usually comma-separated.
+  const [header, ...lines] = trimmed.split(/\r?\n/);
+  const delimiter = header.includes('\t') ? '\t' : ',';
+  const columns = splitDelimited(header, delimiter).map((column) => column.trim());
+  return lines
+    .filter((line) => line.trim())
+    .map((line) => {
+      const cells = splitDelimited(line, delimiter);
+      return Object.fromEntries(columns.map((column, index) => [column, cells[index]?.trim() ?? '']));
+    });
+}
+
+/** Thrown by `parseProductFile`; `problem` lets the barcode panel explain it in the reader's language. */
+export class ProductFileError extends Error {
+  constructor(
+    readonly problem: 'unreadable' | 'empty',
+    message: string
+  ) {
+    super(message);
+    this.name = 'ProductFileError';
+  }
+}
+
+/** Reads a product dataset: a JSON array, `{ products: [...] }`, JSON Lines, or CSV/TSV with a header row. */
+export function parseProductFile(text: string): ProductImport {
+  let rows: Record<string, unknown>[];
+  try {
+    rows = parseRows(text);
+  } catch {
+    throw new ProductFileError('unreadable', 'This file is not valid JSON, JSON Lines or CSV.');
+  }
+
+  const updatedAt = new Date().toISOString();
+  const products = new Map<string, Product>();
+  let skipped = 0;
+  rows.forEach((row) => {
+    const product = row && typeof row === 'object' ? rowToProduct(row, updatedAt) : null;
+    if (product) {
+      products.set(product.barcode, product);
+    } else {
+      skipped += 1;
+    }
+  });
+  if (products.size === 0) {
+    throw new ProductFileError(
+      'empty',
+      'No products with a barcode, name and energy per 100 g were found in this file.'
+    );
+  }
+  return { products: Array.from(products.values()), skipped };
+}
+
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect: (image: ImageBitmapSource) => Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetectorInstance;
+
+const barcodeDetector = (): BarcodeDetectorConstructor | undefined =>
+  typeof window === 'undefined'
+    ? undefined
+    : (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+/** The browser's built-in Shape Detection API decodes on the device; not every browser ships it. */
+export const canDecodeBarcodes = () => Boolean(barcodeDetector());
+
+/** The first retail barcode in a photo, normalised, or null when none could be read. */
+export async function decodeBarcodeImage(image: Blob): Promise<string | null> {
+  const Detector = barcodeDetector();
+  if (!Detector) {
+    throw new Error('This browser cannot read barcodes from photos. Type the number under the bars instead.');
+  }
+  const bitmap = await createImageBitmap(image);
+  try {
+    const found = await new Detector({ formats: ['ean_13', 'ean_8', 'upc_a'] }).detect(bitmap);
+    return found.map((barcode) => normalizeBarcode(barcode.rawValue)).find(Boolean) ?? null;
+  } finally {
+    bitmap.close();
+  }
+}
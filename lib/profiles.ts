@@ -0,0 +1,80 @@
+import { DEFAULT_DAY_START_HOUR } from './day';
+import { uid } from './utils';
+
+/**
+ * A person tracked on this device. Logs, targets, body measurements and favourites belong to
+ * one profile; saved foods and recipes are shared by the whole household.
+ */
+export interface Profile {
+  id: string;
+  /** Empty until someone names it; `profileLabel` in `lib/i18n` shows a name in the current language. */
+  name: string;
+  /** Tailwind background class for the switcher chip. */
+  colour: string;
+  /** Local hour this person's nutritional day starts; see `lib/day`. */
+  dayStartHour: number;
+  createdAt: string;
+}
+
+/** Everything logged before profiles existed belongs to this one. */
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const PROFILE_COLOURS = [
+  'bg-brand',
+  'bg-amber-500',
+  'bg-sky-500',
+  'bg-rose-500',
+  'bg-violet-500',
+  'bg-lime-600'
+];
+
+export function defaultProfile(): Profile {
+  return {
+    id: DEFAULT_PROFILE_ID,
+    name: '',
+    colour: PROFILE_COLOURS[0],
+    dayStartHour: DEFAULT_DAY_START_HOUR,
+    createdAt: new Date().toISOString()
+  };
+}
+
+/** Why `name` can't be used next to `others`, so the switcher can say so in the reader's language. */
+export function profileNameProblem(name: string, others: Profile[]): 'missing' | 'taken' | null {
+  const trimmed = name.trim();
+  if (!trimmed) return 'missing';
+  return others.some((profile) => profile.name.toLowerCase() === trimmed.toLowerCase()) ? 'taken' : null;
+}
+
+function validateName(name: string, others: Profile[]): string {
+  const problem = profileNameProblem(name, others);
+  if (problem === 'missing') {
+    throw new Error('Give the profile a name.');
+  }
+  if (problem === 'taken') {
+    throw new Error(`There is already a profile called ${name.trim()}.`);
+  }
+  return name.trim();
+}
+
+export function createProfile(name: string, existing: Profile[]): Profile {
+  return {
+    id: uid('profile'),
+    name: validateName(name, existing),
+    colour: PROFILE_COLOURS[existing.length % PROFILE_COLOURS.length],
+    dayStartHour: DEFAULT_DAY_START_HOUR,
+    createdAt: new Date().toISOString()
+  };
+}
+
+export function updateProfile(
+  profile: Profile,
+  changes: Pick<Profile, 'name' | 'dayStartHour'>,
+  existing: Profile[]
+): Profile {
+  const others = existing.filter((other) => other.id !== profile.id);
+  // An unnamed profile can keep following the language while only its day start changes.
+  const name = changes.name === profile.name ? profile.name : validateName(changes.name, others);
+  return { ...profile, name, dayStartHour: changes.dayStartHour };
+}
+
+export const profileInitial = (profile: Pick<Profile, 'name'>) => profile.name.trim().charAt(0).toUpperCase() || '?';
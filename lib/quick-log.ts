@@ -0,0 +1,50 @@
+import { canonicalFoodId } from '../data/foods';
+import type { LogEntry } from './db';
+import { instantOnDay, logTimestamp, loggedTimeInput, utcOffsetAt } from './day';
+import type { MealSlot } from './meals';
+import { uid } from './utils';
+
+/**
+ * Identifies "the same food" across days: catalogue, custom and recipe entries by `foodId`,
+ * one-off custom entries by their name.
+ */
+export function quickKey(entry: Pick<LogEntry, 'foodId' | 'name'>): string {
+  return entry.foodId ? canonicalFoodId(entry.foodId) : `name:${entry.name.trim().toLowerCase()}`;
+}
+
+const stampAt = (createdAt: Date) => ({ createdAt: createdAt.toISOString(), utcOffset: utcOffsetAt(createdAt) });
+
+/**
+ * A fresh copy of `source` on nutritional day `dateKey`; the new entry keeps the original's
+ * wall-clock time and meal.
+ */
+export function copyEntryToDate(source: LogEntry, dateKey: string, dayStartHour: number): LogEntry {
+  return {
+    ...source,
+    id: uid(source.foodId ? 'food' : 'custom'),
+    ...stampAt(instantOnDay(dateKey, loggedTimeInput(source), dayStartHour)),
+    dateKey
+  };
+}
+
+/** Copies that keep their meal slot, in the order they were eaten on the source day. */
+export function copyEntriesToDate(sources: LogEntry[], dateKey: string, dayStartHour: number): LogEntry[] {
+  return [...sources]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map((source) => copyEntryToDate(source, dateKey, dayStartHour));
+}
+
+/** Logs `source` again now, e.g. from the recents list; quantity and macros carry over unchanged. */
+export function relogEntry(
+  source: LogEntry,
+  dateKey: string,
+  mealSlot: MealSlot,
+  dayStartHour: number,
+  now = new Date()
+): LogEntry {
+  return {
+    ...copyEntryToDate(source, dateKey, dayStartHour),
+    ...stampAt(logTimestamp(dateKey, dayStartHour, now)),
+    mealSlot
+  };
+}
@@ -0,0 +1,80 @@
+import type { FoodItem } from '../data/foods';
+import { completeMicros, scaleMicros, sumMicros, type Micronutrients } from './nutrients';
+import { SERVING_UNIT } from './portions';
+import { scaleMacros, sumMacros, type MacroTotals } from './utils';
+
+export interface RecipeIngredient {
+  foodId: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  /** Macros for `quantity`, captured when the ingredient was added so catalogue edits don't drift the recipe. */
+  macros: MacroTotals;
+  micros?: Micronutrients;
+}
+
+export type RecipeYield =
+  | { mode: 'servings'; servings: number }
+  | { mode: 'weight'; cookedGrams: number; servingGrams: number };
+
+export interface Recipe {
+  id: string;
+  name: string;
+  description: string;
+  ingredients: RecipeIngredient[];
+  yield: RecipeYield;
+  tags: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export function ingredientFromFood(food: FoodItem, quantity: number): RecipeIngredient {
+  return {
+    foodId: food.id,
+    name: food.name,
+    quantity,
+    unit: food.unit,
+    macros: scaleMacros(food, quantity / food.defaultQuantity),
+    micros: scaleMicros(food.micros, quantity / food.defaultQuantity)
+  };
+}
+
+export function servingsFor(recipeYield: RecipeYield): number {
+  const servings =
+    recipeYield.mode === 'servings' ? recipeYield.servings : recipeYield.cookedGrams / recipeYield.servingGrams;
+  return Number.isFinite(servings) && servings > 0 ? servings : 1;
+}
+
+export function recipeTotals(recipe: Pick<Recipe, 'ingredients'>): MacroTotals {
+  return sumMacros(recipe.ingredients.map((ingredient) => ingredient.macros));
+}
+
+export function perServingMacros(recipe: Pick<Recipe, 'ingredients' | 'yield'>): MacroTotals {
+  return scaleMacros(recipeTotals(recipe), 1 / servingsFor(recipe.yield));
+}
+
+/** Only nutrients known for every ingredient are carried over; a partial sum would understate them. */
+export function perServingMicros(recipe: Pick<Recipe, 'ingredients' | 'yield'>): Micronutrients | undefined {
+  return scaleMicros(completeMicros(sumMicros(recipe.ingredients)), 1 / servingsFor(recipe.yield));
+}
+
+/**
+ * Exposes a recipe to the catalogue as one loggable serving. A recipe measured by weight knows
+ * what a serving weighs, so it can also be logged in grams.
+ */
+export function recipeToFood(recipe: Recipe): FoodItem {
+  return {
+    id: recipe.id,
+    name: recipe.name,
+    description:
+      recipe.description || recipe.ingredients.map((ingredient) => ingredient.name).join(', '),
+    ...perServingMacros(recipe),
+    micros: perServingMicros(recipe),
+    defaultQuantity: 1,
+    unit: SERVING_UNIT,
+    grams: recipe.yield.mode === 'weight' ? recipe.yield.servingGrams : undefined,
+    tags: Array.from(new Set(['recipe', ...recipe.tags])),
+    locale: [],
+    recipe: true
+  };
+}
@@ -0,0 +1,201 @@
+import { WATER_TARGET_ML } from './body';
+import { getMeta, putMeta } from './db';
+import { formatNumber, localeInfo, mealSlotLabel, translate, type Locale } from './i18n';
+import type { MealSlot } from './meals';
+import type { MacroTargets } from './targets';
+import { addDays, formatDateKey, sumMacros, type MacroTotals } from './utils';
+
+/**
+ * Local reminders, worked out on this device with no push server. Settings belong to the device
+ * rather than a person, like sync; the messages describe whoever is active when they fire.
+ */
+
+export type ReminderKind = 'meal' | 'water' | 'summary';
+
+/** Times are local `HH:MM`. */
+export interface ReminderSettings {
+  meal: { enabled: boolean; slot: MealSlot; by: string };
+  water: { enabled: boolean; everyHours: number; from: string; until: string };
+  summary: { enabled: boolean; at: string };
+  /** Nothing is shown between these times; reminders that fall inside are dropped, not delayed. */
+  quietHours: { enabled: boolean; from: string; until: string };
+}
+
+export interface DueReminder {
+  kind: ReminderKind;
+  at: Date;
+}
+
+export interface ReminderContext {
+  logs: (MacroTotals & { mealSlot: MealSlot })[];
+  waterMl: number;
+  targets: MacroTargets;
+}
+
+export interface ReminderMessage {
+  title: string;
+  body: string;
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  meal: { enabled: false, slot: 'breakfast', by: '10:00' },
+  water: { enabled: false, everyHours: 2, from: '08:00', until: '20:00' },
+  summary: { enabled: false, at: '21:30' },
+  quietHours: { enabled: true, from: '22:00', until: '07:00' }
+};
+
+export const WATER_INTERVAL_HOURS = [1, 2, 3, 4];
+
+/**
+ * How long after its time a reminder is still worth showing, e.g. when the app was asleep.
+ * Anything older is skipped, so opening the app in the evening does not replay the whole day.
+ */
+const GRACE_MS: Record<ReminderKind, number> = {
+  meal: 2 * 60 * 60 * 1000,
+  water: 30 * 60 * 1000,
+  summary: 3 * 60 * 60 * 1000
+};
+
+const REMINDER_META_KEY = 'reminders';
+const CHECKED_META_KEY = 'remindersCheckedAt';
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const atTime = (dateKey: string, minutes: number) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day, 0, minutes);
+};
+
+export function inQuietHours(settings: ReminderSettings, date: Date): boolean {
+  const { enabled, from, until } = settings.quietHours;
+  if (!enabled) return false;
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const start = minutesOf(from);
+  const end = minutesOf(until);
+  // A window such as 22:00–07:00 wraps past midnight.
+  return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/** Every reminder time on calendar day `dateKey`, quiet hours included. */
+function occurrencesOn(settings: ReminderSettings, dateKey: string): DueReminder[] {
+  const occurrences: DueReminder[] = [];
+  const { meal, water, summary } = settings;
+  if (meal.enabled) {
+    occurrences.push({ kind: 'meal', at: atTime(dateKey, minutesOf(meal.by)) });
+  }
+  if (water.enabled && water.everyHours > 0) {
+    const start = minutesOf(water.from);
+    const end = minutesOf(water.until);
+    for (let minutes = start; minutes <= (end < start ? end + 24 * 60 : end); minutes += water.everyHours * 60) {
+      occurrences.push({ kind: 'water', at: atTime(dateKey, minutes) });
+    }
+  }
+  if (summary.enabled) {
+    occurrences.push({ kind: 'summary', at: atTime(dateKey, minutesOf(summary.at)) });
+  }
+  return occurrences;
+}
+
+const occurrencesBetween = (settings: ReminderSettings, from: Date, to: Date) => {
+  const occurrences: DueReminder[] = [];
+  // Start a day early for water rounds that run past midnight.
+  for (let key = addDays(formatDateKey(from), -1); key <= formatDateKey(to); key = addDays(key, 1)) {
+    occurrences.push(...occurrencesOn(settings, key));
+  }
+  return occurrences.filter(({ at }) => at > from && at <= to && !inQuietHours(settings, at));
+};
+
+/**
+ * Reminders that came due after `since` and up to `now`. Only the latest of each kind is kept,
+ * and only while it is fresh, so a device that slept through several water rounds shows one.
+ */
+export function dueReminders(settings: ReminderSettings, since: Date, now: Date): DueReminder[] {
+  const latest = new Map<ReminderKind, DueReminder>();
+  occurrencesBetween(settings, since, now)
+    .filter(({ kind, at }) => now.getTime() - at.getTime() <= GRACE_MS[kind])
+    .forEach((reminder) => {
+      const current = latest.get(reminder.kind);
+      if (!current || reminder.at > current.at) latest.set(reminder.kind, reminder);
+    });
+  return Array.from(latest.values());
+}
+
+export function nextReminderAt(settings: ReminderSettings, after: Date): Date | null {
+  const horizon = new Date(after.getTime() + 2 * 24 * 60 * 60 * 1000);
+  const upcoming = occurrencesBetween(settings, after, horizon);
+  return upcoming.sort((a, b) => a.at.getTime() - b.at.getTime())[0]?.at ?? null;
+}
+
+/**
+ * What to say for a due reminder in `locale`, or null when it no longer applies (breakfast
+ * already logged).
+ */
+export function reminderMessage(
+  kind: ReminderKind,
+  settings: ReminderSettings,
+  { logs, waterMl, targets }: ReminderContext,
+  locale: Locale
+): ReminderMessage | null {
+  const number = (value: number, maximumFractionDigits?: number) =>
+    formatNumber(locale, value, maximumFractionDigits);
+  switch (kind) {
+    case 'meal': {
+      const { slot } = settings.meal;
+      if (logs.some((entry) => entry.mealSlot === slot)) return null;
+      const meal = mealSlotLabel(locale, slot).toLocaleLowerCase(localeInfo(locale).intl);
+      return {
+        title: translate(locale, 'reminder.mealTitle', { meal }),
+        body: translate(locale, 'reminder.mealBody', { meal })
+      };
+    }
+    case 'water':
+      if (waterMl >= WATER_TARGET_ML) return null;
+      return {
+        title: translate(locale, 'reminder.waterTitle'),
+        body: translate(locale, 'reminder.waterBody', {
+          amount: number(waterMl, 0),
+          target: number(WATER_TARGET_ML, 0)
+        })
+      };
+    case 'summary': {
+      const totals = sumMacros(logs);
+      return {
+        title: translate(locale, 'reminder.summaryTitle'),
+        body: translate(locale, 'reminder.summaryBody', {
+          calories: number(totals.calories, 0),
+          caloriesTarget: number(targets.calories, 0),
+          protein: number(totals.protein),
+          proteinTarget: number(targets.protein),
+          carbs: number(totals.carbs),
+          carbsTarget: number(targets.carbs),
+          fats: number(totals.fats),
+          fatsTarget: number(targets.fats),
+          water: number(waterMl, 0),
+          waterTarget: number(WATER_TARGET_ML, 0)
+        })
+      };
+    }
+  }
+}
+
+export async function getReminderSettings(): Promise<ReminderSettings> {
+  const stored = await getMeta<Partial<ReminderSettings>>(REMINDER_META_KEY);
+  return { ...DEFAULT_REMINDER_SETTINGS, ...stored };
+}
+
+export async function putReminderSettings(settings: ReminderSettings): Promise<void> {
+  await putMeta(REMINDER_META_KEY, settings);
+}
+
+/** When reminders were last checked; the next check only looks at what came due since then. */
+export async function getRemindersCheckedAt(): Promise<Date | null> {
+  const stored = await getMeta<string>(CHECKED_META_KEY);
+  return stored ? new Date(stored) : null;
+}
+
+export async function setRemindersCheckedAt(at: Date): Promise<void> {
+  await putMeta(CHECKED_META_KEY, at.toISOString());
+}
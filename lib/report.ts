@@ -0,0 +1,140 @@
+import type { LogEntry } from './db';
+import { buildHistory, type DaySummary, type HistoryStats } from './history';
+import { MEAL_SLOTS, groupByMealSlot, type MealSlot } from './meals';
+import { quickKey } from './quick-log';
+import type { MacroKey, MacroTargets } from './targets';
+import { sumMacros, type MacroTotals } from './utils';
+
+/** One row of the report's daily table: the history summary plus what each meal contributed. */
+export interface ReportDay extends DaySummary {
+  meals: Record<MealSlot, MacroTotals>;
+}
+
+export interface MealBreakdown {
+  slot: MealSlot;
+  /** Mean per logged day, so skipped days do not drag every meal down. */
+  average: MacroTotals;
+  /** Share of all calories in the range, 0..1. */
+  calorieShare: number;
+  entryCount: number;
+}
+
+export interface FoodFrequency {
+  key: string;
+  name: string;
+  count: number;
+  calories: number;
+}
+
+export interface ReportNote {
+  dateKey: string;
+  mealSlot: MealSlot;
+  name: string;
+  notes: string;
+}
+
+export interface DietitianReport {
+  startKey: string;
+  endKey: string;
+  days: ReportDay[];
+  history: HistoryStats;
+  /** Average intake over logged days as a share of that day's target, per macro. */
+  targetShare: Record<MacroKey, number>;
+  averageTarget: MacroTargets;
+  meals: MealBreakdown[];
+  topFoods: FoodFrequency[];
+  notes: ReportNote[];
+}
+
+export const REPORT_TOP_FOODS = 10;
+
+const MACRO_KEYS: MacroKey[] = ['calories', 'protein', 'carbs', 'fats'];
+
+const averageOf = (totals: MacroTotals[]): MacroTotals => {
+  const summed = sumMacros(totals);
+  const divisor = Math.max(1, totals.length);
+  return {
+    calories: Math.round(summed.calories / divisor),
+    protein: Number((summed.protein / divisor).toFixed(1)),
+    carbs: Number((summed.carbs / divisor).toFixed(1)),
+    fats: Number((summed.fats / divisor).toFixed(1))
+  };
+};
+
+/**
+ * Everything the printable report shows for `startKey`..`endKey`. `entries` may run on to
+ * `todayKey` so the current streak can be counted; only those inside the range are reported.
+ * `isDefaultNote` filters out notes that only repeat a food's catalogue description, which
+ * logging copies onto each entry.
+ */
+export function buildReport(
+  loaded: LogEntry[],
+  startKey: string,
+  endKey: string,
+  targetFor: (dateKey: string) => MacroTargets,
+  todayKey: string,
+  isDefaultNote: (entry: LogEntry) => boolean = () => false
+): DietitianReport {
+  const history = buildHistory(loaded, startKey, endKey, targetFor, todayKey);
+  const entries = loaded.filter((entry) => entry.dateKey >= startKey && entry.dateKey <= endKey);
+  const byDate = new Map<string, LogEntry[]>();
+  entries.forEach((entry) => {
+    const bucket = byDate.get(entry.dateKey);
+    if (bucket) {
+      bucket.push(entry);
+    } else {
+      byDate.set(entry.dateKey, [entry]);
+    }
+  });
+
+  const days = history.days.map((day): ReportDay => {
+    const bySlot = groupByMealSlot(byDate.get(day.dateKey) ?? []);
+    const meals = Object.fromEntries(MEAL_SLOTS.map((slot) => [slot, sumMacros(bySlot[slot])])) as Record<
+      MealSlot,
+      MacroTotals
+    >;
+    return { ...day, meals };
+  });
+  const logged = days.filter((day) => day.entryCount > 0);
+
+  const averageTarget = averageOf(logged.map((day) => day.target));
+  const targetShare = Object.fromEntries(
+    MACRO_KEYS.map((key) => [key, averageTarget[key] > 0 ? history.averages[key] / averageTarget[key] : 0])
+  ) as Record<MacroKey, number>;
+
+  const allCalories = logged.reduce((sum, day) => sum + day.totals.calories, 0);
+  const meals = MEAL_SLOTS.map((slot): MealBreakdown => {
+    const slotTotals = logged.map((day) => day.meals[slot]);
+    const slotCalories = slotTotals.reduce((sum, totals) => sum + totals.calories, 0);
+    return {
+      slot,
+      average: averageOf(slotTotals),
+      calorieShare: allCalories > 0 ? slotCalories / allCalories : 0,
+      entryCount: entries.filter((entry) => entry.mealSlot === slot).length
+    };
+  });
+
+  // Entries arrive in the order they were logged, so each food keeps the name it was last logged under.
+  const frequencies = new Map<string, FoodFrequency>();
+  entries.forEach((entry) => {
+    const key = quickKey(entry);
+    const current = frequencies.get(key);
+    frequencies.set(key, {
+      key,
+      name: entry.name,
+      count: (current?.count ?? 0) + 1,
+      calories: (current?.calories ?? 0) + entry.calories
+    });
+  });
+  const topFoods = Array.from(frequencies.values())
+    .sort((a, b) => b.count - a.count || b.calories - a.calories)
+    .slice(0, REPORT_TOP_FOODS);
+
+  const notes = entries.flatMap((entry): ReportNote[] => {
+    const text = entry.notes?.trim();
+    if (!text || isDefaultNote(entry)) return [];
+    return [{ dateKey: entry.dateKey, mealSlot: entry.mealSlot, name: entry.name, notes: text }];
+  });
+
+  return { startKey, endKey, days, history, targetShare, averageTarget, meals, topFoods, notes };
+}
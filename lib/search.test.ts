@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { FoodItem } from '../data/foods';
+import { buildSearchIndex, searchFoods } from './search';
+
+/**
+ * Matching and ranking on a small fixed catalogue. Run with a TypeScript loader, e.g.
+ * `node -r sucrase/register/ts --test lib/search.test.ts`.
+ */
+
+const food = (id: string, name: string, description: string, tags: string[] = [], aliases?: string[]): FoodItem => ({
+  id,
+  name,
+  description,
+  calories: 100,
+  protein: 1,
+  carbs: 1,
+  fats: 1,
+  defaultQuantity: 1,
+  unit: 'plate',
+  tags,
+  aliases,
+  locale: ['Pan-India']
+});
+
+const FOODS = [
+  food('steamed-rice', 'Steamed Rice', 'Plain boiled rice.', ['rice']),
+  food('masala-chai', 'Masala Chai', 'Milk tea brewed with ginger and cardamom.', ['beverage'], ['chay']),
+  food('chicken-biryani', 'Chicken Biryani', 'Layered rice with spiced chicken.', ['rice', 'non-veg']),
+  food('paneer-tikka', 'Paneer Tikka', 'Grilled cottage cheese cubes.', ['vegetarian', 'starter'])
+];
+
+const index = buildSearchIndex(FOODS);
+const ids = (query: string) => searchFoods(index, query).map((item) => item.id);
+
+describe('searchFoods', () => {
+  it('ranks a whole word in the description above part of a word in the name', () => {
+    assert.deepEqual(ids('tea'), ['masala-chai', 'steamed-rice']);
+  });
+
+  it('ranks an exact tag above the start of a longer one', () => {
+    assert.deepEqual(ids('veg'), ['chicken-biryani', 'paneer-tikka']);
+  });
+
+  it('folds spelling variants and absorbs typos in names', () => {
+    assert.deepEqual(ids('biriyani'), ['chicken-biryani']);
+    assert.deepEqual(ids('paner tika'), ['paneer-tikka']);
+    assert.deepEqual(ids('chai'), ['masala-chai']);
+  });
+
+  it('matches descriptions by whole words and prefixes only', () => {
+    assert.deepEqual(ids('cardamom'), ['masala-chai']);
+    assert.deepEqual(ids('carda'), ['masala-chai']);
+    assert.deepEqual(ids('cardamon'), []);
+    assert.deepEqual(ids('ottage'), []);
+  });
+
+  it('needs every query word to match', () => {
+    assert.deepEqual(ids('chicken rice'), ['chicken-biryani']);
+    assert.deepEqual(ids('paneer rice'), []);
+  });
+
+  it('puts frequently logged foods first for an empty query', () => {
+    const results = searchFoods(index, '', { frequencies: { 'paneer-tikka': 5 } });
+    assert.equal(results[0].id, 'paneer-tikka');
+    assert.equal(results.length, FOODS.length);
+  });
+});
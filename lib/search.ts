@@ -0,0 +1,247 @@
+import type { FoodItem } from '../data/foods';
+
+/**
+ * Catalogue search tuned for romanised South Asian dish names. Every searchable string is
+ * folded to a phonetic key first, so "biriyani"/"biryani", "paneer tika"/"paneer tikka" and
+ * "dosai"/"dosa" land close together; remaining differences are absorbed by a bounded
+ * edit distance. The index is built once per catalogue so typing stays cheap on slow phones:
+ * each distinct token is scored once per query, prefixes are found by binary search and the
+ * edit distance only runs on tokens that share a letter pair with the query.
+ */
+
+/** One food a token appears in, under the weight of the field it came from. */
+interface Posting {
+  item: number;
+  weight: number;
+  /** Descriptions are prose, so only whole words and prefixes count there; no typos or substrings. */
+  fuzzy: boolean;
+}
+
+export interface SearchIndex {
+  foods: FoodItem[];
+  /** Every distinct token and where it appears. */
+  postings: Map<string, Posting[]>;
+  /** The same tokens, sorted, for prefix lookups. */
+  sortedTokens: string[];
+  /** Tokens from fuzzy fields by each two-letter pair in them. */
+  bigrams: Map<string, string[]>;
+}
+
+export interface SearchOptions {
+  /** How often each food id has been logged; frequently eaten foods rank higher. */
+  frequencies?: Record<string, number>;
+}
+
+const FIELD_WEIGHTS = {
+  name: 1,
+  alias: 1,
+  tag: 0.6,
+  description: 0.3
+};
+
+const TOKEN_SPLIT = /[^\p{L}\p{M}\p{N}]+/u;
+
+const PHONETIC_RULES: [RegExp, string][] = [
+  [/aa+/g, 'a'],
+  [/ee+|ii+/g, 'i'],
+  [/oo+|uu+/g, 'u'],
+  [/w/g, 'v'],
+  [/ph/g, 'f'],
+  [/([kgcjtdpb])h/g, '$1'],
+  [/sh/g, 's'],
+  [/z/g, 'j'],
+  [/q/g, 'k'],
+  [/y/g, 'i'],
+  [/([bcdfghjklmnpqrstvxz])\1+/g, '$1'],
+  [/([a-z])\1+/g, '$1']
+];
+
+/** Lowercases, drops Latin diacritics and applies transliteration folding. Other scripts pass through. */
+export function phoneticKey(text: string): string {
+  let key = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+  for (const [pattern, replacement] of PHONETIC_RULES) {
+    key = key.replace(pattern, replacement);
+  }
+  return key;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .split(TOKEN_SPLIT)
+    .map(phoneticKey)
+    .filter(Boolean);
+}
+
+function maxEdits(length: number): number {
+  if (length <= 3) return 0;
+  if (length <= 6) return 1;
+  return 2;
+}
+
+/** Levenshtein distance that gives up as soon as it exceeds `limit`. */
+function boundedDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      const value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > limit) return limit + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** 1 for an exact token, 0.9 for a prefix, 0 otherwise. */
+function strictQuality(query: string, token: string): number {
+  if (token === query) return 1;
+  return token.startsWith(query) ? 0.9 : 0;
+}
+
+/** Substrings and typos, for tokens `strictQuality` doesn't match. */
+function fuzzyQuality(query: string, token: string): number {
+  if (query.length >= 3 && token.includes(query)) return 0.7;
+
+  const limit = maxEdits(query.length);
+  if (limit === 0) return 0;
+  // Compare against the token's prefix too, so partial words with a typo still match.
+  const distance = Math.min(
+    boundedDistance(query, token, limit),
+    token.length > query.length ? boundedDistance(query, token.slice(0, query.length), limit) : limit + 1
+  );
+  return distance <= limit ? 0.65 - distance * 0.1 : 0;
+}
+
+/**
+ * How well a token matching with `quality` ranks in a field of `weight`. The kind of match
+ * decides the order and the field only breaks ties, so "tea" as a whole word in a description
+ * outranks the "tea" inside "steamed".
+ */
+const weighted = (quality: number, weight: number) => quality - (1 - weight) * 0.2;
+
+const bigramsOf = (token: string) =>
+  Array.from({ length: Math.max(token.length - 1, 0) }, (_, index) => token.slice(index, index + 2));
+
+export function buildSearchIndex(foods: FoodItem[]): SearchIndex {
+  const postings = new Map<string, Posting[]>();
+  foods.forEach((food, item) => {
+    const add = (text: string, weight: number, fuzzy = true) =>
+      tokenize(text).forEach((key) => {
+        const list = postings.get(key);
+        if (list) {
+          list.push({ item, weight, fuzzy });
+        } else {
+          postings.set(key, [{ item, weight, fuzzy }]);
+        }
+      });
+
+    add(food.name, FIELD_WEIGHTS.name);
+    Object.values(food.names ?? {}).forEach((name) => add(name, FIELD_WEIGHTS.name));
+    food.aliases?.forEach((alias) => add(alias, FIELD_WEIGHTS.alias));
+    food.tags.forEach((tag) => add(tag, FIELD_WEIGHTS.tag));
+    add(food.description, FIELD_WEIGHTS.description, false);
+  });
+
+  const bigrams = new Map<string, string[]>();
+  postings.forEach((list, token) => {
+    if (!list.some((posting) => posting.fuzzy)) return;
+    new Set(bigramsOf(token)).forEach((pair) => {
+      const tokens = bigrams.get(pair);
+      if (tokens) {
+        tokens.push(token);
+      } else {
+        bigrams.set(pair, [token]);
+      }
+    });
+  });
+
+  return { foods, postings, sortedTokens: Array.from(postings.keys()).sort(), bigrams };
+}
+
+/** The first index in `sorted` whose token is not before `query`. */
+function lowerBound(sorted: string[], query: string): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (sorted[middle] < query) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+/**
+ * Each food's best weighted match for one query token, by position in the index. Typos within
+ * `maxEdits` always leave at least one letter pair of the query intact, so tokens sharing none
+ * can't match fuzzily and are never compared.
+ */
+function bestMatches(index: SearchIndex, query: string): Map<number, number> {
+  const best = new Map<number, number>();
+  const record = (token: string, strict: number, fuzzy: number) => {
+    index.postings.get(token)?.forEach((posting) => {
+      const quality = strict || (posting.fuzzy ? fuzzy : 0);
+      if (quality === 0) return;
+      const score = weighted(quality, posting.weight);
+      if (score > (best.get(posting.item) ?? 0)) best.set(posting.item, score);
+    });
+  };
+
+  const prefixed = new Set<string>();
+  for (let position = lowerBound(index.sortedTokens, query); position < index.sortedTokens.length; position += 1) {
+    const token = index.sortedTokens[position];
+    if (!token.startsWith(query)) break;
+    prefixed.add(token);
+    record(token, strictQuality(query, token), 0);
+  }
+
+  const candidates = new Set(bigramsOf(query).flatMap((pair) => index.bigrams.get(pair) ?? []));
+  candidates.forEach((token) => {
+    if (prefixed.has(token)) return;
+    const quality = fuzzyQuality(query, token);
+    if (quality > 0) record(token, 0, quality);
+  });
+  return best;
+}
+
+/**
+ * Returns matching foods, best first. Every query word has to match some token; an empty
+ * query returns the catalogue with frequently logged foods first.
+ */
+export function searchFoods(index: SearchIndex, query: string, options: SearchOptions = {}): FoodItem[] {
+  const frequencies = options.frequencies ?? {};
+  const frequencyBoost = (food: FoodItem) => 1 + 0.15 * Math.log2(1 + (frequencies[food.id] ?? 0));
+  const queryTokens = tokenize(query);
+
+  if (queryTokens.length === 0) {
+    return index.foods
+      .map((food, position) => ({ food, score: frequencyBoost(food), position }))
+      .sort((a, b) => b.score - a.score || a.position - b.position)
+      .map((result) => result.food);
+  }
+
+  const matches = queryTokens.map((queryToken) => bestMatches(index, queryToken));
+  const results: { food: FoodItem; score: number; position: number }[] = [];
+  matches[0].forEach((_, position) => {
+    const scores = matches.map((best) => best.get(position) ?? 0);
+    if (scores.includes(0)) return;
+    const food = index.foods[position];
+    const score = scores.reduce((sum, value) => sum + value, 0) / queryTokens.length;
+    results.push({ food, score: score * frequencyBoost(food), position });
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score || a.position - b.position)
+    .map((result) => result.food);
+}
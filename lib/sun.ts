@@ -0,0 +1,74 @@
+/**
+ * Sun positions from the US Naval Observatory "Almanac for Computers" method. Accurate to
+ * about a minute between the polar circles, which is enough to time a fast.
+ */
+
+/** The sun's upper edge on the horizon, allowing for refraction. */
+export const SUNRISE_ZENITH = 90.833;
+/** Astronomical dawn, the sun 18° below the horizon, used for Fajr in South Asia. */
+export const DAWN_ZENITH = 108;
+
+const RAD = Math.PI / 180;
+const HOUR_MS = 60 * 60 * 1000;
+
+const normalise = (value: number, range: number) => ((value % range) + range) % range;
+
+const dayOfYear = (year: number, month: number, day: number) =>
+  Math.round((Date.UTC(year, month - 1, day) - Date.UTC(year, 0, 0)) / (24 * HOUR_MS));
+
+/**
+ * When the sun crosses `zenith` on the local calendar day `dateKey` at the given place, or
+ * `null` when it never does (polar day or night).
+ */
+export function solarEvent(
+  dateKey: string,
+  latitude: number,
+  longitude: number,
+  zenith: number,
+  rising: boolean
+): Date | null {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const lngHour = longitude / 15;
+  const approxHour = rising ? 6 : 18;
+  const t = dayOfYear(year, month, day) + (approxHour - lngHour) / 24;
+
+  const meanAnomaly = 0.9856 * t - 3.289;
+  const trueLongitude = normalise(
+    meanAnomaly + 1.916 * Math.sin(meanAnomaly * RAD) + 0.02 * Math.sin(2 * meanAnomaly * RAD) + 282.634,
+    360
+  );
+
+  let rightAscension = normalise(Math.atan(0.91764 * Math.tan(trueLongitude * RAD)) / RAD, 360);
+  rightAscension += Math.floor(trueLongitude / 90) * 90 - Math.floor(rightAscension / 90) * 90;
+  rightAscension /= 15;
+
+  const sinDec = 0.39782 * Math.sin(trueLongitude * RAD);
+  const cosDec = Math.cos(Math.asin(sinDec));
+  const cosHour =
+    (Math.cos(zenith * RAD) - sinDec * Math.sin(latitude * RAD)) / (cosDec * Math.cos(latitude * RAD));
+  if (cosHour > 1 || cosHour < -1) return null;
+
+  const hourAngle = (rising ? 360 - Math.acos(cosHour) / RAD : Math.acos(cosHour) / RAD) / 15;
+  const localMeanTime = hourAngle + rightAscension - 0.06571 * t - 6.622;
+  // Pick the UTC hour closest to the rough local estimate, so places far from Greenwich do
+  // not land on the neighbouring UTC day.
+  const utcHour = normalise(localMeanTime - lngHour, 24);
+  const expected = approxHour - lngHour;
+  const shifted = utcHour + 24 * Math.round((expected - utcHour) / 24);
+
+  return new Date(Date.UTC(year, month - 1, day) + shifted * HOUR_MS);
+}
+
+export interface SunTimes {
+  dawn: Date | null;
+  sunrise: Date | null;
+  sunset: Date | null;
+}
+
+export function sunTimes(dateKey: string, latitude: number, longitude: number): SunTimes {
+  return {
+    dawn: solarEvent(dateKey, latitude, longitude, DAWN_ZENITH, true),
+    sunrise: solarEvent(dateKey, latitude, longitude, SUNRISE_ZENITH, true),
+    sunset: solarEvent(dateKey, latitude, longitude, SUNRISE_ZENITH, false)
+  };
+}
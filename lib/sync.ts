@@ -0,0 +1,274 @@
+import {
+  applyIncomingChanges,
+  clearPendingChanges,
+  countPendingChanges,
+  deleteMeta,
+  getMeta,
+  listPendingChanges,
+  putMeta,
+  queueAllLogs,
+  type IncomingChange,
+  type LogEntry,
+  type PendingChange,
+  type Tombstone
+} from './db';
+
+// Opt-in end-to-end encrypted sync. The server only ever stores opaque blobs; see
+// docs/sync-protocol.md for the wire format and scripts/sync-server.mjs for a reference server.
+
+const SYNC_META_KEY = 'sync';
+const PROTOCOL_PATH = '/v1/vaults';
+const PBKDF2_ITERATIONS = 310_000;
+const PUSH_BATCH_SIZE = 200;
+const VAULT_ID_PATTERN = /^[A-Za-z0-9_-]{8,128}$/;
+
+export interface SyncSettings {
+  endpoint: string;
+  vaultId: string;
+}
+
+interface StoredSyncConfig extends SyncSettings {
+  /** Non-extractable AES-GCM key; the passphrase itself is never stored. */
+  key: CryptoKey;
+  cursor: number;
+  lastSyncedAt: string | null;
+  lastError: SyncProblem | null;
+}
+
+export interface SyncStatus extends SyncSettings {
+  lastSyncedAt: string | null;
+  lastError: SyncProblem | null;
+  pending: number;
+}
+
+export type SyncProblem =
+  | 'missingSettings'
+  | 'badVaultId'
+  | 'shortPassphrase'
+  | 'notSetUp'
+  | 'unreachable'
+  | 'serverError'
+  | 'wrongPassphrase'
+  | 'failed';
+
+/** Thrown by the sync functions; `problem` lets the sync panel explain it in the reader's language. */
+export class SyncError extends Error {
+  constructor(
+    readonly problem: SyncProblem,
+    message: string
+  ) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+}
+
+/** Plaintext of one encrypted change. */
+interface ChangePayload {
+  id: string;
+  entry: LogEntry | null;
+  tombstone: Tombstone | null;
+}
+
+interface WireChange {
+  seq?: number;
+  iv: string;
+  ciphertext: string;
+}
+
+interface PullResponse {
+  changes: WireChange[];
+  cursor: number;
+  hasMore?: boolean;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+export function createVaultId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function deriveKey(passphrase: string, vaultId: string): Promise<CryptoKey> {
+  const encoder = new TextEncoder();
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, [
+    'deriveKey'
+  ]);
+  return crypto.subtle.deriveKey(
+    {
+      name: 'PBKDF2',
+      salt: encoder.encode(`localplate-sync:${vaultId}`),
+      iterations: PBKDF2_ITERATIONS,
+      hash: 'SHA-256'
+    },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function encryptChange(key: CryptoKey, payload: ChangePayload): Promise<WireChange> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(payload));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+  return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+}
+
+async function decryptChange(key: CryptoKey, change: WireChange): Promise<ChangePayload> {
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(change.iv) },
+      key,
+      fromBase64(change.ciphertext)
+    );
+    return JSON.parse(new TextDecoder().decode(plaintext)) as ChangePayload;
+  } catch {
+    throw new SyncError('wrongPassphrase', 'Could not decrypt synced data. Check the passphrase for this vault.');
+  }
+}
+
+const changedAt = (change: IncomingChange) =>
+  change.entry
+    ? change.entry.updatedAt ?? change.entry.createdAt
+    : change.tombstone?.deletedAt ?? '';
+
+/**
+ * Last writer wins on the change timestamp. Ties go to the deletion, then to the larger
+ * serialized entry, so every device settles on the same copy whatever order changes arrive in.
+ */
+export function incomingWins(incoming: IncomingChange, local: IncomingChange): boolean {
+  if (!local.entry && !local.tombstone) return true;
+
+  const incomingAt = changedAt(incoming);
+  const localAt = changedAt(local);
+  if (incomingAt !== localAt) return incomingAt > localAt;
+
+  if (!incoming.entry || !local.entry) return !incoming.entry && Boolean(local.entry);
+  return JSON.stringify(incoming.entry) > JSON.stringify(local.entry);
+}
+
+function vaultUrl({ endpoint, vaultId }: SyncSettings) {
+  return `${endpoint.replace(/\/+$/, '')}${PROTOCOL_PATH}/${encodeURIComponent(vaultId)}/changes`;
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init?.headers }
+    });
+  } catch {
+    throw new SyncError('unreachable', 'Could not reach the sync server.');
+  }
+  if (!response.ok) {
+    throw new SyncError('serverError', `Sync server responded with ${response.status}.`);
+  }
+  return (await response.json()) as T;
+}
+
+async function pull(config: StoredSyncConfig): Promise<{ pulled: number; cursor: number }> {
+  let cursor = config.cursor;
+  let pulled = 0;
+
+  for (;;) {
+    const page = await request<PullResponse>(`${vaultUrl(config)}?since=${cursor}`);
+    const payloads = await Promise.all(page.changes.map((change) => decryptChange(config.key, change)));
+    pulled += await applyIncomingChanges(payloads, incomingWins);
+    cursor = page.cursor;
+    if (!page.hasMore || page.changes.length === 0) break;
+  }
+
+  return { pulled, cursor };
+}
+
+async function push(config: StoredSyncConfig, pending: PendingChange[]): Promise<number> {
+  for (let start = 0; start < pending.length; start += PUSH_BATCH_SIZE) {
+    const batch = pending.slice(start, start + PUSH_BATCH_SIZE);
+    const changes = await Promise.all(
+      batch.map(({ id, entry, tombstone }) => encryptChange(config.key, { id, entry, tombstone }))
+    );
+    await request(vaultUrl(config), { method: 'POST', body: JSON.stringify({ changes }) });
+    await clearPendingChanges(batch);
+  }
+  return pending.length;
+}
+
+export async function getSyncStatus(): Promise<SyncStatus | null> {
+  const config = await getMeta<StoredSyncConfig>(SYNC_META_KEY);
+  if (!config) return null;
+  return {
+    endpoint: config.endpoint,
+    vaultId: config.vaultId,
+    lastSyncedAt: config.lastSyncedAt,
+    lastError: config.lastError,
+    pending: await countPendingChanges()
+  };
+}
+
+/**
+ * Pulls remote changes and pushes the local outbox. Changes made offline simply stay queued
+ * until the next successful run.
+ */
+export async function syncNow(): Promise<SyncResult> {
+  const config = await getMeta<StoredSyncConfig>(SYNC_META_KEY);
+  if (!config) {
+    throw new SyncError('notSetUp', 'Sync is not set up on this device.');
+  }
+
+  try {
+    // Pull first so a stale local edit never overwrites a newer one from another device.
+    const { pulled, cursor } = await pull(config);
+    const pending = await listPendingChanges();
+    const pushed = await push(config, pending);
+    await putMeta<StoredSyncConfig>(SYNC_META_KEY, {
+      ...config,
+      cursor,
+      lastSyncedAt: new Date().toISOString(),
+      lastError: null
+    });
+    return { pushed, pulled };
+  } catch (error) {
+    const problem = error instanceof SyncError ? error.problem : 'failed';
+    await putMeta<StoredSyncConfig>(SYNC_META_KEY, { ...config, lastError: problem });
+    throw error;
+  }
+}
+
+export async function enableSync(settings: SyncSettings & { passphrase: string }): Promise<SyncResult> {
+  const endpoint = settings.endpoint.trim();
+  const vaultId = settings.vaultId.trim();
+  if (!endpoint || !vaultId) {
+    throw new SyncError('missingSettings', 'Enter a server address and a vault id.');
+  }
+  if (!VAULT_ID_PATTERN.test(vaultId)) {
+    throw new SyncError('badVaultId', 'A vault id is 8 to 128 letters, digits, dashes or underscores.');
+  }
+  if (settings.passphrase.length < 8) {
+    throw new SyncError('shortPassphrase', 'Use a passphrase of at least 8 characters.');
+  }
+
+  const key = await deriveKey(settings.passphrase, vaultId);
+  const config: StoredSyncConfig = { endpoint, vaultId, key, cursor: 0, lastSyncedAt: null, lastError: null };
+
+  // Decrypting an existing vault up front catches a wrong passphrase before anything is uploaded.
+  const probe = await request<PullResponse>(`${vaultUrl(config)}?since=0`);
+  if (probe.changes.length > 0) {
+    await decryptChange(key, probe.changes[0]);
+  }
+
+  await putMeta(SYNC_META_KEY, config);
+  await queueAllLogs();
+  return syncNow();
+}
+
+export async function disableSync(): Promise<void> {
+  await deleteMeta(SYNC_META_KEY);
+}
@@ -0,0 +1,110 @@
+import type { MacroTotals } from './utils';
+
+export type Sex = 'female' | 'male';
+export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active' | 'athlete';
+export type GoalType = 'cut' | 'maintain' | 'bulk';
+
+export type MacroTargets = MacroTotals;
+export type MacroKey = keyof MacroTargets;
+
+export interface GoalProfile {
+  /** Household member these targets belong to; see `lib/profiles`. */
+  profileId: string;
+  /** First date key (`YYYY-MM-DD`) these targets apply to. */
+  effectiveFrom: string;
+  weightKg: number;
+  heightCm: number;
+  age: number;
+  sex: Sex;
+  activity: ActivityLevel;
+  goal: GoalType;
+  /** When set, these targets are used as-is instead of the computed ones. */
+  manual: MacroTargets | null;
+  updatedAt: string;
+}
+
+export const DEFAULT_TARGETS: MacroTargets = {
+  calories: 2000,
+  protein: 125,
+  carbs: 200,
+  fats: 78
+};
+
+/** In the order the plan editor offers them; labels are the `activity.*` messages. */
+export const ACTIVITY_LEVELS: ActivityLevel[] = ['sedentary', 'light', 'moderate', 'active', 'athlete'];
+
+/** In the order the plan editor offers them; labels are the `goal.*` messages. */
+export const GOAL_TYPES: GoalType[] = ['cut', 'maintain', 'bulk'];
+
+const ACTIVITY_MULTIPLIERS: Record<ActivityLevel, number> = {
+  sedentary: 1.2,
+  light: 1.375,
+  moderate: 1.55,
+  active: 1.725,
+  athlete: 1.9
+};
+
+const GOAL_CALORIE_DELTA: Record<GoalType, number> = {
+  cut: -500,
+  maintain: 0,
+  bulk: 300
+};
+
+const PROTEIN_PER_KG: Record<GoalType, number> = {
+  cut: 2,
+  maintain: 1.6,
+  bulk: 1.8
+};
+
+const FAT_SHARE = 0.25;
+const MIN_CALORIES = 1200;
+
+/** Mifflin-St Jeor resting energy in kcal/day. */
+export function basalMetabolicRate(profile: Pick<GoalProfile, 'weightKg' | 'heightCm' | 'age' | 'sex'>): number {
+  const base = 10 * profile.weightKg + 6.25 * profile.heightCm - 5 * profile.age;
+  return profile.sex === 'male' ? base + 5 : base - 161;
+}
+
+export function computeTargets(profile: GoalProfile): MacroTargets {
+  if (profile.manual) {
+    return profile.manual;
+  }
+
+  const maintenance = basalMetabolicRate(profile) * ACTIVITY_MULTIPLIERS[profile.activity];
+  const calories = Math.max(MIN_CALORIES, Math.round((maintenance + GOAL_CALORIE_DELTA[profile.goal]) / 10) * 10);
+  const protein = Math.round(profile.weightKg * PROTEIN_PER_KG[profile.goal]);
+  const fats = Math.round((calories * FAT_SHARE) / 9);
+  const carbs = Math.max(0, Math.round((calories - protein * 4 - fats * 9) / 4));
+
+  return { calories, protein, carbs, fats };
+}
+
+/** Picks the profile in force on `dateKey` from an unsorted list, mirroring `getGoalProfileForDate`. */
+export function resolveGoalProfile(profiles: GoalProfile[], dateKey: string): GoalProfile | null {
+  return profiles.reduce<GoalProfile | null>((best, profile) => {
+    if (profile.effectiveFrom > dateKey) return best;
+    return !best || profile.effectiveFrom > best.effectiveFrom ? profile : best;
+  }, null);
+}
+
+export function targetsForDate(profiles: GoalProfile[], dateKey: string): MacroTargets {
+  const profile = resolveGoalProfile(profiles, dateKey);
+  return profile ? computeTargets(profile) : DEFAULT_TARGETS;
+}
+
+export interface MacroProgress {
+  /** Share of the target consumed, clamped to 0..1 for progress bars. */
+  ratio: number;
+  /** Positive while under target, negative once over budget. */
+  remaining: number;
+  over: boolean;
+}
+
+export function macroProgress(consumed: number, target: number): MacroProgress {
+  const remaining = Number((target - consumed).toFixed(1));
+  return {
+    ratio: target > 0 ? Math.min(1, Math.max(0, consumed / target)) : 0,
+    remaining,
+    over: remaining < 0
+  };
+}
@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { JournalRecord, LogEntry } from './db';
+import { EMPTY_HISTORY, recordChanges, redoStep, undoStep } from './undo';
+
+/**
+ * Undo and redo bookkeeping. Run with a TypeScript loader, e.g.
+ * `node -r sucrase/register/ts --test lib/undo.test.ts`.
+ */
+
+let seq = 0;
+
+const record = (op: JournalRecord['op'], entryId: string): JournalRecord => {
+  const entry = { id: entryId, profileId: 'default', dateKey: '2026-10-19' } as LogEntry;
+  seq += 1;
+  return {
+    seq,
+    at: '2026-10-19T08:00:00.000Z',
+    op,
+    source: 'app',
+    entryId,
+    profileId: 'default',
+    days: ['default/2026-10-19'],
+    before: op === 'create' ? null : entry,
+    after: op === 'delete' ? null : entry
+  };
+};
+
+describe('undo history', () => {
+  it('undoes the latest batch and redoes it again', () => {
+    const first = [record('create', 'a')];
+    const second = [record('update', 'a')];
+    const history = recordChanges(recordChanges(EMPTY_HISTORY, first), second);
+
+    const undone = undoStep(history)!;
+    assert.equal(undone.changes, second);
+    assert.deepEqual(undone.history, { undo: [first], redo: [second] });
+
+    const redone = redoStep(undone.history)!;
+    assert.equal(redone.changes, second);
+    assert.deepEqual(redone.history, history);
+  });
+
+  it('undoes a chosen batch under later ones, as the delete toast does', () => {
+    const deleted = [record('delete', 'a')];
+    const later = [record('create', 'b')];
+    const history = recordChanges(recordChanges(EMPTY_HISTORY, deleted), later);
+
+    const undone = undoStep(history, deleted)!;
+    assert.equal(undone.changes, deleted);
+    assert.deepEqual(undone.history.undo, [later]);
+  });
+
+  it('clears redo when a new change is made', () => {
+    const first = [record('create', 'a')];
+    const undone = undoStep(recordChanges(EMPTY_HISTORY, first))!;
+    const next = recordChanges(undone.history, [record('create', 'b')]);
+    assert.equal(redoStep(next), null);
+  });
+
+  it('has nothing to undo or redo after an import resets it', () => {
+    const deleted = [record('delete', 'a')];
+    const undone = undoStep(recordChanges(recordChanges(EMPTY_HISTORY, deleted), [record('create', 'b')]))!;
+    assert.equal(undone.history.redo.length, 1);
+
+    // What the page does once a restored backup or a sync pull has replaced the stored data.
+    const history = EMPTY_HISTORY;
+    assert.equal(undoStep(history), null);
+    assert.equal(undoStep(history, deleted), null);
+    assert.equal(redoStep(history), null);
+  });
+});
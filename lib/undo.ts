@@ -0,0 +1,41 @@
+import type { JournalRecord } from './db';
+
+/** Batches of journal records, one per user action, for undo and redo in this session. */
+export interface UndoHistory {
+  undo: JournalRecord[][];
+  redo: JournalRecord[][];
+}
+
+/**
+ * Where a session starts, and where it restarts whenever the stored data is replaced under it
+ * (another profile, a restored backup, a sync pull), so undo never replays changes it can't see.
+ */
+export const EMPTY_HISTORY: UndoHistory = { undo: [], redo: [] };
+
+/** A new action: it can be undone, and whatever was undone before it can no longer be redone. */
+export function recordChanges(history: UndoHistory, changes: JournalRecord[]): UndoHistory {
+  return { undo: [...history.undo, changes], redo: [] };
+}
+
+/**
+ * The batch to undo and the history after it, or null when there is nothing to undo. `changes`
+ * picks a batch other than the latest, e.g. the delete a toast announced; it must still be in
+ * the history.
+ */
+export function undoStep(
+  history: UndoHistory,
+  changes: JournalRecord[] | undefined = history.undo[history.undo.length - 1]
+): { changes: JournalRecord[]; history: UndoHistory } | null {
+  if (!changes || !history.undo.includes(changes)) return null;
+  return {
+    changes,
+    history: { undo: history.undo.filter((batch) => batch !== changes), redo: [...history.redo, changes] }
+  };
+}
+
+/** The batch to redo and the history after it, or null when there is nothing to redo. */
+export function redoStep(history: UndoHistory): { changes: JournalRecord[]; history: UndoHistory } | null {
+  const changes = history.redo[history.redo.length - 1];
+  if (!changes) return null;
+  return { changes, history: { undo: [...history.undo, changes], redo: history.redo.slice(0, -1) } };
+}
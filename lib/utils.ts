@@ -0,0 +1,64 @@
+export interface MacroTotals {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fats: number;
+}
+
+type MacroSource = Pick<MacroTotals, 'calories' | 'protein' | 'carbs' | 'fats'>;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/** Local calendar day as `YYYY-MM-DD`, the key every log entry is grouped by. */
+export function formatDateKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Shifts a `YYYY-MM-DD` key by whole calendar days. Works at noon so DST shifts never skip a day. */
+export function addDays(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return formatDateKey(new Date(year, month - 1, day + days, 12));
+}
+
+export function sumMacros(entries: MacroSource[]): MacroTotals {
+  const totals = entries.reduce<MacroTotals>(
+    (acc, entry) => ({
+      calories: acc.calories + entry.calories,
+      protein: acc.protein + entry.protein,
+      carbs: acc.carbs + entry.carbs,
+      fats: acc.fats + entry.fats
+    }),
+    { calories: 0, protein: 0, carbs: 0, fats: 0 }
+  );
+
+  return {
+    calories: Math.round(totals.calories),
+    protein: Number(totals.protein.toFixed(1)),
+    carbs: Number(totals.carbs.toFixed(1)),
+    fats: Number(totals.fats.toFixed(1))
+  };
+}
+
+export function uid(prefix = 'id'): string {
+  const random = Math.random().toString(36).slice(2, 8);
+  return `${prefix}-${Date.now().toString(36)}-${random}`;
+}
+
+/** Multiplies a macro set by `factor`, using the same rounding as logged entries. */
+export function scaleMacros(source: MacroSource, factor: number): MacroTotals {
+  return {
+    calories: Math.round(source.calories * factor),
+    protein: Number((source.protein * factor).toFixed(1)),
+    carbs: Number((source.carbs * factor).toFixed(1)),
+    fats: Number((source.fats * factor).toFixed(1))
+  };
+}
+
+/** Splits free-text tags on commas into lowercase, hyphenated, de-duplicated tags. */
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(',')
+    .map((tag) => tag.trim().toLowerCase().replace(/\s+/g, '-'))
+    .filter(Boolean);
+  return Array.from(new Set(tags));
+}
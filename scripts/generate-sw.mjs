@@ -0,0 +1,59 @@
+#!/usr/bin/env node
+// Writes public/sw.js for the current production build.
+//
+//   next build && node scripts/generate-sw.mjs && next start
+//
+// The cache version is derived from the Next.js build id plus the precache list, so every
+// deploy gets a fresh cache and the old one is removed when the new worker activates.
+
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync, readdirSync, statSync, writeFileSync } from "node:fs";
+import { join, relative, sep } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = fileURLToPath(new URL("..", import.meta.url));
+const nextDir = join(root, ".next");
+const publicDir = join(root, "public");
+
+// Routes rendered by the app itself that the shell needs offline.
+const APP_ROUTES = ["/", "/report", "/manifest.webmanifest"];
+
+function walk(dir) {
+  return readdirSync(dir).flatMap((name) => {
+    const path = join(dir, name);
+    return statSync(path).isDirectory() ? walk(path) : [path];
+  });
+}
+
+const toUrl = (base, prefix, file) => `${prefix}/${relative(base, file).split(sep).join("/")}`;
+
+if (!existsSync(join(nextDir, "BUILD_ID"))) {
+  console.error("No production build found. Run `next build` first.");
+  process.exit(1);
+}
+
+const buildId = readFileSync(join(nextDir, "BUILD_ID"), "utf8").trim();
+const staticDir = join(nextDir, "static");
+
+const staticUrls = walk(staticDir)
+  .filter((file) => !file.endsWith(".map"))
+  .map((file) => toUrl(staticDir, "/_next/static", file));
+
+const publicUrls = walk(publicDir)
+  .filter((file) => !file.endsWith(`${sep}sw.js`))
+  .map((file) => toUrl(publicDir, "", file));
+
+const precacheUrls = [...APP_ROUTES, ...publicUrls, ...staticUrls.sort()];
+const version = createHash("sha256")
+  .update(buildId)
+  .update(precacheUrls.join("\n"))
+  .digest("hex")
+  .slice(0, 12);
+
+const template = readFileSync(join(root, "scripts", "sw-template.js"), "utf8");
+const output = template
+  .replace("__CACHE_VERSION__", version)
+  .replace("__PRECACHE_URLS__", JSON.stringify(precacheUrls, null, 2));
+
+writeFileSync(join(publicDir, "sw.js"), output);
+console.log(`Wrote public/sw.js (cache ${version}, ${precacheUrls.length} URLs precached)`);
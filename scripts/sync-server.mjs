@@ -0,0 +1,118 @@
+#!/usr/bin/env node
+// Reference sync server for LocalPlate. It stores encrypted change blobs per vault and never
+// sees a key or any plaintext. See docs/sync-protocol.md.
+//
+//   node scripts/sync-server.mjs            # listens on :8787, data in ./.sync-data
+//   PORT=9000 SYNC_DATA_DIR=/srv/plate node scripts/sync-server.mjs
+//
+// Good enough for a home server or a laptop on the same network; put it behind HTTPS before
+// exposing it to the internet.
+
+import { createServer } from "node:http";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DATA_DIR = process.env.SYNC_DATA_DIR ?? join(process.cwd(), ".sync-data");
+const PAGE_SIZE = 500;
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const VAULT_PATTERN = /^\/v1\/vaults\/([A-Za-z0-9_-]{8,128})\/changes$/;
+
+mkdirSync(DATA_DIR, { recursive: true });
+
+const vaults = new Map();
+
+function loadVault(id) {
+  if (!vaults.has(id)) {
+    const file = join(DATA_DIR, `${id}.json`);
+    vaults.set(id, existsSync(file) ? JSON.parse(readFileSync(file, "utf8")) : { changes: [] });
+  }
+  return vaults.get(id);
+}
+
+function saveVault(id, vault) {
+  const file = join(DATA_DIR, `${id}.json`);
+  writeFileSync(`${file}.tmp`, JSON.stringify(vault));
+  renameSync(`${file}.tmp`, file);
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+    "Content-Type": "application/json"
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on("data", (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("Body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+const isBlob = (change) =>
+  change && typeof change.iv === "string" && typeof change.ciphertext === "string";
+
+const server = createServer(async (req, res) => {
+  if (req.method === "OPTIONS") {
+    send(res, 204);
+    return;
+  }
+
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const match = url.pathname.match(VAULT_PATTERN);
+  if (!match) {
+    send(res, 404, { error: "Not found" });
+    return;
+  }
+
+  const vaultId = match[1];
+  const vault = loadVault(vaultId);
+
+  try {
+    if (req.method === "GET") {
+      const since = Math.max(0, Number(url.searchParams.get("since") ?? 0) || 0);
+      const changes = vault.changes.filter((change) => change.seq > since).slice(0, PAGE_SIZE);
+      const cursor = changes.length > 0 ? changes[changes.length - 1].seq : Math.max(since, vault.changes.length);
+      send(res, 200, { changes, cursor, hasMore: cursor < vault.changes.length });
+      return;
+    }
+
+    if (req.method === "POST") {
+      const body = JSON.parse(await readBody(req));
+      if (!Array.isArray(body.changes) || !body.changes.every(isBlob)) {
+        send(res, 400, { error: "Expected { changes: [{ iv, ciphertext }] }" });
+        return;
+      }
+      body.changes.forEach(({ iv, ciphertext }) => {
+        vault.changes.push({ seq: vault.changes.length + 1, iv, ciphertext });
+      });
+      saveVault(vaultId, vault);
+      send(res, 200, { cursor: vault.changes.length });
+      return;
+    }
+
+    send(res, 405, { error: "Method not allowed" });
+  } catch (error) {
+    console.error("Failed to handle sync request", error);
+    send(res, 400, { error: "Bad request" });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`LocalPlate sync server on http://localhost:${PORT} (data in ${DATA_DIR})`);
+});
@@ -0,0 +1,143 @@
+#!/usr/bin/env node
+// Checks data/catalogue.json before it ships.
+//
+//   node scripts/validate-catalogue.mjs
+//   node scripts/validate-catalogue.mjs --previous /tmp/catalogue-old.json
+//
+// With --previous, every id from the older file must still exist as an id or a `formerIds`
+// entry, so food ids stored in people's logs keep resolving after the update.
+
+import { readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+
+const CATALOGUE_PATH = fileURLToPath(new URL("../data/catalogue.json", import.meta.url));
+
+// Energy from protein, carbs and fat (4/4/9 kcal per gram) may differ from the stated calories
+// by this share or this many kcal per 100 g, whichever is larger. Fibre and rounding explain the rest.
+const KCAL_TOLERANCE_RATIO = 0.1;
+const KCAL_TOLERANCE_ABS = 15;
+
+const ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const VERSION_PATTERN = /^\d{4}\.\d{1,2}\.\d+$/;
+const MICRO_KEYS = ["fibre", "sugar", "sodium", "iron", "calcium"];
+const MACRO_KEYS = ["calories", "protein", "carbs", "fats"];
+// Languages food names are translated into; keep in step with LOCALES in lib/i18n.ts.
+const NAME_LOCALES = ["hi", "ta", "bn", "ur"];
+
+const errors = [];
+const warnings = [];
+
+const isNonEmptyString = (value) => typeof value === "string" && value.trim().length > 0;
+const isNonNegative = (value) => typeof value === "number" && Number.isFinite(value) && value >= 0;
+const isPositive = (value) => isNonNegative(value) && value > 0;
+const isStringArray = (value) => Array.isArray(value) && value.every(isNonEmptyString);
+
+function readJson(path) {
+  try {
+    return JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    console.error(`Could not read ${path}: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+function checkFood(food, index, catalogue) {
+  const label = isNonEmptyString(food?.id) ? food.id : `foods[${index}]`;
+  const fail = (message) => errors.push(`${label}: ${message}`);
+
+  if (!isNonEmptyString(food?.id) || !ID_PATTERN.test(food.id)) fail("id must be lower-case kebab-case");
+  if (!isNonEmptyString(food.name)) fail("name is required");
+  Object.entries(food.names ?? {}).forEach(([locale, name]) => {
+    if (!NAME_LOCALES.includes(locale)) fail(`names has unknown language "${locale}"`);
+    else if (!isNonEmptyString(name)) fail(`names.${locale} must be a non-empty string`);
+  });
+  if (!isNonEmptyString(food.description)) fail("description is required");
+  if (!(food.source in catalogue.sources)) fail(`unknown source "${food.source}"`);
+  if (!Array.isArray(food.regions) || food.regions.some((region) => !(region in catalogue.regions))) {
+    fail("regions must list keys of the top-level regions map");
+  }
+  if (!isStringArray(food.tags)) fail("tags must be an array of strings");
+  if (!isStringArray(food.locale) || food.locale.length === 0) fail("locale needs at least one place");
+  if (!isStringArray(food.aliases)) fail("aliases must be an array of strings");
+
+  const per100g = food.per100g ?? {};
+  const missingMacro = MACRO_KEYS.find((key) => !isNonNegative(per100g[key]));
+  if (missingMacro) {
+    fail(`per100g.${missingMacro} must be a number >= 0`);
+  } else {
+    const { calories, protein, carbs, fats } = per100g;
+    const estimated = protein * 4 + carbs * 4 + fats * 9;
+    const allowed = Math.max(calories * KCAL_TOLERANCE_RATIO, KCAL_TOLERANCE_ABS);
+    if (Math.abs(estimated - calories) > allowed) {
+      fail(`${calories} kcal per 100 g, but 4/4/9 on its macros gives ${Math.round(estimated)} kcal`);
+    }
+    if (protein + carbs + fats > 100) fail("protein, carbs and fats add up to more than 100 g per 100 g");
+  }
+
+  Object.entries(per100g.micros ?? {}).forEach(([key, value]) => {
+    if (!MICRO_KEYS.includes(key)) fail(`unknown micronutrient "${key}"`);
+    else if (!isNonNegative(value)) fail(`per100g.micros.${key} must be a number >= 0`);
+  });
+  if (!per100g.micros) warnings.push(`${label}: no micronutrients`);
+
+  const serving = food.serving ?? {};
+  if (!isPositive(serving.quantity) || !isNonEmptyString(serving.unit) || !isPositive(serving.grams)) {
+    fail("serving needs a quantity, a unit and its weight in grams");
+  }
+  (food.portions ?? []).forEach((portion, portionIndex) => {
+    if (!isNonEmptyString(portion?.unit) || !isPositive(portion.grams)) {
+      fail(`portions[${portionIndex}] needs a unit and grams > 0`);
+    }
+  });
+  if (food.formerIds !== undefined && !isStringArray(food.formerIds)) fail("formerIds must be an array of strings");
+}
+
+function checkIds(foods) {
+  const owners = new Map();
+  foods.forEach((food) => {
+    [food.id, ...(food.formerIds ?? [])].forEach((id) => {
+      if (owners.has(id)) {
+        const owner = owners.get(id);
+        errors.push(owner === food.id ? `duplicate id "${id}"` : `id "${id}" used by both ${owner} and ${food.id}`);
+      } else {
+        owners.set(id, food.id);
+      }
+    });
+  });
+  return owners;
+}
+
+const catalogue = readJson(CATALOGUE_PATH);
+
+if (!VERSION_PATTERN.test(catalogue.version ?? "")) errors.push("version must look like 2026.10.0");
+if (!isNonEmptyString(catalogue.updated)) errors.push("updated date is required");
+if (!catalogue.sources || typeof catalogue.sources !== "object") errors.push("sources map is required");
+if (!catalogue.regions || typeof catalogue.regions !== "object") errors.push("regions map is required");
+if (!Array.isArray(catalogue.foods) || catalogue.foods.length === 0) errors.push("foods must be a non-empty array");
+
+if (errors.length === 0) {
+  catalogue.foods.forEach((food, index) => checkFood(food, index, catalogue));
+  const owners = checkIds(catalogue.foods);
+
+  const previousFlag = process.argv.indexOf("--previous");
+  if (previousFlag !== -1) {
+    const previous = readJson(process.argv[previousFlag + 1]);
+    (previous.foods ?? []).forEach((food) => {
+      if (!owners.has(food.id)) {
+        errors.push(`${food.id}: removed since ${previous.version}; keep it or list it in another food's formerIds`);
+      }
+    });
+    if (previous.version === catalogue.version) {
+      warnings.push(`version is still ${catalogue.version}; bump it when the data changes`);
+    }
+  }
+}
+
+warnings.forEach((warning) => console.warn(`warn  ${warning}`));
+errors.forEach((error) => console.error(`error ${error}`));
+
+if (errors.length > 0) {
+  console.error(`\n${errors.length} problem(s) in data/catalogue.json`);
+  process.exit(1);
+}
+console.log(`data/catalogue.json ${catalogue.version}: ${catalogue.foods.length} foods OK`);